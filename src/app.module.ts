@@ -1,9 +1,16 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
-import { ThrottlerModule } from '@nestjs/throttler';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { APP_FILTER } from '@nestjs/core';
+import { ThrottlerModule, ThrottlerModuleOptions } from '@nestjs/throttler';
 
+import { AuthModule } from './auth/auth.module';
+import { ProblemDetailsFilter } from './common/filters/problem-details.filter';
+import { createThrottlerStorage } from './common/throttler/throttler-storage.factory';
 import { DiscoveryModule } from './discovery/discovery.module';
 import { HealthModule } from './health/health.module';
+import { LoggingModule } from './logging/logging.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { UsersModule } from './users/users.module';
 import { configuration } from './config/configuration';
 
 /**
@@ -20,30 +27,44 @@ import { configuration } from './config/configuration';
       cache: true,
     }),
     
-    // Rate limiting module to prevent abuse
-    ThrottlerModule.forRoot([
-      {
-        name: 'short',
-        ttl: 1000, // 1 second
-        limit: 10, // 10 requests per second
-      },
-      {
-        name: 'medium',
-        ttl: 60000, // 1 minute
-        limit: 100, // 100 requests per minute
-      },
-      {
-        name: 'long',
-        ttl: 900000, // 15 minutes
-        limit: 1000, // 1000 requests per 15 minutes
-      },
-    ]),
+    // Rate limiting module to prevent abuse; API key plans override these limits per key
+    ThrottlerModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): ThrottlerModuleOptions => ({
+        throttlers: [
+          {
+            name: 'short',
+            ttl: 1000, // 1 second
+            limit: 10, // 10 requests per second
+          },
+          {
+            name: 'medium',
+            ttl: configService.get<number>('rateLimitTtl', 60) * 1000, // RATE_LIMIT_TTL seconds
+            limit: configService.get<number>('rateLimitMax', 100), // RATE_LIMIT_MAX requests per window
+          },
+          {
+            name: 'long',
+            ttl: 900000, // 15 minutes
+            limit: 1000, // 1000 requests per 15 minutes
+          },
+        ],
+        // Counters in process memory, or in Redis to share them between replicas
+        storage: createThrottlerStorage(configService),
+      }),
+    }),
     
     // Feature modules
+    AuthModule,
     DiscoveryModule,
     HealthModule,
+    LoggingModule,
+    MetricsModule,
+    UsersModule,
   ],
   controllers: [],
-  providers: [],
+  providers: [
+    // Every error is answered as an RFC 7807 problem
+    { provide: APP_FILTER, useClass: ProblemDetailsFilter },
+  ],
 })
 export class AppModule {} 
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MetricsModule } from '../metrics/metrics.module';
+import { ApiKeysController } from './controllers/api-keys.controller';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from './guards/api-key-throttler.guard';
+import { ApiKeysService } from './services/api-keys.service';
+import { apiKeyRepositoryProvider } from './repositories/api-key-repository.provider';
+
+/**
+ * Auth module containing API key authentication
+ * Provides key management endpoints and the guards that authenticate and
+ * rate limit requests by key
+ */
+@Module({
+  imports: [MetricsModule],
+  controllers: [ApiKeysController],
+  providers: [ApiKeyGuard, ApiKeyThrottlerGuard, ApiKeysService, apiKeyRepositoryProvider],
+  exports: [ApiKeyGuard, ApiKeyThrottlerGuard, ApiKeysService],
+})
+export class AuthModule {}
@@ -0,0 +1,142 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+import { ApiProblemResponses } from '../../common/decorators/api-problem-responses.decorator';
+import { ApiKeyNotFoundException } from '../../common/exceptions/domain.exceptions';
+import { VALIDATION_FAILED } from '../../common/exceptions/problem-details.dto';
+import { AdminOnly } from '../decorators/admin-only.decorator';
+import { ApiKeyGuard } from '../guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from '../guards/api-key-throttler.guard';
+import { ApiKeysService } from '../services/api-keys.service';
+import { ApiKeyDto, CreateApiKeyDto, CreatedApiKeyDto, UpdateApiKeyDto } from '../dto/api-key.dto';
+
+/**
+ * API keys controller for onboarding partner apps
+ * Every endpoint requires an admin key
+ */
+@ApiTags('auth')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Missing or invalid API key' })
+@ApiForbiddenResponse({ description: 'The API key is not an admin key' })
+@Controller('api-keys')
+@AdminOnly()
+@UseGuards(ApiKeyGuard, ApiKeyThrottlerGuard)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * Creates an API key
+   *
+   * @param dto - Name, plan and role
+   * @returns Created key, including the key itself
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create an API key',
+    description: 'Issues a key on the given plan. The key is only returned in this response; store it safely.',
+  })
+  @ApiResponse({ status: 201, description: 'API key created', type: CreatedApiKeyDto })
+  @ApiProblemResponses(VALIDATION_FAILED)
+  async createApiKey(@Body() dto: CreateApiKeyDto): Promise<CreatedApiKeyDto> {
+    return this.apiKeysService.create(dto);
+  }
+
+  /**
+   * Lists API keys
+   *
+   * @returns All keys, including revoked ones
+   */
+  @Get()
+  @ApiOperation({ summary: 'List API keys', description: 'Returns every key without its secret, including revoked keys.' })
+  @ApiResponse({ status: 200, description: 'API keys', type: [ApiKeyDto] })
+  async findApiKeys(): Promise<ApiKeyDto[]> {
+    return this.apiKeysService.findAll();
+  }
+
+  /**
+   * Gets an API key by ID
+   *
+   * @param id - Key ID
+   * @returns API key
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an API key' })
+  @ApiParam({ name: 'id', description: 'Key ID' })
+  @ApiResponse({ status: 200, description: 'API key found', type: ApiKeyDto })
+  @ApiProblemResponses(ApiKeyNotFoundException)
+  async getApiKey(@Param('id') id: string): Promise<ApiKeyDto> {
+    const apiKey = await this.apiKeysService.findById(id);
+
+    if (!apiKey) {
+      throw new ApiKeyNotFoundException(id);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Changes an API key's name, plan or role
+   *
+   * @param id - Key ID
+   * @param dto - Fields to change
+   * @returns Updated key
+   */
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update an API key',
+    description: 'Changes the name, plan or admin role of a key. Plan changes apply to the next request.',
+  })
+  @ApiParam({ name: 'id', description: 'Key ID' })
+  @ApiResponse({ status: 200, description: 'API key updated', type: ApiKeyDto })
+  @ApiProblemResponses(VALIDATION_FAILED, ApiKeyNotFoundException)
+  async updateApiKey(@Param('id') id: string, @Body() dto: UpdateApiKeyDto): Promise<ApiKeyDto> {
+    const apiKey = await this.apiKeysService.update(id, dto);
+
+    if (!apiKey) {
+      throw new ApiKeyNotFoundException(id);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Revokes an API key
+   *
+   * @param id - Key ID
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Revoke an API key',
+    description: 'Rejects the key from now on. Revoked keys stay listed with their revocation time.',
+  })
+  @ApiParam({ name: 'id', description: 'Key ID' })
+  @ApiResponse({ status: 204, description: 'API key revoked' })
+  @ApiProblemResponses(ApiKeyNotFoundException)
+  async revokeApiKey(@Param('id') id: string): Promise<void> {
+    const revoked = await this.apiKeysService.revoke(id);
+
+    if (!revoked) {
+      throw new ApiKeyNotFoundException(id);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+
+/**
+ * Metadata key marking routes that need an admin API key
+ */
+export const ADMIN_ONLY = 'apiKeys:adminOnly';
+
+/**
+ * Restricts a route or controller guarded by ApiKeyGuard to admin keys
+ *
+ * @returns Decorator setting the ADMIN_ONLY metadata
+ */
+export const AdminOnly = (): CustomDecorator => SetMetadata(ADMIN_ONLY, true);
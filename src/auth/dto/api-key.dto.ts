@@ -0,0 +1,80 @@
+import { IsBoolean, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ApiKeySummary,
+  ApiKeyTier,
+  CreatedApiKey,
+} from '../../common/interfaces/api-key.interface';
+
+/**
+ * Data Transfer Object for creating an API key
+ */
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Name of the partner app or owner',
+    example: 'CityGuide iOS',
+  })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name must not be empty' })
+  @MaxLength(100, { message: 'Name cannot exceed 100 characters' })
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Rate limit plan',
+    enum: ['free', 'partner', 'enterprise'],
+    default: 'free',
+  })
+  @IsOptional()
+  @IsIn(['free', 'partner', 'enterprise'], { message: 'tier must be free, partner or enterprise' })
+  tier?: ApiKeyTier;
+
+  @ApiPropertyOptional({
+    description: 'Whether the key may manage other keys',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'admin must be a boolean' })
+  admin?: boolean;
+}
+
+/**
+ * Data Transfer Object for changing an API key's name, plan or role
+ */
+export class UpdateApiKeyDto extends PartialType(CreateApiKeyDto) {}
+
+/**
+ * Data Transfer Object for an API key
+ */
+export class ApiKeyDto implements ApiKeySummary {
+  @ApiProperty({ description: 'Unique identifier for the key', example: '9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d' })
+  id: string;
+
+  @ApiProperty({ description: 'Name of the partner app or owner', example: 'CityGuide iOS' })
+  name: string;
+
+  @ApiProperty({ description: 'Rate limit plan', enum: ['free', 'partner', 'enterprise'], example: 'partner' })
+  tier: ApiKeyTier;
+
+  @ApiProperty({ description: 'Whether the key may manage other keys', example: false })
+  admin: boolean;
+
+  @ApiProperty({ description: 'First characters of the key', example: 'osx_Jx3k' })
+  prefix: string;
+
+  @ApiProperty({ description: 'Creation time (ISO 8601)', example: '2024-01-15T10:30:00.000Z' })
+  created_at: string;
+
+  @ApiPropertyOptional({ description: 'Revocation time (ISO 8601); revoked keys are rejected', example: '2024-02-01T09:00:00.000Z' })
+  revoked_at?: string;
+}
+
+/**
+ * Data Transfer Object for a newly created API key
+ */
+export class CreatedApiKeyDto extends ApiKeyDto implements CreatedApiKey {
+  @ApiProperty({
+    description: 'The key to send in the X-API-Key header; it is only shown once',
+    example: 'osx_Jx3kQ0c9mZ2vT7yLr4WbN8eH1sFdA6uP',
+  })
+  key: string;
+}
@@ -0,0 +1,62 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  InjectThrottlerOptions,
+  InjectThrottlerStorage,
+  ThrottlerException,
+  ThrottlerGenerateKeyFunction,
+  ThrottlerGetTrackerFunction,
+  ThrottlerGuard,
+  ThrottlerModuleOptions,
+  ThrottlerOptions,
+  ThrottlerStorage,
+} from '@nestjs/throttler';
+import { MetricsInterceptor } from '../../metrics/metrics.interceptor';
+import { MetricsService } from '../../metrics/metrics.service';
+import { ApiKeyRequest } from './api-key.guard';
+
+/**
+ * Rate limiting by API key
+ * Requests authenticated by ApiKeyGuard are counted per key rather than per IP,
+ * and the key's plan overrides the limit of each throttler bucket it defines.
+ * Must be listed after ApiKeyGuard; anonymous requests keep the global limits.
+ * Rejections are counted in the throttler_rejections_total metric
+ */
+@Injectable()
+export class ApiKeyThrottlerGuard extends ThrottlerGuard {
+  constructor(
+    @InjectThrottlerOptions() options: ThrottlerModuleOptions,
+    @InjectThrottlerStorage() storageService: ThrottlerStorage,
+    reflector: Reflector,
+    private readonly metricsService: MetricsService,
+  ) {
+    super(options, storageService, reflector);
+  }
+
+  protected async getTracker(request: Record<string, unknown>): Promise<string> {
+    const { apiKey } = request as Partial<ApiKeyRequest>;
+    return apiKey ? `api-key:${apiKey.id}` : super.getTracker(request);
+  }
+
+  protected async handleRequest(
+    context: ExecutionContext,
+    limit: number,
+    ttl: number,
+    throttler: ThrottlerOptions,
+    getTracker: ThrottlerGetTrackerFunction,
+    generateKey: ThrottlerGenerateKeyFunction,
+  ): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ApiKeyRequest>();
+    const throttlerName = throttler.name ?? 'default';
+    const tierLimit = request.apiKey?.limits[throttlerName];
+
+    try {
+      return await super.handleRequest(context, tierLimit ?? limit, ttl, throttler, getTracker, generateKey);
+    } catch (error) {
+      if (error instanceof ThrottlerException) {
+        this.metricsService.recordThrottled(MetricsInterceptor.routeOf(request), throttlerName);
+      }
+      throw error;
+    }
+  }
+}
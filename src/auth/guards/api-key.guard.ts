@@ -0,0 +1,71 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthenticatedApiKey } from '../../common/interfaces/api-key.interface';
+import { ADMIN_ONLY } from '../decorators/admin-only.decorator';
+import { ApiKeysService } from '../services/api-keys.service';
+
+/**
+ * Request authenticated by ApiKeyGuard
+ */
+export interface ApiKeyRequest extends Request {
+  /** Key the request was made with; unset for anonymous requests */
+  apiKey?: AuthenticatedApiKey;
+}
+
+/**
+ * Authenticates requests by their X-API-Key header
+ * A valid key is attached to the request for ApiKeyThrottlerGuard. Requests
+ * without a key pass as anonymous unless `apiKeys.required` is set or the
+ * route is marked @AdminOnly(); unknown or revoked keys are always rejected
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  /** Request header carrying the key */
+  static readonly HEADER = 'x-api-key';
+
+  private readonly required: boolean;
+
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly reflector: Reflector,
+    configService: ConfigService,
+  ) {
+    this.required = configService.get<boolean>('apiKeys.required', false);
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ApiKeyRequest>();
+    const adminOnly = this.reflector.getAllAndOverride<boolean>(ADMIN_ONLY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const header = request.headers[ApiKeyGuard.HEADER];
+    const key = Array.isArray(header) ? header[0] : header;
+
+    if (!key) {
+      if (this.required || adminOnly) {
+        throw new UnauthorizedException('An API key is required in the X-API-Key header');
+      }
+      return true;
+    }
+
+    const apiKey = await this.apiKeysService.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid or revoked API key');
+    }
+    if (adminOnly && !apiKey.admin) {
+      throw new ForbiddenException('This route requires an admin API key');
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+}
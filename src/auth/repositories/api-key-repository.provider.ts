@@ -0,0 +1,21 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKeyRepository } from './api-key.repository';
+import { InMemoryApiKeyRepository } from './in-memory-api-key.repository';
+import { FileApiKeyRepository } from './file-api-key.repository';
+
+/**
+ * Provides a file-backed ApiKeyRepository when `apiKeys.storeFile` is set,
+ * an in-memory one otherwise
+ */
+export const apiKeyRepositoryProvider: Provider = {
+  provide: ApiKeyRepository,
+  inject: [ConfigService],
+  useFactory: async (configService: ConfigService): Promise<ApiKeyRepository> => {
+    const storeFile = configService.get<string>('apiKeys.storeFile');
+
+    return storeFile
+      ? FileApiKeyRepository.fromFile(storeFile)
+      : new InMemoryApiKeyRepository();
+  },
+};
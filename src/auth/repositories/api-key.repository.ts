@@ -0,0 +1,37 @@
+import { ApiKey } from '../../common/interfaces/api-key.interface';
+
+/**
+ * Storage abstraction for API keys
+ */
+export abstract class ApiKeyRepository {
+  /**
+   * Retrieves all keys, including revoked ones
+   *
+   * @returns Array of all keys
+   */
+  abstract findAll(): Promise<ApiKey[]>;
+
+  /**
+   * Gets a key by ID
+   *
+   * @param id - Key ID
+   * @returns Key if found, null otherwise
+   */
+  abstract findById(id: string): Promise<ApiKey | null>;
+
+  /**
+   * Gets a key by the hash of its value
+   *
+   * @param keyHash - SHA-256 hash of the key (hex)
+   * @returns Key if found, null otherwise
+   */
+  abstract findByHash(keyHash: string): Promise<ApiKey | null>;
+
+  /**
+   * Creates or replaces a key
+   *
+   * @param apiKey - Key to store
+   * @returns Stored key
+   */
+  abstract save(apiKey: ApiKey): Promise<ApiKey>;
+}
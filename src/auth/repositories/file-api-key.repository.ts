@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { ApiKey } from '../../common/interfaces/api-key.interface';
+import { FileUtil } from '../../common/utils/file.util';
+import { InMemoryApiKeyRepository } from './in-memory-api-key.repository';
+
+/**
+ * API key repository backed by a JSON file
+ * The file is read once, served from memory and rewritten after every change
+ */
+export class FileApiKeyRepository extends InMemoryApiKeyRepository {
+  private static readonly logger = new Logger(FileApiKeyRepository.name);
+
+  constructor(
+    private readonly filePath: string,
+    apiKeys: ApiKey[],
+  ) {
+    super(apiKeys);
+  }
+
+  /**
+   * Loads a file-backed repository
+   *
+   * @param filePath - Path to the JSON file
+   * @returns Repository populated with the stored keys
+   */
+  static async fromFile(filePath: string): Promise<FileApiKeyRepository> {
+    const apiKeys = existsSync(filePath)
+      ? JSON.parse(await readFile(filePath, 'utf8'))
+      : [];
+
+    this.logger.log(`Loaded ${apiKeys.length} API keys from ${filePath}`);
+
+    return new FileApiKeyRepository(filePath, apiKeys);
+  }
+
+  async save(apiKey: ApiKey): Promise<ApiKey> {
+    const stored = await super.save(apiKey);
+    await FileUtil.writeJsonAtomically(this.filePath, [...this.apiKeys.values()]);
+    return stored;
+  }
+}
@@ -0,0 +1,33 @@
+import { ApiKey } from '../../common/interfaces/api-key.interface';
+import { ApiKeyRepository } from './api-key.repository';
+
+/**
+ * API key repository keeping all keys in process memory
+ * Keys created at runtime are lost on restart
+ */
+export class InMemoryApiKeyRepository extends ApiKeyRepository {
+  protected readonly apiKeys = new Map<string, ApiKey>();
+
+  constructor(seed: ApiKey[] = []) {
+    super();
+    seed.forEach(apiKey => this.apiKeys.set(apiKey.id, { ...apiKey }));
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    return [...this.apiKeys.values()];
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return this.apiKeys.get(id) || null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return [...this.apiKeys.values()].find(apiKey => apiKey.key_hash === keyHash) || null;
+  }
+
+  async save(apiKey: ApiKey): Promise<ApiKey> {
+    const stored = { ...apiKey };
+    this.apiKeys.set(stored.id, stored);
+    return stored;
+  }
+}
@@ -0,0 +1,61 @@
+import { ConfigService } from '@nestjs/config';
+import { InMemoryApiKeyRepository } from '../repositories/in-memory-api-key.repository';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysService', () => {
+  const tiers = {
+    free: { short: 10, medium: 100, long: 1000 },
+    partner: { short: 50, medium: 1000, long: 10000 },
+    enterprise: { short: 200, medium: 5000, long: 50000 },
+  };
+
+  let repository: InMemoryApiKeyRepository;
+  let service: ApiKeysService;
+
+  beforeEach(() => {
+    repository = new InMemoryApiKeyRepository();
+    service = new ApiKeysService(
+      repository,
+      new ConfigService({ apiKeys: { adminKey: 'bootstrap-admin-key', tiers } }),
+    );
+  });
+
+  it('issues keys that authenticate with their plan limits', async () => {
+    const created = await service.create({ name: 'CityGuide', tier: 'partner' });
+
+    expect(created.key.startsWith(created.prefix)).toBe(true);
+    expect(await service.authenticate(created.key)).toEqual({
+      id: created.id,
+      name: 'CityGuide',
+      tier: 'partner',
+      admin: false,
+      limits: tiers.partner,
+    });
+    expect(await service.authenticate(`${created.key}x`)).toBeNull();
+  });
+
+  it('stores a hash of the key, never the key itself', async () => {
+    const created = await service.create({ name: 'CityGuide' });
+    const [stored] = await repository.findAll();
+
+    expect(stored.tier).toBe('free');
+    expect(JSON.stringify(stored)).not.toContain(created.key);
+    expect(await service.findById(created.id)).not.toHaveProperty('key_hash');
+  });
+
+  it('rejects revoked keys and applies plan changes', async () => {
+    const created = await service.create({ name: 'CityGuide' });
+
+    await service.update(created.id, { tier: 'enterprise' });
+    expect((await service.authenticate(created.key))?.limits).toEqual(tiers.enterprise);
+
+    expect(await service.revoke(created.id)).toBe(true);
+    expect(await service.authenticate(created.key)).toBeNull();
+    expect((await service.findById(created.id))?.revoked_at).toBeDefined();
+    expect(await service.revoke('missing')).toBe(false);
+  });
+
+  it('accepts the configured admin key', async () => {
+    expect(await service.authenticate('bootstrap-admin-key')).toMatchObject({ admin: true, tier: 'enterprise' });
+  });
+});
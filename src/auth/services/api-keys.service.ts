@@ -0,0 +1,206 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ApiKey,
+  ApiKeySummary,
+  ApiKeyTier,
+  AuthenticatedApiKey,
+  CreatedApiKey,
+  TierLimits,
+} from '../../common/interfaces/api-key.interface';
+import { ApiKeyRepository } from '../repositories/api-key.repository';
+import { CreateApiKeyDto, UpdateApiKeyDto } from '../dto/api-key.dto';
+
+/**
+ * API key management and authentication service
+ * Keys are random tokens stored as SHA-256 hashes. The ADMIN_API_KEY from the
+ * environment is always accepted as an admin key, so the first partner keys
+ * can be created before any key is stored
+ */
+@Injectable()
+export class ApiKeysService implements OnModuleInit {
+  /** Prefix of generated keys, making them easy to spot in logs and code */
+  private static readonly KEY_PREFIX = 'osx_';
+  /** Number of key characters kept in the clear for listings */
+  private static readonly DISPLAYED_LENGTH = 8;
+
+  private readonly logger = new Logger(ApiKeysService.name);
+  private readonly adminKeyHash?: string;
+
+  constructor(
+    private readonly apiKeyRepository: ApiKeyRepository,
+    private readonly configService: ConfigService,
+  ) {
+    const adminKey = this.configService.get<string>('apiKeys.adminKey');
+    this.adminKeyHash = adminKey ? this.hash(adminKey) : undefined;
+  }
+
+  onModuleInit(): void {
+    if (!this.adminKeyHash) {
+      this.logger.warn('ADMIN_API_KEY is not set; only stored admin keys can manage API keys');
+    }
+  }
+
+  /**
+   * Creates an API key
+   *
+   * @param dto - Name, plan and role
+   * @returns Created key, including the key itself
+   */
+  async create(dto: CreateApiKeyDto): Promise<CreatedApiKey> {
+    const key = `${ApiKeysService.KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+    const apiKey = await this.apiKeyRepository.save({
+      id: uuidv4(),
+      name: dto.name,
+      tier: dto.tier ?? 'free',
+      admin: dto.admin ?? false,
+      prefix: key.slice(0, ApiKeysService.DISPLAYED_LENGTH),
+      key_hash: this.hash(key),
+      created_at: new Date().toISOString(),
+    });
+
+    this.logger.log(`Created ${apiKey.tier} API key ${apiKey.id} for ${apiKey.name}`);
+
+    return { ...this.summarize(apiKey), key };
+  }
+
+  /**
+   * Lists all keys, including revoked ones
+   *
+   * @returns Keys without their hashes
+   */
+  async findAll(): Promise<ApiKeySummary[]> {
+    const apiKeys = await this.apiKeyRepository.findAll();
+    return apiKeys.map(apiKey => this.summarize(apiKey));
+  }
+
+  /**
+   * Gets a key by ID
+   *
+   * @param id - Key ID
+   * @returns Key without its hash, or null if it does not exist
+   */
+  async findById(id: string): Promise<ApiKeySummary | null> {
+    const apiKey = await this.apiKeyRepository.findById(id);
+    return apiKey ? this.summarize(apiKey) : null;
+  }
+
+  /**
+   * Changes a key's name, plan or role
+   *
+   * @param id - Key ID
+   * @param dto - Fields to change
+   * @returns Updated key, or null if it does not exist
+   */
+  async update(id: string, dto: UpdateApiKeyDto): Promise<ApiKeySummary | null> {
+    const existing = await this.apiKeyRepository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const changes = Object.fromEntries(
+      Object.entries(dto).filter(([, value]) => value !== undefined),
+    );
+    const apiKey = await this.apiKeyRepository.save({ ...existing, ...changes, id: existing.id });
+    this.logger.log(`Updated API key ${apiKey.id}`);
+
+    return this.summarize(apiKey);
+  }
+
+  /**
+   * Revokes a key; revoked keys stay listed but are rejected
+   *
+   * @param id - Key ID
+   * @returns True if the key existed
+   */
+  async revoke(id: string): Promise<boolean> {
+    const existing = await this.apiKeyRepository.findById(id);
+    if (!existing) {
+      return false;
+    }
+
+    if (!existing.revoked_at) {
+      await this.apiKeyRepository.save({ ...existing, revoked_at: new Date().toISOString() });
+      this.logger.log(`Revoked API key ${id}`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Resolves the key sent with a request
+   *
+   * @param key - Value of the X-API-Key header
+   * @returns Authenticated key with its plan limits, or null if the key is unknown or revoked
+   */
+  async authenticate(key: string): Promise<AuthenticatedApiKey | null> {
+    const keyHash = this.hash(key);
+
+    if (
+      this.adminKeyHash &&
+      timingSafeEqual(Buffer.from(keyHash, 'hex'), Buffer.from(this.adminKeyHash, 'hex'))
+    ) {
+      return {
+        id: 'admin',
+        name: 'Administrator',
+        tier: 'enterprise',
+        admin: true,
+        limits: this.limitsOf('enterprise'),
+      };
+    }
+
+    const apiKey = await this.apiKeyRepository.findByHash(keyHash);
+    if (!apiKey || apiKey.revoked_at) {
+      return null;
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      tier: apiKey.tier,
+      admin: apiKey.admin,
+      limits: this.limitsOf(apiKey.tier),
+    };
+  }
+
+  /**
+   * Gets the request limits of a plan
+   *
+   * @param tier - Rate limit plan
+   * @returns Limits per throttler bucket; buckets without a limit keep the global one
+   */
+  private limitsOf(tier: ApiKeyTier): TierLimits {
+    return this.configService.get<TierLimits>(`apiKeys.tiers.${tier}`, {});
+  }
+
+  /**
+   * Hashes a key for storage and lookup
+   *
+   * @param key - API key
+   * @returns SHA-256 hash (hex)
+   */
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Strips the hash from a stored key
+   *
+   * @param apiKey - Stored key
+   * @returns Key as exposed by the API
+   */
+  private summarize(apiKey: ApiKey): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      tier: apiKey.tier,
+      admin: apiKey.admin,
+      prefix: apiKey.prefix,
+      created_at: apiKey.created_at,
+      revoked_at: apiKey.revoked_at,
+    };
+  }
+}
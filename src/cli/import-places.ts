@@ -0,0 +1,95 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+
+import { AppModule } from '../app.module';
+import { PlaceImportOptions } from '../common/interfaces/location.interface';
+import { PlaceImportService } from '../discovery/services/place-import.service';
+
+const USAGE = `Usage: npm run import:places -- <file> [--dry-run] [--format=csv|geojson] [--on-conflict=skip|update]
+
+Imports places from a CSV or GeoJSON file into the store selected by
+PLACE_STORE_DRIVER (use file or sqlite; the memory store is not kept).`;
+
+/**
+ * Parsed command-line arguments
+ */
+interface ImportArguments {
+  file: string;
+  options: Partial<PlaceImportOptions>;
+}
+
+/**
+ * Parses the command-line arguments
+ *
+ * @param args - Arguments after the script name
+ * @returns File path and import options
+ * @throws Error if an argument is unknown or the file is missing
+ */
+const parseArguments = (args: string[]): ImportArguments => {
+  const options: Partial<PlaceImportOptions> = {};
+  const files: string[] = [];
+
+  for (const arg of args) {
+    const [flag, value] = arg.split('=', 2);
+
+    if (flag === '--dry-run') {
+      options.dry_run = true;
+    } else if (flag === '--format' && (value === 'csv' || value === 'geojson')) {
+      options.format = value;
+    } else if (flag === '--on-conflict' && (value === 'skip' || value === 'update')) {
+      options.on_conflict = value;
+    } else if (!arg.startsWith('-')) {
+      files.push(arg);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (files.length !== 1) {
+    throw new Error('Exactly one file must be given');
+  }
+
+  return { file: files[0], options };
+};
+
+/**
+ * Runs the import and prints the report as JSON
+ * Exits with status 1 when the file cannot be read and 2 when rows were rejected
+ */
+async function run(): Promise<void> {
+  const logger = new Logger('ImportPlaces');
+  let parsed: ImportArguments;
+
+  try {
+    parsed = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const format = parsed.options.format ?? PlaceImportService.detectFormat(parsed.file);
+  if (!format) {
+    console.error(`Cannot tell the format of ${parsed.file}; pass --format=csv or --format=geojson`);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const content = await readFile(parsed.file, 'utf8');
+    const report = await app.get(PlaceImportService).import(content, { ...parsed.options, format });
+
+    console.log(JSON.stringify(report, null, 2));
+    process.exitCode = report.failed > 0 ? 2 : 0;
+  } catch (error) {
+    logger.error(`Import failed: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+run();
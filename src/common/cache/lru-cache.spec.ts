@@ -0,0 +1,48 @@
+import { LruCache } from './lru-cache';
+
+describe('LruCache', () => {
+  let now: number;
+  let cache: LruCache<string>;
+
+  beforeEach(() => {
+    now = 0;
+    cache = new LruCache<string>(2, 1000, () => now);
+  });
+
+  it('returns stored values until they expire', () => {
+    cache.set('a', 'alpha');
+
+    now = 999;
+    expect(cache.get('a')).toBe('alpha');
+    now = 1000;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    cache.set('a', 'alpha');
+    cache.set('b', 'beta');
+    cache.get('a');
+    cache.set('c', 'gamma');
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('alpha');
+    expect(cache.get('c')).toBe('gamma');
+    expect(cache.size).toBe(2);
+  });
+
+  it('stores nothing when disabled', () => {
+    const disabled = new LruCache<string>(10, 0);
+    disabled.set('a', 'alpha');
+
+    expect(disabled.enabled).toBe(false);
+    expect(disabled.get('a')).toBeUndefined();
+  });
+
+  it('clears every entry', () => {
+    cache.set('a', 'alpha');
+    cache.clear();
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
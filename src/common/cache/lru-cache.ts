@@ -0,0 +1,92 @@
+/**
+ * Cached value with the time it stops being served
+ */
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache bounded by entry count and age
+ * Entries expire after the TTL; once the cache is full, adding an entry
+ * evicts the least recently read or written one. Recency is tracked through
+ * the insertion order of the underlying Map
+ */
+export class LruCache<V> {
+  private readonly entries = new Map<string, CacheEntry<V>>();
+
+  /**
+   * @param maxEntries - Maximum number of entries; 0 disables the cache
+   * @param ttlMs - Entry lifetime in milliseconds; 0 disables the cache
+   * @param now - Clock, replaceable in tests
+   */
+  constructor(
+    readonly maxEntries: number,
+    readonly ttlMs: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Number of stored entries, including expired ones not evicted yet
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Whether the cache stores anything at all
+   */
+  get enabled(): boolean {
+    return this.maxEntries > 0 && this.ttlMs > 0;
+  }
+
+  /**
+   * Reads an entry and marks it as recently used
+   *
+   * @param key - Cache key
+   * @returns Cached value, or undefined if missing or expired
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Stores an entry, evicting the least recently used ones beyond maxEntries
+   *
+   * @param key - Cache key
+   * @param value - Value to cache
+   */
+  set(key: string, value: V): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Removes every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
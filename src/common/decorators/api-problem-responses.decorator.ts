@@ -0,0 +1,47 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiExtraModels, ApiResponse, getSchemaPath } from '@nestjs/swagger';
+import { DomainExceptionType } from '../exceptions/domain.exception';
+import { PROBLEM_MEDIA_TYPE, ProblemDetailsDto, problemTypeOf } from '../exceptions/problem-details.dto';
+
+/**
+ * Documents the domain exceptions a route can answer with
+ * Exceptions sharing a status are listed as examples of one problem+json
+ * response, so the docs follow the exception classes the route throws
+ *
+ * @param types - Domain exception classes
+ * @returns Decorator adding one Swagger response per status
+ */
+export const ApiProblemResponses = (...types: DomainExceptionType[]): MethodDecorator & ClassDecorator => {
+  const byStatus = new Map<number, DomainExceptionType[]>();
+  types.forEach(type => byStatus.set(type.status, [...(byStatus.get(type.status) ?? []), type]));
+
+  return applyDecorators(
+    ApiExtraModels(ProblemDetailsDto),
+    ...[...byStatus].map(([status, statusTypes]) =>
+      ApiResponse({
+        status,
+        description: statusTypes.map(type => `${type.code}: ${type.title}`).join('; '),
+        content: {
+          [PROBLEM_MEDIA_TYPE]: {
+            schema: { $ref: getSchemaPath(ProblemDetailsDto) },
+            examples: Object.fromEntries(
+              statusTypes.map(type => [
+                type.code,
+                {
+                  summary: type.title,
+                  value: {
+                    type: problemTypeOf(type.code),
+                    title: type.title,
+                    status,
+                    detail: type.example,
+                    code: type.code,
+                  },
+                },
+              ]),
+            ),
+          },
+        },
+      }),
+    ),
+  );
+};
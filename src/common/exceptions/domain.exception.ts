@@ -0,0 +1,41 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Static description of a domain exception class, read by the exception
+ * filter and by ApiProblemResponses to document the errors of a route
+ */
+export interface DomainExceptionType {
+  /** Machine-readable error code, stable across releases */
+  readonly code: string;
+  /** HTTP status the error is answered with */
+  readonly status: HttpStatus;
+  /** Short summary of the problem type */
+  readonly title: string;
+  /** Sample detail message for API documentation */
+  readonly example: string;
+}
+
+/**
+ * Error raised by the domain layer for a request that cannot be served
+ * Each subclass declares its code, status, title and example as statics;
+ * ProblemDetailsFilter renders it as an RFC 7807 problem
+ */
+export abstract class DomainException extends HttpException {
+  readonly code: string;
+  readonly title: string;
+
+  /**
+   * @param detail - Explanation of this occurrence of the problem
+   * @param extensions - Problem-specific members added to the response body
+   */
+  constructor(
+    detail: string,
+    readonly extensions: Record<string, unknown> = {},
+  ) {
+    const type = new.target as unknown as DomainExceptionType;
+    super({ statusCode: type.status, message: detail, error: type.title }, type.status);
+    this.name = new.target.name;
+    this.code = type.code;
+    this.title = type.title;
+  }
+}
@@ -0,0 +1,177 @@
+import { HttpStatus } from '@nestjs/common';
+import { DomainException } from './domain.exception';
+
+/**
+ * A query or body parameter has a value the API cannot use
+ */
+export class InvalidParameterException extends DomainException {
+  static readonly code = 'INVALID_PARAMETER';
+  static readonly status = HttpStatus.BAD_REQUEST;
+  static readonly title = 'Invalid parameter';
+  static readonly example = 'Invalid limit: 500. Must be between 1 and 50.';
+
+  /**
+   * @param parameter - Name of the offending parameter
+   * @param detail - What is wrong with it
+   */
+  constructor(parameter: string, detail: string) {
+    super(detail, { parameter });
+  }
+}
+
+/**
+ * A latitude or longitude is outside the valid range
+ */
+export class InvalidCoordinatesException extends DomainException {
+  static readonly code = 'INVALID_COORDINATES';
+  static readonly status = HttpStatus.BAD_REQUEST;
+  static readonly title = 'Invalid coordinates';
+  static readonly example = 'Invalid latitude: 91. Must be between -90 and 90.';
+}
+
+/**
+ * A search radius is outside the configured bounds
+ */
+export class RadiusOutOfRangeException extends DomainException {
+  static readonly code = 'RADIUS_OUT_OF_RANGE';
+  static readonly status = HttpStatus.BAD_REQUEST;
+  static readonly title = 'Radius out of range';
+  static readonly example = 'Invalid radius: 80. Must be between 0.1 and 50 km.';
+
+  /**
+   * @param radius - Requested radius in kilometers
+   * @param maxRadius - Largest accepted radius in kilometers
+   */
+  constructor(radius: number, maxRadius: number) {
+    super(`Invalid radius: ${radius}. Must be between 0.1 and ${maxRadius} km.`, {
+      min_radius: 0.1,
+      max_radius: maxRadius,
+    });
+  }
+}
+
+/**
+ * A bounding box, polygon or route cannot be used as a search area
+ */
+export class InvalidGeometryException extends DomainException {
+  static readonly code = 'INVALID_GEOMETRY';
+  static readonly status = HttpStatus.BAD_REQUEST;
+  static readonly title = 'Invalid geometry';
+  static readonly example = 'Invalid polygon: ring 0 is not closed.';
+}
+
+/**
+ * An uploaded import file cannot be read as a whole
+ */
+export class InvalidImportFileException extends DomainException {
+  static readonly code = 'INVALID_IMPORT_FILE';
+  static readonly status = HttpStatus.BAD_REQUEST;
+  static readonly title = 'Invalid import file';
+  static readonly example = 'Invalid CSV: missing header row';
+}
+
+/**
+ * No place has the requested ID
+ */
+export class PlaceNotFoundException extends DomainException {
+  static readonly code = 'PLACE_NOT_FOUND';
+  static readonly status = HttpStatus.NOT_FOUND;
+  static readonly title = 'Place not found';
+  static readonly example = 'Place with ID rest_999 not found';
+
+  /**
+   * @param placeId - Requested place ID
+   */
+  constructor(placeId: string) {
+    super(`Place with ID ${placeId} not found`, { place_id: placeId });
+  }
+}
+
+/**
+ * A place is not among the user's saved places
+ */
+export class FavoriteNotFoundException extends DomainException {
+  static readonly code = 'FAVORITE_NOT_FOUND';
+  static readonly status = HttpStatus.NOT_FOUND;
+  static readonly title = 'Saved place not found';
+  static readonly example = 'Place with ID rest_001 not found in favorites';
+
+  /**
+   * @param placeId - Requested place ID
+   */
+  constructor(placeId: string) {
+    super(`Place with ID ${placeId} not found in favorites`, { place_id: placeId });
+  }
+}
+
+/**
+ * No place matching the filters lies within the searched distance
+ */
+export class NoPlacesFoundException extends DomainException {
+  static readonly code = 'NO_PLACES_FOUND';
+  static readonly status = HttpStatus.NOT_FOUND;
+  static readonly title = 'No places found';
+  static readonly example = 'No place found within 2 km of 40.7128, -74.006';
+
+  /**
+   * @param latitude - Latitude of the search center
+   * @param longitude - Longitude of the search center
+   * @param maxDistanceKm - Searched distance in kilometers
+   */
+  constructor(latitude: number, longitude: number, maxDistanceKm: number) {
+    super(`No place found within ${maxDistanceKm} km of ${latitude}, ${longitude}`, {
+      max_distance_km: maxDistanceKm,
+    });
+  }
+}
+
+/**
+ * No API key has the requested ID
+ */
+export class ApiKeyNotFoundException extends DomainException {
+  static readonly code = 'API_KEY_NOT_FOUND';
+  static readonly status = HttpStatus.NOT_FOUND;
+  static readonly title = 'API key not found';
+  static readonly example = 'API key with ID 3f2b9c1e not found';
+
+  /**
+   * @param id - Requested key ID
+   */
+  constructor(id: string) {
+    super(`API key with ID ${id} not found`);
+  }
+}
+
+/**
+ * A place with the supplied ID is already stored
+ */
+export class PlaceAlreadyExistsException extends DomainException {
+  static readonly code = 'PLACE_ALREADY_EXISTS';
+  static readonly status = HttpStatus.CONFLICT;
+  static readonly title = 'Place already exists';
+  static readonly example = 'Place with ID rest_001 already exists';
+
+  /**
+   * @param placeId - Supplied place ID
+   */
+  constructor(placeId: string) {
+    super(`Place with ID ${placeId} already exists`, { place_id: placeId });
+  }
+}
+
+/**
+ * An account is already registered for the email address
+ */
+export class AccountAlreadyExistsException extends DomainException {
+  static readonly code = 'ACCOUNT_ALREADY_EXISTS';
+  static readonly status = HttpStatus.CONFLICT;
+  static readonly title = 'Account already exists';
+  static readonly example = 'An account for ada@example.com already exists';
+
+  /**
+   * @param email - Supplied email address
+   */
+  constructor(email: string) {
+    super(`An account for ${email} already exists`);
+  }
+}
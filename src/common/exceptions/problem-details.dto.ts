@@ -0,0 +1,63 @@
+import { HttpStatus } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DomainExceptionType } from './domain.exception';
+
+/**
+ * Media type of error responses
+ */
+export const PROBLEM_MEDIA_TYPE = 'application/problem+json';
+
+/**
+ * Builds the problem type URI of an error code
+ *
+ * @param code - Error code such as PLACE_NOT_FOUND
+ * @returns URI such as urn:onspotx:problem:place-not-found
+ */
+export const problemTypeOf = (code: string): string =>
+  `urn:onspotx:problem:${code.toLowerCase().replace(/_/g, '-')}`;
+
+/**
+ * Problem answered when ValidationPipe rejects a request DTO; its `errors`
+ * member lists the failed constraints
+ */
+export const VALIDATION_FAILED: DomainExceptionType = {
+  code: 'VALIDATION_FAILED',
+  status: HttpStatus.BAD_REQUEST,
+  title: 'Validation failed',
+  example: 'The request has invalid parameters',
+};
+
+/**
+ * RFC 7807 problem details returned for every error
+ * Problem-specific members (such as `parameter` or `place_id`) are added next
+ * to the standard ones
+ */
+export class ProblemDetailsDto {
+  @ApiProperty({ description: 'URI identifying the problem type', example: 'urn:onspotx:problem:place-not-found' })
+  type: string;
+
+  @ApiProperty({ description: 'Short summary of the problem type', example: 'Place not found' })
+  title: string;
+
+  @ApiProperty({ description: 'HTTP status code', example: 404 })
+  status: number;
+
+  @ApiProperty({ description: 'Explanation of this occurrence', example: 'Place with ID rest_999 not found' })
+  detail: string;
+
+  @ApiProperty({ description: 'Request path the problem occurred on', example: '/api/v1/discover/places/rest_999' })
+  instance: string;
+
+  @ApiProperty({ description: 'Machine-readable error code', example: 'PLACE_NOT_FOUND' })
+  code: string;
+
+  @ApiPropertyOptional({ description: 'Correlation ID of the request', example: '3f2b9c1e-8d4a-4f6e-9b7a-2c5d1e0f4a6b' })
+  request_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Failed constraints, for VALIDATION_FAILED',
+    example: ['latitude must not be greater than 90'],
+    type: [String],
+  })
+  errors?: string[];
+}
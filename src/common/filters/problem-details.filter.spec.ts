@@ -0,0 +1,84 @@
+import { ArgumentsHost, BadRequestException, Logger, UnauthorizedException } from '@nestjs/common';
+import { requestContext } from '../../logging/request-context';
+import { InvalidParameterException, PlaceNotFoundException } from '../exceptions/domain.exceptions';
+import { PROBLEM_MEDIA_TYPE } from '../exceptions/problem-details.dto';
+import { ProblemDetailsFilter } from './problem-details.filter';
+
+describe('ProblemDetailsFilter', () => {
+  const filter = new ProblemDetailsFilter();
+  let response: { status: jest.Mock; type: jest.Mock; json: jest.Mock };
+  let host: ArgumentsHost;
+
+  const render = (exception: unknown): Record<string, unknown> => {
+    filter.catch(exception, host);
+    return response.json.mock.calls[0][0];
+  };
+
+  beforeEach(() => {
+    response = { status: jest.fn(), type: jest.fn(), json: jest.fn() };
+    response.status.mockReturnValue(response);
+    response.type.mockReturnValue(response);
+    host = {
+      switchToHttp: () => ({
+        getRequest: (): object => ({ method: 'GET', path: '/api/v1/discover/places/rest_999' }),
+        getResponse: (): object => response,
+      }),
+    } as unknown as ArgumentsHost;
+  });
+
+  it('renders domain exceptions with their code and extension members', () => {
+    const problem = render(new PlaceNotFoundException('rest_999'));
+
+    expect(response.status).toHaveBeenCalledWith(404);
+    expect(response.type).toHaveBeenCalledWith(PROBLEM_MEDIA_TYPE);
+    expect(problem).toEqual({
+      type: 'urn:onspotx:problem:place-not-found',
+      title: 'Place not found',
+      status: 404,
+      detail: 'Place with ID rest_999 not found',
+      code: 'PLACE_NOT_FOUND',
+      place_id: 'rest_999',
+      instance: '/api/v1/discover/places/rest_999',
+    });
+  });
+
+  it('adds the request ID of the current request', () => {
+    const problem = requestContext.run({ requestId: 'trace-1' }, () =>
+      render(new InvalidParameterException('limit', 'Invalid limit: 500. Must be between 1 and 50.')),
+    );
+
+    expect(problem).toMatchObject({ code: 'INVALID_PARAMETER', parameter: 'limit', request_id: 'trace-1' });
+  });
+
+  it('lists failed constraints of validation errors', () => {
+    const problem = render(new BadRequestException(['latitude must not be greater than 90']));
+
+    expect(problem).toMatchObject({
+      status: 400,
+      code: 'VALIDATION_FAILED',
+      errors: ['latitude must not be greater than 90'],
+    });
+  });
+
+  it('names other HTTP exceptions after their status', () => {
+    const problem = render(new UnauthorizedException('Wrong email or password'));
+
+    expect(problem).toMatchObject({
+      type: 'urn:onspotx:problem:unauthorized',
+      title: 'Unauthorized',
+      status: 401,
+      detail: 'Wrong email or password',
+      code: 'UNAUTHORIZED',
+    });
+  });
+
+  it('hides the details of unexpected errors', () => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+    const problem = render(new Error('Database is locked'));
+
+    expect(response.status).toHaveBeenCalledWith(500);
+    expect(problem).toMatchObject({ code: 'INTERNAL_ERROR', detail: 'An unexpected error occurred' });
+    expect(JSON.stringify(problem)).not.toContain('Database is locked');
+  });
+});
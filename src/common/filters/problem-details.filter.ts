@@ -0,0 +1,111 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { requestContext } from '../../logging/request-context';
+import { DomainException } from '../exceptions/domain.exception';
+import { PROBLEM_MEDIA_TYPE, ProblemDetailsDto, problemTypeOf, VALIDATION_FAILED } from '../exceptions/problem-details.dto';
+
+/**
+ * Renders every error as an RFC 7807 problem (application/problem+json)
+ *
+ * Domain exceptions keep their code, title and extension members; other HTTP
+ * exceptions (guards, validation, throttling) get a code named after their
+ * status, and anything else is logged and answered with a 500 that reveals
+ * nothing about the failure.
+ */
+@Catch()
+export class ProblemDetailsFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ProblemDetailsFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const http = host.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const requestId = requestContext.getStore()?.requestId;
+
+    const problem = {
+      ...this.toProblem(exception),
+      instance: request.path,
+      ...(requestId ? { request_id: requestId } : {}),
+    };
+
+    if (problem.status >= HttpStatus.INTERNAL_SERVER_ERROR) {
+      const error = exception instanceof Error ? exception : new Error(String(exception));
+      this.logger.error(`${request.method} ${request.path} failed: ${error.message}`, error.stack);
+    }
+
+    response.status(problem.status).type(PROBLEM_MEDIA_TYPE).json(problem);
+  }
+
+  /**
+   * Describes an exception as a problem
+   *
+   * @param exception - Thrown value
+   * @returns Problem details without the request-specific members
+   */
+  private toProblem(exception: unknown): Omit<ProblemDetailsDto, 'instance'> & Record<string, unknown> {
+    if (exception instanceof DomainException) {
+      return {
+        ...exception.extensions,
+        ...this.problem(exception.code, exception.title, exception.getStatus(), exception.message),
+      };
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      const body = exception.getResponse();
+      const { message, error } = typeof body === 'string'
+        ? { message: body, error: undefined }
+        : (body as { message?: string | string[]; error?: string });
+
+      // ValidationPipe lists every failed constraint
+      if (Array.isArray(message)) {
+        return {
+          ...this.problem(VALIDATION_FAILED.code, VALIDATION_FAILED.title, status, VALIDATION_FAILED.example),
+          errors: message,
+        };
+      }
+
+      const code = HttpStatus[status] ?? 'HTTP_ERROR';
+      return this.problem(code, error ?? this.titleOf(code), status, message ?? exception.message);
+    }
+
+    return this.problem(
+      'INTERNAL_ERROR',
+      'Internal Server Error',
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      'An unexpected error occurred',
+    );
+  }
+
+  /**
+   * Builds the standard problem members
+   *
+   * @param code - Error code
+   * @param title - Problem type summary
+   * @param status - HTTP status
+   * @param detail - Explanation of the occurrence
+   * @returns Problem details without the request-specific members
+   */
+  private problem(code: string, title: string, status: number, detail: string): Omit<ProblemDetailsDto, 'instance'> {
+    return {
+      type: problemTypeOf(code),
+      title,
+      status,
+      detail,
+      code,
+    };
+  }
+
+  /**
+   * Turns an error code into a title
+   *
+   * @param code - Error code such as TOO_MANY_REQUESTS
+   * @returns Title such as Too Many Requests
+   */
+  private titleOf(code: string): string {
+    return code
+      .split('_')
+      .map(word => word.charAt(0) + word.slice(1).toLowerCase())
+      .join(' ');
+  }
+}
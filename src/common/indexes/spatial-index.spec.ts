@@ -0,0 +1,151 @@
+import { Coordinates } from '../interfaces/location.interface';
+import { DistanceUtil } from '../utils/distance.util';
+import { SpatialIndex, SpatialItem } from './spatial-index';
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface Area {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * Yields points spread uniformly over an area, one at a time, so large
+ * datasets are never held in an array besides the index under test
+ */
+function* generatePoints(count: number, area: Area, seed: number): Generator<SpatialItem> {
+  const random = createRandom(seed);
+
+  for (let i = 0; i < count; i++) {
+    yield {
+      id: `p${i}`,
+      location: {
+        lat: area.minLat + random() * (area.maxLat - area.minLat),
+        lng: area.minLng + random() * (area.maxLng - area.minLng),
+      },
+    };
+  }
+}
+
+const bruteForceRadius = (
+  points: SpatialItem[],
+  center: Coordinates,
+  radiusKm: number,
+): string[] =>
+  points
+    .filter(point => DistanceUtil.calculateDistance(center, point.location) <= radiusKm)
+    .map(point => point.id)
+    .sort();
+
+const bruteForceNearest = (
+  points: SpatialItem[],
+  center: Coordinates,
+  k: number,
+): number[] =>
+  points
+    .map(point => DistanceUtil.calculateDistance(center, point.location))
+    .sort((a, b) => a - b)
+    .slice(0, k);
+
+describe('SpatialIndex', () => {
+  describe('correctness', () => {
+    const points = [
+      ...generatePoints(3000, { minLat: 40, maxLat: 41, minLng: -75, maxLng: -73 }, 1),
+      // Points straddling the antimeridian and near the north pole
+      ...generatePoints(500, { minLat: -20, maxLat: -15, minLng: 178, maxLng: 180 }, 2),
+      ...generatePoints(500, { minLat: -20, maxLat: -15, minLng: -180, maxLng: -178 }, 3),
+      ...generatePoints(500, { minLat: 88, maxLat: 90, minLng: -180, maxLng: 180 }, 4),
+    ].map((point, i) => ({ ...point, id: `p${i}` }));
+    const index = new SpatialIndex<SpatialItem>(5);
+    index.load(points);
+
+    const centers: Array<[string, Coordinates, number]> = [
+      ['city center', { lat: 40.5, lng: -74 }, 5],
+      ['wide radius', { lat: 40.5, lng: -74 }, 50],
+      ['antimeridian', { lat: -17.5, lng: 179.9 }, 30],
+      ['north pole', { lat: 89.5, lng: 10 }, 80],
+      ['empty area', { lat: 0, lng: 0 }, 10],
+    ];
+
+    it.each(centers)('should match a full scan for radius queries (%s)', (_name, center, radius) => {
+      const ids = index.withinRadius(center, radius).map(match => match.item.id).sort();
+
+      expect(ids).toEqual(bruteForceRadius(points, center, radius));
+    });
+
+    it.each(centers)('should match a full scan for nearest queries (%s)', (_name, center) => {
+      const distances = index.nearest(center, 10).map(match => match.distanceKm);
+
+      expect(distances).toEqual(bruteForceNearest(points, center, 10));
+    });
+
+    it('should respect the maximum distance and filter for nearest queries', () => {
+      const center = { lat: 40.5, lng: -74 };
+      const matches = index.nearest(center, 5, 2, item => item.id.endsWith('7'));
+
+      expect(matches.length).toBeLessThanOrEqual(5);
+      matches.forEach(match => {
+        expect(match.distanceKm).toBeLessThanOrEqual(2);
+        expect(match.item.id.endsWith('7')).toBe(true);
+      });
+    });
+
+    it('should stop returning removed items', () => {
+      const center = points[0].location;
+      const scratch = new SpatialIndex<SpatialItem>(6);
+      scratch.load(points.slice(0, 10));
+
+      expect(scratch.remove(points[0].id)).toBe(true);
+      expect(scratch.withinRadius(center, 0.01).map(match => match.item.id)).not.toContain(points[0].id);
+      expect(scratch.size).toBe(9);
+    });
+  });
+
+  describe('scaling', () => {
+    const QUERY_RADIUS_KM = 1;
+    const QUERY_COUNT = 200;
+
+    const averageCandidates = (count: number, area: Area): number => {
+      const index = new SpatialIndex<SpatialItem>(5);
+      index.load(generatePoints(count, area, 42));
+
+      const random = createRandom(7);
+      let candidates = 0;
+      for (let i = 0; i < QUERY_COUNT; i++) {
+        const center = {
+          lat: area.minLat + 0.1 + random() * (area.maxLat - area.minLat - 0.2),
+          lng: area.minLng + 0.1 + random() * (area.maxLng - area.minLng - 0.2),
+        };
+        candidates += index.candidatesInBoundingBox(DistanceUtil.boundingBoxAround(center, QUERY_RADIUS_KM)).length;
+      }
+
+      return candidates / QUERY_COUNT;
+    };
+
+    it('should keep the candidates per query flat from 10k to 1M points', () => {
+      // Same point density in every dataset: 1M points cover a hundred times the area of 10k
+      const small = averageCandidates(10_000, { minLat: 40, maxLat: 41, minLng: -75, maxLng: -72.5 });
+      const medium = averageCandidates(100_000, { minLat: 36, maxLat: 46, minLng: -75, maxLng: -72.5 });
+      const large = averageCandidates(1_000_000, { minLat: 31, maxLat: 51, minLng: -80, maxLng: -67.5 });
+
+      // 100x the points yet roughly the same number of candidates per query,
+      // a small fraction of what a full scan would examine
+      expect(medium).toBeLessThan(small * 2);
+      expect(large).toBeLessThan(small * 2);
+      expect(large).toBeLessThan(1_000_000 * 0.0001);
+    }, 120_000);
+  });
+});
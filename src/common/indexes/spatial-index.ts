@@ -0,0 +1,402 @@
+import { BoundingBox, Coordinates } from '../interfaces/location.interface';
+import { DistanceUtil } from '../utils/distance.util';
+import { GeohashCell, GeohashGrid, GeohashUtil } from '../utils/geohash.util';
+
+/**
+ * Item that can be stored in a spatial index
+ */
+export interface SpatialItem {
+  id: string;
+  location: Coordinates;
+}
+
+/**
+ * Item returned from a spatial query together with its distance
+ */
+export interface SpatialMatch<T> {
+  item: T;
+  distanceKm: number;
+}
+
+/**
+ * Bucket of items sharing one geohash cell
+ */
+interface SpatialCell<T> {
+  row: number;
+  col: number;
+  items: Map<string, T>;
+}
+
+/**
+ * In-memory spatial index bucketing items into geohash cells
+ * Radius, bounding box and nearest-neighbour queries only visit the cells
+ * that can contain a match instead of scanning every item
+ */
+export class SpatialIndex<T extends SpatialItem> {
+  /** Slack added to search radii so rounded distances are never missed */
+  private static readonly DISTANCE_EPSILON_KM = 0.01;
+
+  private readonly grid: GeohashGrid;
+  private readonly cells = new Map<string, SpatialCell<T>>();
+  private readonly cellById = new Map<string, string>();
+
+  constructor(private readonly precision: number = 5) {
+    this.grid = GeohashUtil.grid(precision);
+  }
+
+  /**
+   * Number of indexed items
+   */
+  get size(): number {
+    return this.cellById.size;
+  }
+
+  /**
+   * Number of non-empty cells
+   */
+  get cellCount(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * Adds or replaces an item
+   *
+   * @param item - Item to index
+   */
+  insert(item: T): void {
+    this.remove(item.id);
+
+    const cell = GeohashUtil.cellOf(item.location.lat, item.location.lng, this.precision);
+    const hash = GeohashUtil.fromCell(cell, this.precision);
+    let bucket = this.cells.get(hash);
+
+    if (!bucket) {
+      bucket = { ...cell, items: new Map() };
+      this.cells.set(hash, bucket);
+    }
+
+    bucket.items.set(item.id, item);
+    this.cellById.set(item.id, hash);
+  }
+
+  /**
+   * Adds many items at once
+   *
+   * @param items - Items to index
+   */
+  load(items: Iterable<T>): void {
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  /**
+   * Removes an item
+   *
+   * @param id - Item ID
+   * @returns True if the item was indexed
+   */
+  remove(id: string): boolean {
+    const hash = this.cellById.get(id);
+    if (!hash) {
+      return false;
+    }
+
+    const bucket = this.cells.get(hash);
+    bucket?.items.delete(id);
+    if (bucket && bucket.items.size === 0) {
+      this.cells.delete(hash);
+    }
+
+    return this.cellById.delete(id);
+  }
+
+  /**
+   * Gets an indexed item by ID
+   *
+   * @param id - Item ID
+   * @returns Item if indexed
+   */
+  get(id: string): T | undefined {
+    const hash = this.cellById.get(id);
+    return hash ? this.cells.get(hash)?.items.get(id) : undefined;
+  }
+
+  /**
+   * Removes every item
+   */
+  clear(): void {
+    this.cells.clear();
+    this.cellById.clear();
+  }
+
+  /**
+   * Finds every item within a radius of a point
+   *
+   * @param center - Center point
+   * @param radiusKm - Radius in kilometers
+   * @returns Matching items with their distances, unordered
+   */
+  withinRadius(center: Coordinates, radiusKm: number): SpatialMatch<T>[] {
+    const bbox = DistanceUtil.boundingBoxAround(
+      center,
+      radiusKm + SpatialIndex.DISTANCE_EPSILON_KM,
+    );
+    const matches: SpatialMatch<T>[] = [];
+
+    for (const item of this.candidatesInBoundingBox(bbox)) {
+      const distanceKm = DistanceUtil.calculateDistance(center, item.location);
+      if (distanceKm <= radiusKm) {
+        matches.push({ item, distanceKm });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Finds items inside a bounding box
+   *
+   * @param bbox - Bounding box, possibly crossing the antimeridian
+   * @returns Items inside or on the edge of the box, unordered
+   */
+  withinBoundingBox(bbox: BoundingBox): T[] {
+    return this.candidatesInBoundingBox(bbox).filter(item =>
+      DistanceUtil.isInBoundingBox(item.location, bbox),
+    );
+  }
+
+  /**
+   * Collects the items of every cell intersecting a bounding box
+   * The result is a superset of the items inside the box; callers apply
+   * their own exact test
+   *
+   * @param bbox - Bounding box, possibly crossing the antimeridian
+   * @returns Candidate items
+   */
+  candidatesInBoundingBox(bbox: BoundingBox): T[] {
+    const south = GeohashUtil.cellOf(bbox.minLat, bbox.minLng, this.precision);
+    const north = GeohashUtil.cellOf(bbox.maxLat, bbox.maxLng, this.precision);
+    const crossesAntimeridian = bbox.minLng > bbox.maxLng;
+    const rowCount = north.row - south.row + 1;
+    const colCount = crossesAntimeridian
+      ? this.grid.cols - south.col + north.col + 1
+      : north.col - south.col + 1;
+    const candidates: T[] = [];
+
+    const colInRange = (col: number): boolean => crossesAntimeridian
+      ? col >= south.col || col <= north.col
+      : col >= south.col && col <= north.col;
+
+    // Large boxes are cheaper to answer by walking the occupied cells
+    if (rowCount * colCount > this.cells.size) {
+      for (const bucket of this.cells.values()) {
+        if (bucket.row >= south.row && bucket.row <= north.row && colInRange(bucket.col)) {
+          bucket.items.forEach(item => candidates.push(item));
+        }
+      }
+      return candidates;
+    }
+
+    for (let row = south.row; row <= north.row; row++) {
+      for (let offset = 0; offset < colCount; offset++) {
+        const col = (south.col + offset) % this.grid.cols;
+        const bucket = this.cells.get(GeohashUtil.fromCell({ row, col }, this.precision));
+        if (bucket) {
+          bucket.items.forEach(item => candidates.push(item));
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Finds the k nearest items to a point
+   * Cells are visited in growing rings around the point until no unvisited
+   * cell can hold anything closer than the current k-th match
+   *
+   * @param center - Reference point
+   * @param k - Maximum number of items to return
+   * @param maxDistanceKm - Ignore items farther than this distance
+   * @param filter - Optional predicate items must satisfy
+   * @returns Up to k matches ordered by distance, then ID
+   */
+  nearest(
+    center: Coordinates,
+    k: number,
+    maxDistanceKm: number = Infinity,
+    filter?: (item: T) => boolean,
+  ): SpatialMatch<T>[] {
+    if (k <= 0 || this.size === 0) {
+      return [];
+    }
+
+    const origin = GeohashUtil.cellOf(center.lat, center.lng, this.precision);
+    const maxRing = Math.max(this.grid.rows, Math.ceil(this.grid.cols / 2));
+    let matches: SpatialMatch<T>[] = [];
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Once the visited block outgrows the set of occupied cells, a scan of
+      // every item is cheaper than walking further rings
+      if ((2 * ring + 1) ** 2 > this.cells.size) {
+        return this.scanNearest(center, k, maxDistanceKm, filter);
+      }
+
+      for (const cell of this.ringCells(origin, ring)) {
+        const bucket = this.cells.get(GeohashUtil.fromCell(cell, this.precision));
+        if (!bucket) {
+          continue;
+        }
+
+        for (const item of bucket.items.values()) {
+          if (filter && !filter(item)) {
+            continue;
+          }
+          const distanceKm = DistanceUtil.calculateDistance(center, item.location);
+          if (distanceKm <= maxDistanceKm) {
+            matches.push({ item, distanceKm });
+          }
+        }
+      }
+
+      if (matches.length >= k) {
+        matches = SpatialIndex.sortMatches(matches).slice(0, k);
+      }
+
+      const bound = this.unvisitedLowerBound(center, origin, ring);
+      const kthDistance = matches.length >= k ? matches[k - 1].distanceKm : Infinity;
+
+      if (
+        bound === Infinity ||
+        bound - SpatialIndex.DISTANCE_EPSILON_KM > Math.min(kthDistance, maxDistanceKm)
+      ) {
+        break;
+      }
+    }
+
+    return SpatialIndex.sortMatches(matches).slice(0, k);
+  }
+
+  /**
+   * Finds the k nearest items by computing the distance to every item
+   *
+   * @param center - Reference point
+   * @param k - Maximum number of items to return
+   * @param maxDistanceKm - Ignore items farther than this distance
+   * @param filter - Optional predicate items must satisfy
+   * @returns Up to k matches ordered by distance, then ID
+   */
+  private scanNearest(
+    center: Coordinates,
+    k: number,
+    maxDistanceKm: number,
+    filter?: (item: T) => boolean,
+  ): SpatialMatch<T>[] {
+    const matches: SpatialMatch<T>[] = [];
+
+    for (const bucket of this.cells.values()) {
+      for (const item of bucket.items.values()) {
+        if (filter && !filter(item)) {
+          continue;
+        }
+        const distanceKm = DistanceUtil.calculateDistance(center, item.location);
+        if (distanceKm <= maxDistanceKm) {
+          matches.push({ item, distanceKm });
+        }
+      }
+    }
+
+    return SpatialIndex.sortMatches(matches).slice(0, k);
+  }
+
+  /**
+   * Orders matches by distance, breaking ties by ID
+   *
+   * @param matches - Matches to sort
+   * @returns Sorted matches
+   */
+  static sortMatches<T extends SpatialItem>(matches: SpatialMatch<T>[]): SpatialMatch<T>[] {
+    return matches.sort((a, b) =>
+      a.distanceKm - b.distanceKm || (a.item.id < b.item.id ? -1 : a.item.id > b.item.id ? 1 : 0),
+    );
+  }
+
+  /**
+   * Lists the cells at Chebyshev distance `ring` from an origin cell
+   * Columns wrap around the antimeridian, rows stop at the poles
+   *
+   * @param origin - Center cell
+   * @param ring - Ring number, 0 being the origin itself
+   * @returns Cells of the ring
+   */
+  private ringCells(origin: GeohashCell, ring: number): GeohashCell[] {
+    const { rows, cols } = this.grid;
+    const cells: GeohashCell[] = [];
+    const seen = new Set<number>();
+
+    const add = (row: number, col: number): void => {
+      if (row < 0 || row >= rows) {
+        return;
+      }
+      const wrappedCol = ((col % cols) + cols) % cols;
+      const key = row * cols + wrappedCol;
+      if (!seen.has(key)) {
+        seen.add(key);
+        cells.push({ row, col: wrappedCol });
+      }
+    };
+
+    if (ring === 0) {
+      add(origin.row, origin.col);
+      return cells;
+    }
+
+    // Once the ring spans every column, its side columns wrap onto cells
+    // already visited by earlier rings
+    const span = Math.min(ring, Math.floor((cols - 1) / 2));
+    for (let dc = -span; dc <= span; dc++) {
+      add(origin.row - ring, origin.col + dc);
+      add(origin.row + ring, origin.col + dc);
+    }
+    if (ring <= span) {
+      for (let dr = -ring + 1; dr <= ring - 1; dr++) {
+        add(origin.row + dr, origin.col - ring);
+        add(origin.row + dr, origin.col + ring);
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Computes the minimum distance from a point to any cell outside the block
+   * of rings visited so far
+   *
+   * @param center - Reference point
+   * @param origin - Cell containing the reference point
+   * @param ring - Last visited ring
+   * @returns Lower bound in kilometers
+   */
+  private unvisitedLowerBound(center: Coordinates, origin: GeohashCell, ring: number): number {
+    const { rows, cols, cellHeight, cellWidth } = this.grid;
+    const bounds: number[] = [];
+
+    if (origin.row + ring + 1 < rows) {
+      const northEdge = (origin.row + ring + 1) * cellHeight - 90;
+      bounds.push(DistanceUtil.latitudeDeltaToKm(northEdge - center.lat));
+    }
+    if (origin.row - ring > 0) {
+      const southEdge = (origin.row - ring) * cellHeight - 90;
+      bounds.push(DistanceUtil.latitudeDeltaToKm(center.lat - southEdge));
+    }
+    if (2 * ring + 1 < cols) {
+      const eastEdge = (origin.col + ring + 1) * cellWidth - 180;
+      const westEdge = (origin.col - ring) * cellWidth - 180;
+      const deltaLng = Math.min(eastEdge - center.lng, center.lng - westEdge);
+      bounds.push(DistanceUtil.minDistanceToMeridian(center.lat, deltaLng));
+    }
+
+    return bounds.length > 0 ? Math.min(...bounds) : Infinity;
+  }
+}
@@ -0,0 +1,65 @@
+import { TextIndex } from './text-index';
+
+describe('TextIndex', () => {
+  let index: TextIndex;
+
+  beforeEach(() => {
+    index = new TextIndex();
+    index.insert('trattoria', [
+      { text: 'Trattoria Alfredo', weight: 3 },
+      { text: 'Authentic Italian pasta, great ambiance.', weight: 1 },
+    ]);
+    index.insert('rooftop', [
+      { text: 'The Rooftop Lounge', weight: 3 },
+      { text: 'Upscale cocktail bar with stunning city views.', weight: 1 },
+    ]);
+    index.insert('cafe', [
+      { text: 'Café Pasta Bar', weight: 3 },
+      { text: 'Fresh pasta to go.', weight: 1 },
+    ]);
+  });
+
+  it('tokenizes case- and accent-insensitively', () => {
+    expect(TextIndex.tokenize('Café  CRÈME-brûlée, 2x!')).toEqual(['cafe', 'creme', 'brulee', '2x']);
+  });
+
+  it('matches whole terms and prefixes', () => {
+    expect(Array.from(index.search('rooftop').keys())).toEqual(['rooftop']);
+    expect(Array.from(index.search('roof').keys())).toEqual(['rooftop']);
+    expect(Array.from(index.search('CAFE').keys())).toEqual(['cafe']);
+  });
+
+  it('expands one-letter terms to prefixes only when configured to', () => {
+    const names = new TextIndex(1);
+    names.insert('park', [{ text: 'Central Park', weight: 1 }]);
+    names.insert('cafe', [{ text: 'Café Pasta Bar', weight: 1 }]);
+
+    expect(index.search('r').size).toBe(0);
+    expect(Array.from(names.search('c').keys()).sort()).toEqual(['cafe', 'park']);
+    expect(Array.from(names.search('central p').keys())).toEqual(['park']);
+  });
+
+  it('requires every query term to match', () => {
+    expect(Array.from(index.search('pasta alfredo').keys())).toEqual(['trattoria']);
+    expect(index.search('pasta sushi').size).toBe(0);
+  });
+
+  it('scores name and exact matches above description and prefix matches', () => {
+    const pasta = index.search('pasta');
+    expect(pasta.get('cafe')).toBeGreaterThan(pasta.get('trattoria') as number);
+
+    const bar = index.search('bar');
+    const barPrefix = index.search('ba');
+    expect(bar.get('rooftop')).toBeGreaterThan(barPrefix.get('rooftop') as number);
+  });
+
+  it('forgets removed and replaced documents', () => {
+    index.remove('rooftop');
+    expect(index.search('rooftop').size).toBe(0);
+
+    index.insert('cafe', [{ text: 'Blue Bottle Coffee', weight: 3 }]);
+    expect(index.search('pasta').has('cafe')).toBe(false);
+    expect(Array.from(index.search('bottle').keys())).toEqual(['cafe']);
+    expect(index.size).toBe(2);
+  });
+});
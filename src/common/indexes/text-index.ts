@@ -0,0 +1,219 @@
+/**
+ * Piece of text indexed for a document with its relative importance
+ */
+export interface WeightedText {
+  text: string;
+  weight: number;
+}
+
+/**
+ * In-memory inverted index for full-text search
+ * Terms are lowercased and stripped of diacritics; every query term must
+ * match a document term exactly or as a prefix, and matches are scored with
+ * BM25-style term frequency saturation and inverse document frequency
+ */
+export class TextIndex {
+  /** Term frequency saturation constant */
+  private static readonly K1 = 1.2;
+  /** Score multiplier for terms matched by prefix only */
+  private static readonly PREFIX_WEIGHT = 0.6;
+  /** Shortest query term that is expanded to prefix matches, unless configured otherwise */
+  private static readonly MIN_PREFIX_LENGTH = 2;
+
+  /** Weighted term frequency per document, by term */
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly termsById = new Map<string, string[]>();
+  /** Sorted vocabulary for prefix lookups, rebuilt lazily after changes */
+  private vocabulary: string[] | null = null;
+
+  /**
+   * @param minPrefixLength - Shortest query term that is expanded to prefix matches
+   */
+  constructor(private readonly minPrefixLength: number = TextIndex.MIN_PREFIX_LENGTH) {}
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.termsById.size;
+  }
+
+  /**
+   * Splits text into normalized search terms
+   *
+   * @param text - Text to tokenize
+   * @returns Lowercase terms without diacritics
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(term => term.length > 0);
+  }
+
+  /**
+   * Adds or replaces a document
+   *
+   * @param id - Document ID
+   * @param fields - Weighted texts to index
+   */
+  insert(id: string, fields: WeightedText[]): void {
+    this.remove(id);
+
+    const frequencies = new Map<string, number>();
+    for (const field of fields) {
+      for (const term of TextIndex.tokenize(field.text)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + field.weight);
+      }
+    }
+
+    frequencies.forEach((frequency, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.vocabulary = null;
+      }
+      posting.set(id, frequency);
+    });
+
+    this.termsById.set(id, Array.from(frequencies.keys()));
+  }
+
+  /**
+   * Removes a document
+   *
+   * @param id - Document ID
+   * @returns True if the document was indexed
+   */
+  remove(id: string): boolean {
+    const terms = this.termsById.get(id);
+    if (!terms) {
+      return false;
+    }
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+        this.vocabulary = null;
+      }
+    }
+
+    this.termsById.delete(id);
+    return true;
+  }
+
+  /**
+   * Removes every document
+   */
+  clear(): void {
+    this.postings.clear();
+    this.termsById.clear();
+    this.vocabulary = null;
+  }
+
+  /**
+   * Finds documents matching every term of a query
+   *
+   * @param query - Free-text query
+   * @returns Relevance score by document ID; empty when nothing matches
+   */
+  search(query: string): Map<string, number> {
+    const queryTerms = Array.from(new Set(TextIndex.tokenize(query)));
+    let scores: Map<string, number> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termScores = this.scoreTerm(queryTerm);
+      const previous: Map<string, number> | null = scores;
+
+      if (!previous) {
+        scores = termScores;
+        continue;
+      }
+
+      // Keep only documents matching every term so far
+      const combined = new Map<string, number>();
+      termScores.forEach((score, id) => {
+        const earlier = previous.get(id);
+        if (earlier !== undefined) {
+          combined.set(id, earlier + score);
+        }
+      });
+      scores = combined;
+
+      if (scores.size === 0) {
+        break;
+      }
+    }
+
+    return scores || new Map();
+  }
+
+  /**
+   * Scores documents for one query term, keeping each document's best match
+   *
+   * @param queryTerm - Normalized query term
+   * @returns Score by document ID
+   */
+  private scoreTerm(queryTerm: string): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    for (const term of this.matchingTerms(queryTerm)) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (this.size - posting.size + 0.5) / (posting.size + 0.5));
+      const weight = term === queryTerm ? 1 : TextIndex.PREFIX_WEIGHT;
+
+      posting.forEach((frequency, id) => {
+        const score = weight * idf * (frequency * (TextIndex.K1 + 1)) / (frequency + TextIndex.K1);
+        if (score > (scores.get(id) || 0)) {
+          scores.set(id, score);
+        }
+      });
+    }
+
+    return scores;
+  }
+
+  /**
+   * Lists indexed terms equal to or starting with a query term
+   *
+   * @param queryTerm - Normalized query term
+   * @returns Matching vocabulary terms
+   */
+  private matchingTerms(queryTerm: string): string[] {
+    if (queryTerm.length < this.minPrefixLength) {
+      return this.postings.has(queryTerm) ? [queryTerm] : [];
+    }
+
+    if (!this.vocabulary) {
+      this.vocabulary = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first term >= queryTerm, then walk the prefix range
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.vocabulary[mid] < queryTerm) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.vocabulary.length && this.vocabulary[i].startsWith(queryTerm); i++) {
+      terms.push(this.vocabulary[i]);
+    }
+
+    return terms;
+  }
+}
@@ -0,0 +1,76 @@
+import { CallHandler, ExecutionContext, HttpStatus, Injectable, NestInterceptor } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+/**
+ * Adds a weak ETag to JSON responses and answers matching conditional
+ * requests (`If-None-Match`) with 304 Not Modified and no body
+ *
+ * The tag hashes the response body without its `metadata` block, which
+ * carries per-request timings and timestamps, so repeated queries with the
+ * same results get the same tag. List it before interceptors that reshape the
+ * body (such as GeoJsonInterceptor) so each representation is tagged as sent.
+ * Tagged responses vary on `Authorization` and `Accept`, so shared caches
+ * never serve one user's personalized results (e.g. `is_favorite`) to another.
+ */
+@Injectable()
+export class ETagInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+
+    return next.handle().pipe(
+      map(body => {
+        if (typeof body !== 'object' || body === null) {
+          return body;
+        }
+
+        const etag = this.etagOf(body);
+        response.setHeader('ETag', etag);
+        // The body may be personalized for the signed-in user and shaped by Accept
+        response.vary('Authorization');
+        response.vary('Accept');
+
+        if (this.matches(request.headers['if-none-match'], etag)) {
+          response.status(HttpStatus.NOT_MODIFIED);
+          return undefined;
+        }
+
+        return body;
+      }),
+    );
+  }
+
+  /**
+   * Computes the tag of a response body
+   *
+   * @param body - Response body
+   * @returns Weak ETag
+   */
+  private etagOf(body: object): string {
+    const hash = createHash('sha1')
+      .update(JSON.stringify({ ...body, metadata: undefined }))
+      .digest('base64url');
+
+    return `W/"${hash}"`;
+  }
+
+  /**
+   * Compares an If-None-Match header with the current tag (weak comparison)
+   *
+   * @param header - If-None-Match header value
+   * @param etag - Current tag
+   * @returns True if the client's copy is current
+   */
+  private matches(header: string | undefined, etag: string): boolean {
+    if (!header) {
+      return false;
+    }
+
+    const opaque = (tag: string): string => tag.trim().replace(/^W\//, '');
+    return header.split(',').some(tag => tag.trim() === '*' || opaque(tag) === opaque(etag));
+  }
+}
@@ -0,0 +1,86 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { Place } from '../interfaces/location.interface';
+import { GeoJsonUtil } from '../utils/geojson.util';
+
+/**
+ * Media type of GeoJSON documents (RFC 7946)
+ */
+export const GEOJSON_MEDIA_TYPE = 'application/geo+json';
+
+/**
+ * Serializes discovery responses as GeoJSON FeatureCollections when the client
+ * asks for them with `Accept: application/geo+json` or `format=geojson`
+ *
+ * Places in `results` (or a lone `place`) become Point features; the remaining
+ * response fields are kept as foreign members.
+ * `format=json` forces plain JSON regardless of the Accept header.
+ */
+@Injectable()
+export class GeoJsonInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+
+    response.vary('Accept');
+    if (!this.wantsGeoJson(request)) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      map(body => {
+        const collection = this.toFeatureCollection(body);
+        if (collection) {
+          response.type(GEOJSON_MEDIA_TYPE);
+        }
+        return collection ?? body;
+      }),
+    );
+  }
+
+  /**
+   * Decides whether the client asked for GeoJSON
+   *
+   * @param request - Incoming request
+   * @returns True if the response should be a FeatureCollection
+   */
+  private wantsGeoJson(request: Request): boolean {
+    const format = request.query?.format ?? request.body?.format;
+    if (format === 'geojson' || format === 'json') {
+      return format === 'geojson';
+    }
+
+    return request.accepts(['application/json', GEOJSON_MEDIA_TYPE]) === GEOJSON_MEDIA_TYPE;
+  }
+
+  /**
+   * Converts a discovery response body into a FeatureCollection
+   *
+   * @param body - Response body returned by the handler
+   * @returns FeatureCollection, or undefined if the body holds no places
+   */
+  private toFeatureCollection(body: unknown): Record<string, unknown> | undefined {
+    if (typeof body !== 'object' || body === null) {
+      return undefined;
+    }
+
+    const { results, place, ...members } = body as {
+      results?: unknown;
+      place?: Place | null;
+      [member: string]: unknown;
+    };
+
+    if (Array.isArray(results)) {
+      return GeoJsonUtil.placesToFeatureCollection(results as Place[], members);
+    }
+
+    if ('place' in body) {
+      return GeoJsonUtil.placesToFeatureCollection(place ? [place] : [], members);
+    }
+
+    return undefined;
+  }
+}
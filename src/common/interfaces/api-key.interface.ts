@@ -0,0 +1,61 @@
+/**
+ * Rate limit plan of an API key
+ */
+export type ApiKeyTier = 'free' | 'partner' | 'enterprise';
+
+/**
+ * Request limits per throttler bucket (short, medium, long)
+ */
+export type TierLimits = Record<string, number>;
+
+/**
+ * Stored API key
+ * Only a hash of the key is kept; the key itself is shown once on creation
+ */
+export interface ApiKey {
+  /** Unique identifier for the key */
+  id: string;
+  /** Name of the partner app or owner */
+  name: string;
+  /** Rate limit plan */
+  tier: ApiKeyTier;
+  /** Whether the key may manage other keys */
+  admin: boolean;
+  /** First characters of the key, to recognize it in listings */
+  prefix: string;
+  /** SHA-256 hash of the key (hex) */
+  key_hash: string;
+  /** Creation time (ISO 8601) */
+  created_at: string;
+  /** Revocation time (ISO 8601); revoked keys are rejected */
+  revoked_at?: string;
+}
+
+/**
+ * API key as returned by the management endpoints
+ */
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
+
+/**
+ * Newly created API key, including the key itself
+ */
+export interface CreatedApiKey extends ApiKeySummary {
+  /** The key to send in the X-API-Key header; it cannot be retrieved again */
+  key: string;
+}
+
+/**
+ * API key a request was authenticated with
+ */
+export interface AuthenticatedApiKey {
+  /** Key ID */
+  id: string;
+  /** Key name */
+  name: string;
+  /** Rate limit plan */
+  tier: ApiKeyTier;
+  /** Whether the key may manage other keys */
+  admin: boolean;
+  /** Request limits of the plan per throttler bucket */
+  limits: TierLimits;
+}
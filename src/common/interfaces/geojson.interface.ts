@@ -0,0 +1,38 @@
+/**
+ * Position as defined by RFC 7946: [longitude, latitude]
+ */
+export type GeoJsonPosition = [number, number];
+
+/**
+ * GeoJSON Point geometry
+ */
+export interface GeoJsonPoint {
+  type: 'Point';
+  coordinates: GeoJsonPosition;
+}
+
+/**
+ * GeoJSON Feature with arbitrary properties
+ */
+export interface GeoJsonFeature<P = Record<string, unknown>> {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJsonPoint;
+  properties: P;
+}
+
+/**
+ * GeoJSON FeatureCollection
+ */
+export interface GeoJsonFeatureCollection<P = Record<string, unknown>> {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature<P>[];
+}
+
+/**
+ * GeoJSON Polygon geometry: an exterior ring followed by optional holes
+ */
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: GeoJsonPosition[][];
+}
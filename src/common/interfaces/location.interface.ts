@@ -1,3 +1,5 @@
+import { GeoJsonPolygon, GeoJsonPosition } from './geojson.interface';
+
 /**
  * Represents a geographical coordinate point
  */
@@ -8,6 +10,21 @@ export interface Coordinates {
   lng: number;
 }
 
+/**
+ * Represents a latitude/longitude bounding box
+ * When minLng is greater than maxLng the box crosses the antimeridian
+ */
+export interface BoundingBox {
+  /** Southern edge latitude */
+  minLat: number;
+  /** Western edge longitude */
+  minLng: number;
+  /** Northern edge latitude */
+  maxLat: number;
+  /** Eastern edge longitude */
+  maxLng: number;
+}
+
 /**
  * Represents a complete location with address information
  */
@@ -16,6 +33,47 @@ export interface Location extends Coordinates {
   address: string;
 }
 
+/**
+ * Days of the week as used in opening hours schedules
+ */
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * An opening time range in the place's local time
+ * A close time at or before the open time means the range runs past
+ * midnight into the next day
+ */
+export interface TimeRange {
+  /** Opening time (HH:mm) */
+  open: string;
+  /** Closing time (HH:mm, 24:00 for midnight) */
+  close: string;
+}
+
+/**
+ * Opening hours overriding the weekly schedule on a specific date
+ */
+export interface HolidayHours {
+  /** Local date (YYYY-MM-DD) */
+  date: string;
+  /** Optional holiday name */
+  name?: string;
+  /** Opening ranges for the day; empty when closed all day */
+  ranges: TimeRange[];
+}
+
+/**
+ * Structured weekly opening hours of a place
+ */
+export interface OpeningHours {
+  /** IANA timezone the times are expressed in */
+  timezone: string;
+  /** Opening ranges per weekday; missing days are closed */
+  weekly: Partial<Record<Weekday, TimeRange[]>>;
+  /** Date-specific overrides (optional) */
+  holidays?: HolidayHours[];
+}
+
 /**
  * Represents a discovered place/spot
  */
@@ -30,10 +88,30 @@ export interface Place {
   description: string;
   /** Distance from query point in kilometers */
   distance_km: number;
-  /** Whether the place is currently open */
+  /** Whether the place is currently open, computed from opening_hours when present */
   open_now: boolean;
+  /** Weekly opening hours schedule (optional) */
+  opening_hours?: OpeningHours;
+  /** Average rating from 1 to 5 (optional) */
+  rating?: number;
+  /** Number of ratings behind the average, including reviews (optional) */
+  rating_count?: number;
+  /** Number of reviews written on this service (optional) */
+  review_count?: number;
+  /** Whether the authenticated user saved the place; only set for logged-in discovery requests */
+  is_favorite?: boolean;
+  /** Visits in the last 30 days, used as a popularity signal (optional) */
+  popularity?: number;
+  /** Ranking score between 0 and 1, set when results are sorted by relevance */
+  relevance?: number;
+  /** Per-signal contributions to relevance, set in debug mode only */
+  score_breakdown?: ScoreBreakdown;
+  /** Distance along the route to the point closest to the place, set for route searches only */
+  route_position_km?: number;
   /** URL to the place's image */
   image_url: string;
+  /** Free-form lowercase tags (optional) */
+  tags?: string[];
   /** Location information */
   location: Location;
 }
@@ -59,32 +137,340 @@ export enum PlaceCategory {
   SERVICE = 'service',
 }
 
+/**
+ * Category of the taxonomy; a filter on a category also matches its descendants
+ */
+export interface CategoryNode {
+  /** Unique category ID, used as Place.category */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Material Symbols icon name */
+  icon: string;
+  /** Parent category ID, or null for top-level categories */
+  parent: string | null;
+  /** Sub-categories */
+  children: CategoryNode[];
+}
+
+/**
+ * Category with the number of places in it and its descendants
+ */
+export interface CategorySummary extends Omit<CategoryNode, 'children'> {
+  /** Number of places of this category or one of its descendants */
+  place_count: number;
+  /** Sub-categories */
+  children: CategorySummary[];
+}
+
+/**
+ * Result orderings
+ * relevance combines distance, open state, rating, popularity and text match
+ */
+export type PlaceSort = 'relevance' | 'distance' | 'rating';
+
+/**
+ * Contribution of one ranking signal to a place's relevance
+ */
+export interface ScoreComponent {
+  /** Signal value between 0 and 1 */
+  score: number;
+  /** Share of the signal in the total, between 0 and 1 */
+  weight: number;
+  /** score × weight */
+  contribution: number;
+}
+
+/**
+ * Ranking signal contributions by signal name
+ */
+export type ScoreBreakdown = Record<string, ScoreComponent>;
+
+/**
+ * Filter, ordering and paging parameters shared by every discovery query
+ */
+export interface PlaceFilters {
+  /** Category filter (optional) */
+  category?: string;
+  /** Keep places of any of these categories, in addition to category (optional) */
+  categories?: string[];
+  /** Drop places of these categories (optional) */
+  exclude?: string[];
+  /** Only return places carrying all of these tags (optional) */
+  tags?: string[];
+  /** Free-text query over name, description, address and tags (optional) */
+  q?: string;
+  /** Maximum number of results (optional) */
+  limit?: number;
+  /** Opaque cursor returned by a previous page (optional) */
+  cursor?: string;
+  /** Only return places whose open state matches (optional) */
+  open_now?: boolean;
+  /** Only return places open at this ISO 8601 time (optional) */
+  open_at?: string;
+  /** Only return places rated at least this (optional) */
+  min_rating?: number;
+  /** Result ordering; relevance for text searches, distance otherwise (optional) */
+  sort?: PlaceSort;
+  /** Include each result's score breakdown (optional) */
+  debug?: boolean;
+}
+
 /**
  * Discovery query parameters
  */
-export interface DiscoveryQuery {
+export interface DiscoveryQuery extends PlaceFilters {
   /** Latitude of the search center */
   latitude: number;
   /** Longitude of the search center */
   longitude: number;
   /** Search radius in kilometers (optional) */
   radius?: number;
-  /** Category filter (optional) */
-  category?: string;
-  /** Maximum number of results (optional) */
-  limit?: number;
 }
 
 /**
- * Discovery response structure
+ * Viewport discovery query parameters
  */
-export interface DiscoveryResponse {
+export interface BoundingBoxQuery extends PlaceFilters, BoundingBox {}
+
+/**
+ * Polygon discovery query parameters
+ */
+export interface PolygonQuery extends PlaceFilters {
+  /** Area to search */
+  polygon: GeoJsonPolygon;
+}
+
+/**
+ * Along-route discovery query parameters
+ * The route is given either as an encoded polyline or as [lng, lat] positions
+ */
+export interface AlongRouteQuery extends PlaceFilters {
+  /** Encoded polyline of the route (optional) */
+  polyline?: string;
+  /** Decimal places encoded in the polyline, 5 or 6 (optional) */
+  precision?: number;
+  /** Route positions as [lng, lat] pairs (optional) */
+  coordinates?: GeoJsonPosition[];
+  /** Maximum distance from the route in kilometers (optional) */
+  corridor_km?: number;
+}
+
+/**
+ * Discovery response structure, echoing the query it answers
+ */
+export interface DiscoveryResponse<Q extends PlaceFilters = DiscoveryQuery> {
   /** Array of discovered places */
   results: Place[];
-  /** Total number of results found */
+  /** Total number of places matching the query within the searched area */
+  total: number;
+  /** Cursor for the next page, or null on the last page */
+  next_cursor: string | null;
+  /** Query parameters used */
+  query: Q;
+  /** Response metadata */
+  metadata: {
+    /** Processing time in milliseconds */
+    processing_time_ms: number;
+    /** Timestamp of the response */
+    timestamp: string;
+  };
+}
+
+/**
+ * Nearest place query parameters
+ */
+export interface NearestQuery {
+  /** Latitude of the reference point */
+  latitude: number;
+  /** Longitude of the reference point */
+  longitude: number;
+  /** Category filter, also matching sub-categories (optional) */
+  category?: string;
+  /** Number of nearest places (optional) */
+  k?: number;
+  /** Maximum distance to the places in kilometers (optional) */
+  max_distance_km?: number;
+}
+
+/**
+ * Nearest place response structure
+ */
+export interface NearestResponse {
+  /** Nearest place */
+  place: Place;
+  /** The k nearest places, closest first */
+  results: Place[];
+  /** Number of places returned */
+  total: number;
+  /** Query parameters used */
+  query: NearestQuery;
+  /** Response metadata */
+  metadata: {
+    /** Processing time in milliseconds */
+    processing_time_ms: number;
+    /** Timestamp of the response */
+    timestamp: string;
+  };
+}
+
+/**
+ * Autocomplete query parameters
+ */
+export interface SuggestQuery {
+  /** Text typed so far */
+  prefix: string;
+  /** Latitude of the user */
+  latitude: number;
+  /** Longitude of the user */
+  longitude: number;
+  /** Radius in kilometers to look for matching places (optional) */
+  radius?: number;
+  /** Maximum number of suggestions (optional) */
+  limit?: number;
+}
+
+/**
+ * Autocomplete suggestion
+ */
+export interface Suggestion {
+  /** Whether the suggestion is a place name or a category */
+  type: 'place' | 'category';
+  /** Suggested text: the place name, or the category's display name */
+  text: string;
+  /** Category ID of the place, or of the suggested category */
+  category: string;
+  /** ID of the suggested place (place suggestions only) */
+  place_id?: string;
+  /** Distance to the place, or to the nearest place of the category, in kilometers */
+  distance_km: number;
+  /** Ranking score combining prefix match quality and proximity */
+  score: number;
+}
+
+/**
+ * Autocomplete response structure
+ */
+export interface SuggestResponse {
+  /** Suggestions, best first */
+  suggestions: Suggestion[];
+  /** Query parameters used */
+  query: SuggestQuery;
+  /** Response metadata */
+  metadata: {
+    /** Processing time in milliseconds */
+    processing_time_ms: number;
+    /** Timestamp of the response */
+    timestamp: string;
+  };
+}
+
+/**
+ * File formats accepted by the place import
+ */
+export type PlaceImportFormat = 'csv' | 'geojson';
+
+/**
+ * Options for a place import
+ */
+export interface PlaceImportOptions {
+  /** File format */
+  format: PlaceImportFormat;
+  /** Validate and report without writing to the store (optional) */
+  dry_run?: boolean;
+  /** What to do with rows whose ID is already stored: skip them or update the place (optional) */
+  on_conflict?: 'skip' | 'update';
+}
+
+/**
+ * Validation failure of a single imported row
+ */
+export interface PlaceImportRowError {
+  /** 1-based position of the row (CSV data row or GeoJSON feature) */
+  row: number;
+  /** Place ID of the row, if it has one */
+  id?: string;
+  /** What is wrong with the row */
+  errors: string[];
+}
+
+/**
+ * Result of a place import
+ */
+export interface PlaceImportReport {
+  /** File format */
+  format: PlaceImportFormat;
+  /** Whether the import only validated the file */
+  dry_run: boolean;
+  /** Number of rows in the file */
+  total: number;
+  /** Rows creating a new place */
+  created: number;
+  /** Rows updating an existing place */
+  updated: number;
+  /** Rows skipped because their ID is already stored */
+  skipped: number;
+  /** Rows rejected by validation */
+  failed: number;
+  /** Rejected rows with their errors */
+  errors: PlaceImportRowError[];
+  /** Response metadata */
+  metadata: {
+    /** Processing time in milliseconds */
+    processing_time_ms: number;
+    /** Timestamp of the response */
+    timestamp: string;
+  };
+}
+
+/**
+ * Parameters for finding candidate duplicate places
+ */
+export interface DuplicateQuery {
+  /** Maximum distance between duplicates in meters (optional) */
+  max_distance_m?: number;
+  /** Minimum name similarity between 0 and 1 (optional) */
+  min_similarity?: number;
+  /** Only consider places of this category (optional) */
+  category?: string;
+  /** Maximum number of clusters (optional) */
+  limit?: number;
+}
+
+/**
+ * Two places that look like the same venue
+ */
+export interface DuplicatePair {
+  /** IDs of the two places */
+  ids: [string, string];
+  /** Distance between them in meters */
+  distance_m: number;
+  /** Fuzzy similarity of their names between 0 and 1 */
+  name_similarity: number;
+}
+
+/**
+ * Group of places that are candidate duplicates of each other
+ */
+export interface DuplicateCluster {
+  /** Place suggested to keep when merging (the most complete record) */
+  primary_id: string;
+  /** Places in the cluster, suggested primary first */
+  places: Place[];
+  /** Matching pairs linking the cluster together */
+  pairs: DuplicatePair[];
+}
+
+/**
+ * Duplicate review response structure
+ */
+export interface DuplicatesResponse {
+  /** Clusters, most similar first */
+  clusters: DuplicateCluster[];
+  /** Number of clusters found, before applying the limit */
   total: number;
   /** Query parameters used */
-  query: DiscoveryQuery;
+  query: DuplicateQuery;
   /** Response metadata */
   metadata: {
     /** Processing time in milliseconds */
@@ -92,4 +478,72 @@ export interface DiscoveryResponse {
     /** Timestamp of the response */
     timestamp: string;
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Result of merging duplicate places
+ */
+export interface PlaceMergeResult {
+  /** Consolidated place */
+  place: Place;
+  /** IDs that were merged into it and now redirect to it */
+  merged_ids: string[];
+}
+
+/**
+ * Review of a place
+ */
+export interface Review {
+  /** Unique identifier for the review */
+  id: string;
+  /** ID of the reviewed place */
+  place_id: string;
+  /** Star rating from 1 to 5 */
+  rating: number;
+  /** Review text */
+  text: string;
+  /** Display name of the author (optional) */
+  author?: string;
+  /** Creation time (ISO 8601) */
+  created_at: string;
+}
+
+/**
+ * Page of a place's reviews, newest first
+ */
+export interface ReviewsResponse {
+  /** Reviewed place */
+  place_id: string;
+  /** Average rating of the place, including ratings from other sources */
+  rating?: number;
+  /** Number of ratings behind the average */
+  rating_count?: number;
+  /** Reviews on this page */
+  results: Review[];
+  /** Number of reviews across all pages */
+  total: number;
+  /** Cursor for the next page, null on the last page */
+  next_cursor: string | null;
+}
+
+/**
+ * Place saved by a user
+ */
+export interface Favorite {
+  /** ID of the user who saved the place */
+  user_id: string;
+  /** ID of the saved place */
+  place_id: string;
+  /** Time the place was saved (ISO 8601) */
+  created_at: string;
+}
+
+/**
+ * Places saved by a user, most recently saved first
+ */
+export interface FavoritesResponse {
+  /** IDs of the saved places */
+  place_ids: string[];
+  /** Number of saved places */
+  total: number;
+}
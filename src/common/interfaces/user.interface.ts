@@ -0,0 +1,44 @@
+/**
+ * Stored user account
+ */
+export interface User {
+  /** Unique identifier for the user */
+  id: string;
+  /** Lowercase email address, used to log in */
+  email: string;
+  /** Display name (optional) */
+  name?: string;
+  /** scrypt hash of the password with its salt */
+  password_hash: string;
+  /** Creation time (ISO 8601) */
+  created_at: string;
+}
+
+/**
+ * User account as returned by the API
+ */
+export type UserProfile = Omit<User, 'password_hash'>;
+
+/**
+ * User a request was authenticated as
+ */
+export interface AuthenticatedUser {
+  /** User ID */
+  id: string;
+  /** Email address */
+  email: string;
+}
+
+/**
+ * Access token issued on signup or login
+ */
+export interface AuthToken {
+  /** Signed JWT to send as `Authorization: Bearer <token>` */
+  access_token: string;
+  /** Token type, always Bearer */
+  token_type: 'Bearer';
+  /** Seconds until the token expires */
+  expires_in: number;
+  /** Account the token belongs to */
+  user: UserProfile;
+}
@@ -0,0 +1,51 @@
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { RedisThrottlerStorage } from './redis-throttler.storage';
+
+describe('RedisThrottlerStorage', () => {
+  let redis: Redis;
+  let storage: RedisThrottlerStorage;
+
+  beforeEach(async () => {
+    redis = new RedisMock();
+    await redis.flushall();
+    storage = new RedisThrottlerStorage(redis, 'test:');
+  });
+
+  afterEach(async () => {
+    await storage.onApplicationShutdown();
+  });
+
+  it('counts hits in a fixed window', async () => {
+    expect(await storage.increment('client', 60000)).toEqual({ totalHits: 1, timeToExpire: 60 });
+    expect((await storage.increment('client', 60000)).totalHits).toBe(2);
+    expect((await storage.increment('other', 60000)).totalHits).toBe(1);
+    expect(await redis.get('test:client')).toBe('2');
+    expect(await redis.pttl('test:client')).toBeGreaterThan(59000);
+  });
+
+  it('shares counters between replicas', async () => {
+    const replica = new RedisThrottlerStorage(new RedisMock(), 'test:');
+
+    await storage.increment('client', 60000);
+    expect((await replica.increment('client', 60000)).totalHits).toBe(2);
+
+    await replica.onApplicationShutdown();
+  });
+
+  it('starts a new window once the previous one expires', async () => {
+    await storage.increment('client', 50);
+    await storage.increment('client', 50);
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    expect((await storage.increment('client', 50)).totalHits).toBe(1);
+  });
+
+  it('lets requests through when Redis fails', async () => {
+    jest.spyOn(redis, 'multi').mockImplementation(() => {
+      throw new Error('Connection is closed.');
+    });
+
+    expect(await storage.increment('client', 60000)).toEqual({ totalHits: 0, timeToExpire: 60 });
+  });
+});
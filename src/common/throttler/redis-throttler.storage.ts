@@ -0,0 +1,67 @@
+import { Logger, OnApplicationShutdown } from '@nestjs/common';
+import { ThrottlerStorage } from '@nestjs/throttler';
+import Redis from 'ioredis';
+
+/**
+ * Hit count and seconds left in the window, as returned to ThrottlerGuard
+ */
+type ThrottlerStorageRecord = Awaited<ReturnType<ThrottlerStorage['increment']>>;
+
+/**
+ * Throttler storage keeping hit counters in Redis (or any server speaking
+ * the Redis protocol), so every replica enforces the same limits and
+ * counters survive restarts
+ *
+ * Each key is a fixed window: the first hit creates the counter with the
+ * throttler's TTL and later hits increment it until it expires. Commands run
+ * in a MULTI block so a counter is never left without an expiry. When Redis
+ * cannot be reached requests are let through rather than failing the API.
+ */
+export class RedisThrottlerStorage implements ThrottlerStorage, OnApplicationShutdown {
+  private readonly logger = new Logger(RedisThrottlerStorage.name);
+
+  /**
+   * @param redis - Connected client
+   * @param keyPrefix - Prefix of the counter keys, to share a database with other data
+   */
+  constructor(
+    private readonly redis: Redis,
+    private readonly keyPrefix: string = 'throttler:',
+  ) {}
+
+  /**
+   * Records a hit
+   *
+   * @param key - Throttler key (hashed tracker and bucket name)
+   * @param ttl - Window length in milliseconds
+   * @returns Hits in the current window and seconds until it ends
+   */
+  async increment(key: string, ttl: number): Promise<ThrottlerStorageRecord> {
+    const redisKey = `${this.keyPrefix}${key}`;
+
+    try {
+      const results = await this.redis
+        .multi()
+        .set(redisKey, 0, 'PX', ttl, 'NX')
+        .incr(redisKey)
+        .pttl(redisKey)
+        .exec();
+      const failed = results?.find(([error]) => error);
+      if (!results || failed) {
+        throw failed?.[0] ?? new Error('Transaction aborted');
+      }
+
+      const totalHits = Number(results[1][1]);
+      const timeToExpire = Math.max(Math.ceil(Number(results[2][1]) / 1000), 0);
+      return { totalHits, timeToExpire };
+
+    } catch (error) {
+      this.logger.warn(`Rate limit check skipped, Redis unavailable: ${error.message}`);
+      return { totalHits: 0, timeToExpire: Math.ceil(ttl / 1000) };
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.redis.quit().catch(() => undefined);
+  }
+}
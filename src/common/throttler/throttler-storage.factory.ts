@@ -0,0 +1,37 @@
+import { ConfigService } from '@nestjs/config';
+import { ThrottlerStorage, ThrottlerStorageService } from '@nestjs/throttler';
+import Redis from 'ioredis';
+import { RedisThrottlerStorage } from './redis-throttler.storage';
+
+/**
+ * Supported throttler storage backends
+ */
+export type ThrottlerStorageDriver = 'memory' | 'redis';
+
+/**
+ * Creates the throttler storage selected by `throttler.storage`
+ * `memory` keeps counters per process; `redis` shares them between replicas
+ *
+ * @param configService - Configuration service
+ * @returns Storage for ThrottlerModule
+ * @throws Error if the driver is unknown
+ */
+export const createThrottlerStorage = (configService: ConfigService): ThrottlerStorage => {
+  const driver = configService.get<ThrottlerStorageDriver>('throttler.storage', 'memory');
+
+  switch (driver) {
+    case 'memory':
+      return new ThrottlerStorageService();
+    case 'redis':
+      return new RedisThrottlerStorage(
+        new Redis(configService.get<string>('throttler.redisUrl', 'redis://localhost:6379'), {
+          // Fail fast so an outage does not hold requests while reconnecting
+          maxRetriesPerRequest: 1,
+          enableOfflineQueue: false,
+        }),
+        configService.get<string>('throttler.keyPrefix', 'onspotx:throttler:'),
+      );
+    default:
+      throw new Error(`Unsupported throttler storage: ${driver}`);
+  }
+};
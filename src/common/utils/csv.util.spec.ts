@@ -0,0 +1,28 @@
+import { CsvUtil } from './csv.util';
+
+describe('CsvUtil', () => {
+  it('parses quoted fields with separators, quotes and line breaks', () => {
+    const text = '﻿name,notes\r\n"Joe\'s, Pizza","Says ""hi""\nand bye"\r\nplain,\n';
+
+    expect(CsvUtil.parse(text)).toEqual([
+      ['name', 'notes'],
+      ['Joe\'s, Pizza', 'Says "hi"\nand bye'],
+      ['plain', ''],
+    ]);
+  });
+
+  it('skips blank lines and handles a missing final line break', () => {
+    expect(CsvUtil.parse('a,b\n\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('rejects unterminated quotes', () => {
+    expect(() => CsvUtil.parse('a,"b\n1,2')).toThrow('Invalid CSV');
+  });
+
+  it('builds records keyed by the trimmed header, leaving out empty fields', () => {
+    expect(CsvUtil.parseRecords(' id , name,lat\nx1,,40.7\n')).toEqual({
+      header: ['id', 'name', 'lat'],
+      records: [{ id: 'x1', lat: '40.7' }],
+    });
+  });
+});
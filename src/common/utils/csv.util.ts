@@ -0,0 +1,100 @@
+import { InvalidImportFileException } from '../exceptions/domain.exceptions';
+
+/**
+ * Utility class for reading CSV (RFC 4180) files
+ */
+export class CsvUtil {
+  /**
+   * Parses CSV text into rows of fields
+   * Supports quoted fields containing separators, doubled quotes and line breaks,
+   * CRLF or LF line endings and a leading byte order mark
+   *
+   * @param text - CSV text
+   * @param separator - Field separator
+   * @returns Rows of raw field values; blank lines are skipped
+   * @throws InvalidImportFileException if a quoted field is not closed
+   */
+  static parse(text: string, separator: string = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endRow = (): void => {
+      row.push(field);
+      if (row.length > 1 || row[0] !== '') {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+    };
+
+    while (index < text.length) {
+      const char = text[index];
+
+      if (quoted) {
+        if (char === '"' && text[index + 1] === '"') {
+          field += '"';
+          index++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === separator) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        endRow();
+        if (char === '\r' && text[index + 1] === '\n') {
+          index++;
+        }
+      } else {
+        field += char;
+      }
+
+      index++;
+    }
+
+    if (quoted) {
+      throw new InvalidImportFileException('Invalid CSV: unterminated quoted field');
+    }
+    if (field !== '' || row.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parses CSV text with a header row into records keyed by column name
+   * Column names are trimmed; empty fields are left out of the record
+   *
+   * @param text - CSV text
+   * @returns Header names and one record per data row
+   * @throws InvalidImportFileException if the text is malformed or has no header
+   */
+  static parseRecords(text: string): { header: string[]; records: Record<string, string>[] } {
+    const [header, ...rows] = CsvUtil.parse(text);
+    if (!header) {
+      throw new InvalidImportFileException('Invalid CSV: missing header row');
+    }
+
+    const columns = header.map(name => name.trim());
+    const records = rows.map(fields => {
+      const record: Record<string, string> = {};
+      fields.forEach((value, index) => {
+        const column = columns[index] || `column_${index + 1}`;
+        if (value !== '') {
+          record[column] = value;
+        }
+      });
+      return record;
+    });
+
+    return { header: columns, records };
+  }
+}
@@ -0,0 +1,69 @@
+import { InvalidParameterException } from '../exceptions/domain.exceptions';
+
+/**
+ * Position of the last item of a page in a result set ordered by ascending
+ * sort value, then ID
+ */
+export interface PageCursor {
+  /** Sort value of the last returned item (distance in km, negated relevance or negated review time) */
+  value: number;
+  /** ID of the last returned item, breaking sort value ties */
+  id: string;
+}
+
+/**
+ * Utility class for opaque pagination cursors
+ * Cursors are base64url-encoded JSON so clients treat them as tokens
+ */
+export class CursorUtil {
+  /**
+   * Encodes a cursor
+   *
+   * @param cursor - Cursor position
+   * @returns Opaque cursor string
+   */
+  static encode(cursor: PageCursor): string {
+    return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+  }
+
+  /**
+   * Decodes a cursor
+   *
+   * @param value - Opaque cursor string
+   * @returns Cursor position
+   * @throws InvalidParameterException if the cursor is malformed
+   */
+  static decode(value: string): PageCursor {
+    let decoded: unknown;
+
+    try {
+      decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidParameterException('cursor', `Invalid cursor: ${value}`);
+    }
+
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 2 ||
+      typeof decoded[0] !== 'number' ||
+      !isFinite(decoded[0]) ||
+      typeof decoded[1] !== 'string'
+    ) {
+      throw new InvalidParameterException('cursor', `Invalid cursor: ${value}`);
+    }
+
+    return { value: decoded[0], id: decoded[1] };
+  }
+
+  /**
+   * Checks whether a place comes after a cursor in (value, id) order
+   *
+   * @param value - Place sort value
+   * @param id - Place ID
+   * @param cursor - Cursor position
+   * @returns True if the place belongs to a later page
+   */
+  static isAfter(value: number, id: string, cursor: PageCursor): boolean {
+    return value > cursor.value || (value === cursor.value && id > cursor.id);
+  }
+}
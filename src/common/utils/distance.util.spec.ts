@@ -0,0 +1,110 @@
+import { GeoJsonPosition } from '../interfaces/geojson.interface';
+import { DistanceUtil } from './distance.util';
+
+describe('DistanceUtil', () => {
+  describe('isInBoundingBox', () => {
+    const manhattan = { minLat: 40.70, minLng: -74.02, maxLat: 40.80, maxLng: -73.93 };
+    const pacific = { minLat: -20, minLng: 170, maxLat: -10, maxLng: -170 };
+
+    it('tests regular boxes inclusively', () => {
+      expect(DistanceUtil.isInBoundingBox({ lat: 40.75, lng: -73.98 }, manhattan)).toBe(true);
+      expect(DistanceUtil.isInBoundingBox({ lat: 40.70, lng: -74.02 }, manhattan)).toBe(true);
+      expect(DistanceUtil.isInBoundingBox({ lat: 40.69, lng: -73.98 }, manhattan)).toBe(false);
+      expect(DistanceUtil.isInBoundingBox({ lat: 40.75, lng: -73.90 }, manhattan)).toBe(false);
+    });
+
+    it('tests boxes crossing the antimeridian', () => {
+      expect(DistanceUtil.isInBoundingBox({ lat: -15, lng: 175 }, pacific)).toBe(true);
+      expect(DistanceUtil.isInBoundingBox({ lat: -15, lng: -175 }, pacific)).toBe(true);
+      expect(DistanceUtil.isInBoundingBox({ lat: -15, lng: 180 }, pacific)).toBe(true);
+      expect(DistanceUtil.isInBoundingBox({ lat: -15, lng: 0 }, pacific)).toBe(false);
+      expect(DistanceUtil.isInBoundingBox({ lat: -15, lng: 160 }, pacific)).toBe(false);
+    });
+
+    it('centers boxes crossing the antimeridian on the right side', () => {
+      expect(DistanceUtil.boundingBoxCenter(pacific)).toEqual({ lat: -15, lng: 180 });
+      expect(DistanceUtil.boundingBoxCenter({ minLat: 0, minLng: 160, maxLat: 10, maxLng: -160 }))
+        .toEqual({ lat: 5, lng: 180 });
+      expect(DistanceUtil.boundingBoxCenter({ minLat: 0, minLng: 170, maxLat: 10, maxLng: -150 }))
+        .toEqual({ lat: 5, lng: -170 });
+    });
+  });
+
+  describe('isPointInPolygon', () => {
+    const square: GeoJsonPosition[] = [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]];
+    const hole: GeoJsonPosition[] = [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]];
+    const concave: GeoJsonPosition[] = [[0, 0], [10, 0], [10, 10], [5, 5], [0, 10], [0, 0]];
+
+    it('tests simple and concave polygons', () => {
+      expect(DistanceUtil.isPointInPolygon({ lat: 5, lng: 5 }, [square])).toBe(true);
+      expect(DistanceUtil.isPointInPolygon({ lat: 5, lng: 11 }, [square])).toBe(false);
+      expect(DistanceUtil.isPointInPolygon({ lat: 8, lng: 5 }, [concave])).toBe(false);
+      expect(DistanceUtil.isPointInPolygon({ lat: 8, lng: 9 }, [concave])).toBe(true);
+    });
+
+    it('excludes holes', () => {
+      expect(DistanceUtil.isPointInPolygon({ lat: 5, lng: 5 }, [square, hole])).toBe(false);
+      expect(DistanceUtil.isPointInPolygon({ lat: 2, lng: 2 }, [square, hole])).toBe(true);
+    });
+
+    it.each([
+      ['jumping across ±180', [[170, -20], [-170, -20], [-170, -10], [170, -10], [170, -20]]],
+      ['extending past 180', [[170, -20], [190, -20], [190, -10], [170, -10], [170, -20]]],
+      ['extending past -180', [[-190, -20], [-170, -20], [-170, -10], [-190, -10], [-190, -20]]],
+    ] as Array<[string, GeoJsonPosition[]]>)('handles rings %s', (_, ring) => {
+      expect(DistanceUtil.isPointInPolygon({ lat: -15, lng: 175 }, [ring])).toBe(true);
+      expect(DistanceUtil.isPointInPolygon({ lat: -15, lng: -175 }, [ring])).toBe(true);
+      expect(DistanceUtil.isPointInPolygon({ lat: -15, lng: 0 }, [ring])).toBe(false);
+      expect(DistanceUtil.isPointInPolygon({ lat: -15, lng: 165 }, [ring])).toBe(false);
+      expect(DistanceUtil.polygonBoundingBox([ring])).toEqual({
+        minLat: -20,
+        minLng: 170,
+        maxLat: -10,
+        maxLng: -170,
+      });
+    });
+  });
+
+  describe('pointToSegmentDistance', () => {
+    const start = { lat: 40.70, lng: -74.00 };
+    const end = { lat: 40.80, lng: -74.00 };
+
+    it('projects points beside the segment onto it', () => {
+      const { distanceKm, fraction } = DistanceUtil.pointToSegmentDistance(
+        { lat: 40.75, lng: -73.99 },
+        start,
+        end,
+      );
+
+      expect(fraction).toBeCloseTo(0.5, 2);
+      expect(distanceKm).toBeCloseTo(0.84, 1);
+    });
+
+    it('measures to the nearest endpoint past either end', () => {
+      const before = { lat: 40.65, lng: -74.00 };
+      const after = { lat: 40.85, lng: -73.99 };
+
+      expect(DistanceUtil.pointToSegmentDistance(before, start, end)).toEqual({
+        distanceKm: DistanceUtil.calculateDistance(before, start),
+        fraction: 0,
+      });
+      expect(DistanceUtil.pointToSegmentDistance(after, start, end)).toEqual({
+        distanceKm: DistanceUtil.calculateDistance(after, end),
+        fraction: 1,
+      });
+    });
+
+    it('handles degenerate segments and the antimeridian', () => {
+      expect(DistanceUtil.pointToSegmentDistance(end, start, start).distanceKm)
+        .toBe(DistanceUtil.calculateDistance(end, start));
+
+      const { distanceKm, fraction } = DistanceUtil.pointToSegmentDistance(
+        { lat: 0.01, lng: 180 },
+        { lat: 0, lng: 179.9 },
+        { lat: 0, lng: -179.9 },
+      );
+      expect(fraction).toBeCloseTo(0.5, 2);
+      expect(distanceKm).toBeCloseTo(1.11, 1);
+    });
+  });
+});
@@ -1,10 +1,12 @@
-import { Coordinates } from '../interfaces/location.interface';
+import { BoundingBox, Coordinates } from '../interfaces/location.interface';
+import { GeoJsonPosition } from '../interfaces/geojson.interface';
 
 /**
  * Utility class for geographical distance calculations
  */
 export class DistanceUtil {
   private static readonly EARTH_RADIUS_KM = 6371; // Earth's radius in kilometers
+  private static readonly KM_PER_DEGREE = (Math.PI * 6371) / 180;
 
   /**
    * Calculates the great-circle distance between two points on Earth
@@ -12,9 +14,22 @@ export class DistanceUtil {
    * 
    * @param point1 - First coordinate point
    * @param point2 - Second coordinate point
-   * @returns Distance in kilometers
+   * @returns Distance in kilometers, rounded to 2 decimals
    */
   static calculateDistance(point1: Coordinates, point2: Coordinates): number {
+    // Round to 2 decimal places for precision
+    return Math.round(this.exactDistance(point1, point2) * 100) / 100;
+  }
+
+  /**
+   * Calculates the great-circle distance between two points without rounding,
+   * for summing many short legs such as the segments of a route
+   * 
+   * @param point1 - First coordinate point
+   * @param point2 - Second coordinate point
+   * @returns Distance in kilometers
+   */
+  static exactDistance(point1: Coordinates, point2: Coordinates): number {
     const lat1Rad = this.toRadians(point1.lat);
     const lat2Rad = this.toRadians(point2.lat);
     const deltaLatRad = this.toRadians(point2.lat - point1.lat);
@@ -26,10 +41,7 @@ export class DistanceUtil {
 
     const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
     
-    const distance = this.EARTH_RADIUS_KM * c;
-    
-    // Round to 2 decimal places for precision
-    return Math.round(distance * 100) / 100;
+    return this.EARTH_RADIUS_KM * c;
   }
 
   /**
@@ -108,4 +120,249 @@ export class DistanceUtil {
     return this.isValidLatitude(coordinates.lat) && 
            this.isValidLongitude(coordinates.lng);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Computes the bounding box enclosing a circle around a point
+   * Longitudes are wrapped into -180..180, so boxes crossing the antimeridian
+   * come back with minLng greater than maxLng
+   * 
+   * @param center - Center of the circle
+   * @param radiusKm - Radius in kilometers
+   * @returns Bounding box covering the circle
+   */
+  static boundingBoxAround(center: Coordinates, radiusKm: number): BoundingBox {
+    const deltaLat = radiusKm / this.KM_PER_DEGREE;
+    const minLat = Math.max(-90, center.lat - deltaLat);
+    const maxLat = Math.min(90, center.lat + deltaLat);
+    
+    // Circles reaching a pole cover every longitude
+    if (minLat === -90 || maxLat === 90) {
+      return { minLat, minLng: -180, maxLat, maxLng: 180 };
+    }
+    
+    const deltaLng = this.toDegrees(
+      Math.asin(Math.min(1, Math.sin(radiusKm / this.EARTH_RADIUS_KM) / Math.cos(this.toRadians(center.lat)))),
+    );
+    
+    return {
+      minLat,
+      minLng: this.normalizeLongitude(center.lng - deltaLng),
+      maxLat,
+      maxLng: this.normalizeLongitude(center.lng + deltaLng),
+    };
+  }
+
+  /**
+   * Computes a lower bound of the distance from a point to any point whose
+   * longitude lies at least a given angle away
+   * 
+   * @param lat - Latitude of the reference point
+   * @param deltaLngDegrees - Longitude difference in degrees
+   * @returns Minimum distance in kilometers
+   */
+  static minDistanceToMeridian(lat: number, deltaLngDegrees: number): number {
+    const deltaLng = this.toRadians(Math.min(Math.abs(deltaLngDegrees), 90));
+    return this.EARTH_RADIUS_KM *
+      Math.asin(Math.min(1, Math.cos(this.toRadians(lat)) * Math.sin(deltaLng)));
+  }
+
+  /**
+   * Converts a latitude difference into kilometers
+   * 
+   * @param deltaLatDegrees - Latitude difference in degrees
+   * @returns Distance in kilometers
+   */
+  static latitudeDeltaToKm(deltaLatDegrees: number): number {
+    return Math.abs(deltaLatDegrees) * this.KM_PER_DEGREE;
+  }
+
+  /**
+   * Wraps a longitude into the -180..180 range
+   * 
+   * @param lng - Longitude in decimal degrees
+   * @returns Normalized longitude
+   */
+  static normalizeLongitude(lng: number): number {
+    if (lng >= -180 && lng <= 180) {
+      return lng;
+    }
+    return ((((lng + 180) % 360) + 360) % 360) - 180;
+  }
+
+  /**
+   * Calculates the shortest distance from a point to a segment
+   * The segment is projected onto a plane tangent at the point, which is
+   * accurate for the few-kilometer distances corridor searches deal with
+   * 
+   * @param point - Point to measure from
+   * @param start - Segment start
+   * @param end - Segment end
+   * @returns Distance in kilometers (rounded to 2 decimals) and the fraction
+   *   of the segment, from 0 at start to 1 at end, where the closest point lies
+   */
+  static pointToSegmentDistance(
+    point: Coordinates,
+    start: Coordinates,
+    end: Coordinates,
+  ): { distanceKm: number; fraction: number } {
+    const kmPerLngDegree = this.KM_PER_DEGREE * Math.cos(this.toRadians(point.lat));
+    const project = (coordinates: Coordinates): [number, number] => [
+      this.normalizeLongitude(coordinates.lng - point.lng) * kmPerLngDegree,
+      (coordinates.lat - point.lat) * this.KM_PER_DEGREE,
+    ];
+    
+    const [ax, ay] = project(start);
+    const [bx, by] = project(end);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const fraction = lengthSquared === 0
+      ? 0
+      : Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared));
+    
+    // Far from the point the plane drifts, so measure the closest point on the sphere
+    const closest: Coordinates = {
+      lat: start.lat + (end.lat - start.lat) * fraction,
+      lng: this.normalizeLongitude(
+        start.lng + this.normalizeLongitude(end.lng - start.lng) * fraction,
+      ),
+    };
+    
+    return {
+      distanceKm: this.calculateDistance(point, closest),
+      fraction,
+    };
+  }
+
+  /**
+   * Checks whether a point lies inside a bounding box
+   * Boxes with minLng greater than maxLng cross the antimeridian
+   * 
+   * @param point - Point to test
+   * @param bbox - Bounding box
+   * @returns True if the point is inside or on the edge
+   */
+  static isInBoundingBox(point: Coordinates, bbox: BoundingBox): boolean {
+    if (point.lat < bbox.minLat || point.lat > bbox.maxLat) {
+      return false;
+    }
+    
+    return bbox.minLng > bbox.maxLng
+      ? point.lng >= bbox.minLng || point.lng <= bbox.maxLng
+      : point.lng >= bbox.minLng && point.lng <= bbox.maxLng;
+  }
+
+  /**
+   * Gets the center of a bounding box
+   * 
+   * @param bbox - Bounding box
+   * @returns Center point, on the correct side for boxes crossing the antimeridian
+   */
+  static boundingBoxCenter(bbox: BoundingBox): Coordinates {
+    const width = bbox.minLng > bbox.maxLng
+      ? bbox.maxLng + 360 - bbox.minLng
+      : bbox.maxLng - bbox.minLng;
+    
+    return {
+      lat: (bbox.minLat + bbox.maxLat) / 2,
+      lng: this.normalizeLongitude(bbox.minLng + width / 2),
+    };
+  }
+
+  /**
+   * Checks whether a point lies inside a polygon using the even-odd rule
+   * The first ring is the exterior and any further rings are holes. Rings
+   * may cross the antimeridian, either with longitudes beyond ±180 or by
+   * jumping from one side to the other
+   * 
+   * @param point - Point to test
+   * @param rings - Polygon rings as [lng, lat] positions
+   * @returns True if the point is inside the polygon
+   */
+  static isPointInPolygon(point: Coordinates, rings: GeoJsonPosition[][]): boolean {
+    const unwrapped = rings.map(ring => this.unwrapRing(ring));
+    
+    // An unwrapped ring may extend past ±180, so test the point's copies too
+    return [point.lng, point.lng - 360, point.lng + 360].some(lng => {
+      let inside = false;
+      
+      for (const ring of unwrapped) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+          const [lngI, latI] = ring[i];
+          const [lngJ, latJ] = ring[j];
+          
+          if (
+            (latI > point.lat) !== (latJ > point.lat) &&
+            lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI
+          ) {
+            inside = !inside;
+          }
+        }
+      }
+      
+      return inside;
+    });
+  }
+
+  /**
+   * Computes the bounding box of a polygon
+   * 
+   * @param rings - Polygon rings as [lng, lat] positions
+   * @returns Bounding box; minLng exceeds maxLng when the polygon crosses the antimeridian
+   */
+  static polygonBoundingBox(rings: GeoJsonPosition[][]): BoundingBox {
+    const exterior = this.unwrapRing(rings[0]);
+    const lats = exterior.map(([, lat]) => lat);
+    const lngs = exterior.map(([lng]) => lng);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    
+    if (maxLng - minLng >= 360) {
+      return { minLat: Math.min(...lats), minLng: -180, maxLat: Math.max(...lats), maxLng: 180 };
+    }
+    
+    return {
+      minLat: Math.min(...lats),
+      minLng: this.normalizeLongitude(minLng),
+      maxLat: Math.max(...lats),
+      maxLng: this.normalizeLongitude(maxLng),
+    };
+  }
+
+  /**
+   * Makes ring longitudes continuous by undoing jumps across the antimeridian
+   * 
+   * @param ring - Ring as [lng, lat] positions
+   * @returns Ring whose consecutive longitudes differ by at most 180 degrees
+   */
+  private static unwrapRing(ring: GeoJsonPosition[]): GeoJsonPosition[] {
+    const unwrapped: GeoJsonPosition[] = [];
+    let previousLng: number | null = null;
+    
+    for (const [lng, lat] of ring) {
+      let current = lng;
+      if (previousLng !== null) {
+        while (current - previousLng > 180) {
+          current -= 360;
+        }
+        while (current - previousLng < -180) {
+          current += 360;
+        }
+      }
+      unwrapped.push([current, lat]);
+      previousLng = current;
+    }
+    
+    return unwrapped;
+  }
+
+  /**
+   * Converts radians to degrees
+   * 
+   * @param radians - Angle in radians
+   * @returns Angle in degrees
+   */
+  private static toDegrees(radians: number): number {
+    return radians * (180 / Math.PI);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileUtil } from './file.util';
+
+describe('FileUtil', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'onspotx-file-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply concurrent writes to a file in call order', async () => {
+    const filePath = join(tempDir, 'places.json');
+
+    await Promise.all(
+      Array.from({ length: 25 }, (_, i) => FileUtil.writeJsonAtomically(filePath, { version: i })),
+    );
+
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual({ version: 24 });
+    expect(readdirSync(tempDir)).toEqual(['places.json']);
+  });
+
+  it('should keep writing to a file after a failed write', async () => {
+    const filePath = join(tempDir, 'data.json');
+    mkdirSync(join(filePath, 'blocker'), { recursive: true });
+
+    const failed = FileUtil.writeJsonAtomically(filePath, [1]);
+    const retried = failed.catch(() => rmSync(filePath, { recursive: true })).then(
+      () => FileUtil.writeJsonAtomically(filePath, [1, 2]),
+    );
+
+    await expect(failed).rejects.toThrow();
+    await retried;
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual([1, 2]);
+    expect(readdirSync(tempDir)).toEqual(['data.json']);
+  });
+});
@@ -0,0 +1,56 @@
+import { mkdir, rename, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * Utility class for file-backed storage
+ */
+export class FileUtil {
+  /** Last pending write per file path, so writes to a file run in call order */
+  private static readonly writes = new Map<string, Promise<void>>();
+  /** Counter making temporary file names unique within the process */
+  private static tmpCounter = 0;
+
+  /**
+   * Writes JSON to a file, replacing it atomically so readers never see a partial write
+   * Writes to the same file are queued, so the last call's content always ends
+   * up on disk and concurrent calls never share a temporary file
+   *
+   * @param filePath - Destination file
+   * @param content - Value to serialize
+   */
+  static async writeJsonAtomically(filePath: string, content: unknown): Promise<void> {
+    const json = JSON.stringify(content, null, 2);
+    const previous = FileUtil.writes.get(filePath) ?? Promise.resolve();
+    const write = previous.then(() => FileUtil.replaceFile(filePath, json));
+    // A failed write is reported to its caller and must not block later ones
+    const settled = write.catch(() => undefined);
+    FileUtil.writes.set(filePath, settled);
+
+    try {
+      await write;
+    } finally {
+      if (FileUtil.writes.get(filePath) === settled) {
+        FileUtil.writes.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * Writes a file through a uniquely named temporary file and renames it into place
+   *
+   * @param filePath - Destination file
+   * @param data - File content
+   */
+  private static async replaceFile(filePath: string, data: string): Promise<void> {
+    const tmpPath = `${filePath}.${process.pid}.${++FileUtil.tmpCounter}.tmp`;
+
+    await mkdir(dirname(filePath), { recursive: true });
+    try {
+      await writeFile(tmpPath, data);
+      await rename(tmpPath, filePath);
+    } catch (error) {
+      await unlink(tmpPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
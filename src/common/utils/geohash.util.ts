@@ -0,0 +1,114 @@
+/**
+ * Geohash grid cell coordinates at a given precision
+ */
+export interface GeohashCell {
+  /** Cell row, counted from the south pole */
+  row: number;
+  /** Cell column, counted from the antimeridian going east */
+  col: number;
+}
+
+/**
+ * Dimensions of the geohash grid at a given precision
+ */
+export interface GeohashGrid {
+  /** Number of cell rows covering -90..90 */
+  rows: number;
+  /** Number of cell columns covering -180..180 */
+  cols: number;
+  /** Cell height in degrees of latitude */
+  cellHeight: number;
+  /** Cell width in degrees of longitude */
+  cellWidth: number;
+}
+
+/**
+ * Utility class for geohash encoding
+ * A geohash of precision p splits the globe into a regular grid of
+ * 2^ceil(5p/2) columns by 2^floor(5p/2) rows; cells are addressed either by
+ * their base32 hash or by their row/column in that grid
+ */
+export class GeohashUtil {
+  private static readonly BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+  /**
+   * Gets the grid dimensions for a precision
+   *
+   * @param precision - Geohash length (1 to 12)
+   * @returns Grid dimensions
+   */
+  static grid(precision: number): GeohashGrid {
+    const bits = precision * 5;
+    const lngBits = Math.ceil(bits / 2);
+    const latBits = Math.floor(bits / 2);
+    const rows = 2 ** latBits;
+    const cols = 2 ** lngBits;
+
+    return {
+      rows,
+      cols,
+      cellHeight: 180 / rows,
+      cellWidth: 360 / cols,
+    };
+  }
+
+  /**
+   * Finds the grid cell containing a point
+   *
+   * @param lat - Latitude in decimal degrees
+   * @param lng - Longitude in decimal degrees
+   * @param precision - Geohash length
+   * @returns Cell row and column
+   */
+  static cellOf(lat: number, lng: number, precision: number): GeohashCell {
+    const { rows, cols, cellHeight, cellWidth } = this.grid(precision);
+
+    return {
+      row: Math.min(rows - 1, Math.max(0, Math.floor((lat + 90) / cellHeight))),
+      col: Math.min(cols - 1, Math.max(0, Math.floor((lng + 180) / cellWidth))),
+    };
+  }
+
+  /**
+   * Builds the geohash of a grid cell
+   *
+   * @param cell - Cell row and column
+   * @param precision - Geohash length
+   * @returns Base32 geohash
+   */
+  static fromCell(cell: GeohashCell, precision: number): string {
+    const bits = precision * 5;
+    let lngBit = Math.ceil(bits / 2) - 1;
+    let latBit = Math.floor(bits / 2) - 1;
+    let hash = '';
+    let chunk = 0;
+
+    // Bits interleave longitude first, most significant bit first
+    for (let i = 0; i < bits; i++) {
+      const bit = i % 2 === 0
+        ? (cell.col >> lngBit--) & 1
+        : (cell.row >> latBit--) & 1;
+
+      chunk = (chunk << 1) | bit;
+
+      if (i % 5 === 4) {
+        hash += this.BASE32[chunk];
+        chunk = 0;
+      }
+    }
+
+    return hash;
+  }
+
+  /**
+   * Encodes a point as a geohash
+   *
+   * @param lat - Latitude in decimal degrees
+   * @param lng - Longitude in decimal degrees
+   * @param precision - Geohash length
+   * @returns Base32 geohash
+   */
+  static encode(lat: number, lng: number, precision: number): string {
+    return this.fromCell(this.cellOf(lat, lng, precision), precision);
+  }
+}
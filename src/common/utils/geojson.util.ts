@@ -0,0 +1,89 @@
+import { Place } from '../interfaces/location.interface';
+import {
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+} from '../interfaces/geojson.interface';
+
+/**
+ * Utility class for converting places to and from GeoJSON
+ */
+export class GeoJsonUtil {
+  /**
+   * Checks whether a parsed JSON value is a GeoJSON FeatureCollection
+   *
+   * @param value - Parsed JSON value
+   * @returns True if value looks like a FeatureCollection
+   */
+  static isFeatureCollection(value: unknown): value is GeoJsonFeatureCollection {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      (value as { type?: unknown }).type === 'FeatureCollection' &&
+      Array.isArray((value as { features?: unknown }).features)
+    );
+  }
+
+  /**
+   * Converts a Point feature into a place
+   * Feature properties map onto place fields, the geometry provides lat/lng
+   *
+   * @param feature - GeoJSON Point feature
+   * @returns Place built from the feature
+   */
+  static featureToPlace(feature: GeoJsonFeature): Place {
+    const { address, ...properties } = feature.properties;
+    const [lng, lat] = feature.geometry.coordinates;
+
+    return {
+      ...(properties as Omit<Place, 'location'>),
+      id: String(properties.id ?? feature.id),
+      distance_km: 0,
+      location: {
+        lat,
+        lng,
+        address: typeof address === 'string' ? address : '',
+      },
+    };
+  }
+
+  /**
+   * Converts a place into a Point feature
+   *
+   * @param place - Place to convert
+   * @returns GeoJSON Point feature with place fields as properties
+   */
+  static placeToFeature(place: Place): GeoJsonFeature {
+    const { location, ...properties } = place;
+
+    return {
+      type: 'Feature',
+      id: place.id,
+      geometry: {
+        type: 'Point',
+        coordinates: [location.lng, location.lat],
+      },
+      properties: {
+        ...properties,
+        address: location.address,
+      },
+    };
+  }
+
+  /**
+   * Converts places into a FeatureCollection
+   *
+   * @param places - Places to convert
+   * @param members - Foreign members added next to the features (e.g. query, metadata)
+   * @returns GeoJSON FeatureCollection of Point features
+   */
+  static placesToFeatureCollection(
+    places: Place[],
+    members: Record<string, unknown> = {},
+  ): GeoJsonFeatureCollection & Record<string, unknown> {
+    return {
+      ...members,
+      type: 'FeatureCollection',
+      features: places.map(place => GeoJsonUtil.placeToFeature(place)),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { OpeningHours } from '../interfaces/location.interface';
+import { OpeningHoursUtil } from './opening-hours.util';
+
+describe('OpeningHoursUtil', () => {
+  const hours: OpeningHours = {
+    timezone: 'Europe/Berlin',
+    weekly: {
+      mon: [{ open: '09:00', close: '12:00' }, { open: '13:00', close: '18:00' }],
+      fri: [{ open: '18:00', close: '03:00' }],
+      sat: [{ open: '00:00', close: '24:00' }],
+    },
+    holidays: [{ date: '2024-12-23', name: 'Inventory', ranges: [] }],
+  };
+
+  it.each([
+    ['2024-01-15T08:30:00Z', true], // Mon 09:30 Berlin
+    ['2024-01-15T11:30:00Z', false], // Mon 12:30, lunch break
+    ['2024-01-15T17:00:00Z', false], // Mon 18:00, closing time is exclusive
+    ['2024-01-16T10:00:00Z', false], // Tue, no ranges
+    ['2024-01-20T01:00:00Z', true], // Sat 02:00, Friday overnight range
+    ['2024-01-20T22:59:00Z', true], // Sat 23:59, open until 24:00
+    ['2024-01-21T01:00:00Z', false], // Sun 02:00, Saturday closes at midnight
+    ['2024-07-15T07:30:00Z', true], // Mon 09:30 in summer time
+    ['2024-12-23T10:00:00Z', false], // Monday holiday closure
+  ])('evaluates %s as open=%s', (at, expected) => {
+    expect(OpeningHoursUtil.isOpenAt(hours, new Date(at))).toBe(expected);
+  });
+
+  it('falls back to the stored flag for places without hours', () => {
+    const place = {
+      id: 'p',
+      name: 'P',
+      category: 'shop',
+      description: '',
+      distance_km: 0,
+      open_now: false,
+      image_url: 'https://example.com/p.jpg',
+      location: { lat: 0, lng: 0, address: 'Somewhere' },
+    };
+
+    expect(OpeningHoursUtil.isPlaceOpenAt(place, new Date())).toBe(false);
+    expect(OpeningHoursUtil.isPlaceOpenAt({ ...place, opening_hours: hours }, new Date('2024-01-15T08:30:00Z'))).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  OpeningHours,
+  Place,
+  TimeRange,
+  Weekday,
+} from '../interfaces/location.interface';
+
+/**
+ * Wall-clock date and time in a place's timezone
+ */
+interface LocalTime {
+  /** Local date (YYYY-MM-DD) */
+  date: string;
+  /** Local weekday */
+  weekday: Weekday;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+/**
+ * Utility class for evaluating opening hours schedules
+ */
+export class OpeningHoursUtil {
+  static readonly WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+  /** Formatters are costly to build, so one is kept per timezone */
+  private static readonly formatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * Checks whether a schedule is open at a given instant
+   * Ranges closing at or before their opening time run past midnight, so the
+   * previous day's overnight ranges are checked as well
+   *
+   * @param hours - Opening hours schedule
+   * @param at - Instant to check
+   * @returns True if open
+   */
+  static isOpenAt(hours: OpeningHours, at: Date): boolean {
+    const today = this.toLocalTime(at, hours.timezone);
+    const yesterday = this.previousDay(today);
+
+    const openToday = this.rangesFor(hours, today).some(range => {
+      const open = this.toMinutes(range.open);
+      const close = this.toMinutes(range.close);
+      return close > open
+        ? today.minutes >= open && today.minutes < close
+        : today.minutes >= open;
+    });
+
+    if (openToday) {
+      return true;
+    }
+
+    return this.rangesFor(hours, yesterday).some(range => {
+      const open = this.toMinutes(range.open);
+      const close = this.toMinutes(range.close);
+      return close <= open && today.minutes < close;
+    });
+  }
+
+  /**
+   * Resolves whether a place is open at a given instant
+   * Places without a schedule keep their stored open_now flag
+   *
+   * @param place - Place to check
+   * @param at - Instant to check
+   * @returns True if open
+   */
+  static isPlaceOpenAt(place: Place, at: Date): boolean {
+    return place.opening_hours
+      ? this.isOpenAt(place.opening_hours, at)
+      : place.open_now;
+  }
+
+  /**
+   * Gets the ranges applying to a local day, holidays taking precedence
+   *
+   * @param hours - Opening hours schedule
+   * @param day - Local day
+   * @returns Opening ranges for the day
+   */
+  private static rangesFor(hours: OpeningHours, day: Pick<LocalTime, 'date' | 'weekday'>): TimeRange[] {
+    const holiday = hours.holidays?.find(entry => entry.date === day.date);
+    return holiday ? holiday.ranges : hours.weekly[day.weekday] || [];
+  }
+
+  /**
+   * Converts an instant into wall-clock time in a timezone
+   *
+   * @param at - Instant
+   * @param timezone - IANA timezone
+   * @returns Local date, weekday and minutes
+   */
+  private static toLocalTime(at: Date, timezone: string): LocalTime {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      });
+      this.formatters.set(timezone, formatter);
+    }
+
+    const parts = formatter.formatToParts(at);
+    const part = (type: string): string =>
+      parts.find(entry => entry.type === type)?.value || '';
+
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      weekday: part('weekday').toLowerCase() as Weekday,
+      minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+    };
+  }
+
+  /**
+   * Gets the local day before a given day
+   *
+   * @param day - Local day
+   * @returns Previous date and weekday
+   */
+  private static previousDay(day: LocalTime): Pick<LocalTime, 'date' | 'weekday'> {
+    const date = new Date(`${day.date}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() - 1);
+
+    return {
+      date: date.toISOString().slice(0, 10),
+      weekday: this.WEEKDAYS[date.getUTCDay()],
+    };
+  }
+
+  /**
+   * Converts an HH:mm time into minutes since midnight
+   *
+   * @param time - Time string
+   * @returns Minutes since midnight
+   */
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,24 @@
+import { PolylineUtil } from './polyline.util';
+
+describe('PolylineUtil', () => {
+  const encoded = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+  const points = [
+    { lat: 38.5, lng: -120.2 },
+    { lat: 40.7, lng: -120.95 },
+    { lat: 43.252, lng: -126.453 },
+  ];
+
+  it('decodes the reference polyline', () => {
+    expect(PolylineUtil.decode(encoded)).toEqual(points);
+  });
+
+  it('round-trips points at precision 5 and 6', () => {
+    expect(PolylineUtil.encode(points)).toBe(encoded);
+    expect(PolylineUtil.decode(PolylineUtil.encode(points, 6), 6)).toEqual(points);
+  });
+
+  it('rejects truncated or malformed input', () => {
+    expect(() => PolylineUtil.decode('_p~iF~ps|')).toThrow('Invalid polyline');
+    expect(() => PolylineUtil.decode('_p~iF ps|U')).toThrow('Invalid polyline');
+  });
+});
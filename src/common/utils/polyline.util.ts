@@ -0,0 +1,88 @@
+import { InvalidGeometryException } from '../exceptions/domain.exceptions';
+import { Coordinates } from '../interfaces/location.interface';
+
+/**
+ * Utility class for the encoded polyline format used by Google Maps, OSRM
+ * and most routing engines
+ */
+export class PolylineUtil {
+  /**
+   * Decodes an encoded polyline
+   *
+   * @param encoded - Encoded polyline
+   * @param precision - Number of decimal places encoded (5, or 6 for OSRM/Valhalla)
+   * @returns Decoded points
+   * @throws InvalidGeometryException if the polyline is malformed
+   */
+  static decode(encoded: string, precision: number = 5): Coordinates[] {
+    const factor = Math.pow(10, precision);
+    const points: Coordinates[] = [];
+    let index = 0;
+    let lat = 0;
+    let lng = 0;
+
+    const nextValue = (): number => {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+
+      do {
+        if (index >= encoded.length) {
+          throw new InvalidGeometryException('Invalid polyline: unexpected end of input');
+        }
+        byte = encoded.charCodeAt(index++) - 63;
+        if (byte < 0 || byte > 63) {
+          throw new InvalidGeometryException(`Invalid polyline: unexpected character at position ${index - 1}`);
+        }
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+
+      return result & 1 ? ~(result >> 1) : result >> 1;
+    };
+
+    while (index < encoded.length) {
+      lat += nextValue();
+      lng += nextValue();
+      points.push({ lat: lat / factor, lng: lng / factor });
+    }
+
+    return points;
+  }
+
+  /**
+   * Encodes points as a polyline
+   *
+   * @param points - Points to encode
+   * @param precision - Number of decimal places to keep
+   * @returns Encoded polyline
+   */
+  static encode(points: Coordinates[], precision: number = 5): string {
+    const factor = Math.pow(10, precision);
+    let previousLat = 0;
+    let previousLng = 0;
+    let encoded = '';
+
+    const encodeValue = (value: number): string => {
+      let remaining = value < 0 ? ~(value << 1) : value << 1;
+      let chunk = '';
+
+      while (remaining >= 0x20) {
+        chunk += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+        remaining >>= 5;
+      }
+
+      return chunk + String.fromCharCode(remaining + 63);
+    };
+
+    for (const point of points) {
+      const lat = Math.round(point.lat * factor);
+      const lng = Math.round(point.lng * factor);
+      encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+      previousLat = lat;
+      previousLng = lng;
+    }
+
+    return encoded;
+  }
+}
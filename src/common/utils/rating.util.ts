@@ -0,0 +1,55 @@
+import { Place } from '../interfaces/location.interface';
+
+/**
+ * Utility class for average ratings
+ * Stored averages keep full precision so folding in more ratings does not
+ * accumulate rounding error; they are rounded when shown to clients
+ */
+export class RatingUtil {
+  /**
+   * Rounds an average rating to two decimals
+   *
+   * @param rating - Average rating
+   * @returns Rounded rating
+   */
+  static round(rating: number): number {
+    return Math.round(rating * 100) / 100;
+  }
+
+  /**
+   * Counts the ratings behind a place's average
+   * An average without a count stands for a single rating
+   *
+   * @param place - Stored place
+   * @returns Number of ratings, 0 if the place is unrated
+   */
+  static countOf(place: Place): number {
+    return place.rating !== undefined ? place.rating_count ?? 1 : 0;
+  }
+
+  /**
+   * Combines the averages of several places, weighted by their rating counts
+   *
+   * @param places - Places whose ratings are combined
+   * @returns Combined average and count; no average if none of the places is rated
+   */
+  static combine(places: Place[]): Pick<Place, 'rating' | 'rating_count'> {
+    const count = places.reduce((sum, place) => sum + RatingUtil.countOf(place), 0);
+    if (count === 0) {
+      return { rating: undefined, rating_count: undefined };
+    }
+
+    const total = places.reduce((sum, place) => sum + (place.rating ?? 0) * RatingUtil.countOf(place), 0);
+    return { rating: total / count, rating_count: count };
+  }
+
+  /**
+   * Copies a place with its average rating rounded for a response
+   *
+   * @param place - Stored place
+   * @returns Place with a rounded rating
+   */
+  static present(place: Place): Place {
+    return place.rating === undefined ? place : { ...place, rating: RatingUtil.round(place.rating) };
+  }
+}
@@ -0,0 +1,26 @@
+import { SimilarityUtil } from './similarity.util';
+
+describe('SimilarityUtil', () => {
+  describe('nameSimilarity', () => {
+    it('treats case, accents, punctuation and stopwords as equal', () => {
+      expect(SimilarityUtil.nameSimilarity('The Rooftop Lounge', 'rooftop lounge')).toBe(1);
+      expect(SimilarityUtil.nameSimilarity('Café Grumpy', 'CAFE GRUMPY!')).toBe(1);
+      expect(SimilarityUtil.nameSimilarity("Joe's Pizza", 'Joes Pizza')).toBeGreaterThan(0.85);
+    });
+
+    it('tolerates typos and spacing differences', () => {
+      expect(SimilarityUtil.nameSimilarity('Blue Bottle Coffee', 'Blue Botle Coffee')).toBeGreaterThan(0.85);
+      expect(SimilarityUtil.nameSimilarity('Star bucks', 'Starbucks')).toBe(1);
+    });
+
+    it('matches names where one source adds words', () => {
+      expect(SimilarityUtil.nameSimilarity("Joe's Pizza", "Joe's Pizza Carmine St")).toBe(1);
+      expect(SimilarityUtil.nameSimilarity('Pizza', "Joe's Pizza")).toBeLessThan(0.75);
+    });
+
+    it('scores unrelated names low', () => {
+      expect(SimilarityUtil.nameSimilarity('Chase Bank', 'CVS Pharmacy')).toBeLessThan(0.3);
+      expect(SimilarityUtil.nameSimilarity('!!', 'Chase Bank')).toBe(0);
+    });
+  });
+});
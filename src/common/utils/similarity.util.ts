@@ -0,0 +1,100 @@
+import { TextIndex } from '../indexes/text-index';
+
+/**
+ * Utility class for fuzzy comparison of place names
+ */
+export class SimilarityUtil {
+  /** Words that do not help tell venues apart */
+  private static readonly STOPWORDS = new Set(['the', 'and', 'of', 'at']);
+
+  /**
+   * Rates how likely two names refer to the same venue
+   * Combines character-bigram overlap, which tolerates typos and spacing
+   * differences, with word containment, which matches names where one source
+   * adds words (e.g. "Joe's Pizza" and "Joe's Pizza Carmine St")
+   *
+   * @param a - First name
+   * @param b - Second name
+   * @returns Similarity between 0 (unrelated) and 1 (same after normalization)
+   */
+  static nameSimilarity(a: string, b: string): number {
+    const wordsA = SimilarityUtil.words(a);
+    const wordsB = SimilarityUtil.words(b);
+
+    if (wordsA.length === 0 || wordsB.length === 0) {
+      return 0;
+    }
+
+    const bigrams = SimilarityUtil.diceCoefficient(wordsA.join(''), wordsB.join(''));
+    const containment = SimilarityUtil.wordContainment(wordsA, wordsB);
+
+    return Math.round(Math.max(bigrams, containment) * 10000) / 10000;
+  }
+
+  /**
+   * Normalizes a name into significant words
+   *
+   * @param name - Name to normalize
+   * @returns Lowercased, accent-free words without stopwords
+   */
+  private static words(name: string): string[] {
+    const words = TextIndex.tokenize(name);
+    const significant = words.filter(word => !SimilarityUtil.STOPWORDS.has(word));
+    return significant.length > 0 ? significant : words;
+  }
+
+  /**
+   * Sørensen–Dice coefficient over character bigrams
+   *
+   * @param a - First string
+   * @param b - Second string
+   * @returns Overlap between 0 and 1
+   */
+  private static diceCoefficient(a: string, b: string): number {
+    if (a === b) {
+      return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+      return 0;
+    }
+
+    const counts = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const bigram = a.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const bigram = b.slice(i, i + 2);
+      const count = counts.get(bigram) ?? 0;
+      if (count > 0) {
+        counts.set(bigram, count - 1);
+        shared++;
+      }
+    }
+
+    return (2 * shared) / (a.length - 1 + b.length - 1);
+  }
+
+  /**
+   * Share of the shorter name's words found in the longer name
+   * Single-word names only count when both are single words, so a generic
+   * word like "pizza" does not match every pizzeria
+   *
+   * @param a - Words of the first name
+   * @param b - Words of the second name
+   * @returns Containment between 0 and 1
+   */
+  private static wordContainment(a: string[], b: string[]): number {
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    if (shorter.length < 2 && longer.length > 1) {
+      return 0;
+    }
+
+    const longerWords = new Set(longer);
+    const shared = new Set(shorter.filter(word => longerWords.has(word))).size;
+
+    return shared / new Set(shorter).size;
+  }
+}
@@ -0,0 +1,26 @@
+import { PlaceCategory } from '../interfaces/location.interface';
+import { TaxonomyUtil } from './taxonomy.util';
+
+describe('TaxonomyUtil', () => {
+  it('has every PlaceCategory at the top level and unique IDs', () => {
+    expect(TaxonomyUtil.tree().map(node => node.id).sort()).toEqual(Object.values(PlaceCategory).sort());
+    expect(new Set(TaxonomyUtil.ids()).size).toBe(TaxonomyUtil.ids().length);
+  });
+
+  it('links children to their parents', () => {
+    expect(TaxonomyUtil.find('Pizzeria')).toMatchObject({ id: 'pizzeria', parent: 'italian', children: [] });
+    expect(TaxonomyUtil.ancestors('pizzeria')).toEqual(['italian', 'restaurant']);
+    expect(TaxonomyUtil.ancestors('restaurant')).toEqual([]);
+    expect(TaxonomyUtil.find('spaceport')).toBeUndefined();
+  });
+
+  it('expands categories to their descendants', () => {
+    const expanded = TaxonomyUtil.expand(['italian', 'bar']);
+
+    expect([...expanded].sort()).toEqual(
+      ['bar', 'cocktail_bar', 'italian', 'pizzeria', 'pub', 'wine_bar'],
+    );
+    expect(TaxonomyUtil.expand(['restaurant']).has('japanese')).toBe(true);
+    expect([...TaxonomyUtil.expand(['Legacy'])]).toEqual(['legacy']);
+  });
+});
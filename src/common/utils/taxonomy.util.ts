@@ -0,0 +1,270 @@
+import { CategoryNode, PlaceCategory } from '../interfaces/location.interface';
+
+/**
+ * Category as written in the taxonomy definition
+ */
+interface CategoryDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  children?: CategoryDefinition[];
+}
+
+/**
+ * Category tree; top-level IDs match PlaceCategory, sub-category IDs are
+ * unique across the whole tree so a place only needs its most specific one
+ */
+const DEFINITIONS: CategoryDefinition[] = [
+  {
+    id: PlaceCategory.RESTAURANT,
+    name: 'Restaurant',
+    icon: 'restaurant',
+    children: [
+      { id: 'italian', name: 'Italian', icon: 'local_pizza', children: [
+        { id: 'pizzeria', name: 'Pizzeria', icon: 'local_pizza' },
+      ] },
+      { id: 'asian', name: 'Asian', icon: 'ramen_dining', children: [
+        { id: 'chinese', name: 'Chinese', icon: 'ramen_dining' },
+        { id: 'japanese', name: 'Japanese', icon: 'set_meal' },
+        { id: 'thai', name: 'Thai', icon: 'ramen_dining' },
+      ] },
+      { id: 'mexican', name: 'Mexican', icon: 'lunch_dining' },
+      { id: 'american', name: 'American', icon: 'lunch_dining' },
+      { id: 'seafood', name: 'Seafood', icon: 'set_meal' },
+      { id: 'vegetarian', name: 'Vegetarian', icon: 'eco' },
+      { id: 'fast_food', name: 'Fast Food', icon: 'fastfood' },
+    ],
+  },
+  {
+    id: PlaceCategory.CAFE,
+    name: 'Café',
+    icon: 'local_cafe',
+    children: [
+      { id: 'coffee_shop', name: 'Coffee Shop', icon: 'coffee' },
+      { id: 'tea_house', name: 'Tea House', icon: 'emoji_food_beverage' },
+      { id: 'bakery', name: 'Bakery', icon: 'bakery_dining' },
+    ],
+  },
+  {
+    id: PlaceCategory.BAR,
+    name: 'Bar',
+    icon: 'local_bar',
+    children: [
+      { id: 'pub', name: 'Pub', icon: 'sports_bar' },
+      { id: 'cocktail_bar', name: 'Cocktail Bar', icon: 'local_bar' },
+      { id: 'wine_bar', name: 'Wine Bar', icon: 'wine_bar' },
+    ],
+  },
+  {
+    id: PlaceCategory.SHOP,
+    name: 'Shop',
+    icon: 'storefront',
+    children: [
+      { id: 'bookstore', name: 'Bookstore', icon: 'menu_book' },
+      { id: 'clothing', name: 'Clothing', icon: 'checkroom' },
+      { id: 'grocery', name: 'Grocery', icon: 'local_grocery_store' },
+      { id: 'electronics', name: 'Electronics', icon: 'devices' },
+    ],
+  },
+  {
+    id: PlaceCategory.HOTEL,
+    name: 'Hotel',
+    icon: 'hotel',
+    children: [
+      { id: 'hostel', name: 'Hostel', icon: 'bed' },
+      { id: 'bed_and_breakfast', name: 'Bed & Breakfast', icon: 'bed' },
+    ],
+  },
+  {
+    id: PlaceCategory.ATTRACTION,
+    name: 'Attraction',
+    icon: 'attractions',
+    children: [
+      { id: 'museum', name: 'Museum', icon: 'museum' },
+      { id: 'gallery', name: 'Art Gallery', icon: 'palette' },
+      { id: 'landmark', name: 'Landmark', icon: 'account_balance' },
+      { id: 'zoo', name: 'Zoo', icon: 'pets' },
+    ],
+  },
+  {
+    id: PlaceCategory.PARK,
+    name: 'Park',
+    icon: 'park',
+    children: [
+      { id: 'garden', name: 'Garden', icon: 'local_florist' },
+      { id: 'playground', name: 'Playground', icon: 'toys' },
+      { id: 'dog_park', name: 'Dog Park', icon: 'pets' },
+    ],
+  },
+  {
+    id: PlaceCategory.HOSPITAL,
+    name: 'Hospital',
+    icon: 'local_hospital',
+    children: [
+      { id: 'clinic', name: 'Clinic', icon: 'medical_services' },
+      { id: 'emergency_room', name: 'Emergency Room', icon: 'emergency' },
+    ],
+  },
+  {
+    id: PlaceCategory.GAS_STATION,
+    name: 'Gas Station',
+    icon: 'local_gas_station',
+    children: [
+      { id: 'ev_charging', name: 'EV Charging', icon: 'ev_station' },
+    ],
+  },
+  {
+    id: PlaceCategory.BANK,
+    name: 'Bank',
+    icon: 'account_balance',
+    children: [
+      { id: 'atm', name: 'ATM', icon: 'local_atm' },
+    ],
+  },
+  {
+    id: PlaceCategory.GYM,
+    name: 'Gym',
+    icon: 'fitness_center',
+    children: [
+      { id: 'yoga_studio', name: 'Yoga Studio', icon: 'self_improvement' },
+      { id: 'swimming_pool', name: 'Swimming Pool', icon: 'pool' },
+    ],
+  },
+  { id: PlaceCategory.PHARMACY, name: 'Pharmacy', icon: 'local_pharmacy' },
+  {
+    id: PlaceCategory.EVENT,
+    name: 'Event',
+    icon: 'event',
+    children: [
+      { id: 'concert', name: 'Concert', icon: 'music_note' },
+      { id: 'festival', name: 'Festival', icon: 'celebration' },
+      { id: 'market', name: 'Market', icon: 'storefront' },
+    ],
+  },
+  {
+    id: PlaceCategory.ENTERTAINMENT,
+    name: 'Entertainment',
+    icon: 'theater_comedy',
+    children: [
+      { id: 'cinema', name: 'Cinema', icon: 'movie' },
+      { id: 'theater', name: 'Theater', icon: 'theater_comedy' },
+      { id: 'nightclub', name: 'Nightclub', icon: 'nightlife' },
+    ],
+  },
+  {
+    id: PlaceCategory.SERVICE,
+    name: 'Service',
+    icon: 'home_repair_service',
+    children: [
+      { id: 'laundry', name: 'Laundry', icon: 'local_laundry_service' },
+      { id: 'post_office', name: 'Post Office', icon: 'local_post_office' },
+    ],
+  },
+];
+
+/**
+ * Utility class for the hierarchical place category taxonomy
+ */
+export class TaxonomyUtil {
+  /** Top-level categories with their descendants */
+  private static readonly ROOTS: CategoryNode[] = DEFINITIONS.map(definition =>
+    TaxonomyUtil.build(definition, null),
+  );
+
+  /** Every category by ID */
+  private static readonly NODES = new Map<string, CategoryNode>(
+    TaxonomyUtil.ROOTS.flatMap(root => TaxonomyUtil.flatten(root)).map(node => [node.id, node]),
+  );
+
+  /**
+   * Gets the category tree
+   *
+   * @returns Top-level categories with nested children
+   */
+  static tree(): CategoryNode[] {
+    return TaxonomyUtil.ROOTS;
+  }
+
+  /**
+   * Lists every category ID, parents before their children
+   *
+   * @returns Category IDs
+   */
+  static ids(): string[] {
+    return [...TaxonomyUtil.NODES.keys()];
+  }
+
+  /**
+   * Looks up a category
+   *
+   * @param id - Category ID
+   * @returns The category, or undefined if it is not in the taxonomy
+   */
+  static find(id: string): CategoryNode | undefined {
+    return TaxonomyUtil.NODES.get(id.toLowerCase());
+  }
+
+  /**
+   * Lists the ancestors of a category
+   *
+   * @param id - Category ID
+   * @returns Ancestor IDs from the parent up to the top-level category
+   */
+  static ancestors(id: string): string[] {
+    const ancestors: string[] = [];
+    let parent = TaxonomyUtil.find(id)?.parent;
+
+    while (parent) {
+      ancestors.push(parent);
+      parent = TaxonomyUtil.NODES.get(parent)?.parent;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Expands categories to themselves and all their descendants
+   * IDs outside the taxonomy are kept as they are
+   *
+   * @param ids - Category IDs
+   * @returns Lowercase IDs of the categories and their descendants
+   */
+  static expand(ids: Iterable<string>): Set<string> {
+    const expanded = new Set<string>();
+
+    for (const id of ids) {
+      const node = TaxonomyUtil.find(id);
+      const matching = node ? TaxonomyUtil.flatten(node).map(descendant => descendant.id) : [id.toLowerCase()];
+      matching.forEach(match => expanded.add(match));
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Turns a definition into a node
+   *
+   * @param definition - Category definition
+   * @param parent - Parent category ID, or null for top-level categories
+   * @returns Category node with nested children
+   */
+  private static build(definition: CategoryDefinition, parent: string | null): CategoryNode {
+    return {
+      id: definition.id,
+      name: definition.name,
+      icon: definition.icon,
+      parent,
+      children: (definition.children ?? []).map(child => TaxonomyUtil.build(child, definition.id)),
+    };
+  }
+
+  /**
+   * Lists a category and its descendants depth-first
+   *
+   * @param node - Category node
+   * @returns The node followed by its descendants
+   */
+  private static flatten(node: CategoryNode): CategoryNode[] {
+    return [node, ...node.children.flatMap(child => TaxonomyUtil.flatten(child))];
+  }
+}
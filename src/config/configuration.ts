@@ -21,6 +21,14 @@ const parseFloatSafe = (value: string | undefined, defaultValue: number): number
   return isNaN(parsed) ? defaultValue : parsed;
 };
 
+/**
+ * Safely parses a boolean from environment variable
+ */
+const parseBooleanSafe = (value: string | undefined, defaultValue: boolean): boolean => {
+  if (!value) return defaultValue;
+  return ['true', '1', 'yes'].includes(value.toLowerCase());
+};
+
 export const configuration = () => ({
   // Server configuration
   port: parseIntSafe(process.env.PORT, 3000),
@@ -33,20 +41,78 @@ export const configuration = () => ({
   apiVersion: process.env.API_VERSION || 'v1',
   apiPrefix: process.env.API_PREFIX || 'api',
   
-  // Rate limiting configuration
-  rateLimitTtl: parseIntSafe(process.env.RATE_LIMIT_TTL, 60),
+  // Rate limiting configuration; TTL and max set the 'medium' throttler bucket
+  rateLimitTtl: parseIntSafe(process.env.RATE_LIMIT_TTL, 60), // seconds
   rateLimitMax: parseIntSafe(process.env.RATE_LIMIT_MAX, 100),
   
+  // Throttler counter storage: memory (per process) or redis (shared by all replicas)
+  throttler: {
+    storage: process.env.THROTTLER_STORAGE || 'memory',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    keyPrefix: process.env.THROTTLER_KEY_PREFIX || 'onspotx:throttler:',
+  },
+  
+  // API key authentication; tier limits are per short (1 s), medium (1 min) and long (15 min) bucket
+  apiKeys: {
+    required: parseBooleanSafe(process.env.API_KEY_REQUIRED, false),
+    adminKey: process.env.ADMIN_API_KEY,
+    storeFile: process.env.API_KEY_STORE_FILE,
+    tiers: {
+      free: { short: 10, medium: 100, long: 1000 },
+      partner: { short: 50, medium: 1000, long: 10000 },
+      enterprise: { short: 200, medium: 5000, long: 50000 },
+    },
+  },
+  
+  // User accounts; without JWT_SECRET a random secret is used and tokens end with the process
+  users: {
+    jwtSecret: process.env.JWT_SECRET,
+    jwtExpiresIn: parseIntSafe(process.env.JWT_EXPIRES_IN, 3600), // seconds
+    storeFile: process.env.USER_STORE_FILE,
+  },
+  
   // Location discovery configuration
   discovery: {
     defaultRadius: parseFloatSafe(process.env.DEFAULT_RADIUS, 5.0), // km
     maxRadius: parseFloatSafe(process.env.MAX_RADIUS, 50.0), // km
     maxResults: parseIntSafe(process.env.MAX_RESULTS, 50),
+    indexPrecision: parseIntSafe(process.env.SPATIAL_INDEX_PRECISION, 5), // geohash length
+    // Query cache for GET /discover; a TTL or size of 0 disables it
+    cache: {
+      ttl: parseIntSafe(process.env.DISCOVERY_CACHE_TTL, 30), // seconds
+      maxEntries: parseIntSafe(process.env.DISCOVERY_CACHE_MAX_ENTRIES, 1000),
+      precision: parseIntSafe(process.env.DISCOVERY_CACHE_PRECISION, 3), // decimals of lat/lng (3 = ~110 m)
+    },
+  },
+  
+  // Relevance ranking weights (relative; 0 disables a signal)
+  ranking: {
+    weights: {
+      distance: parseFloatSafe(process.env.RANKING_WEIGHT_DISTANCE, 0.4),
+      openNow: parseFloatSafe(process.env.RANKING_WEIGHT_OPEN_NOW, 0.2),
+      rating: parseFloatSafe(process.env.RANKING_WEIGHT_RATING, 0.2),
+      popularity: parseFloatSafe(process.env.RANKING_WEIGHT_POPULARITY, 0.1),
+      text: parseFloatSafe(process.env.RANKING_WEIGHT_TEXT, 0.4),
+    },
+  },
+  
+  // Place storage configuration
+  storage: {
+    driver: process.env.PLACE_STORE_DRIVER || 'memory', // memory | file | sqlite
+    filePath: process.env.PLACE_STORE_FILE || 'data/places.json',
+    sqlitePath: process.env.PLACE_STORE_SQLITE || 'data/places.sqlite',
+  },
+  
+  // Health check configuration
+  health: {
+    checkTimeout: parseIntSafe(process.env.HEALTH_CHECK_TIMEOUT_MS, 2000), // milliseconds per indicator
   },
   
   // Logging configuration
   logging: {
-    level: process.env.LOG_LEVEL || 'info',
-    format: process.env.LOG_FORMAT || 'combined',
+    level: process.env.LOG_LEVEL || 'info', // fatal | error | warn | info | debug | verbose
+    format: process.env.LOG_FORMAT || 'json', // json (one object per line) | text
+    redactCoordinates: process.env.LOG_REDACT_COORDINATES || 'round', // none | round | remove
+    coordinatePrecision: parseIntSafe(process.env.LOG_COORDINATE_PRECISION, 2),
   },
 }); 
\ No newline at end of file
@@ -1,58 +1,114 @@
 import { 
   Controller, 
   Get, 
+  Post,
+  Body,
   Query, 
   Logger, 
-  HttpException, 
+  HttpCode,
   HttpStatus,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
 import { 
   ApiTags, 
   ApiOperation, 
   ApiResponse, 
   ApiQuery,
-  ApiBadRequestResponse,
-  ApiInternalServerErrorResponse,
+  ApiBody,
+  ApiProduces,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiUnauthorizedResponse,
 } from '@nestjs/swagger';
-import { ThrottlerGuard } from '@nestjs/throttler';
 
+import { ApiKeyGuard } from '../../auth/guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from '../../auth/guards/api-key-throttler.guard';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import { OptionalUser } from '../../users/decorators/optional-user.decorator';
+import { UserGuard } from '../../users/guards/user.guard';
 import { DiscoveryService } from '../services/discovery.service';
+import { FavoritesService } from '../services/favorites.service';
+import { SuggestService } from '../services/suggest.service';
 import { DiscoveryQueryDto } from '../dto/discovery-query.dto';
 import { DiscoveryResponseDto } from '../dto/discovery-response.dto';
+import { SuggestQueryDto } from '../dto/suggest-query.dto';
+import { NearestQueryDto } from '../dto/nearest-query.dto';
+import { AlongRouteQueryDto, BoundingBoxQueryDto, PolygonQueryDto } from '../dto/area-query.dto';
+import {
+  AlongRouteResponseDto,
+  BoundingBoxResponseDto,
+  PolygonResponseDto,
+} from '../dto/area-response.dto';
+import { SuggestResponseDto } from '../dto/suggest-response.dto';
+import { NearestResponseDto } from '../dto/nearest-response.dto';
+import { CategoriesResponseDto } from '../dto/category-response.dto';
 import { DiscoveryQuery } from '../../common/interfaces/location.interface';
+import { AuthenticatedUser } from '../../common/interfaces/user.interface';
+import { ApiProblemResponses } from '../../common/decorators/api-problem-responses.decorator';
+import {
+  InvalidCoordinatesException,
+  InvalidGeometryException,
+  InvalidParameterException,
+  NoPlacesFoundException,
+  RadiusOutOfRangeException,
+} from '../../common/exceptions/domain.exceptions';
+import { VALIDATION_FAILED } from '../../common/exceptions/problem-details.dto';
+import { ETagInterceptor } from '../../common/interceptors/etag.interceptor';
+import { GEOJSON_MEDIA_TYPE, GeoJsonInterceptor } from '../../common/interceptors/geojson.interceptor';
+import { MetricsInterceptor } from '../../metrics/metrics.interceptor';
 
 /**
  * Discovery controller handling location-based place discovery endpoints
  * Provides RESTful API for discovering nearby places with filtering and sorting
  */
 @ApiTags('discovery')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Invalid or revoked API key, or no key while API_KEY_REQUIRED is set' })
 @Controller('discover')
-@UseGuards(ThrottlerGuard)
+@UseGuards(ApiKeyGuard, ApiKeyThrottlerGuard)
+@UseInterceptors(MetricsInterceptor)
 export class DiscoveryController {
   private readonly logger = new Logger(DiscoveryController.name);
 
-  constructor(private readonly discoveryService: DiscoveryService) {}
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly suggestService: SuggestService,
+    private readonly favoritesService: FavoritesService,
+  ) {}
 
   /**
    * Main discovery endpoint for finding nearby places
    * 
    * @param queryDto - Query parameters for discovery
+   * @param user - User of the bearer token, if any; their saved places get is_favorite
    * @returns Promise resolving to discovery response
    */
   @Get()
+  @UseGuards(UserGuard)
+  @OptionalUser()
+  @ApiBearerAuth()
+  @UseInterceptors(ETagInterceptor, GeoJsonInterceptor)
+  @ApiProduces('application/json', GEOJSON_MEDIA_TYPE)
   @ApiOperation({
     summary: 'Discover nearby places',
     description: `
       Discovers places near a given location with optional filtering by category and radius.
-      Results are sorted by distance from the query location (closest first).
+      Results are sorted by distance from the query location (closest first),
+      or by relevance when searching with q.
       
       **Features:**
       - Real-time distance calculation using Haversine formula
       - Category-based filtering (restaurants, cafes, bars, etc.)
+      - Full-text search over names, descriptions and addresses with prefix matching
+      - Open-now and open-at filtering from each place's opening hours
       - Customizable search radius (0.1 - 50 km)
       - Configurable result limits (1 - 50 results)
+      - Cursor-based pagination through every place in the radius
       - Comprehensive place information including hours and images
+      - is_favorite on each place when called with a user's bearer token
+      - Short-lived cache shared by searches from the same ~100 m area
+      - ETag and If-None-Match for conditional requests (304 Not Modified)
     `,
   })
   @ApiResponse({
@@ -60,28 +116,13 @@ export class DiscoveryController {
     description: 'Successfully discovered places',
     type: DiscoveryResponseDto,
   })
-  @ApiBadRequestResponse({
-    description: 'Invalid query parameters',
-    schema: {
-      type: 'object',
-      properties: {
-        statusCode: { type: 'number', example: 400 },
-        message: { type: 'array', items: { type: 'string' } },
-        error: { type: 'string', example: 'Bad Request' },
-      },
-    },
-  })
-  @ApiInternalServerErrorResponse({
-    description: 'Internal server error',
-    schema: {
-      type: 'object',
-      properties: {
-        statusCode: { type: 'number', example: 500 },
-        message: { type: 'string', example: 'Internal server error' },
-        error: { type: 'string', example: 'Internal Server Error' },
-      },
-    },
-  })
+  @ApiResponse({ status: 304, description: 'Results unchanged since the ETag sent in If-None-Match' })
+  @ApiProblemResponses(
+    InvalidCoordinatesException,
+    RadiusOutOfRangeException,
+    InvalidParameterException,
+    VALIDATION_FAILED,
+  )
   @ApiQuery({
     name: 'latitude',
     required: true,
@@ -107,9 +148,56 @@ export class DiscoveryController {
     name: 'category',
     required: false,
     type: 'string',
-    description: 'Category filter (restaurant, cafe, bar, etc.)',
+    description: 'Category filter (restaurant, cafe, bar, etc.); sub-categories of it match too',
     example: 'restaurant',
   })
+  @ApiQuery({
+    name: 'categories',
+    required: false,
+    type: 'string',
+    description: 'Keep places of any of these categories (comma-separated)',
+    example: 'cafe,bar',
+  })
+  @ApiQuery({
+    name: 'exclude',
+    required: false,
+    type: 'string',
+    description: 'Drop places of these categories (comma-separated)',
+    example: 'hotel',
+  })
+  @ApiQuery({
+    name: 'tags',
+    required: false,
+    type: 'string',
+    description: 'Only return places carrying all of these tags (comma-separated)',
+    example: 'wifi',
+  })
+  @ApiQuery({
+    name: 'min_rating',
+    required: false,
+    type: 'number',
+    description: 'Only return places with at least this average rating',
+    example: 4,
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    enum: ['relevance', 'distance', 'rating'],
+    description: 'Result ordering; relevance blends distance, open now, rating, popularity and text match',
+  })
+  @ApiQuery({
+    name: 'debug',
+    required: false,
+    type: 'boolean',
+    description: 'Include each result\'s relevance score_breakdown',
+  })
+  @ApiQuery({
+    name: 'q',
+    required: false,
+    type: 'string',
+    description: 'Free-text search over name, description, address and tags; results are ordered by relevance',
+    example: 'pasta',
+  })
   @ApiQuery({
     name: 'limit',
     required: false,
@@ -117,99 +205,306 @@ export class DiscoveryController {
     description: 'Maximum number of results (1 to 50)',
     example: 10,
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: 'string',
+    description: 'Opaque cursor from the previous page\'s next_cursor',
+  })
+  @ApiQuery({
+    name: 'open_now',
+    required: false,
+    type: 'boolean',
+    description: 'Only return places that are open (true) or closed (false)',
+    example: true,
+  })
+  @ApiQuery({
+    name: 'open_at',
+    required: false,
+    type: 'string',
+    description: 'Only return places open at this ISO 8601 time',
+    example: '2024-01-15T18:30:00-05:00',
+  })
   async discoverPlaces(
     @Query() queryDto: DiscoveryQueryDto,
+    @CurrentUser() user?: AuthenticatedUser,
   ): Promise<DiscoveryResponseDto> {
-    try {
-      this.logger.log(`Discovery request: ${JSON.stringify(queryDto)}`);
-      
-      // Convert DTO to internal query format
-      const query: DiscoveryQuery = {
-        latitude: queryDto.latitude,
-        longitude: queryDto.longitude,
-        radius: queryDto.radius,
-        category: queryDto.category,
-        limit: queryDto.limit,
-      };
-      
-      // Execute discovery
-      const response = await this.discoveryService.discoverPlaces(query);
-      
-      this.logger.log(`Discovery response: ${response.results.length} places found`);
-      
-      return response as DiscoveryResponseDto;
-      
-    } catch (error) {
-      this.logger.error(`Discovery failed: ${error.message}`, error.stack);
-      
-      if (error.message.includes('Invalid')) {
-        throw new HttpException(
-          {
-            statusCode: HttpStatus.BAD_REQUEST,
-            message: error.message,
-            error: 'Bad Request',
-          },
-          HttpStatus.BAD_REQUEST,
-        );
-      }
-      
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-          message: 'An error occurred while discovering places',
-          error: 'Internal Server Error',
-        },
-        HttpStatus.INTERNAL_SERVER_ERROR,
-      );
+    this.logger.log({ message: 'Discovery request', query: queryDto });
+    
+    // Convert DTO to internal query format
+    const query: DiscoveryQuery = {
+      latitude: queryDto.latitude,
+      longitude: queryDto.longitude,
+      radius: queryDto.radius,
+      category: queryDto.category,
+      categories: queryDto.categories,
+      exclude: queryDto.exclude,
+      tags: queryDto.tags,
+      min_rating: queryDto.min_rating,
+      sort: queryDto.sort,
+      debug: queryDto.debug,
+      q: queryDto.q,
+      limit: queryDto.limit,
+      cursor: queryDto.cursor,
+      open_now: queryDto.open_now,
+      open_at: queryDto.open_at,
+    };
+    
+    // Execute discovery
+    const response = await this.discoveryService.discoverPlaces(query);
+    
+    if (user) {
+      response.results = await this.favoritesService.markFavorites(user.id, response.results);
     }
+    
+    this.logger.log(`Discovery response: ${response.results.length} places found`);
+    
+    return response as DiscoveryResponseDto;
+  }
+
+  /**
+   * Viewport endpoint returning every place inside a bounding box
+   * 
+   * @param queryDto - Bounding box and filters
+   * @returns Promise resolving to discovery response
+   */
+  @Get('bbox')
+  @UseInterceptors(GeoJsonInterceptor)
+  @ApiProduces('application/json', GEOJSON_MEDIA_TYPE)
+  @ApiOperation({
+    summary: 'Discover places in a bounding box',
+    description: `
+      Returns the places visible in a map viewport given its south-west and north-east
+      corners. A minLng greater than maxLng selects a box crossing the antimeridian.
+      Results are sorted by distance from the center of the box and support the same
+      category, text, open-state and cursor parameters as GET /discover.
+    `,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully discovered places',
+    type: BoundingBoxResponseDto,
+  })
+  @ApiProblemResponses(InvalidGeometryException, InvalidParameterException, VALIDATION_FAILED)
+  async discoverInBoundingBox(
+    @Query() queryDto: BoundingBoxQueryDto,
+  ): Promise<BoundingBoxResponseDto> {
+    return this.discoveryService.discoverInBoundingBox({
+      minLat: queryDto.minLat,
+      minLng: queryDto.minLng,
+      maxLat: queryDto.maxLat,
+      maxLng: queryDto.maxLng,
+      category: queryDto.category,
+      categories: queryDto.categories,
+      exclude: queryDto.exclude,
+      tags: queryDto.tags,
+      min_rating: queryDto.min_rating,
+      sort: queryDto.sort,
+      debug: queryDto.debug,
+      q: queryDto.q,
+      limit: queryDto.limit,
+      cursor: queryDto.cursor,
+      open_now: queryDto.open_now,
+      open_at: queryDto.open_at,
+    });
+  }
+
+  /**
+   * Area endpoint returning every place inside a GeoJSON polygon
+   * 
+   * @param body - Polygon and filters
+   * @returns Promise resolving to discovery response
+   */
+  @Post('within')
+  @UseInterceptors(GeoJsonInterceptor)
+  @ApiProduces('application/json', GEOJSON_MEDIA_TYPE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Discover places within a polygon',
+    description: `
+      Returns the places inside a GeoJSON Polygon such as a neighborhood outline.
+      Holes are excluded and rings may cross the antimeridian. Results are sorted by
+      distance from the center of the polygon's bounding box and support the same
+      category, text, open-state and cursor parameters as GET /discover.
+    `,
+  })
+  @ApiBody({ type: PolygonQueryDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully discovered places',
+    type: PolygonResponseDto,
+  })
+  @ApiProblemResponses(InvalidGeometryException, InvalidParameterException, VALIDATION_FAILED)
+  async discoverWithinPolygon(
+    @Body() body: PolygonQueryDto,
+  ): Promise<PolygonResponseDto> {
+    return this.discoveryService.discoverWithinPolygon({
+      polygon: body.polygon,
+      category: body.category,
+      categories: body.categories,
+      exclude: body.exclude,
+      tags: body.tags,
+      min_rating: body.min_rating,
+      sort: body.sort,
+      debug: body.debug,
+      q: body.q,
+      limit: body.limit,
+      cursor: body.cursor,
+      open_now: body.open_now,
+      open_at: body.open_at,
+    });
+  }
+
+  /**
+   * Corridor endpoint returning places near a route
+   * 
+   * @param body - Route, corridor width and filters
+   * @returns Promise resolving to discovery response
+   */
+  @Post('along-route')
+  @UseInterceptors(GeoJsonInterceptor)
+  @ApiProduces('application/json', GEOJSON_MEDIA_TYPE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Discover places along a route',
+    description: `
+      Returns the places within corridor_km of a route given as an encoded polyline
+      or a list of [lng, lat] positions. Results are ordered by where they are reached
+      along the route; distance_km is the distance from the route and route_position_km
+      the distance traveled along it. Supports the same category, text, open-state and
+      cursor parameters as GET /discover.
+    `,
+  })
+  @ApiBody({ type: AlongRouteQueryDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully discovered places',
+    type: AlongRouteResponseDto,
+  })
+  @ApiProblemResponses(InvalidGeometryException, InvalidParameterException, VALIDATION_FAILED)
+  async discoverAlongRoute(
+    @Body() body: AlongRouteQueryDto,
+  ): Promise<AlongRouteResponseDto> {
+    return this.discoveryService.discoverAlongRoute({
+      polyline: body.polyline,
+      precision: body.precision,
+      coordinates: body.coordinates,
+      corridor_km: body.corridor_km,
+      category: body.category,
+      categories: body.categories,
+      exclude: body.exclude,
+      tags: body.tags,
+      min_rating: body.min_rating,
+      sort: body.sort,
+      debug: body.debug,
+      q: body.q,
+      limit: body.limit,
+      cursor: body.cursor,
+      open_now: body.open_now,
+      open_at: body.open_at,
+    });
   }
 
   /**
-   * Get available categories for filtering
+   * Autocomplete endpoint suggesting place names and categories
    * 
-   * @returns Array of available categories
+   * @param queryDto - Query parameters for suggestions
+   * @returns Suggestions ranked by prefix match and proximity
+   */
+  @Get('suggest')
+  @ApiOperation({
+    summary: 'Suggest place names and categories',
+    description: `
+      Type-ahead suggestions for a search box. Returns place names near the user and
+      categories with a place in the radius whose words start with the typed prefix.
+      Suggestions starting with the prefix rank above those matching a later word,
+      and closer places rank above farther ones.
+    `,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully generated suggestions',
+    type: SuggestResponseDto,
+  })
+  @ApiProblemResponses(
+    InvalidCoordinatesException,
+    RadiusOutOfRangeException,
+    InvalidParameterException,
+    VALIDATION_FAILED,
+  )
+  @ApiQuery({
+    name: 'prefix',
+    required: true,
+    type: 'string',
+    description: 'Text typed so far',
+    example: 'blue bo',
+  })
+  @ApiQuery({
+    name: 'latitude',
+    required: true,
+    type: 'number',
+    description: 'Latitude coordinate (-90 to 90)',
+    example: 40.7128,
+  })
+  @ApiQuery({
+    name: 'longitude',
+    required: true,
+    type: 'number',
+    description: 'Longitude coordinate (-180 to 180)',
+    example: -74.0060,
+  })
+  @ApiQuery({
+    name: 'radius',
+    required: false,
+    type: 'number',
+    description: 'Radius in kilometers to look for places (0.1 to 50)',
+    example: 5.0,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: 'number',
+    description: 'Maximum number of suggestions (1 to 20)',
+    example: 5,
+  })
+  suggest(@Query() queryDto: SuggestQueryDto): SuggestResponseDto {
+    return this.suggestService.suggest({
+      prefix: queryDto.prefix,
+      latitude: queryDto.latitude,
+      longitude: queryDto.longitude,
+      radius: queryDto.radius,
+      limit: queryDto.limit,
+    });
+  }
+
+  /**
+   * Get the category taxonomy for filtering
+   * 
+   * @returns Category tree with place counts
    */
   @Get('categories')
   @ApiOperation({
     summary: 'Get available categories',
-    description: 'Returns all available place categories that can be used for filtering.',
+    description: `
+      Returns the category taxonomy: top-level categories with their sub-categories
+      (e.g. restaurant > italian > pizzeria), display names and icons. Any category ID
+      can be used as category, categories or exclude, and matches its sub-categories too.
+    `,
   })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved categories',
-    schema: {
-      type: 'object',
-      properties: {
-        categories: {
-          type: 'array',
-          items: { type: 'string' },
-          example: ['restaurant', 'cafe', 'bar', 'shop', 'hotel'],
-        },
-        total: { type: 'number', example: 15 },
-      },
-    },
+    type: CategoriesResponseDto,
   })
-  async getCategories(): Promise<{ categories: string[]; total: number }> {
-    try {
-      const categories = this.discoveryService.getAvailableCategories();
-      
-      return {
-        categories,
-        total: categories.length,
-      };
-      
-    } catch (error) {
-      this.logger.error(`Failed to get categories: ${error.message}`, error.stack);
-      
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-          message: 'An error occurred while retrieving categories',
-          error: 'Internal Server Error',
-        },
-        HttpStatus.INTERNAL_SERVER_ERROR,
-      );
-    }
+  async getCategories(): Promise<CategoriesResponseDto> {
+    const categories = await this.discoveryService.getCategoryTree();
+    const count = (nodes: CategoriesResponseDto['categories']): number =>
+      nodes.reduce((total, node) => total + 1 + count(node.children), 0);
+    
+    return {
+      categories,
+      total: count(categories),
+    };
   }
 
   /**
@@ -245,98 +540,61 @@ export class DiscoveryController {
             maxResults: { type: 'number', example: 50 },
           },
         },
+        cacheStats: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean', example: true },
+            hits: { type: 'number', example: 120 },
+            misses: { type: 'number', example: 30 },
+            hitRate: { type: 'number', example: 0.8 },
+            entries: { type: 'number', example: 25 },
+            maxEntries: { type: 'number', example: 1000 },
+            ttlSeconds: { type: 'number', example: 30 },
+            invalidations: { type: 'number', example: 2 },
+          },
+        },
       },
     },
   })
   async getStatistics(): Promise<any> {
-    try {
-      return this.discoveryService.getServiceStatistics();
-      
-    } catch (error) {
-      this.logger.error(`Failed to get statistics: ${error.message}`, error.stack);
-      
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-          message: 'An error occurred while retrieving statistics',
-          error: 'Internal Server Error',
-        },
-        HttpStatus.INTERNAL_SERVER_ERROR,
-      );
-    }
+    return this.discoveryService.getServiceStatistics();
   }
 
   /**
-   * Find the nearest place to a location
+   * Find the k nearest places to a location
    * 
-   * @param queryDto - Query parameters
-   * @returns Nearest place or null
+   * @param queryDto - Reference point, category, k and maximum distance
+   * @returns Nearest places, closest first
    */
   @Get('nearest')
+  @UseInterceptors(GeoJsonInterceptor)
+  @ApiProduces('application/json', GEOJSON_MEDIA_TYPE)
   @ApiOperation({
-    summary: 'Find nearest place',
-    description: 'Finds the single nearest place to a given location, optionally filtered by category.',
+    summary: 'Find nearest places',
+    description: `
+      Finds the k nearest places to a location within max_distance_km, optionally
+      filtered by category. \`place\` is the nearest one and \`results\` lists all k,
+      closest first. Answers 404 when no place lies within the distance.
+    `,
   })
   @ApiResponse({
     status: 200,
-    description: 'Successfully found nearest place',
-    schema: {
-      type: 'object',
-      properties: {
-        place: {
-          type: 'object',
-          nullable: true,
-          description: 'Nearest place or null if none found',
-        },
-      },
-    },
-  })
-  @ApiQuery({
-    name: 'latitude',
-    required: true,
-    type: 'number',
-    description: 'Latitude coordinate',
-    example: 40.7128,
-  })
-  @ApiQuery({
-    name: 'longitude',
-    required: true,
-    type: 'number',
-    description: 'Longitude coordinate',
-    example: -74.0060,
-  })
-  @ApiQuery({
-    name: 'category',
-    required: false,
-    type: 'string',
-    description: 'Optional category filter',
-    example: 'restaurant',
+    description: 'Successfully found nearest places',
+    type: NearestResponseDto,
   })
-  async findNearest(
-    @Query('latitude') latitude: number,
-    @Query('longitude') longitude: number,
-    @Query('category') category?: string,
-  ): Promise<{ place: any }> {
-    try {
-      const place = await this.discoveryService.findNearestPlace(
-        latitude,
-        longitude,
-        category,
-      );
-      
-      return { place };
-      
-    } catch (error) {
-      this.logger.error(`Failed to find nearest place: ${error.message}`, error.stack);
-      
-      throw new HttpException(
-        {
-          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
-          message: 'An error occurred while finding nearest place',
-          error: 'Internal Server Error',
-        },
-        HttpStatus.INTERNAL_SERVER_ERROR,
-      );
-    }
+  @ApiProblemResponses(
+    InvalidCoordinatesException,
+    InvalidParameterException,
+    VALIDATION_FAILED,
+    NoPlacesFoundException,
+  )
+  async findNearest(@Query() queryDto: NearestQueryDto): Promise<NearestResponseDto> {
+    return this.discoveryService.findNearestPlaces({
+      latitude: queryDto.latitude,
+      longitude: queryDto.longitude,
+      category: queryDto.category,
+      k: queryDto.k,
+      max_distance_km: queryDto.max_distance_km,
+    });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+import { AdminOnly } from '../../auth/decorators/admin-only.decorator';
+import { ApiKeyGuard } from '../../auth/guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from '../../auth/guards/api-key-throttler.guard';
+import { ApiProblemResponses } from '../../common/decorators/api-problem-responses.decorator';
+import { InvalidParameterException, PlaceNotFoundException } from '../../common/exceptions/domain.exceptions';
+import { VALIDATION_FAILED } from '../../common/exceptions/problem-details.dto';
+import { DedupService } from '../services/dedup.service';
+import {
+  DuplicateQueryDto,
+  DuplicatesResponseDto,
+  MergePlacesDto,
+  PlaceMergeResultDto,
+} from '../dto/duplicates.dto';
+
+/**
+ * Duplicates controller for reviewing and merging places that describe the same venue
+ */
+@ApiTags('places')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Invalid or revoked API key, or no key where one is required' })
+@Controller('discover/duplicates')
+@UseGuards(ApiKeyGuard, ApiKeyThrottlerGuard)
+export class DuplicatesController {
+  constructor(private readonly dedupService: DedupService) {}
+
+  /**
+   * Lists clusters of candidate duplicate places
+   *
+   * @param queryDto - Distance, similarity and category parameters
+   * @returns Duplicate clusters for review
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Find duplicate places',
+    description: `
+      Groups places that are within max_distance_m of each other and have names at least
+      min_similarity alike (ignoring case, accents, punctuation and small typos). Each
+      cluster suggests the most complete record as primary_id for POST /discover/duplicates/merge.
+    `,
+  })
+  @ApiResponse({ status: 200, description: 'Duplicate clusters', type: DuplicatesResponseDto })
+  @ApiProblemResponses(InvalidParameterException, VALIDATION_FAILED)
+  async findDuplicates(@Query() queryDto: DuplicateQueryDto): Promise<DuplicatesResponseDto> {
+    return this.dedupService.findDuplicates({
+      max_distance_m: queryDto.max_distance_m,
+      min_similarity: queryDto.min_similarity,
+      category: queryDto.category,
+      limit: queryDto.limit,
+    });
+  }
+
+  /**
+   * Merges duplicate places into one
+   *
+   * @param body - Primary and duplicate place IDs
+   * @returns Consolidated place
+   */
+  @Post('merge')
+  @AdminOnly()
+  @ApiForbiddenResponse({ description: 'The API key is not an admin key' })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Merge duplicate places',
+    description: `
+      Keeps primary_id, fills its empty fields (description, opening hours, image, address)
+      from the duplicates in the given order, combines their tags and deletes the duplicates. Their IDs keep
+      working: GET /discover/places/:id with a merged ID returns the primary place.
+    `,
+  })
+  @ApiResponse({ status: 200, description: 'Places merged', type: PlaceMergeResultDto })
+  @ApiProblemResponses(InvalidParameterException, VALIDATION_FAILED, PlaceNotFoundException)
+  async merge(@Body() body: MergePlacesDto): Promise<PlaceMergeResultDto> {
+    return this.dedupService.merge(body.primary_id, body.duplicate_ids);
+  }
+}
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+import { ApiKeyGuard } from '../../auth/guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from '../../auth/guards/api-key-throttler.guard';
+import { ApiProblemResponses } from '../../common/decorators/api-problem-responses.decorator';
+import { FavoriteNotFoundException, PlaceNotFoundException } from '../../common/exceptions/domain.exceptions';
+import { AuthenticatedUser } from '../../common/interfaces/user.interface';
+import { CurrentUser } from '../../users/decorators/current-user.decorator';
+import { UserGuard } from '../../users/guards/user.guard';
+import { FavoritesService } from '../services/favorites.service';
+import { FavoritesResponseDto } from '../dto/favorite.dto';
+
+/**
+ * Favorites controller for the places the authenticated user saved
+ */
+@ApiTags('users')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Invalid API key, or missing, invalid or expired access token' })
+@Controller('me/favorites')
+@UseGuards(ApiKeyGuard, ApiKeyThrottlerGuard, UserGuard)
+export class FavoritesController {
+  constructor(private readonly favoritesService: FavoritesService) {}
+
+  /**
+   * Lists the saved places
+   *
+   * @param user - Authenticated user
+   * @returns Saved place IDs
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List saved places',
+    description: 'Returns the IDs of the places the user saved, most recently saved first.',
+  })
+  @ApiResponse({ status: 200, description: 'Saved places', type: FavoritesResponseDto })
+  async findFavorites(@CurrentUser() user: AuthenticatedUser): Promise<FavoritesResponseDto> {
+    return this.favoritesService.findByUser(user.id);
+  }
+
+  /**
+   * Saves a place
+   *
+   * @param user - Authenticated user
+   * @param placeId - Place ID
+   */
+  @Put(':placeId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Save a place',
+    description: `
+      Adds a place to the user's favorites. Saving a place again has no effect. IDs of places
+      merged as duplicates save the place they were merged into.
+    `,
+  })
+  @ApiParam({ name: 'placeId', description: 'Place ID', example: 'rest_001' })
+  @ApiResponse({ status: 204, description: 'Place saved' })
+  @ApiProblemResponses(PlaceNotFoundException)
+  async addFavorite(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('placeId') placeId: string,
+  ): Promise<void> {
+    await this.favoritesService.add(user.id, placeId);
+  }
+
+  /**
+   * Removes a saved place
+   *
+   * @param user - Authenticated user
+   * @param placeId - Place ID
+   */
+  @Delete(':placeId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a saved place' })
+  @ApiParam({ name: 'placeId', description: 'Place ID', example: 'rest_001' })
+  @ApiResponse({ status: 204, description: 'Place removed from favorites' })
+  @ApiProblemResponses(FavoriteNotFoundException)
+  async removeFavorite(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('placeId') placeId: string,
+  ): Promise<void> {
+    await this.favoritesService.remove(user.id, placeId);
+  }
+}
@@ -0,0 +1,217 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiForbiddenResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+import { AdminOnly } from '../../auth/decorators/admin-only.decorator';
+import { ApiKeyGuard } from '../../auth/guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from '../../auth/guards/api-key-throttler.guard';
+import { ApiProblemResponses } from '../../common/decorators/api-problem-responses.decorator';
+import {
+  InvalidImportFileException,
+  InvalidParameterException,
+  PlaceAlreadyExistsException,
+  PlaceNotFoundException,
+} from '../../common/exceptions/domain.exceptions';
+import { VALIDATION_FAILED } from '../../common/exceptions/problem-details.dto';
+import { PlacesService } from '../services/places.service';
+import { PlaceImportService } from '../services/place-import.service';
+import { CreatePlaceDto } from '../dto/create-place.dto';
+import { UpdatePlaceDto } from '../dto/update-place.dto';
+import { PlaceDto } from '../dto/discovery-response.dto';
+import { PlaceImportQueryDto, PlaceImportReportDto } from '../dto/place-import.dto';
+
+/**
+ * Places controller handling place management endpoints
+ * Lets operators curate the place catalogue without redeploying
+ */
+@ApiTags('places')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Invalid or revoked API key, or no key where one is required' })
+@Controller('discover/places')
+@UseGuards(ApiKeyGuard, ApiKeyThrottlerGuard)
+export class PlacesController {
+  /** Largest accepted import file */
+  private static readonly MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+  constructor(
+    private readonly placesService: PlacesService,
+    private readonly placeImportService: PlaceImportService,
+  ) {}
+
+  /**
+   * Creates a new place
+   *
+   * @param dto - Place fields
+   * @returns Created place
+   */
+  @Post()
+  @AdminOnly()
+  @ApiForbiddenResponse({ description: 'The API key is not an admin key' })
+  @ApiOperation({
+    summary: 'Create a place',
+    description: 'Adds a place to the catalogue. An ID is generated when none is supplied.',
+  })
+  @ApiResponse({ status: 201, description: 'Place created', type: PlaceDto })
+  @ApiProblemResponses(VALIDATION_FAILED, PlaceAlreadyExistsException)
+  async createPlace(@Body() dto: CreatePlaceDto): Promise<PlaceDto> {
+    return this.placesService.create(dto);
+  }
+
+  /**
+   * Imports places from an uploaded CSV or GeoJSON file
+   *
+   * @param file - Uploaded file
+   * @param options - Format, dry-run and conflict handling
+   * @returns Import report with per-row errors
+   */
+  @Post('import')
+  @AdminOnly()
+  @ApiForbiddenResponse({ description: 'The API key is not an admin key' })
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: PlacesController.MAX_IMPORT_BYTES } }))
+  @ApiOperation({
+    summary: 'Import places',
+    description: `
+      Imports places from a CSV file (columns: ${PlaceImportService.CSV_COLUMNS.join(', ')})
+      or a GeoJSON FeatureCollection of Point features. Every row is validated like
+      POST /discover/places; invalid rows and IDs repeated within the file are reported
+      and skipped. Rows whose ID is already stored are skipped or, with
+      on_conflict=update, update the place. dry_run=true only validates.
+    `,
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Import report', type: PlaceImportReportDto })
+  @ApiProblemResponses(InvalidImportFileException, InvalidParameterException, VALIDATION_FAILED)
+  async importPlaces(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query() options: PlaceImportQueryDto,
+  ): Promise<PlaceImportReportDto> {
+    if (!file) {
+      throw new InvalidParameterException('file', 'A file must be uploaded in the "file" field');
+    }
+
+    const format = options.format ?? PlaceImportService.detectFormat(file.originalname, file.mimetype);
+    if (!format) {
+      throw new InvalidParameterException('format', 'Unknown file format; name the file .csv or .geojson, or pass format');
+    }
+
+    return this.placeImportService.import(file.buffer.toString('utf8'), {
+      format,
+      dry_run: options.dry_run,
+      on_conflict: options.on_conflict,
+    });
+  }
+
+  /**
+   * Gets a place by ID
+   *
+   * @param id - Place ID
+   * @returns Place
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get a place',
+    description: 'Returns a single place by ID. IDs retired by a merge return the place they were merged into.',
+  })
+  @ApiParam({ name: 'id', description: 'Place ID', example: 'rest_001' })
+  @ApiResponse({ status: 200, description: 'Place found', type: PlaceDto })
+  @ApiProblemResponses(PlaceNotFoundException)
+  async getPlace(
+    @Param('id') id: string,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<PlaceDto> {
+    const place = await this.placesService.findById(id);
+
+    if (!place) {
+      throw new PlaceNotFoundException(id);
+    }
+
+    // A merged ID resolves to the place it was merged into; point clients at its own URL
+    if (place.id !== id) {
+      response.setHeader('Content-Location', encodeURIComponent(place.id));
+    }
+
+    return place;
+  }
+
+  /**
+   * Partially updates a place
+   *
+   * @param id - Place ID
+   * @param dto - Fields to change
+   * @returns Updated place
+   */
+  @Patch(':id')
+  @AdminOnly()
+  @ApiForbiddenResponse({ description: 'The API key is not an admin key' })
+  @ApiOperation({ summary: 'Update a place', description: 'Changes only the supplied fields of a place.' })
+  @ApiParam({ name: 'id', description: 'Place ID', example: 'rest_001' })
+  @ApiResponse({ status: 200, description: 'Place updated', type: PlaceDto })
+  @ApiProblemResponses(VALIDATION_FAILED, PlaceNotFoundException)
+  async updatePlace(
+    @Param('id') id: string,
+    @Body() dto: UpdatePlaceDto,
+  ): Promise<PlaceDto> {
+    const place = await this.placesService.update(id, dto);
+
+    if (!place) {
+      throw new PlaceNotFoundException(id);
+    }
+
+    return place;
+  }
+
+  /**
+   * Deletes a place
+   *
+   * @param id - Place ID
+   */
+  @Delete(':id')
+  @AdminOnly()
+  @ApiForbiddenResponse({ description: 'The API key is not an admin key' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a place', description: 'Removes a place from the catalogue.' })
+  @ApiParam({ name: 'id', description: 'Place ID', example: 'rest_001' })
+  @ApiResponse({ status: 204, description: 'Place deleted' })
+  @ApiProblemResponses(PlaceNotFoundException)
+  async deletePlace(@Param('id') id: string): Promise<void> {
+    const deleted = await this.placesService.delete(id);
+
+    if (!deleted) {
+      throw new PlaceNotFoundException(id);
+    }
+  }
+}
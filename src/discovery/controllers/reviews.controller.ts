@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+import { ApiKeyGuard } from '../../auth/guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from '../../auth/guards/api-key-throttler.guard';
+import { ApiProblemResponses } from '../../common/decorators/api-problem-responses.decorator';
+import { InvalidParameterException, PlaceNotFoundException } from '../../common/exceptions/domain.exceptions';
+import { VALIDATION_FAILED } from '../../common/exceptions/problem-details.dto';
+import { ReviewsService } from '../services/reviews.service';
+import {
+  CreateReviewDto,
+  ReviewDto,
+  ReviewQueryDto,
+  ReviewsResponseDto,
+} from '../dto/review.dto';
+
+/**
+ * Reviews controller for reading and writing place reviews
+ */
+@ApiTags('places')
+@ApiSecurity('api-key')
+@ApiUnauthorizedResponse({ description: 'Invalid or revoked API key, or no key where one is required' })
+@Controller('discover/places/:id/reviews')
+@UseGuards(ApiKeyGuard, ApiKeyThrottlerGuard)
+export class ReviewsController {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  /**
+   * Adds a review to a place
+   *
+   * @param id - Place ID
+   * @param dto - Rating, text and author
+   * @returns Created review
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Review a place',
+    description: `
+      Adds a 1 to 5 star review. The rating is folded into the place's average rating
+      and rating_count, and its review_count goes up by one, so min_rating filters and
+      relevance ranking take it into account immediately.
+    `,
+  })
+  @ApiParam({ name: 'id', description: 'Place ID', example: 'rest_001' })
+  @ApiResponse({ status: 201, description: 'Review created', type: ReviewDto })
+  @ApiProblemResponses(VALIDATION_FAILED, PlaceNotFoundException)
+  async createReview(@Param('id') id: string, @Body() dto: CreateReviewDto): Promise<ReviewDto> {
+    return this.reviewsService.create(id, dto);
+  }
+
+  /**
+   * Lists the reviews of a place
+   *
+   * @param id - Place ID
+   * @param queryDto - Paging parameters
+   * @returns Page of reviews, newest first
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List place reviews',
+    description: 'Returns the reviews of a place, newest first, with its average rating and rating count.',
+  })
+  @ApiParam({ name: 'id', description: 'Place ID', example: 'rest_001' })
+  @ApiResponse({ status: 200, description: 'Reviews of the place', type: ReviewsResponseDto })
+  @ApiProblemResponses(InvalidParameterException, VALIDATION_FAILED, PlaceNotFoundException)
+  async findReviews(
+    @Param('id') id: string,
+    @Query() queryDto: ReviewQueryDto,
+  ): Promise<ReviewsResponseDto> {
+    return this.reviewsService.findByPlace(id, queryDto.limit, queryDto.cursor);
+  }
+}
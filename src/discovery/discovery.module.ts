@@ -1,15 +1,68 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { HealthModule } from '../health/health.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { UsersModule } from '../users/users.module';
 import { DiscoveryController } from './controllers/discovery.controller';
+import { DuplicatesController } from './controllers/duplicates.controller';
+import { FavoritesController } from './controllers/favorites.controller';
+import { PlacesController } from './controllers/places.controller';
+import { ReviewsController } from './controllers/reviews.controller';
+import {
+  DiscoveryCacheHealthIndicator,
+  PlaceIndexHealthIndicator,
+  PlaceStoreHealthIndicator,
+} from './health/discovery-health.indicators';
+import { DedupService } from './services/dedup.service';
+import { DiscoveryCacheService } from './services/discovery-cache.service';
 import { DiscoveryService } from './services/discovery.service';
+import { FavoritesService } from './services/favorites.service';
 import { MockDataService } from './services/mock-data.service';
+import { PlaceIndexService } from './services/place-index.service';
+import { PlaceImportService } from './services/place-import.service';
+import { PlacesService } from './services/places.service';
+import { RankingService } from './services/ranking.service';
+import { ReviewsService } from './services/reviews.service';
+import { SuggestService } from './services/suggest.service';
+import { favoriteRepositoryProvider } from './repositories/favorite-repository.provider';
+import { PlaceRepository } from './repositories/place.repository';
+import { placeRepositoryProvider } from './repositories/place-repository.provider';
+import { reviewRepositoryProvider } from './repositories/review-repository.provider';
+import { placeScorersProvider } from './scoring/place-scorers.provider';
 
 /**
  * Discovery module containing all location discovery functionality
  * Provides controllers, services, and utilities for place discovery
  */
 @Module({
-  controllers: [DiscoveryController],
-  providers: [DiscoveryService, MockDataService],
-  exports: [DiscoveryService, MockDataService],
+  imports: [AuthModule, HealthModule, MetricsModule, UsersModule],
+  controllers: [
+    DiscoveryController,
+    DuplicatesController,
+    FavoritesController,
+    PlacesController,
+    ReviewsController,
+  ],
+  providers: [
+    DedupService,
+    DiscoveryCacheHealthIndicator,
+    DiscoveryCacheService,
+    DiscoveryService,
+    FavoritesService,
+    MockDataService,
+    PlaceImportService,
+    PlaceIndexHealthIndicator,
+    PlaceIndexService,
+    PlaceStoreHealthIndicator,
+    PlacesService,
+    RankingService,
+    ReviewsService,
+    SuggestService,
+    favoriteRepositoryProvider,
+    placeRepositoryProvider,
+    reviewRepositoryProvider,
+    placeScorersProvider,
+  ],
+  exports: [DiscoveryService, MockDataService, PlaceImportService, PlaceIndexService, PlaceRepository],
 })
 export class DiscoveryModule {} 
\ No newline at end of file
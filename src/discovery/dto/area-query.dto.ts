@@ -0,0 +1,129 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GeoJsonPolygon, GeoJsonPosition } from '../../common/interfaces/geojson.interface';
+import { PlaceFiltersDto } from './place-filters.dto';
+
+/**
+ * Data Transfer Object for viewport (bounding box) query parameters
+ * A minLng greater than maxLng selects a box crossing the antimeridian
+ */
+export class BoundingBoxQueryDto extends PlaceFiltersDto {
+  @ApiProperty({ description: 'Southern edge latitude', example: 40.70, minimum: -90, maximum: 90 })
+  @IsNumber({}, { message: 'minLat must be a valid number' })
+  @Min(-90, { message: 'minLat must be between -90 and 90' })
+  @Max(90, { message: 'minLat must be between -90 and 90' })
+  @Type(() => Number)
+  minLat: number;
+
+  @ApiProperty({ description: 'Western edge longitude', example: -74.02, minimum: -180, maximum: 180 })
+  @IsNumber({}, { message: 'minLng must be a valid number' })
+  @Min(-180, { message: 'minLng must be between -180 and 180' })
+  @Max(180, { message: 'minLng must be between -180 and 180' })
+  @Type(() => Number)
+  minLng: number;
+
+  @ApiProperty({ description: 'Northern edge latitude', example: 40.76, minimum: -90, maximum: 90 })
+  @IsNumber({}, { message: 'maxLat must be a valid number' })
+  @Min(-90, { message: 'maxLat must be between -90 and 90' })
+  @Max(90, { message: 'maxLat must be between -90 and 90' })
+  @Type(() => Number)
+  maxLat: number;
+
+  @ApiProperty({ description: 'Eastern edge longitude', example: -73.97, minimum: -180, maximum: 180 })
+  @IsNumber({}, { message: 'maxLng must be a valid number' })
+  @Min(-180, { message: 'maxLng must be between -180 and 180' })
+  @Max(180, { message: 'maxLng must be between -180 and 180' })
+  @Type(() => Number)
+  maxLng: number;
+}
+
+/**
+ * Data Transfer Object for a GeoJSON Polygon geometry
+ * Ring structure is checked by the discovery service
+ */
+export class GeoJsonPolygonDto implements GeoJsonPolygon {
+  @ApiProperty({ description: 'Geometry type', enum: ['Polygon'], example: 'Polygon' })
+  @IsIn(['Polygon'], { message: 'polygon.type must be Polygon' })
+  type: 'Polygon';
+
+  @ApiProperty({
+    description: 'Exterior ring followed by optional holes; each ring is a closed list of [lng, lat] positions',
+    example: [[[-74.02, 40.70], [-73.97, 40.70], [-73.97, 40.76], [-74.02, 40.76], [-74.02, 40.70]]],
+    type: 'array',
+    items: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+  })
+  @IsArray({ message: 'polygon.coordinates must be an array of rings' })
+  @ArrayMinSize(1, { message: 'polygon.coordinates must contain at least one ring' })
+  coordinates: GeoJsonPosition[][];
+}
+
+/**
+ * Data Transfer Object for a polygon area search
+ */
+export class PolygonQueryDto extends PlaceFiltersDto {
+  @ApiProperty({ description: 'Area to search', type: GeoJsonPolygonDto })
+  @ValidateNested()
+  @Type(() => GeoJsonPolygonDto)
+  polygon: GeoJsonPolygonDto;
+}
+
+/**
+ * Data Transfer Object for an along-route (corridor) search
+ * The route is given either as an encoded polyline or as [lng, lat] positions
+ */
+export class AlongRouteQueryDto extends PlaceFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Route as an encoded polyline (as returned by Google Maps, OSRM or Valhalla)',
+    example: 'o{kwFjftbMgzGhH',
+  })
+  @IsOptional()
+  @IsString({ message: 'polyline must be a string' })
+  @MaxLength(100000, { message: 'polyline must be at most 100000 characters' })
+  polyline?: string;
+
+  @ApiPropertyOptional({
+    description: 'Decimal places encoded in the polyline',
+    enum: [5, 6],
+    default: 5,
+  })
+  @IsOptional()
+  @IsIn([5, 6], { message: 'precision must be 5 or 6' })
+  @Type(() => Number)
+  precision?: number;
+
+  @ApiPropertyOptional({
+    description: 'Route as a list of [lng, lat] positions, used instead of polyline',
+    example: [[-74.0134, 40.7033], [-74.0090, 40.7480]],
+    type: 'array',
+    items: { type: 'array', items: { type: 'number' } },
+  })
+  @IsOptional()
+  @IsArray({ message: 'coordinates must be an array of [lng, lat] positions' })
+  coordinates?: GeoJsonPosition[];
+
+  @ApiPropertyOptional({
+    description: 'Maximum distance from the route in kilometers',
+    example: 0.5,
+    minimum: 0.05,
+    maximum: 10,
+    default: 1,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'corridor_km must be a valid number' })
+  @Min(0.05, { message: 'corridor_km must be at least 0.05 km' })
+  @Max(10, { message: 'corridor_km cannot exceed 10 km' })
+  @Type(() => Number)
+  corridor_km?: number;
+}
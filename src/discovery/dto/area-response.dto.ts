@@ -0,0 +1,93 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { AlongRouteQuery, BoundingBoxQuery, PolygonQuery } from '../../common/interfaces/location.interface';
+import { GeoJsonPosition } from '../../common/interfaces/geojson.interface';
+import { GeoJsonPolygonDto } from './area-query.dto';
+import { DiscoveryResponseDto, QueryInfoDto } from './discovery-response.dto';
+
+/**
+ * Data Transfer Object for viewport query information
+ */
+export class BoundingBoxQueryInfoDto
+  extends OmitType(QueryInfoDto, ['latitude', 'longitude', 'radius'] as const)
+  implements BoundingBoxQuery
+{
+  @ApiProperty({ description: 'Southern edge latitude', example: 40.70 })
+  minLat: number;
+
+  @ApiProperty({ description: 'Western edge longitude', example: -74.02 })
+  minLng: number;
+
+  @ApiProperty({ description: 'Northern edge latitude', example: 40.76 })
+  maxLat: number;
+
+  @ApiProperty({ description: 'Eastern edge longitude', example: -73.97 })
+  maxLng: number;
+}
+
+/**
+ * Data Transfer Object for polygon query information
+ */
+export class PolygonQueryInfoDto
+  extends OmitType(QueryInfoDto, ['latitude', 'longitude', 'radius'] as const)
+  implements PolygonQuery
+{
+  @ApiProperty({ description: 'Searched polygon', type: GeoJsonPolygonDto })
+  polygon: GeoJsonPolygonDto;
+}
+
+/**
+ * Data Transfer Object for along-route query information
+ */
+export class AlongRouteQueryInfoDto
+  extends OmitType(QueryInfoDto, ['latitude', 'longitude', 'radius'] as const)
+  implements AlongRouteQuery
+{
+  @ApiPropertyOptional({ description: 'Encoded polyline searched along', example: 'o{kwFjftbMgzGhH' })
+  polyline?: string;
+
+  @ApiPropertyOptional({ description: 'Polyline precision', example: 5 })
+  precision?: number;
+
+  @ApiPropertyOptional({
+    description: 'Route positions searched along',
+    type: 'array',
+    items: { type: 'array', items: { type: 'number' } },
+  })
+  coordinates?: GeoJsonPosition[];
+
+  @ApiProperty({ description: 'Corridor width in kilometers', example: 1 })
+  corridor_km?: number;
+}
+
+/**
+ * Data Transfer Object for the viewport discovery response
+ */
+export class BoundingBoxResponseDto extends OmitType(DiscoveryResponseDto, ['query'] as const) {
+  @ApiProperty({
+    description: 'Query parameters used for the search',
+    type: BoundingBoxQueryInfoDto,
+  })
+  query: BoundingBoxQueryInfoDto;
+}
+
+/**
+ * Data Transfer Object for the polygon discovery response
+ */
+export class PolygonResponseDto extends OmitType(DiscoveryResponseDto, ['query'] as const) {
+  @ApiProperty({
+    description: 'Query parameters used for the search',
+    type: PolygonQueryInfoDto,
+  })
+  query: PolygonQueryInfoDto;
+}
+
+/**
+ * Data Transfer Object for the along-route discovery response
+ */
+export class AlongRouteResponseDto extends OmitType(DiscoveryResponseDto, ['query'] as const) {
+  @ApiProperty({
+    description: 'Query parameters used for the search',
+    type: AlongRouteQueryInfoDto,
+  })
+  query: AlongRouteQueryInfoDto;
+}
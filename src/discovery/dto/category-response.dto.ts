@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CategorySummary } from '../../common/interfaces/location.interface';
+
+/**
+ * Data Transfer Object for a category of the taxonomy
+ */
+export class CategoryNodeDto implements CategorySummary {
+  @ApiProperty({ description: 'Category ID, usable as category, categories or exclude', example: 'italian' })
+  id: string;
+
+  @ApiProperty({ description: 'Display name', example: 'Italian' })
+  name: string;
+
+  @ApiProperty({ description: 'Material Symbols icon name', example: 'local_pizza' })
+  icon: string;
+
+  @ApiProperty({
+    description: 'Parent category ID; null for top-level categories',
+    example: 'restaurant',
+    nullable: true,
+    type: String,
+  })
+  parent: string | null;
+
+  @ApiProperty({ description: 'Number of places of this category or its sub-categories', example: 3 })
+  place_count: number;
+
+  @ApiProperty({ description: 'Sub-categories', type: () => [CategoryNodeDto] })
+  children: CategoryNodeDto[];
+}
+
+/**
+ * Data Transfer Object for the category taxonomy response
+ */
+export class CategoriesResponseDto {
+  @ApiProperty({ description: 'Top-level categories with nested sub-categories', type: [CategoryNodeDto] })
+  categories: CategoryNodeDto[];
+
+  @ApiProperty({ description: 'Number of categories at every level', example: 62 })
+  total: number;
+}
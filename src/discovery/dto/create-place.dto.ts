@@ -0,0 +1,195 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+import { OpeningHoursDto } from './opening-hours.dto';
+
+/** Lowercase tag of letters, digits, spaces, hyphens and underscores */
+export const TAG_PATTERN = /^[\p{Ll}\p{Lo}\p{N}][\p{Ll}\p{Lo}\p{N} _-]{0,39}$/u;
+
+/**
+ * Data Transfer Object for a place location
+ */
+export class PlaceLocationDto {
+  @ApiProperty({
+    description: 'Latitude coordinate',
+    example: 40.7130,
+    minimum: -90,
+    maximum: 90,
+  })
+  @IsNumber({}, { message: 'Latitude must be a valid number' })
+  @Min(-90, { message: 'Latitude must be between -90 and 90' })
+  @Max(90, { message: 'Latitude must be between -90 and 90' })
+  @Type(() => Number)
+  lat: number;
+
+  @ApiProperty({
+    description: 'Longitude coordinate',
+    example: -74.0050,
+    minimum: -180,
+    maximum: 180,
+  })
+  @IsNumber({}, { message: 'Longitude must be a valid number' })
+  @Min(-180, { message: 'Longitude must be between -180 and 180' })
+  @Max(180, { message: 'Longitude must be between -180 and 180' })
+  @Type(() => Number)
+  lng: number;
+
+  @ApiProperty({
+    description: 'Human-readable address',
+    example: '123 Main St, New York, NY 10001',
+  })
+  @IsString({ message: 'Address must be a string' })
+  @IsNotEmpty({ message: 'Address must not be empty' })
+  @MaxLength(300, { message: 'Address cannot exceed 300 characters' })
+  address: string;
+}
+
+/**
+ * Data Transfer Object for creating a place
+ */
+export class CreatePlaceDto {
+  @ApiPropertyOptional({
+    description: 'Unique identifier; generated when omitted',
+    example: 'rest_013',
+  })
+  @IsOptional()
+  @IsString({ message: 'ID must be a string' })
+  @Matches(/^[A-Za-z0-9_-]{1,64}$/, {
+    message: 'ID may only contain letters, digits, underscores and dashes (max 64)',
+  })
+  id?: string;
+
+  @ApiProperty({
+    description: 'Display name of the place',
+    example: 'Trattoria Alfredo',
+  })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name must not be empty' })
+  @MaxLength(200, { message: 'Name cannot exceed 200 characters' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Most specific category or sub-category of the place (see GET /discover/categories)',
+    example: 'italian',
+    enum: TaxonomyUtil.ids(),
+  })
+  @IsString({ message: 'Category must be a string' })
+  @IsIn(TaxonomyUtil.ids(), {
+    message: `Category must be one of: ${TaxonomyUtil.ids().join(', ')}`,
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.toLowerCase() : value))
+  category: string;
+
+  @ApiProperty({
+    description: 'Detailed description of the place',
+    example: 'Authentic Italian pasta, great ambiance.',
+  })
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(2000, { message: 'Description cannot exceed 2000 characters' })
+  description: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the place is currently open; only used when no opening_hours are set',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'open_now must be a boolean' })
+  open_now?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Weekly opening hours; when set, open_now is computed from it at query time',
+    type: OpeningHoursDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => OpeningHoursDto)
+  opening_hours?: OpeningHoursDto;
+
+  @ApiProperty({
+    description: 'URL to the place\'s image',
+    example: 'https://cdn.onspotx.ai/spots/alfredo.jpg',
+  })
+  @IsUrl({}, { message: 'image_url must be a valid URL' })
+  image_url: string;
+
+  @ApiPropertyOptional({
+    description: 'Average rating from 1 to 5, e.g. from an upstream listing; reviews maintain it after creation',
+    example: 4.6,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'rating must be a valid number' })
+  @Min(1, { message: 'rating must be between 1 and 5' })
+  @Max(5, { message: 'rating must be between 1 and 5' })
+  @Type(() => Number)
+  rating?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of ratings behind the average; reviews maintain it after creation',
+    example: 312,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'rating_count must be an integer' })
+  @Min(0, { message: 'rating_count cannot be negative' })
+  @Type(() => Number)
+  rating_count?: number;
+
+  @ApiPropertyOptional({
+    description: 'Visits in the last 30 days, used as a popularity signal',
+    example: 1450,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'popularity must be an integer' })
+  @Min(0, { message: 'popularity cannot be negative' })
+  @Type(() => Number)
+  popularity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Free-form tags; stored lowercase without duplicates',
+    example: ['pasta', 'outdoor seating'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray({ message: 'tags must be an array of strings' })
+  @ArrayMaxSize(20, { message: 'tags cannot contain more than 20 tags' })
+  @IsString({ each: true, message: 'tags must contain strings' })
+  @Matches(TAG_PATTERN, {
+    each: true,
+    message: 'tags must be letters, digits, spaces, hyphens or underscores, up to 40 characters',
+  })
+  @Transform(({ value }) =>
+    Array.isArray(value)
+      ? [...new Set(value.map(tag => (typeof tag === 'string' ? tag.trim().toLowerCase() : tag)))]
+      : value,
+  )
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Location information',
+    type: PlaceLocationDto,
+  })
+  @ValidateNested()
+  @Type(() => PlaceLocationDto)
+  location: PlaceLocationDto;
+}
@@ -1,13 +1,13 @@
-import { IsNumber, IsOptional, IsString, IsEnum, Min, Max } from 'class-validator';
+import { IsNumber, IsOptional, Min, Max } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { PlaceCategory } from '../../common/interfaces/location.interface';
+import { PlaceFiltersDto } from './place-filters.dto';
 
 /**
  * Data Transfer Object for discovery query parameters
  * Handles validation and transformation of incoming query parameters
  */
-export class DiscoveryQueryDto {
+export class DiscoveryQueryDto extends PlaceFiltersDto {
   @ApiProperty({
     description: 'Latitude coordinate for the search center',
     example: 40.7128,
@@ -46,32 +46,4 @@ export class DiscoveryQueryDto {
   @Type(() => Number)
   @Transform(({ value }) => value ?? 5.0)
   radius?: number = 5.0;
-
-  @ApiPropertyOptional({
-    description: 'Category filter for places',
-    example: 'restaurant',
-    enum: PlaceCategory,
-  })
-  @IsOptional()
-  @IsString({ message: 'Category must be a string' })
-  @IsEnum(PlaceCategory, { 
-    message: `Category must be one of: ${Object.values(PlaceCategory).join(', ')}` 
-  })
-  @Transform(({ value }) => value?.toLowerCase())
-  category?: string;
-
-  @ApiPropertyOptional({
-    description: 'Maximum number of results to return',
-    example: 10,
-    minimum: 1,
-    maximum: 50,
-    default: 10,
-  })
-  @IsOptional()
-  @IsNumber({}, { message: 'Limit must be a valid number' })
-  @Min(1, { message: 'Limit must be at least 1' })
-  @Max(50, { message: 'Limit cannot exceed 50' })
-  @Type(() => Number)
-  @Transform(({ value }) => value ?? 10)
-  limit?: number = 10;
-} 
\ No newline at end of file
+}
@@ -1,9 +1,31 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { Place, DiscoveryQuery } from '../../common/interfaces/location.interface';
+import { ApiExtraModels, ApiProperty, ApiPropertyOptional, getSchemaPath } from '@nestjs/swagger';
+import {
+  Place,
+  DiscoveryQuery,
+  PlaceSort,
+  ScoreBreakdown,
+  ScoreComponent,
+} from '../../common/interfaces/location.interface';
+import { OpeningHoursDto } from './opening-hours.dto';
+
+/**
+ * Data Transfer Object for one signal of a relevance score breakdown
+ */
+export class ScoreComponentDto implements ScoreComponent {
+  @ApiProperty({ description: 'Signal value between 0 and 1', example: 0.8 })
+  score: number;
+
+  @ApiProperty({ description: 'Share of the signal in relevance', example: 0.3333 })
+  weight: number;
+
+  @ApiProperty({ description: 'score × weight', example: 0.2667 })
+  contribution: number;
+}
 
 /**
  * Data Transfer Object for place information
  */
+@ApiExtraModels(ScoreComponentDto)
 export class PlaceDto implements Place {
   @ApiProperty({
     description: 'Unique identifier for the place',
@@ -36,17 +58,79 @@ export class PlaceDto implements Place {
   distance_km: number;
 
   @ApiProperty({
-    description: 'Whether the place is currently open',
+    description: 'Whether the place is open at query time (or at open_at when given)',
     example: true,
   })
   open_now: boolean;
 
+  @ApiPropertyOptional({
+    description: 'Weekly opening hours the open state is computed from',
+    type: OpeningHoursDto,
+  })
+  opening_hours?: OpeningHoursDto;
+
+  @ApiPropertyOptional({
+    description: 'Average rating from 1 to 5',
+    example: 4.6,
+  })
+  rating?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of ratings behind the average',
+    example: 312,
+  })
+  rating_count?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of reviews written on this service; their ratings count towards the average',
+    example: 3,
+  })
+  review_count?: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the authenticated user saved the place; present when called with a bearer token',
+    example: true,
+  })
+  is_favorite?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Visits in the last 30 days',
+    example: 1450,
+  })
+  popularity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Relevance between 0 and 1; present when sorting by relevance (the default for q) or in debug mode',
+    example: 0.8123,
+  })
+  relevance?: number;
+
+  @ApiPropertyOptional({
+    description: 'Contribution of each signal (distance, open_now, rating, popularity, text) to relevance; debug mode only',
+    type: 'object',
+    additionalProperties: { $ref: getSchemaPath(ScoreComponentDto) },
+  })
+  score_breakdown?: ScoreBreakdown;
+
+  @ApiPropertyOptional({
+    description: 'Distance along the route at which the place is reached; only present for along-route searches',
+    example: 1.84,
+  })
+  route_position_km?: number;
+
   @ApiProperty({
     description: 'URL to the place\'s image',
     example: 'https://cdn.onspotx.ai/spots/alfredo.jpg',
   })
   image_url: string;
 
+  @ApiPropertyOptional({
+    description: 'Free-form lowercase tags',
+    example: ['pasta', 'outdoor seating'],
+    type: [String],
+  })
+  tags?: string[];
+
   @ApiProperty({
     description: 'Location information',
     type: 'object',
@@ -109,11 +193,83 @@ export class QueryInfoDto implements DiscoveryQuery {
   })
   category?: string;
 
+  @ApiProperty({
+    description: 'Categories kept, combining category and categories',
+    example: ['cafe', 'bar'],
+    required: false,
+    type: [String],
+  })
+  categories?: string[];
+
+  @ApiProperty({
+    description: 'Categories dropped',
+    example: ['hotel'],
+    required: false,
+    type: [String],
+  })
+  exclude?: string[];
+
+  @ApiProperty({
+    description: 'Tags every result carries',
+    example: ['wifi'],
+    required: false,
+    type: [String],
+  })
+  tags?: string[];
+
+  @ApiProperty({
+    description: 'Minimum average rating applied',
+    example: 4,
+    required: false,
+  })
+  min_rating?: number;
+
+  @ApiProperty({
+    description: 'Text query applied',
+    example: 'pasta',
+    required: false,
+  })
+  q?: string;
+
   @ApiProperty({
     description: 'Maximum number of results requested',
     example: 10,
   })
   limit?: number;
+
+  @ApiProperty({
+    description: 'Cursor the page was requested with',
+    example: 'WzAuMjQsImNhZmVfMDAyIl0',
+    required: false,
+  })
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Open state filter applied',
+    example: true,
+    required: false,
+  })
+  open_now?: boolean;
+
+  @ApiProperty({
+    description: 'Time open state was evaluated at, when requested',
+    example: '2024-01-15T18:30:00-05:00',
+    required: false,
+  })
+  open_at?: string;
+
+  @ApiProperty({
+    description: 'Ordering requested',
+    enum: ['relevance', 'distance', 'rating'],
+    required: false,
+  })
+  sort?: PlaceSort;
+
+  @ApiProperty({
+    description: 'Whether score breakdowns were requested',
+    required: false,
+  })
+  debug?: boolean;
 }
 
 /**
@@ -127,11 +283,19 @@ export class DiscoveryResponseDto {
   results: PlaceDto[];
 
   @ApiProperty({
-    description: 'Total number of results found',
-    example: 5,
+    description: 'Total number of places matching the query within the radius, across all pages',
+    example: 27,
   })
   total: number;
 
+  @ApiProperty({
+    description: 'Cursor to pass as `cursor` to fetch the next page; null on the last page',
+    example: 'WzEuMTIsImJhbmtfMDEwIl0',
+    nullable: true,
+    type: String,
+  })
+  next_cursor: string | null;
+
   @ApiProperty({
     description: 'Query parameters used for the search',
     type: QueryInfoDto,
@@ -0,0 +1,158 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  DuplicateCluster,
+  DuplicatePair,
+  DuplicateQuery,
+  DuplicatesResponse,
+  PlaceMergeResult,
+} from '../../common/interfaces/location.interface';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+import { PlaceDto, ResponseMetadataDto } from './discovery-response.dto';
+
+/**
+ * Data Transfer Object for duplicate review query parameters
+ */
+export class DuplicateQueryDto implements DuplicateQuery {
+  @ApiPropertyOptional({
+    description: 'Maximum distance between duplicates in meters',
+    example: 50,
+    minimum: 1,
+    maximum: 1000,
+    default: 50,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'max_distance_m must be a valid number' })
+  @Min(1, { message: 'max_distance_m must be at least 1 m' })
+  @Max(1000, { message: 'max_distance_m cannot exceed 1000 m' })
+  @Type(() => Number)
+  max_distance_m?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minimum name similarity between 0 and 1',
+    example: 0.75,
+    minimum: 0,
+    maximum: 1,
+    default: 0.75,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'min_similarity must be a valid number' })
+  @Min(0, { message: 'min_similarity must be between 0 and 1' })
+  @Max(1, { message: 'min_similarity must be between 0 and 1' })
+  @Type(() => Number)
+  min_similarity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only consider places of this category or its sub-categories',
+    example: 'restaurant',
+    enum: TaxonomyUtil.ids(),
+  })
+  @IsOptional()
+  @IsString({ message: 'Category must be a string' })
+  @IsIn(TaxonomyUtil.ids(), {
+    message: `Category must be one of: ${TaxonomyUtil.ids().join(', ')}`,
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.toLowerCase() : value))
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of clusters to return',
+    example: 20,
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Limit must be a valid number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  @Type(() => Number)
+  limit?: number;
+}
+
+/**
+ * Data Transfer Object for a merge request
+ */
+export class MergePlacesDto {
+  @ApiProperty({ description: 'ID of the place to keep', example: 'rest_001' })
+  @IsString({ message: 'primary_id must be a string' })
+  primary_id: string;
+
+  @ApiProperty({
+    description: 'IDs of the places to merge into the primary; they will redirect to it',
+    example: ['rest_001_dup'],
+    type: [String],
+  })
+  @IsArray({ message: 'duplicate_ids must be an array of place IDs' })
+  @ArrayMinSize(1, { message: 'duplicate_ids must contain at least one ID' })
+  @ArrayMaxSize(100, { message: 'duplicate_ids cannot contain more than 100 IDs' })
+  @IsString({ each: true, message: 'duplicate_ids must contain strings' })
+  duplicate_ids: string[];
+}
+
+/**
+ * Data Transfer Object for a pair of candidate duplicates
+ */
+export class DuplicatePairDto implements DuplicatePair {
+  @ApiProperty({ description: 'IDs of the two places', example: ['rest_001', 'rest_001_dup'], type: [String] })
+  ids: [string, string];
+
+  @ApiProperty({ description: 'Distance between the places in meters', example: 12.4 })
+  distance_m: number;
+
+  @ApiProperty({ description: 'Fuzzy similarity of the names between 0 and 1', example: 0.9231 })
+  name_similarity: number;
+}
+
+/**
+ * Data Transfer Object for a cluster of candidate duplicates
+ */
+export class DuplicateClusterDto implements DuplicateCluster {
+  @ApiProperty({ description: 'Place suggested to keep when merging', example: 'rest_001' })
+  primary_id: string;
+
+  @ApiProperty({ description: 'Places in the cluster, suggested primary first', type: [PlaceDto] })
+  places: PlaceDto[];
+
+  @ApiProperty({ description: 'Matching pairs linking the cluster', type: [DuplicatePairDto] })
+  pairs: DuplicatePairDto[];
+}
+
+/**
+ * Data Transfer Object for the duplicate review response
+ */
+export class DuplicatesResponseDto implements DuplicatesResponse {
+  @ApiProperty({ description: 'Clusters, most similar first', type: [DuplicateClusterDto] })
+  clusters: DuplicateClusterDto[];
+
+  @ApiProperty({ description: 'Number of clusters found before applying the limit', example: 3 })
+  total: number;
+
+  @ApiProperty({ description: 'Query parameters used', type: DuplicateQueryDto })
+  query: DuplicateQueryDto;
+
+  @ApiProperty({ description: 'Response metadata', type: ResponseMetadataDto })
+  metadata: ResponseMetadataDto;
+}
+
+/**
+ * Data Transfer Object for the merge result
+ */
+export class PlaceMergeResultDto implements PlaceMergeResult {
+  @ApiProperty({ description: 'Consolidated place', type: PlaceDto })
+  place: PlaceDto;
+
+  @ApiProperty({ description: 'IDs merged into the place; they now redirect to it', example: ['rest_001_dup'], type: [String] })
+  merged_ids: string[];
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FavoritesResponse } from '../../common/interfaces/location.interface';
+
+/**
+ * Data Transfer Object for the places a user saved
+ */
+export class FavoritesResponseDto implements FavoritesResponse {
+  @ApiProperty({
+    description: 'Saved place IDs, most recently saved first',
+    example: ['rest_001', 'cafe_002'],
+    type: [String],
+  })
+  place_ids: string[];
+
+  @ApiProperty({ description: 'Number of saved places', example: 2 })
+  total: number;
+}
@@ -0,0 +1,61 @@
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { PlaceFiltersDto } from './place-filters.dto';
+
+/**
+ * Data Transfer Object for nearest place query parameters
+ */
+export class NearestQueryDto extends PickType(PlaceFiltersDto, ['category', 'format'] as const) {
+  @ApiProperty({
+    description: 'Latitude coordinate of the reference point',
+    example: 40.7128,
+    minimum: -90,
+    maximum: 90,
+  })
+  @IsNumber({}, { message: 'Latitude must be a valid number' })
+  @Min(-90, { message: 'Latitude must be between -90 and 90' })
+  @Max(90, { message: 'Latitude must be between -90 and 90' })
+  @Type(() => Number)
+  latitude: number;
+
+  @ApiProperty({
+    description: 'Longitude coordinate of the reference point',
+    example: -74.0060,
+    minimum: -180,
+    maximum: 180,
+  })
+  @IsNumber({}, { message: 'Longitude must be a valid number' })
+  @Min(-180, { message: 'Longitude must be between -180 and 180' })
+  @Max(180, { message: 'Longitude must be between -180 and 180' })
+  @Type(() => Number)
+  longitude: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of nearest places to return',
+    example: 3,
+    minimum: 1,
+    maximum: 50,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt({ message: 'k must be an integer' })
+  @Min(1, { message: 'k must be at least 1' })
+  @Max(50, { message: 'k cannot exceed 50' })
+  @Type(() => Number)
+  k?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Maximum distance to the places in kilometers',
+    example: 2.0,
+    minimum: 0.1,
+    maximum: 50.0,
+    default: 50.0,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'max_distance_km must be a valid number' })
+  @Min(0.1, { message: 'max_distance_km must be at least 0.1 km' })
+  @Max(50.0, { message: 'max_distance_km cannot exceed 50 km' })
+  @Type(() => Number)
+  max_distance_km?: number = 50.0;
+}
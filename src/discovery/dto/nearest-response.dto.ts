@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { NearestQuery } from '../../common/interfaces/location.interface';
+import { PlaceDto, ResponseMetadataDto } from './discovery-response.dto';
+
+/**
+ * Data Transfer Object for nearest place query information
+ */
+export class NearestQueryInfoDto implements NearestQuery {
+  @ApiProperty({ description: 'Latitude of the reference point', example: 40.7128 })
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude of the reference point', example: -74.0060 })
+  longitude: number;
+
+  @ApiProperty({ description: 'Category filter applied', example: 'cafe', required: false })
+  category?: string;
+
+  @ApiProperty({ description: 'Number of nearest places requested', example: 3 })
+  k?: number;
+
+  @ApiProperty({ description: 'Maximum distance in kilometers', example: 2.0 })
+  max_distance_km?: number;
+}
+
+/**
+ * Data Transfer Object for the nearest place response
+ */
+export class NearestResponseDto {
+  @ApiProperty({
+    description: 'Nearest place',
+    type: PlaceDto,
+  })
+  place: PlaceDto;
+
+  @ApiProperty({
+    description: 'The k nearest places, closest first',
+    type: [PlaceDto],
+  })
+  results: PlaceDto[];
+
+  @ApiProperty({
+    description: 'Number of places returned, at most k',
+    example: 3,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Query parameters used for the search',
+    type: NearestQueryInfoDto,
+  })
+  query: NearestQueryInfoDto;
+
+  @ApiProperty({
+    description: 'Response metadata',
+    type: ResponseMetadataDto,
+  })
+  metadata: ResponseMetadataDto;
+}
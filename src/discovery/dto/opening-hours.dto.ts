@@ -0,0 +1,135 @@
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  HolidayHours,
+  OpeningHours,
+  TimeRange,
+  Weekday,
+} from '../../common/interfaces/location.interface';
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+/**
+ * Data Transfer Object for an opening time range
+ */
+export class TimeRangeDto implements TimeRange {
+  @ApiProperty({ description: 'Opening time (HH:mm, local time)', example: '17:00' })
+  @Matches(TIME_PATTERN, { message: 'open must be a time in HH:mm format' })
+  open: string;
+
+  @ApiProperty({
+    description: 'Closing time (HH:mm, local time); at or before open means past midnight',
+    example: '02:00',
+  })
+  @Matches(TIME_PATTERN, { message: 'close must be a time in HH:mm format' })
+  close: string;
+}
+
+/**
+ * Data Transfer Object for opening ranges per weekday
+ */
+export class WeeklyHoursDto implements Partial<Record<Weekday, TimeRange[]>> {
+  @ApiPropertyOptional({ type: [TimeRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  mon?: TimeRangeDto[];
+
+  @ApiPropertyOptional({ type: [TimeRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  tue?: TimeRangeDto[];
+
+  @ApiPropertyOptional({ type: [TimeRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  wed?: TimeRangeDto[];
+
+  @ApiPropertyOptional({ type: [TimeRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  thu?: TimeRangeDto[];
+
+  @ApiPropertyOptional({ type: [TimeRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  fri?: TimeRangeDto[];
+
+  @ApiPropertyOptional({ type: [TimeRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  sat?: TimeRangeDto[];
+
+  @ApiPropertyOptional({ type: [TimeRangeDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  sun?: TimeRangeDto[];
+}
+
+/**
+ * Data Transfer Object for a date-specific opening hours override
+ */
+export class HolidayHoursDto implements HolidayHours {
+  @ApiProperty({ description: 'Local date (YYYY-MM-DD)', example: '2024-12-25' })
+  @Matches(DATE_PATTERN, { message: 'date must be in YYYY-MM-DD format' })
+  date: string;
+
+  @ApiPropertyOptional({ description: 'Holiday name', example: 'Christmas Day' })
+  @IsOptional()
+  @IsString({ message: 'name must be a string' })
+  @MaxLength(100, { message: 'name cannot exceed 100 characters' })
+  name?: string;
+
+  @ApiProperty({
+    description: 'Opening ranges for the day; empty when closed all day',
+    type: [TimeRangeDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimeRangeDto)
+  ranges: TimeRangeDto[];
+}
+
+/**
+ * Data Transfer Object for a weekly opening hours schedule
+ */
+export class OpeningHoursDto implements OpeningHours {
+  @ApiProperty({ description: 'IANA timezone of the schedule', example: 'America/New_York' })
+  @IsTimeZone({ message: 'timezone must be a valid IANA timezone' })
+  timezone: string;
+
+  @ApiProperty({ description: 'Opening ranges per weekday; missing days are closed', type: WeeklyHoursDto })
+  @ValidateNested()
+  @Type(() => WeeklyHoursDto)
+  weekly: WeeklyHoursDto;
+
+  @ApiPropertyOptional({ description: 'Date-specific overrides', type: [HolidayHoursDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HolidayHoursDto)
+  holidays?: HolidayHoursDto[];
+}
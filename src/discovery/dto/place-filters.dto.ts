@@ -0,0 +1,192 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsIn,
+  IsISO8601,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, TransformFnParams, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PlaceSort } from '../../common/interfaces/location.interface';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+import { TAG_PATTERN } from './create-place.dto';
+
+/**
+ * Turns a comma-separated or repeated category or tag parameter into a
+ * list of lowercase values without duplicates
+ */
+export const toLowercaseList = ({ value }: TransformFnParams): unknown => {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  const parts = (Array.isArray(value) ? value : [value]).flatMap(item =>
+    typeof item === 'string' ? item.split(',') : [item],
+  );
+  const values = parts.map(part => (typeof part === 'string' ? part.trim().toLowerCase() : part));
+
+  return [...new Set(values.filter(item => item !== ''))];
+};
+
+/**
+ * Data Transfer Object for the filter, ordering and paging parameters
+ * shared by every discovery endpoint
+ */
+export class PlaceFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Category filter for places; also matches its sub-categories',
+    example: 'restaurant',
+    enum: TaxonomyUtil.ids(),
+  })
+  @IsOptional()
+  @IsString({ message: 'Category must be a string' })
+  @IsIn(TaxonomyUtil.ids(), {
+    message: `Category must be one of: ${TaxonomyUtil.ids().join(', ')}`,
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.toLowerCase() : value))
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Keep places of any of these categories or their sub-categories (comma-separated); combined with category',
+    example: 'cafe,bar',
+    type: String,
+  })
+  @IsOptional()
+  @IsArray({ message: 'categories must be a comma-separated list of categories' })
+  @IsIn(TaxonomyUtil.ids(), {
+    each: true,
+    message: `categories must only contain: ${TaxonomyUtil.ids().join(', ')}`,
+  })
+  @Transform(toLowercaseList)
+  categories?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Drop places of these categories or their sub-categories (comma-separated)',
+    example: 'hotel',
+    type: String,
+  })
+  @IsOptional()
+  @IsArray({ message: 'exclude must be a comma-separated list of categories' })
+  @IsIn(TaxonomyUtil.ids(), {
+    each: true,
+    message: `exclude must only contain: ${TaxonomyUtil.ids().join(', ')}`,
+  })
+  @Transform(toLowercaseList)
+  exclude?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only return places carrying all of these tags (comma-separated)',
+    example: 'outdoor seating,wifi',
+    type: String,
+  })
+  @IsOptional()
+  @IsArray({ message: 'tags must be a comma-separated list of tags' })
+  @Matches(TAG_PATTERN, {
+    each: true,
+    message: 'tags must be letters, digits, spaces, hyphens or underscores, up to 40 characters',
+  })
+  @Transform(toLowercaseList)
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only return places with at least this average rating; unrated places are left out',
+    example: 4,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'min_rating must be a valid number' })
+  @Min(1, { message: 'min_rating must be between 1 and 5' })
+  @Max(5, { message: 'min_rating must be between 1 and 5' })
+  @Type(() => Number)
+  min_rating?: number;
+
+  @ApiPropertyOptional({
+    description: 'Free-text search over name, description, address and tags; the last word may be a prefix',
+    example: 'pasta',
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString({ message: 'q must be a string' })
+  @MaxLength(200, { message: 'q cannot exceed 200 characters' })
+  q?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of results to return',
+    example: 10,
+    minimum: 1,
+    maximum: 50,
+    default: 10,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Limit must be a valid number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(50, { message: 'Limit cannot exceed 50' })
+  @Type(() => Number)
+  @Transform(({ value }) => value ?? 10)
+  limit?: number = 10;
+
+  @ApiPropertyOptional({
+    description: 'Opaque cursor from a previous response\'s next_cursor',
+    example: 'WzAuMjQsImNhZmVfMDAyIl0',
+  })
+  @IsOptional()
+  @IsString({ message: 'Cursor must be a string' })
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return places that are open (true) or closed (false) at query time',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'open_now must be a boolean' })
+  @Transform(({ obj, key }) => {
+    const value = obj[key];
+    return value === 'true' ? true : value === 'false' ? false : value;
+  })
+  open_now?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only return places open at this ISO 8601 time; open_now is evaluated at this time too',
+    example: '2024-01-15T18:30:00-05:00',
+  })
+  @IsOptional()
+  @IsISO8601({ strict: true }, { message: 'open_at must be an ISO 8601 date-time' })
+  open_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Result ordering: relevance (distance, open now, rating, popularity and text match), distance or rating. ' +
+      'Defaults to relevance for text searches and distance otherwise',
+    enum: ['relevance', 'distance', 'rating'],
+  })
+  @IsOptional()
+  @IsIn(['relevance', 'distance', 'rating'], { message: 'sort must be relevance, distance or rating' })
+  sort?: PlaceSort;
+
+  @ApiPropertyOptional({
+    description: 'Include each result\'s relevance score_breakdown',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'debug must be a boolean' })
+  @Transform(({ obj, key }) => {
+    const value = obj[key];
+    return value === 'true' ? true : value === 'false' ? false : value;
+  })
+  debug?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Response format; geojson returns a FeatureCollection, like Accept: application/geo+json',
+    enum: ['json', 'geojson'],
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(['json', 'geojson'], { message: 'format must be json or geojson' })
+  format?: 'json' | 'geojson';
+}
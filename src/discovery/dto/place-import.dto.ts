@@ -0,0 +1,94 @@
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  PlaceImportFormat,
+  PlaceImportReport,
+  PlaceImportRowError,
+} from '../../common/interfaces/location.interface';
+import { ResponseMetadataDto } from './discovery-response.dto';
+
+/**
+ * Data Transfer Object for place import options
+ */
+export class PlaceImportQueryDto {
+  @ApiPropertyOptional({
+    description: 'File format; detected from the file name or media type when omitted',
+    enum: ['csv', 'geojson'],
+  })
+  @IsOptional()
+  @IsIn(['csv', 'geojson'], { message: 'format must be csv or geojson' })
+  format?: PlaceImportFormat;
+
+  @ApiPropertyOptional({
+    description: 'Validate the file and report what would change without writing anything',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'dry_run must be a boolean' })
+  @Transform(({ obj, key }) => {
+    const value = obj[key];
+    return value === 'true' ? true : value === 'false' ? false : value;
+  })
+  dry_run?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'What to do with rows whose ID is already stored',
+    enum: ['skip', 'update'],
+    default: 'skip',
+  })
+  @IsOptional()
+  @IsIn(['skip', 'update'], { message: 'on_conflict must be skip or update' })
+  on_conflict?: 'skip' | 'update';
+}
+
+/**
+ * Data Transfer Object for a rejected import row
+ */
+export class PlaceImportRowErrorDto implements PlaceImportRowError {
+  @ApiProperty({ description: '1-based position of the row (CSV data row or GeoJSON feature)', example: 3 })
+  row: number;
+
+  @ApiPropertyOptional({ description: 'Place ID of the row', example: 'rest_013' })
+  id?: string;
+
+  @ApiProperty({
+    description: 'What is wrong with the row',
+    example: ['category: Category must be one of: restaurant, cafe, bar'],
+    type: [String],
+  })
+  errors: string[];
+}
+
+/**
+ * Data Transfer Object for the place import report
+ */
+export class PlaceImportReportDto implements PlaceImportReport {
+  @ApiProperty({ description: 'File format', enum: ['csv', 'geojson'], example: 'csv' })
+  format: PlaceImportFormat;
+
+  @ApiProperty({ description: 'Whether the import only validated the file', example: false })
+  dry_run: boolean;
+
+  @ApiProperty({ description: 'Number of rows in the file', example: 120 })
+  total: number;
+
+  @ApiProperty({ description: 'Rows creating a new place', example: 115 })
+  created: number;
+
+  @ApiProperty({ description: 'Rows updating an existing place', example: 0 })
+  updated: number;
+
+  @ApiProperty({ description: 'Rows skipped because their ID is already stored', example: 3 })
+  skipped: number;
+
+  @ApiProperty({ description: 'Rows rejected by validation', example: 2 })
+  failed: number;
+
+  @ApiProperty({ description: 'Rejected rows with their errors', type: [PlaceImportRowErrorDto] })
+  errors: PlaceImportRowErrorDto[];
+
+  @ApiProperty({ description: 'Response metadata', type: ResponseMetadataDto })
+  metadata: ResponseMetadataDto;
+}
@@ -0,0 +1,128 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Review, ReviewsResponse } from '../../common/interfaces/location.interface';
+
+/**
+ * Data Transfer Object for writing a review
+ */
+export class CreateReviewDto {
+  @ApiProperty({
+    description: 'Star rating from 1 to 5',
+    example: 5,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsInt({ message: 'rating must be a whole number of stars' })
+  @Min(1, { message: 'rating must be between 1 and 5' })
+  @Max(5, { message: 'rating must be between 1 and 5' })
+  rating: number;
+
+  @ApiProperty({
+    description: 'Review text',
+    example: 'Great pasta and friendly staff.',
+    maxLength: 2000,
+  })
+  @IsString({ message: 'text must be a string' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsNotEmpty({ message: 'text must not be empty' })
+  @MaxLength(2000, { message: 'text cannot exceed 2000 characters' })
+  text: string;
+
+  @ApiPropertyOptional({
+    description: 'Display name of the author',
+    example: 'Maria',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({ message: 'author must be a string' })
+  @MaxLength(100, { message: 'author cannot exceed 100 characters' })
+  author?: string;
+}
+
+/**
+ * Data Transfer Object for review list query parameters
+ */
+export class ReviewQueryDto {
+  @ApiPropertyOptional({
+    description: 'Maximum number of reviews to return',
+    example: 10,
+    minimum: 1,
+    maximum: 50,
+    default: 10,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Limit must be a valid number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(50, { message: 'Limit cannot exceed 50' })
+  @Type(() => Number)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Opaque cursor from a previous response\'s next_cursor',
+    example: 'WzE3MDUzMTQ2MDAwMDAsIjNmMmMiXQ',
+  })
+  @IsOptional()
+  @IsString({ message: 'Cursor must be a string' })
+  cursor?: string;
+}
+
+/**
+ * Data Transfer Object for a review
+ */
+export class ReviewDto implements Review {
+  @ApiProperty({ description: 'Unique identifier for the review', example: '3f2c9a4e-8d1b-4c6f-9e7a-2b5d8c1f0a93' })
+  id: string;
+
+  @ApiProperty({ description: 'ID of the reviewed place', example: 'rest_001' })
+  place_id: string;
+
+  @ApiProperty({ description: 'Star rating from 1 to 5', example: 5 })
+  rating: number;
+
+  @ApiProperty({ description: 'Review text', example: 'Great pasta and friendly staff.' })
+  text: string;
+
+  @ApiPropertyOptional({ description: 'Display name of the author', example: 'Maria' })
+  author?: string;
+
+  @ApiProperty({ description: 'Creation time (ISO 8601)', example: '2024-01-15T10:30:00.000Z' })
+  created_at: string;
+}
+
+/**
+ * Data Transfer Object for a page of reviews
+ */
+export class ReviewsResponseDto implements ReviewsResponse {
+  @ApiProperty({ description: 'Reviewed place', example: 'rest_001' })
+  place_id: string;
+
+  @ApiPropertyOptional({ description: 'Average rating of the place, including ratings from other sources', example: 4.5 })
+  rating?: number;
+
+  @ApiPropertyOptional({ description: 'Number of ratings behind the average', example: 129 })
+  rating_count?: number;
+
+  @ApiProperty({ description: 'Reviews, newest first', type: [ReviewDto] })
+  results: ReviewDto[];
+
+  @ApiProperty({ description: 'Number of reviews of the place', example: 3 })
+  total: number;
+
+  @ApiProperty({
+    description: 'Cursor for the next page, or null on the last page',
+    example: null,
+    nullable: true,
+    type: String,
+  })
+  next_cursor: string | null;
+}
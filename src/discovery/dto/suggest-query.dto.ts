@@ -0,0 +1,73 @@
+import { IsNumber, IsOptional, IsString, Max, MaxLength, Min, MinLength } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Data Transfer Object for autocomplete query parameters
+ */
+export class SuggestQueryDto {
+  @ApiProperty({
+    description: 'Text typed so far; place names are matched from the first character',
+    example: 'blue bo',
+    minLength: 1,
+    maxLength: 100,
+  })
+  @IsString({ message: 'Prefix must be a string' })
+  @MinLength(1, { message: 'Prefix must not be empty' })
+  @MaxLength(100, { message: 'Prefix cannot exceed 100 characters' })
+  prefix: string;
+
+  @ApiProperty({
+    description: 'Latitude coordinate of the user',
+    example: 40.7128,
+    minimum: -90,
+    maximum: 90,
+  })
+  @IsNumber({}, { message: 'Latitude must be a valid number' })
+  @Min(-90, { message: 'Latitude must be between -90 and 90' })
+  @Max(90, { message: 'Latitude must be between -90 and 90' })
+  @Type(() => Number)
+  latitude: number;
+
+  @ApiProperty({
+    description: 'Longitude coordinate of the user',
+    example: -74.0060,
+    minimum: -180,
+    maximum: 180,
+  })
+  @IsNumber({}, { message: 'Longitude must be a valid number' })
+  @Min(-180, { message: 'Longitude must be between -180 and 180' })
+  @Max(180, { message: 'Longitude must be between -180 and 180' })
+  @Type(() => Number)
+  longitude: number;
+
+  @ApiPropertyOptional({
+    description: 'Radius in kilometers to look for matching places',
+    example: 5.0,
+    minimum: 0.1,
+    maximum: 50.0,
+    default: 5.0,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Radius must be a valid number' })
+  @Min(0.1, { message: 'Radius must be at least 0.1 km' })
+  @Max(50.0, { message: 'Radius cannot exceed 50 km' })
+  @Type(() => Number)
+  @Transform(({ value }) => value ?? 5.0)
+  radius?: number = 5.0;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of suggestions to return',
+    example: 5,
+    minimum: 1,
+    maximum: 20,
+    default: 5,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: 'Limit must be a valid number' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(20, { message: 'Limit cannot exceed 20' })
+  @Type(() => Number)
+  @Transform(({ value }) => value ?? 5)
+  limit?: number = 5;
+}
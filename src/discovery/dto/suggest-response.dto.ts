@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SuggestQuery, Suggestion } from '../../common/interfaces/location.interface';
+import { ResponseMetadataDto } from './discovery-response.dto';
+
+/**
+ * Data Transfer Object for an autocomplete suggestion
+ */
+export class SuggestionDto implements Suggestion {
+  @ApiProperty({
+    description: 'Whether the suggestion is a place name or a category',
+    enum: ['place', 'category'],
+    example: 'place',
+  })
+  type: 'place' | 'category';
+
+  @ApiProperty({
+    description: 'Suggested text: the place name, or the category display name',
+    example: 'Blue Bottle Coffee',
+  })
+  text: string;
+
+  @ApiProperty({
+    description: 'Category ID of the place, or of the suggested category',
+    example: 'cafe',
+  })
+  category: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the suggested place (place suggestions only)',
+    example: 'cafe_002',
+  })
+  place_id?: string;
+
+  @ApiProperty({
+    description: 'Distance to the place, or to the nearest place of the category, in kilometers',
+    example: 0.42,
+  })
+  distance_km: number;
+
+  @ApiProperty({
+    description: 'Ranking score combining prefix match quality and proximity',
+    example: 0.7042,
+  })
+  score: number;
+}
+
+/**
+ * Data Transfer Object for autocomplete query information
+ */
+export class SuggestQueryInfoDto implements SuggestQuery {
+  @ApiProperty({ description: 'Text typed so far', example: 'blue bo' })
+  prefix: string;
+
+  @ApiProperty({ description: 'Latitude of the user', example: 40.7128 })
+  latitude: number;
+
+  @ApiProperty({ description: 'Longitude of the user', example: -74.0060 })
+  longitude: number;
+
+  @ApiProperty({ description: 'Radius in kilometers', example: 5.0 })
+  radius?: number;
+
+  @ApiProperty({ description: 'Maximum number of suggestions', example: 5 })
+  limit?: number;
+}
+
+/**
+ * Data Transfer Object for the autocomplete response
+ */
+export class SuggestResponseDto {
+  @ApiProperty({
+    description: 'Suggestions, best first',
+    type: [SuggestionDto],
+  })
+  suggestions: SuggestionDto[];
+
+  @ApiProperty({
+    description: 'Query parameters used for the suggestions',
+    type: SuggestQueryInfoDto,
+  })
+  query: SuggestQueryInfoDto;
+
+  @ApiProperty({
+    description: 'Response metadata',
+    type: ResponseMetadataDto,
+  })
+  metadata: ResponseMetadataDto;
+}
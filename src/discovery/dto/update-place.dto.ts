@@ -0,0 +1,11 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreatePlaceDto } from './create-place.dto';
+
+/**
+ * Data Transfer Object for partially updating a place
+ * Every field of CreatePlaceDto except the ID is optional. The rating and
+ * rating count cannot be set once the place exists: reviews maintain them
+ */
+export class UpdatePlaceDto extends PartialType(
+  OmitType(CreatePlaceDto, ['id', 'rating', 'rating_count'] as const),
+) {}
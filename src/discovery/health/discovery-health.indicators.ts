@@ -0,0 +1,75 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { HealthCheck, HealthIndicator } from '../../health/health-indicator';
+import { HealthIndicatorRegistry } from '../../health/health-indicator.registry';
+import { PlaceRepository } from '../repositories/place.repository';
+import { DiscoveryCacheService } from '../services/discovery-cache.service';
+import { PlaceIndexService } from '../services/place-index.service';
+
+/**
+ * Reports whether the place store answers queries
+ */
+@Injectable()
+export class PlaceStoreHealthIndicator extends HealthIndicator implements OnModuleInit {
+  constructor(
+    private readonly registry: HealthIndicatorRegistry,
+    private readonly placeRepository: PlaceRepository,
+  ) {
+    super('placeStore');
+  }
+
+  onModuleInit(): void {
+    this.registry.register(this);
+  }
+
+  async check(): Promise<HealthCheck> {
+    return { status: 'up', details: { places: await this.placeRepository.count() } };
+  }
+}
+
+/**
+ * Reports whether the spatial and text indexes are built; discovery queries
+ * cannot be answered before the first build completes
+ */
+@Injectable()
+export class PlaceIndexHealthIndicator extends HealthIndicator implements OnModuleInit {
+  constructor(
+    private readonly registry: HealthIndicatorRegistry,
+    private readonly placeIndexService: PlaceIndexService,
+  ) {
+    super('placeIndex');
+  }
+
+  onModuleInit(): void {
+    this.registry.register(this);
+  }
+
+  async check(): Promise<HealthCheck> {
+    return {
+      status: this.placeIndexService.isReady() ? 'up' : 'down',
+      details: { places: this.placeIndexService.size, revision: this.placeIndexService.revision },
+    };
+  }
+}
+
+/**
+ * Reports the discovery query cache; it lives in process memory, so it is up
+ * whenever the process is, and the details tell whether it is effective
+ */
+@Injectable()
+export class DiscoveryCacheHealthIndicator extends HealthIndicator implements OnModuleInit {
+  constructor(
+    private readonly registry: HealthIndicatorRegistry,
+    private readonly discoveryCacheService: DiscoveryCacheService,
+  ) {
+    super('discoveryCache');
+  }
+
+  onModuleInit(): void {
+    this.registry.register(this);
+  }
+
+  async check(): Promise<HealthCheck> {
+    const { enabled, entries, maxEntries, hitRate } = this.discoveryCacheService.getStatistics();
+    return { status: 'up', details: { enabled, entries, maxEntries, hitRate } };
+  }
+}
@@ -0,0 +1,40 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PlaceRepository } from './place.repository';
+import { PlaceStorageDriver } from './place-repository.provider';
+import { FavoriteRepository } from './favorite.repository';
+import { InMemoryFavoriteRepository } from './in-memory-favorite.repository';
+import { FileFavoriteRepository } from './file-favorite.repository';
+import { SqlitePlaceRepository } from './sqlite-place.repository';
+import { SqliteFavoriteRepository } from './sqlite-favorite.repository';
+
+/**
+ * Provides the FavoriteRepository matching the place storage driver
+ * The SQLite driver shares the place database so favorites are saved with it
+ */
+export const favoriteRepositoryProvider: Provider = {
+  provide: FavoriteRepository,
+  inject: [ConfigService, PlaceRepository],
+  useFactory: async (
+    configService: ConfigService,
+    placeRepository: PlaceRepository,
+  ): Promise<FavoriteRepository> => {
+    const driver = configService.get<PlaceStorageDriver>('storage.driver', 'memory');
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryFavoriteRepository();
+      case 'file':
+        return FileFavoriteRepository.forPlacesFile(
+          configService.get<string>('storage.filePath', 'data/places.json'),
+        );
+      case 'sqlite':
+        if (!(placeRepository instanceof SqlitePlaceRepository)) {
+          throw new Error('The sqlite favorite storage requires the sqlite place repository');
+        }
+        return new SqliteFavoriteRepository(placeRepository);
+      default:
+        throw new Error(`Unsupported favorite storage driver: ${driver}`);
+    }
+  },
+};
@@ -0,0 +1,42 @@
+import { Favorite } from '../../common/interfaces/location.interface';
+
+/**
+ * Storage abstraction for places saved by users
+ * Implementations follow the `storage.driver` configuration of places, so
+ * favorites live next to the places they refer to
+ */
+export abstract class FavoriteRepository {
+  /**
+   * Retrieves the places a user saved
+   *
+   * @param userId - User ID
+   * @returns Favorites of the user, in no particular order
+   */
+  abstract findByUser(userId: string): Promise<Favorite[]>;
+
+  /**
+   * Saves a place for a user; saving it again keeps the original time
+   *
+   * @param favorite - Favorite to store
+   * @returns Stored favorite
+   */
+  abstract save(favorite: Favorite): Promise<Favorite>;
+
+  /**
+   * Removes a saved place
+   *
+   * @param userId - User ID
+   * @param placeId - Place ID
+   * @returns True if the user had saved the place
+   */
+  abstract delete(userId: string, placeId: string): Promise<boolean>;
+
+  /**
+   * Points favorites of one place at another, e.g. when merging duplicates
+   * Users who saved both places keep a single favorite
+   *
+   * @param fromPlaceId - ID of the retired place
+   * @param toPlaceId - ID of the place replacing it
+   */
+  abstract reassign(fromPlaceId: string, toPlaceId: string): Promise<void>;
+}
@@ -0,0 +1,55 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { Favorite } from '../../common/interfaces/location.interface';
+import { FileUtil } from '../../common/utils/file.util';
+import { InMemoryFavoriteRepository } from './in-memory-favorite.repository';
+
+/**
+ * Favorite repository backed by a JSON file
+ * Favorites are kept next to the place data file in `<file>.favorites.json`,
+ * served from memory and rewritten after every change
+ */
+export class FileFavoriteRepository extends InMemoryFavoriteRepository {
+  constructor(
+    private readonly filePath: string,
+    favorites: Favorite[],
+  ) {
+    super(favorites);
+  }
+
+  /**
+   * Loads the favorites kept next to a place data file
+   *
+   * @param placesFilePath - Path to the place data file
+   * @returns Repository populated with the stored favorites
+   */
+  static async forPlacesFile(placesFilePath: string): Promise<FileFavoriteRepository> {
+    const filePath = `${placesFilePath}.favorites.json`;
+    const favorites = existsSync(filePath)
+      ? JSON.parse(await readFile(filePath, 'utf8'))
+      : [];
+
+    return new FileFavoriteRepository(filePath, favorites);
+  }
+
+  async save(favorite: Favorite): Promise<Favorite> {
+    const stored = await super.save(favorite);
+    await this.persist();
+    return stored;
+  }
+
+  async delete(userId: string, placeId: string): Promise<boolean> {
+    const deleted = await super.delete(userId, placeId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Writes all favorites back to the file
+   */
+  private async persist(): Promise<void> {
+    await FileUtil.writeJsonAtomically(this.filePath, [...this.favorites.values()]);
+  }
+}
@@ -0,0 +1,134 @@
+import { Logger } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { Place } from '../../common/interfaces/location.interface';
+import { FileUtil } from '../../common/utils/file.util';
+import { GeoJsonUtil } from '../../common/utils/geojson.util';
+import { InMemoryPlaceRepository } from './in-memory-place.repository';
+
+/**
+ * On-disk layout of a place data file
+ */
+type PlaceFileFormat = 'json' | 'geojson';
+
+/**
+ * Place repository backed by a JSON file
+ * Accepts either a plain array of places or a GeoJSON FeatureCollection of
+ * Point features; the file is read once, served from memory and rewritten
+ * in its original format after every change. Redirects of merged place IDs
+ * are kept next to it in `<file>.redirects.json`
+ */
+export class FilePlaceRepository extends InMemoryPlaceRepository {
+  private static readonly logger = new Logger(FilePlaceRepository.name);
+
+  constructor(
+    private readonly filePath: string,
+    private readonly format: PlaceFileFormat,
+    places: Place[],
+    redirects: Record<string, string> = {},
+  ) {
+    super(places, redirects);
+  }
+
+  /**
+   * Loads a file-backed repository
+   *
+   * @param filePath - Path to the JSON or GeoJSON file
+   * @returns Repository populated with the file's places
+   * @throws Error if the file content is not a supported format
+   */
+  static async fromFile(filePath: string): Promise<FilePlaceRepository> {
+    const redirectsPath = FilePlaceRepository.redirectsPath(filePath);
+    const redirects = existsSync(redirectsPath)
+      ? JSON.parse(await readFile(redirectsPath, 'utf8'))
+      : {};
+
+    if (!existsSync(filePath)) {
+      this.logger.warn(`Place data file not found at ${filePath}, starting empty`);
+      const format = extname(filePath) === '.geojson' ? 'geojson' : 'json';
+      return new FilePlaceRepository(filePath, format, [], redirects);
+    }
+
+    const content = JSON.parse(await readFile(filePath, 'utf8'));
+
+    if (Array.isArray(content)) {
+      this.logger.log(`Loaded ${content.length} places from ${filePath}`);
+      return new FilePlaceRepository(
+        filePath,
+        'json',
+        content.map(place => ({ ...place, distance_km: 0 })),
+        redirects,
+      );
+    }
+
+    if (GeoJsonUtil.isFeatureCollection(content)) {
+      this.logger.log(`Loaded ${content.features.length} places from ${filePath}`);
+      return new FilePlaceRepository(
+        filePath,
+        'geojson',
+        content.features.map(feature => GeoJsonUtil.featureToPlace(feature)),
+        redirects,
+      );
+    }
+
+    throw new Error(
+      `Unsupported place data format in ${filePath}: expected an array of places or a GeoJSON FeatureCollection`,
+    );
+  }
+
+  async save(place: Place): Promise<Place> {
+    const stored = await super.save(place);
+    await this.persist();
+    return stored;
+  }
+
+  async saveMany(places: Place[]): Promise<Place[]> {
+    const stored = await super.saveMany(places);
+    if (stored.length > 0) {
+      await this.persist();
+    }
+    return stored;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async saveRedirect(fromId: string, toId: string): Promise<void> {
+    await super.saveRedirect(fromId, toId);
+    await FileUtil.writeJsonAtomically(
+      FilePlaceRepository.redirectsPath(this.filePath),
+      Object.fromEntries(this.redirects),
+    );
+  }
+
+  /**
+   * Gets the path of the redirects file kept next to a data file
+   *
+   * @param filePath - Path to the place data file
+   * @returns Path to the redirects file
+   */
+  private static redirectsPath(filePath: string): string {
+    return `${filePath}.redirects.json`;
+  }
+
+  /**
+   * Writes all places back to the data file
+   */
+  private async persist(): Promise<void> {
+    const places = [...this.places.values()];
+    const content = this.format === 'geojson'
+      ? {
+          type: 'FeatureCollection',
+          features: places.map(place => GeoJsonUtil.placeToFeature(place)),
+        }
+      : places;
+
+    await FileUtil.writeJsonAtomically(this.filePath, content);
+  }
+}
@@ -0,0 +1,55 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { Review } from '../../common/interfaces/location.interface';
+import { FileUtil } from '../../common/utils/file.util';
+import { InMemoryReviewRepository } from './in-memory-review.repository';
+
+/**
+ * Review repository backed by a JSON file
+ * Reviews are kept next to the place data file in `<file>.reviews.json`,
+ * served from memory and rewritten after every change
+ */
+export class FileReviewRepository extends InMemoryReviewRepository {
+  constructor(
+    private readonly filePath: string,
+    reviews: Review[],
+  ) {
+    super(reviews);
+  }
+
+  /**
+   * Loads the reviews kept next to a place data file
+   *
+   * @param placesFilePath - Path to the place data file
+   * @returns Repository populated with the stored reviews
+   */
+  static async forPlacesFile(placesFilePath: string): Promise<FileReviewRepository> {
+    const filePath = `${placesFilePath}.reviews.json`;
+    const reviews = existsSync(filePath)
+      ? JSON.parse(await readFile(filePath, 'utf8'))
+      : [];
+
+    return new FileReviewRepository(filePath, reviews);
+  }
+
+  async save(review: Review): Promise<Review> {
+    const stored = await super.save(review);
+    await this.persist();
+    return stored;
+  }
+
+  async reassign(fromPlaceId: string, toPlaceId: string): Promise<Review[]> {
+    const moved = await super.reassign(fromPlaceId, toPlaceId);
+    if (moved.length > 0) {
+      await this.persist();
+    }
+    return moved;
+  }
+
+  /**
+   * Writes all reviews back to the file
+   */
+  private async persist(): Promise<void> {
+    await FileUtil.writeJsonAtomically(this.filePath, [...this.reviews.values()]);
+  }
+}
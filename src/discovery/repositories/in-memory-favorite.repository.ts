@@ -0,0 +1,49 @@
+import { Favorite } from '../../common/interfaces/location.interface';
+import { FavoriteRepository } from './favorite.repository';
+
+/**
+ * Favorite repository keeping all favorites in process memory
+ */
+export class InMemoryFavoriteRepository extends FavoriteRepository {
+  protected readonly favorites = new Map<string, Favorite>();
+
+  constructor(seed: Favorite[] = []) {
+    super();
+    seed.forEach(favorite => this.favorites.set(this.keyOf(favorite.user_id, favorite.place_id), { ...favorite }));
+  }
+
+  async findByUser(userId: string): Promise<Favorite[]> {
+    return [...this.favorites.values()].filter(favorite => favorite.user_id === userId);
+  }
+
+  async save(favorite: Favorite): Promise<Favorite> {
+    const key = this.keyOf(favorite.user_id, favorite.place_id);
+    const stored = this.favorites.get(key) ?? { ...favorite };
+    this.favorites.set(key, stored);
+    return stored;
+  }
+
+  async delete(userId: string, placeId: string): Promise<boolean> {
+    return this.favorites.delete(this.keyOf(userId, placeId));
+  }
+
+  async reassign(fromPlaceId: string, toPlaceId: string): Promise<void> {
+    const moved = [...this.favorites.values()].filter(favorite => favorite.place_id === fromPlaceId);
+
+    for (const favorite of moved) {
+      this.favorites.delete(this.keyOf(favorite.user_id, fromPlaceId));
+      await this.save({ ...favorite, place_id: toPlaceId });
+    }
+  }
+
+  /**
+   * Builds the map key of a favorite
+   *
+   * @param userId - User ID
+   * @param placeId - Place ID
+   * @returns Key unique per user and place
+   */
+  private keyOf(userId: string, placeId: string): string {
+    return JSON.stringify([userId, placeId]);
+  }
+}
@@ -0,0 +1,66 @@
+import { Place } from '../../common/interfaces/location.interface';
+import { PlaceRepository } from './place.repository';
+
+/**
+ * Place repository keeping all places in process memory
+ * Used for development and tests, seeded from MockDataService by default
+ */
+export class InMemoryPlaceRepository extends PlaceRepository {
+  protected readonly places = new Map<string, Place>();
+  protected readonly redirects = new Map<string, string>();
+
+  constructor(seed: Place[] = [], redirects: Record<string, string> = {}) {
+    super();
+    seed.forEach(place => this.places.set(place.id, { ...place }));
+    Object.entries(redirects).forEach(([fromId, toId]) => this.redirects.set(fromId, toId));
+  }
+
+  async findAll(): Promise<Place[]> {
+    return [...this.places.values()];
+  }
+
+  async findById(id: string): Promise<Place | null> {
+    return this.places.get(id) || null;
+  }
+
+  async findByCategory(category: string): Promise<Place[]> {
+    return [...this.places.values()].filter(
+      place => place.category.toLowerCase() === category.toLowerCase(),
+    );
+  }
+
+  async findCategories(): Promise<string[]> {
+    const categories = [...this.places.values()].map(place => place.category);
+    return [...new Set(categories)];
+  }
+
+  async count(): Promise<number> {
+    return this.places.size;
+  }
+
+  async save(place: Place): Promise<Place> {
+    const stored = { ...place, distance_km: 0 };
+    this.places.set(stored.id, stored);
+    return stored;
+  }
+
+  async saveMany(places: Place[]): Promise<Place[]> {
+    return places.map(place => {
+      const stored = { ...place, distance_km: 0 };
+      this.places.set(stored.id, stored);
+      return stored;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.places.delete(id);
+  }
+
+  async findRedirect(id: string): Promise<string | null> {
+    return this.redirects.get(id) || null;
+  }
+
+  async saveRedirect(fromId: string, toId: string): Promise<void> {
+    this.redirects.set(fromId, toId);
+  }
+}
@@ -0,0 +1,35 @@
+import { Review } from '../../common/interfaces/location.interface';
+import { ReviewRepository } from './review.repository';
+
+/**
+ * Review repository keeping all reviews in process memory
+ */
+export class InMemoryReviewRepository extends ReviewRepository {
+  protected readonly reviews = new Map<string, Review>();
+
+  constructor(seed: Review[] = []) {
+    super();
+    seed.forEach(review => this.reviews.set(review.id, { ...review }));
+  }
+
+  async findByPlace(placeId: string): Promise<Review[]> {
+    return [...this.reviews.values()].filter(review => review.place_id === placeId);
+  }
+
+  async save(review: Review): Promise<Review> {
+    const stored = { ...review };
+    this.reviews.set(stored.id, stored);
+    return stored;
+  }
+
+  async reassign(fromPlaceId: string, toPlaceId: string): Promise<Review[]> {
+    const moved = (await this.findByPlace(fromPlaceId)).map(review => ({
+      ...review,
+      place_id: toPlaceId,
+    }));
+
+    moved.forEach(review => this.reviews.set(review.id, review));
+
+    return moved;
+  }
+}
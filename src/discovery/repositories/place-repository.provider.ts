@@ -0,0 +1,41 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MockDataService } from '../services/mock-data.service';
+import { PlaceRepository } from './place.repository';
+import { InMemoryPlaceRepository } from './in-memory-place.repository';
+import { FilePlaceRepository } from './file-place.repository';
+import { SqlitePlaceRepository } from './sqlite-place.repository';
+
+/**
+ * Supported place storage drivers
+ */
+export type PlaceStorageDriver = 'memory' | 'file' | 'sqlite';
+
+/**
+ * Provides the PlaceRepository implementation selected by `storage.driver`
+ */
+export const placeRepositoryProvider: Provider = {
+  provide: PlaceRepository,
+  inject: [ConfigService, MockDataService],
+  useFactory: async (
+    configService: ConfigService,
+    mockDataService: MockDataService,
+  ): Promise<PlaceRepository> => {
+    const driver = configService.get<PlaceStorageDriver>('storage.driver', 'memory');
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryPlaceRepository(mockDataService.getAllPlaces());
+      case 'file':
+        return FilePlaceRepository.fromFile(
+          configService.get<string>('storage.filePath', 'data/places.json'),
+        );
+      case 'sqlite':
+        return SqlitePlaceRepository.open(
+          configService.get<string>('storage.sqlitePath', 'data/places.sqlite'),
+        );
+      default:
+        throw new Error(`Unsupported place storage driver: ${driver}`);
+    }
+  },
+};
@@ -0,0 +1,248 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Place } from '../../common/interfaces/location.interface';
+import { FileUtil } from '../../common/utils/file.util';
+import { GeoJsonUtil } from '../../common/utils/geojson.util';
+import { MockDataService } from '../services/mock-data.service';
+import { PlaceRepository } from './place.repository';
+import { InMemoryPlaceRepository } from './in-memory-place.repository';
+import { FilePlaceRepository } from './file-place.repository';
+import { SqlitePlaceRepository } from './sqlite-place.repository';
+import { FileReviewRepository } from './file-review.repository';
+import { SqliteReviewRepository } from './sqlite-review.repository';
+import { FileFavoriteRepository } from './file-favorite.repository';
+import { SqliteFavoriteRepository } from './sqlite-favorite.repository';
+
+describe('PlaceRepository implementations', () => {
+  const places: Place[] = new MockDataService().getAllPlaces();
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'onspotx-places-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const drivers: Array<[string, () => Promise<PlaceRepository>]> = [
+    ['memory', async (): Promise<PlaceRepository> => new InMemoryPlaceRepository(places)],
+    [
+      'file (JSON array)',
+      async (): Promise<PlaceRepository> => {
+        const filePath = join(tempDir, 'places.json');
+        writeFileSync(filePath, JSON.stringify(places));
+        return FilePlaceRepository.fromFile(filePath);
+      },
+    ],
+    [
+      'file (GeoJSON)',
+      async (): Promise<PlaceRepository> => {
+        const filePath = join(tempDir, 'places.geojson');
+        writeFileSync(
+          filePath,
+          JSON.stringify({
+            type: 'FeatureCollection',
+            features: places.map(place => GeoJsonUtil.placeToFeature(place)),
+          }),
+        );
+        return FilePlaceRepository.fromFile(filePath);
+      },
+    ],
+    [
+      'sqlite',
+      async (): Promise<PlaceRepository> => {
+        const repository = await SqlitePlaceRepository.open(
+          join(tempDir, 'places.sqlite'),
+        );
+        for (const place of places) {
+          await repository.save(place);
+        }
+        return repository;
+      },
+    ],
+  ];
+
+  it.each([
+    ['places.json', 'json'],
+    ['places.geojson', 'geojson'],
+  ])('should persist file changes across reloads (%s)', async (fileName) => {
+    const filePath = join(tempDir, `persist-${fileName}`);
+    const repository = await FilePlaceRepository.fromFile(filePath);
+
+    await repository.save(places[0]);
+
+    const reloaded = await FilePlaceRepository.fromFile(filePath);
+    expect(await reloaded.findById(places[0].id)).toEqual(places[0]);
+  });
+
+  it('should persist a file batch with a single write', async () => {
+    const filePath = join(tempDir, 'batch.json');
+    const repository = await FilePlaceRepository.fromFile(filePath);
+    const write = jest.spyOn(FileUtil, 'writeJsonAtomically');
+
+    await repository.saveMany(places);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    write.mockRestore();
+    const reloaded = await FilePlaceRepository.fromFile(filePath);
+    expect(await reloaded.count()).toBe(places.length);
+  });
+
+  it('should persist an SQLite batch with a single write', async () => {
+    const filePath = join(tempDir, 'batch.sqlite');
+    const repository = await SqlitePlaceRepository.open(filePath);
+    const persist = jest.spyOn(repository, 'persist');
+
+    await repository.saveMany(places);
+
+    expect(persist).toHaveBeenCalledTimes(1);
+    const reopened = await SqlitePlaceRepository.open(filePath);
+    expect(await reopened.count()).toBe(places.length);
+  });
+
+  it('should persist file redirects across reloads', async () => {
+    const filePath = join(tempDir, 'redirects.json');
+    const repository = await FilePlaceRepository.fromFile(filePath);
+
+    await repository.saveRedirect('rest_old', places[0].id);
+
+    const reloaded = await FilePlaceRepository.fromFile(filePath);
+    expect(await reloaded.findRedirect('rest_old')).toBe(places[0].id);
+  });
+
+  it('should persist SQLite changes across reopens', async () => {
+    const filePath = join(tempDir, 'persist.sqlite');
+    const repository = await SqlitePlaceRepository.open(filePath);
+
+    await repository.save(places[0]);
+    await repository.saveRedirect('rest_old', places[0].id);
+
+    const reopened = await SqlitePlaceRepository.open(filePath);
+    expect(await reopened.findById(places[0].id)).toEqual(places[0]);
+    expect(await reopened.findRedirect('rest_old')).toBe(places[0].id);
+  });
+
+  it('should persist file reviews across reloads', async () => {
+    const filePath = join(tempDir, 'reviewed.json');
+    const repository = await FileReviewRepository.forPlacesFile(filePath);
+    const review = { id: 'rev_1', place_id: 'rest_old', rating: 4, text: 'Good', created_at: '2024-01-15T10:00:00.000Z' };
+
+    await repository.save(review);
+    await repository.reassign('rest_old', places[0].id);
+
+    const reloaded = await FileReviewRepository.forPlacesFile(filePath);
+    expect(await reloaded.findByPlace(places[0].id)).toEqual([{ ...review, place_id: places[0].id }]);
+    expect(await reloaded.findByPlace('rest_old')).toEqual([]);
+  });
+
+  it('should store SQLite reviews in the place database', async () => {
+    const filePath = join(tempDir, 'reviews.sqlite');
+    const repository = new SqliteReviewRepository(await SqlitePlaceRepository.open(filePath));
+    const review = { id: 'rev_1', place_id: 'rest_old', rating: 4, text: 'Good', created_at: '2024-01-15T10:00:00.000Z' };
+
+    await repository.save(review);
+    expect(await repository.reassign('rest_old', places[0].id)).toHaveLength(1);
+
+    const reopened = new SqliteReviewRepository(await SqlitePlaceRepository.open(filePath));
+    expect(await reopened.findByPlace(places[0].id)).toEqual([{ ...review, place_id: places[0].id }]);
+    expect(await reopened.findByPlace('rest_old')).toEqual([]);
+  });
+
+  it('should persist file favorites across reloads', async () => {
+    const filePath = join(tempDir, 'saved.json');
+    const repository = await FileFavoriteRepository.forPlacesFile(filePath);
+    const favorite = { user_id: 'user_1', place_id: 'rest_old', created_at: '2024-01-15T10:00:00.000Z' };
+
+    await repository.save(favorite);
+    await repository.save({ ...favorite, place_id: places[1].id });
+    await repository.reassign('rest_old', places[0].id);
+    expect(await repository.delete('user_1', places[1].id)).toBe(true);
+
+    const reloaded = await FileFavoriteRepository.forPlacesFile(filePath);
+    expect(await reloaded.findByUser('user_1')).toEqual([{ ...favorite, place_id: places[0].id }]);
+  });
+
+  it('should store SQLite favorites in the place database', async () => {
+    const filePath = join(tempDir, 'favorites.sqlite');
+    const repository = new SqliteFavoriteRepository(await SqlitePlaceRepository.open(filePath));
+    const favorite = { user_id: 'user_1', place_id: 'rest_old', created_at: '2024-01-15T10:00:00.000Z' };
+
+    await repository.save(favorite);
+    await repository.save({ ...favorite, place_id: places[0].id });
+    expect(await repository.save({ ...favorite, created_at: '2024-02-01T00:00:00.000Z' })).toEqual(favorite);
+    await repository.reassign('rest_old', places[0].id);
+
+    const reopened = new SqliteFavoriteRepository(await SqlitePlaceRepository.open(filePath));
+    expect(await reopened.findByUser('user_1')).toEqual([{ ...favorite, place_id: places[0].id }]);
+    expect(await reopened.delete('user_1', 'rest_old')).toBe(false);
+  });
+
+  describe.each(drivers)('%s', (_name, create) => {
+    let repository: PlaceRepository;
+
+    beforeAll(async () => {
+      repository = await create();
+    });
+
+    it('should return every place', async () => {
+      expect(await repository.count()).toBe(places.length);
+      expect(await repository.findAll()).toHaveLength(places.length);
+    });
+
+    it('should find a place by id', async () => {
+      expect(await repository.findById('rest_001')).toEqual(places[0]);
+      expect(await repository.findById('missing')).toBeNull();
+    });
+
+    it('should filter by category case-insensitively', async () => {
+      const cafes = await repository.findByCategory('CAFE');
+
+      expect(cafes.map(place => place.id)).toEqual(['cafe_002']);
+    });
+
+    it('should create, update and delete places', async () => {
+      const place = { ...places[1], id: 'cafe_new', name: 'New Cafe' };
+
+      await repository.save(place);
+      expect(await repository.findById('cafe_new')).toEqual(place);
+
+      await repository.save({ ...place, name: 'Renamed Cafe' });
+      expect((await repository.findById('cafe_new'))?.name).toBe('Renamed Cafe');
+
+      expect(await repository.delete('cafe_new')).toBe(true);
+      expect(await repository.delete('cafe_new')).toBe(false);
+      expect(await repository.findById('cafe_new')).toBeNull();
+    });
+
+    it('should save several places at once', async () => {
+      const batch = [
+        { ...places[1], id: 'cafe_batch_1', name: 'Batch One' },
+        { ...places[1], id: 'cafe_batch_2', name: 'Batch Two' },
+      ];
+
+      expect(await repository.saveMany(batch)).toEqual(batch);
+      expect(await repository.findById('cafe_batch_2')).toEqual(batch[1]);
+      expect(await repository.saveMany([])).toEqual([]);
+
+      await repository.delete('cafe_batch_1');
+      await repository.delete('cafe_batch_2');
+    });
+
+    it('should store redirects of retired ids', async () => {
+      expect(await repository.findRedirect('cafe_old')).toBeNull();
+
+      await repository.saveRedirect('cafe_old', 'cafe_002');
+      expect(await repository.findRedirect('cafe_old')).toBe('cafe_002');
+    });
+
+    it('should list distinct categories', async () => {
+      const categories = await repository.findCategories();
+
+      expect(categories.sort()).toEqual(
+        [...new Set(places.map(place => place.category))].sort(),
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { Place } from '../../common/interfaces/location.interface';
+
+/**
+ * Storage abstraction for places
+ * Implementations are selected through the `storage.driver` configuration
+ * and injected wherever place data is needed
+ */
+export abstract class PlaceRepository {
+  /**
+   * Retrieves all stored places
+   *
+   * @returns Array of all places
+   */
+  abstract findAll(): Promise<Place[]>;
+
+  /**
+   * Gets a specific place by ID
+   *
+   * @param id - Place ID
+   * @returns Place if found, null otherwise
+   */
+  abstract findById(id: string): Promise<Place | null>;
+
+  /**
+   * Retrieves places of a given category
+   *
+   * @param category - Category to filter by
+   * @returns Array of places matching the category
+   */
+  abstract findByCategory(category: string): Promise<Place[]>;
+
+  /**
+   * Gets the distinct categories present in the store
+   *
+   * @returns Array of unique categories
+   */
+  abstract findCategories(): Promise<string[]>;
+
+  /**
+   * Counts the stored places
+   *
+   * @returns Number of places
+   */
+  abstract count(): Promise<number>;
+
+  /**
+   * Creates or replaces a place
+   *
+   * @param place - Place to store
+   * @returns Stored place
+   */
+  abstract save(place: Place): Promise<Place>;
+
+  /**
+   * Creates or replaces several places in one write
+   *
+   * @param places - Places to store
+   * @returns Stored places, in the given order
+   */
+  abstract saveMany(places: Place[]): Promise<Place[]>;
+
+  /**
+   * Deletes a place
+   *
+   * @param id - Place ID
+   * @returns True if the place existed
+   */
+  abstract delete(id: string): Promise<boolean>;
+
+  /**
+   * Gets the place ID a retired ID redirects to
+   *
+   * @param id - Retired place ID
+   * @returns Target place ID, or null if the ID has no redirect
+   */
+  abstract findRedirect(id: string): Promise<string | null>;
+
+  /**
+   * Records that a retired place ID now refers to another place
+   *
+   * @param fromId - Retired place ID
+   * @param toId - ID of the place that replaced it
+   */
+  abstract saveRedirect(fromId: string, toId: string): Promise<void>;
+}
@@ -0,0 +1,40 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PlaceRepository } from './place.repository';
+import { PlaceStorageDriver } from './place-repository.provider';
+import { ReviewRepository } from './review.repository';
+import { InMemoryReviewRepository } from './in-memory-review.repository';
+import { FileReviewRepository } from './file-review.repository';
+import { SqlitePlaceRepository } from './sqlite-place.repository';
+import { SqliteReviewRepository } from './sqlite-review.repository';
+
+/**
+ * Provides the ReviewRepository matching the place storage driver
+ * The SQLite driver shares the place database so reviews are saved with it
+ */
+export const reviewRepositoryProvider: Provider = {
+  provide: ReviewRepository,
+  inject: [ConfigService, PlaceRepository],
+  useFactory: async (
+    configService: ConfigService,
+    placeRepository: PlaceRepository,
+  ): Promise<ReviewRepository> => {
+    const driver = configService.get<PlaceStorageDriver>('storage.driver', 'memory');
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryReviewRepository();
+      case 'file':
+        return FileReviewRepository.forPlacesFile(
+          configService.get<string>('storage.filePath', 'data/places.json'),
+        );
+      case 'sqlite':
+        if (!(placeRepository instanceof SqlitePlaceRepository)) {
+          throw new Error('The sqlite review storage requires the sqlite place repository');
+        }
+        return new SqliteReviewRepository(placeRepository);
+      default:
+        throw new Error(`Unsupported review storage driver: ${driver}`);
+    }
+  },
+};
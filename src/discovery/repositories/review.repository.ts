@@ -0,0 +1,33 @@
+import { Review } from '../../common/interfaces/location.interface';
+
+/**
+ * Storage abstraction for place reviews
+ * Implementations follow the `storage.driver` configuration of places, so
+ * reviews live next to the places they belong to
+ */
+export abstract class ReviewRepository {
+  /**
+   * Retrieves the reviews of a place
+   *
+   * @param placeId - Place ID
+   * @returns Reviews of the place, in no particular order
+   */
+  abstract findByPlace(placeId: string): Promise<Review[]>;
+
+  /**
+   * Creates or replaces a review
+   *
+   * @param review - Review to store
+   * @returns Stored review
+   */
+  abstract save(review: Review): Promise<Review>;
+
+  /**
+   * Moves the reviews of one place to another, e.g. when merging duplicates
+   *
+   * @param fromPlaceId - ID of the place losing its reviews
+   * @param toPlaceId - ID of the place receiving them
+   * @returns Moved reviews
+   */
+  abstract reassign(fromPlaceId: string, toPlaceId: string): Promise<Review[]>;
+}
@@ -0,0 +1,77 @@
+import { Favorite } from '../../common/interfaces/location.interface';
+import { FavoriteRepository } from './favorite.repository';
+import { SqlitePlaceRepository } from './sqlite-place.repository';
+
+/**
+ * Favorite repository storing favorites in the places SQLite database
+ */
+export class SqliteFavoriteRepository extends FavoriteRepository {
+  constructor(private readonly places: SqlitePlaceRepository) {
+    super();
+    this.places.database.run(`
+      CREATE TABLE IF NOT EXISTS favorites (
+        user_id TEXT NOT NULL,
+        place_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, place_id)
+      )
+    `);
+    this.places.database.run('CREATE INDEX IF NOT EXISTS idx_favorites_place_id ON favorites (place_id)');
+  }
+
+  async findByUser(userId: string): Promise<Favorite[]> {
+    const statement = this.places.database.prepare(
+      'SELECT user_id, place_id, created_at FROM favorites WHERE user_id = ?',
+      [userId],
+    );
+    const favorites: Favorite[] = [];
+
+    try {
+      while (statement.step()) {
+        const [user_id, place_id, created_at] = statement.get().map(String);
+        favorites.push({ user_id, place_id, created_at });
+      }
+    } finally {
+      statement.free();
+    }
+
+    return favorites;
+  }
+
+  async save(favorite: Favorite): Promise<Favorite> {
+    this.places.database.run(
+      'INSERT OR IGNORE INTO favorites (user_id, place_id, created_at) VALUES (?, ?, ?)',
+      [favorite.user_id, favorite.place_id, favorite.created_at],
+    );
+
+    if (this.places.database.getRowsModified() === 0) {
+      const stored = (await this.findByUser(favorite.user_id))
+        .find(existing => existing.place_id === favorite.place_id);
+      return stored ?? { ...favorite };
+    }
+
+    await this.places.persist();
+    return { ...favorite };
+  }
+
+  async delete(userId: string, placeId: string): Promise<boolean> {
+    this.places.database.run('DELETE FROM favorites WHERE user_id = ? AND place_id = ?', [userId, placeId]);
+    const deleted = this.places.database.getRowsModified() > 0;
+
+    if (deleted) {
+      await this.places.persist();
+    }
+
+    return deleted;
+  }
+
+  async reassign(fromPlaceId: string, toPlaceId: string): Promise<void> {
+    this.places.database.run(
+      'UPDATE OR IGNORE favorites SET place_id = ? WHERE place_id = ?',
+      [toPlaceId, fromPlaceId],
+    );
+    // Rows left behind belong to users who had already saved the target
+    this.places.database.run('DELETE FROM favorites WHERE place_id = ?', [fromPlaceId]);
+    await this.places.persist();
+  }
+}
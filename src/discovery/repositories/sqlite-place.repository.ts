@@ -0,0 +1,190 @@
+import { Logger } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { Place } from '../../common/interfaces/location.interface';
+import { PlaceRepository } from './place.repository';
+
+/**
+ * Place repository backed by an SQLite database file
+ * Indexed columns hold the fields used for lookups while the full place is
+ * stored as a JSON document, so new place fields need no schema migration
+ */
+export class SqlitePlaceRepository extends PlaceRepository {
+  private static readonly logger = new Logger(SqlitePlaceRepository.name);
+
+  constructor(
+    protected readonly db: Database,
+    protected readonly filePath: string,
+  ) {
+    super();
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS places (
+        id TEXT PRIMARY KEY,
+        category TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_places_category ON places (category)');
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS place_redirects (
+        id TEXT PRIMARY KEY,
+        target_id TEXT NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Opens (or creates) an SQLite-backed repository
+   *
+   * @param filePath - Path to the SQLite database file
+   * @returns Repository bound to the database
+   */
+  static async open(filePath: string): Promise<SqlitePlaceRepository> {
+    const SQL = await initSqlJs();
+    const db = existsSync(filePath)
+      ? new SQL.Database(await readFile(filePath))
+      : new SQL.Database();
+
+    this.logger.log(`Opened place database at ${filePath}`);
+
+    return new SqlitePlaceRepository(db, filePath);
+  }
+
+  async findAll(): Promise<Place[]> {
+    return this.queryPlaces('SELECT data FROM places');
+  }
+
+  async findById(id: string): Promise<Place | null> {
+    const [place] = this.queryPlaces('SELECT data FROM places WHERE id = ?', [id]);
+    return place || null;
+  }
+
+  async findByCategory(category: string): Promise<Place[]> {
+    return this.queryPlaces(
+      'SELECT data FROM places WHERE lower(category) = lower(?)',
+      [category],
+    );
+  }
+
+  async findCategories(): Promise<string[]> {
+    return this.queryColumn('SELECT DISTINCT category FROM places').map(String);
+  }
+
+  async count(): Promise<number> {
+    return Number(this.queryColumn('SELECT COUNT(*) FROM places')[0]);
+  }
+
+  async save(place: Place): Promise<Place> {
+    const [stored] = await this.saveMany([place]);
+    return stored;
+  }
+
+  async saveMany(places: Place[]): Promise<Place[]> {
+    if (places.length === 0) {
+      return [];
+    }
+
+    const stored = places.map(place => ({ ...place, distance_km: 0 }));
+    const statement = this.db.prepare(
+      'INSERT OR REPLACE INTO places (id, category, lat, lng, data) VALUES (?, ?, ?, ?, ?)',
+    );
+
+    this.db.run('BEGIN');
+    try {
+      stored.forEach(place => statement.run(
+        [place.id, place.category, place.location.lat, place.location.lng, JSON.stringify(place)],
+      ));
+      this.db.run('COMMIT');
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    } finally {
+      statement.free();
+    }
+    await this.persist();
+
+    return stored;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.db.run('DELETE FROM places WHERE id = ?', [id]);
+    const deleted = this.db.getRowsModified() > 0;
+
+    if (deleted) {
+      await this.persist();
+    }
+
+    return deleted;
+  }
+
+  async findRedirect(id: string): Promise<string | null> {
+    const [targetId] = this.queryColumn('SELECT target_id FROM place_redirects WHERE id = ?', [id]);
+    return targetId === undefined ? null : String(targetId);
+  }
+
+  async saveRedirect(fromId: string, toId: string): Promise<void> {
+    this.db.run(
+      'INSERT OR REPLACE INTO place_redirects (id, target_id) VALUES (?, ?)',
+      [fromId, toId],
+    );
+    await this.persist();
+  }
+
+  /**
+   * Gets the underlying database, for repositories storing related records in it
+   *
+   * @returns Database handle
+   */
+  get database(): Database {
+    return this.db;
+  }
+
+  /**
+   * Writes the in-memory database back to its file
+   * Repositories sharing the database call this after their own changes
+   */
+  async persist(): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, Buffer.from(this.db.export()));
+  }
+
+  /**
+   * Runs a query returning place documents
+   *
+   * @param sql - SQL selecting the `data` column
+   * @param params - Bound parameters
+   * @returns Parsed places
+   */
+  protected queryPlaces(sql: string, params: SqlValue[] = []): Place[] {
+    return this.queryColumn(sql, params).map(data => ({
+      ...JSON.parse(String(data)),
+      distance_km: 0,
+    }));
+  }
+
+  /**
+   * Runs a query and returns the first column of every row
+   *
+   * @param sql - SQL statement
+   * @param params - Bound parameters
+   * @returns First column values
+   */
+  protected queryColumn(sql: string, params: SqlValue[] = []): SqlValue[] {
+    const statement = this.db.prepare(sql, params);
+    const values: SqlValue[] = [];
+
+    try {
+      while (statement.step()) {
+        values.push(statement.get()[0]);
+      }
+    } finally {
+      statement.free();
+    }
+
+    return values;
+  }
+}
@@ -0,0 +1,81 @@
+import { SqlValue } from 'sql.js';
+import { Review } from '../../common/interfaces/location.interface';
+import { ReviewRepository } from './review.repository';
+import { SqlitePlaceRepository } from './sqlite-place.repository';
+
+/**
+ * Review repository storing reviews in the places SQLite database
+ * Like places, each review is a JSON document next to its indexed place ID
+ */
+export class SqliteReviewRepository extends ReviewRepository {
+  constructor(private readonly places: SqlitePlaceRepository) {
+    super();
+    this.places.database.run(`
+      CREATE TABLE IF NOT EXISTS reviews (
+        id TEXT PRIMARY KEY,
+        place_id TEXT NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+    this.places.database.run('CREATE INDEX IF NOT EXISTS idx_reviews_place_id ON reviews (place_id)');
+  }
+
+  async findByPlace(placeId: string): Promise<Review[]> {
+    return this.queryReviews('SELECT data FROM reviews WHERE place_id = ?', [placeId]);
+  }
+
+  async save(review: Review): Promise<Review> {
+    const stored = { ...review };
+
+    this.places.database.run(
+      'INSERT OR REPLACE INTO reviews (id, place_id, data) VALUES (?, ?, ?)',
+      [stored.id, stored.place_id, JSON.stringify(stored)],
+    );
+    await this.places.persist();
+
+    return stored;
+  }
+
+  async reassign(fromPlaceId: string, toPlaceId: string): Promise<Review[]> {
+    const moved = (await this.findByPlace(fromPlaceId)).map(review => ({
+      ...review,
+      place_id: toPlaceId,
+    }));
+
+    if (moved.length === 0) {
+      return moved;
+    }
+
+    for (const review of moved) {
+      this.places.database.run(
+        'UPDATE reviews SET place_id = ?, data = ? WHERE id = ?',
+        [toPlaceId, JSON.stringify(review), review.id],
+      );
+    }
+    await this.places.persist();
+
+    return moved;
+  }
+
+  /**
+   * Runs a query returning review documents
+   *
+   * @param sql - SQL selecting the `data` column
+   * @param params - Bound parameters
+   * @returns Parsed reviews
+   */
+  private queryReviews(sql: string, params: SqlValue[] = []): Review[] {
+    const statement = this.places.database.prepare(sql, params);
+    const reviews: Review[] = [];
+
+    try {
+      while (statement.step()) {
+        reviews.push(JSON.parse(String(statement.get()[0])));
+      }
+    } finally {
+      statement.free();
+    }
+
+    return reviews;
+  }
+}
@@ -0,0 +1,52 @@
+import { Place } from '../../common/interfaces/location.interface';
+
+/**
+ * Request-wide inputs shared by the scorers of one ranking
+ */
+export interface ScoringContext {
+  /** Distance in kilometers the search spans (radius, area scale or corridor width) */
+  scaleKm: number;
+  /** Text relevance by place ID, set for text searches only */
+  textScores?: Map<string, number>;
+  /** Highest text relevance among the ranked places, set for text searches only */
+  maxTextScore?: number;
+}
+
+/**
+ * Ranking signal turning one aspect of a place into a score between 0 and 1
+ * Scorers are provided under PLACE_SCORERS; register another one there to
+ * add a signal to relevance ranking
+ */
+export abstract class PlaceScorer {
+  /**
+   * @param name - Signal name used in score breakdowns
+   * @param weight - Relative weight of the signal; 0 disables it
+   */
+  constructor(
+    readonly name: string,
+    readonly weight: number,
+  ) {}
+
+  /**
+   * Tells whether the signal is meaningful for a ranking (optional)
+   * Signals that do not apply are left out and the other weights rescaled
+   *
+   * @param context - Scoring context
+   * @returns True if the signal takes part in the ranking
+   */
+  appliesTo?(context: ScoringContext): boolean;
+
+  /**
+   * Scores a place
+   *
+   * @param place - Place with distance_km and open_now resolved
+   * @param context - Scoring context
+   * @returns Score between 0 (worst) and 1 (best)
+   */
+  abstract score(place: Place, context: ScoringContext): number;
+}
+
+/**
+ * Injection token for the list of scorers used by RankingService
+ */
+export const PLACE_SCORERS = 'PLACE_SCORERS';
@@ -0,0 +1,30 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PLACE_SCORERS, PlaceScorer } from './place-scorer';
+import {
+  DistanceDecayScorer,
+  OpenNowScorer,
+  PopularityScorer,
+  RatingScorer,
+  TextMatchScorer,
+} from './scorers';
+
+/**
+ * Provides the relevance scorers weighted by `ranking.weights`
+ */
+export const placeScorersProvider: Provider = {
+  provide: PLACE_SCORERS,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService): PlaceScorer[] => {
+    const weight = (signal: string, defaultWeight: number): number =>
+      configService.get<number>(`ranking.weights.${signal}`, defaultWeight);
+
+    return [
+      new DistanceDecayScorer(weight('distance', 0.4)),
+      new OpenNowScorer(weight('openNow', 0.2)),
+      new RatingScorer(weight('rating', 0.2)),
+      new PopularityScorer(weight('popularity', 0.1)),
+      new TextMatchScorer(weight('text', 0.4)),
+    ];
+  },
+};
@@ -0,0 +1,91 @@
+import { Place } from '../../common/interfaces/location.interface';
+import { PlaceScorer, ScoringContext } from './place-scorer';
+
+/**
+ * Favors nearby places; the score halves at a quarter of the search scale
+ */
+export class DistanceDecayScorer extends PlaceScorer {
+  constructor(weight: number) {
+    super('distance', weight);
+  }
+
+  appliesTo(context: ScoringContext): boolean {
+    return context.scaleKm > 0;
+  }
+
+  score(place: Place, context: ScoringContext): number {
+    return 1 / (1 + place.distance_km / (context.scaleKm / 4));
+  }
+}
+
+/**
+ * Favors places that are open at the evaluated time
+ */
+export class OpenNowScorer extends PlaceScorer {
+  constructor(weight: number) {
+    super('open_now', weight);
+  }
+
+  score(place: Place): number {
+    return place.open_now ? 1 : 0;
+  }
+}
+
+/**
+ * Favors well-rated places
+ * Ratings are averaged with a neutral prior so a single 5-star rating does
+ * not outrank hundreds of 4.7s; unrated places get the prior
+ */
+export class RatingScorer extends PlaceScorer {
+  /** Rating assumed before any ratings are known */
+  static readonly PRIOR_RATING = 3;
+  /** Number of ratings the prior counts as */
+  static readonly PRIOR_COUNT = 5;
+
+  constructor(weight: number) {
+    super('rating', weight);
+  }
+
+  score(place: Place): number {
+    const count = place.rating !== undefined ? place.rating_count ?? 1 : 0;
+    const rating = (
+      RatingScorer.PRIOR_RATING * RatingScorer.PRIOR_COUNT + (place.rating ?? 0) * count
+    ) / (RatingScorer.PRIOR_COUNT + count);
+
+    return (rating - 1) / 4;
+  }
+}
+
+/**
+ * Favors frequently visited places; the score reaches 0.5 at HALF_VISITS
+ */
+export class PopularityScorer extends PlaceScorer {
+  /** Monthly visits scoring 0.5 */
+  static readonly HALF_VISITS = 200;
+
+  constructor(weight: number) {
+    super('popularity', weight);
+  }
+
+  score(place: Place): number {
+    const visits = Math.max(place.popularity ?? 0, 0);
+    return visits / (visits + PopularityScorer.HALF_VISITS);
+  }
+}
+
+/**
+ * Favors strong text matches, relative to the best match of the search
+ */
+export class TextMatchScorer extends PlaceScorer {
+  constructor(weight: number) {
+    super('text', weight);
+  }
+
+  appliesTo(context: ScoringContext): boolean {
+    return context.textScores !== undefined && (context.maxTextScore ?? 0) > 0;
+  }
+
+  score(place: Place, context: ScoringContext): number {
+    return (context.textScores?.get(place.id) ?? 0) / (context.maxTextScore as number);
+  }
+}
@@ -0,0 +1,158 @@
+import { ConfigService } from '@nestjs/config';
+import { Place } from '../../common/interfaces/location.interface';
+import { InMemoryFavoriteRepository } from '../repositories/in-memory-favorite.repository';
+import { InMemoryPlaceRepository } from '../repositories/in-memory-place.repository';
+import { InMemoryReviewRepository } from '../repositories/in-memory-review.repository';
+import { DedupService } from './dedup.service';
+import { FavoritesService } from './favorites.service';
+import { MockDataService } from './mock-data.service';
+import { PlaceIndexService } from './place-index.service';
+import { PlacesService } from './places.service';
+import { ReviewsService } from './reviews.service';
+
+describe('DedupService', () => {
+  const mockPlaces = new MockDataService().getAllPlaces();
+  const copyOf = (id: string, changes: Partial<Place>, offset: { lat: number; lng: number }): Place => {
+    const original = mockPlaces.find(place => place.id === id) as Place;
+    return {
+      ...original,
+      ...changes,
+      location: {
+        ...original.location,
+        lat: original.location.lat + offset.lat,
+        lng: original.location.lng + offset.lng,
+      },
+    };
+  };
+
+  let repository: InMemoryPlaceRepository;
+  let placeIndexService: PlaceIndexService;
+  let placesService: PlacesService;
+  let reviewsService: ReviewsService;
+  let favoritesService: FavoritesService;
+  let service: DedupService;
+
+  beforeEach(async () => {
+    repository = new InMemoryPlaceRepository([
+      ...mockPlaces,
+      // ~15 m north, typo in the name, no opening hours or description
+      copyOf('cafe_002', { id: 'src2_88', name: 'Blue Botle Coffee', description: '', opening_hours: undefined }, { lat: 0.00013, lng: 0 }),
+      // ~20 m east, extra words in the name
+      copyOf('cafe_002', { id: 'src3_7', name: 'Blue Bottle Coffee - Fulton St' }, { lat: 0, lng: 0.00024 }),
+      // Same spot as the restaurant, different venue
+      copyOf('rest_001', { id: 'src2_90', name: 'Pizza Corner' }, { lat: 0.00005, lng: 0 }),
+      // Same name, but 300 m away
+      copyOf('bank_010', { id: 'src2_91' }, { lat: 0.0027, lng: 0 }),
+    ]);
+    placeIndexService = new PlaceIndexService(repository, new ConfigService());
+    await placeIndexService.rebuild();
+    placesService = new PlacesService(repository, placeIndexService);
+    reviewsService = new ReviewsService(new InMemoryReviewRepository(), placesService);
+    favoritesService = new FavoritesService(new InMemoryFavoriteRepository(), placesService);
+    service = new DedupService(repository, placeIndexService, placesService, reviewsService, favoritesService);
+  });
+
+  it('clusters nearby places with similar names', async () => {
+    const { clusters, total } = await service.findDuplicates();
+
+    expect(total).toBe(1);
+    expect(clusters[0].primary_id).toBe('cafe_002');
+    expect(clusters[0].places.map(place => place.id)).toEqual(['cafe_002', 'src3_7', 'src2_88']);
+    clusters[0].pairs.forEach(pair => {
+      expect(pair.distance_m).toBeLessThanOrEqual(50);
+      expect(pair.name_similarity).toBeGreaterThanOrEqual(0.75);
+    });
+  });
+
+  it('honors the distance and category parameters', async () => {
+    const wide = await service.findDuplicates({ max_distance_m: 400 });
+    expect(wide.clusters.map(cluster => cluster.primary_id).sort()).toEqual(['bank_010', 'cafe_002']);
+
+    const banks = await service.findDuplicates({ max_distance_m: 400, category: 'bank' });
+    expect(banks.clusters.map(cluster => cluster.places.map(place => place.id))).toEqual([
+      ['bank_010', 'src2_91'],
+    ]);
+  });
+
+  it('merges duplicates, filling empty fields and leaving redirects', async () => {
+    await repository.save({ ...mockPlaces[1], description: '' });
+    await placeIndexService.rebuild();
+
+    const { place, merged_ids } = await service.merge('cafe_002', ['src3_7', 'src2_88']);
+
+    expect(merged_ids).toEqual(['src3_7', 'src2_88']);
+    expect(place.id).toBe('cafe_002');
+    expect(place.description).toBe(mockPlaces[1].description);
+    expect(await repository.findById('src3_7')).toBeNull();
+    expect((await placesService.findById('src2_88'))?.id).toBe('cafe_002');
+    expect(placeIndexService.searchNames('botle').size).toBe(0);
+    expect((await service.findDuplicates()).total).toBe(0);
+  });
+
+  it('moves reviews of duplicates to the merged place', async () => {
+    await reviewsService.create('src2_88', { rating: 1, text: 'Cold coffee' });
+
+    const { place } = await service.merge('cafe_002', ['src2_88']);
+
+    expect(place.review_count).toBe(1);
+    expect(place.rating_count).toBe(2521);
+    expect(place.rating).toBe(Math.round(((4.7 * 2520 + 1) / 2521) * 100) / 100);
+    expect((await reviewsService.findByPlace('cafe_002')).results.map(review => review.text)).toEqual(['Cold coffee']);
+  });
+
+  it('keeps reviews of the primary added during the merge', async () => {
+    const findById = repository.findById.bind(repository);
+    let reviewed = false;
+    jest.spyOn(repository, 'findById').mockImplementation(async (id: string) => {
+      if (id === 'src3_7' && !reviewed) {
+        reviewed = true;
+        await reviewsService.create('cafe_002', { rating: 5, text: 'Great cortado' });
+      }
+      return findById(id);
+    });
+
+    await service.merge('cafe_002', ['src3_7']);
+
+    const place = await findById('cafe_002');
+    expect(place?.review_count).toBe(1);
+    expect(place?.tags).toEqual(expect.arrayContaining(mockPlaces[1].tags ?? []));
+  });
+
+  it('averages the ratings of the duplicates by their counts', async () => {
+    await repository.save({ ...(await repository.findById('src3_7')) as Place, rating: 3, rating_count: 740 });
+    await repository.save({ ...(await repository.findById('src2_88')) as Place, rating: undefined, rating_count: undefined });
+
+    const { place } = await service.merge('cafe_002', ['src3_7', 'src2_88']);
+
+    expect(place.rating_count).toBe(2000);
+    expect((await repository.findById('cafe_002'))?.rating).toBeCloseTo((4.7 * 1260 + 3 * 740) / 2000, 10);
+  });
+
+  it('keeps the data of a duplicate until it has moved', async () => {
+    await reviewsService.create('src2_88', { rating: 1, text: 'Cold coffee' });
+    jest.spyOn(favoritesService, 'transfer').mockRejectedValue(new Error('Storage unavailable'));
+
+    await expect(service.merge('cafe_002', ['src2_88'])).rejects.toThrow('Storage unavailable');
+
+    expect(await repository.findById('src2_88')).not.toBeNull();
+    expect(await repository.findRedirect('src2_88')).toBe('cafe_002');
+    expect((await reviewsService.findByPlace('cafe_002')).results).toHaveLength(1);
+  });
+
+  it('moves favorites of duplicates to the merged place', async () => {
+    await favoritesService.add('user_1', 'src2_88');
+    await favoritesService.add('user_1', 'cafe_002');
+    await favoritesService.add('user_2', 'src3_7');
+
+    await service.merge('cafe_002', ['src3_7', 'src2_88']);
+
+    expect((await favoritesService.findByUser('user_1')).place_ids).toEqual(['cafe_002']);
+    expect((await favoritesService.findByUser('user_2')).place_ids).toEqual(['cafe_002']);
+  });
+
+  it('rejects invalid merges', async () => {
+    await expect(service.merge('cafe_002', [])).rejects.toThrow('Invalid merge');
+    await expect(service.merge('cafe_002', ['cafe_002'])).rejects.toThrow('Invalid merge');
+    await expect(service.merge('cafe_002', ['missing'])).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,288 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InvalidParameterException, PlaceNotFoundException } from '../../common/exceptions/domain.exceptions';
+import {
+  DuplicateCluster,
+  DuplicatePair,
+  DuplicateQuery,
+  DuplicatesResponse,
+  Place,
+  PlaceMergeResult,
+} from '../../common/interfaces/location.interface';
+import { DistanceUtil } from '../../common/utils/distance.util';
+import { RatingUtil } from '../../common/utils/rating.util';
+import { SimilarityUtil } from '../../common/utils/similarity.util';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+import { PlaceRepository } from '../repositories/place.repository';
+import { FavoritesService } from './favorites.service';
+import { PlaceIndexService } from './place-index.service';
+import { PlacesService } from './places.service';
+import { ReviewsService } from './reviews.service';
+
+/**
+ * Duplicate detection and merge service
+ * Places close to each other with similar names are linked into pairs, and
+ * pairs sharing a place are grouped into clusters for review. Merging keeps
+ * one place, fills its missing fields from the others, takes over their
+ * reviews and favorites and leaves redirects from the retired IDs
+ */
+@Injectable()
+export class DedupService {
+  private static readonly DEFAULT_MAX_DISTANCE_M = 50;
+  private static readonly DEFAULT_MIN_SIMILARITY = 0.75;
+
+  private readonly logger = new Logger(DedupService.name);
+
+  constructor(
+    private readonly placeRepository: PlaceRepository,
+    private readonly placeIndexService: PlaceIndexService,
+    private readonly placesService: PlacesService,
+    private readonly reviewsService: ReviewsService,
+    private readonly favoritesService: FavoritesService,
+  ) {}
+
+  /**
+   * Finds clusters of candidate duplicate places
+   *
+   * @param query - Distance, similarity and category parameters
+   * @returns Clusters ordered by their most similar pair
+   */
+  async findDuplicates(query: DuplicateQuery = {}): Promise<DuplicatesResponse> {
+    const startTime = Date.now();
+    const maxDistanceM = query.max_distance_m ?? DedupService.DEFAULT_MAX_DISTANCE_M;
+    const minSimilarity = query.min_similarity ?? DedupService.DEFAULT_MIN_SIMILARITY;
+    const limit = query.limit || 20;
+
+    if (maxDistanceM <= 0 || maxDistanceM > 1000) {
+      throw new InvalidParameterException('max_distance_m', `Invalid max_distance_m: ${maxDistanceM}. Must be between 0 and 1000 m.`);
+    }
+    if (minSimilarity < 0 || minSimilarity > 1) {
+      throw new InvalidParameterException('min_similarity', `Invalid min_similarity: ${minSimilarity}. Must be between 0 and 1.`);
+    }
+
+    const categories = query.category ? TaxonomyUtil.expand([query.category]) : undefined;
+    const places = (await this.placeRepository.findAll()).filter(
+      place => !categories || categories.has(place.category),
+    );
+    const pairs = this.findPairs(places, maxDistanceM, minSimilarity, categories);
+    const clusters = this.cluster(places, pairs);
+
+    this.logger.log(`Found ${clusters.length} duplicate clusters among ${places.length} places`);
+
+    return {
+      clusters: clusters.slice(0, limit),
+      total: clusters.length,
+      query: {
+        max_distance_m: maxDistanceM,
+        min_similarity: minSimilarity,
+        category: query.category,
+        limit,
+      },
+      metadata: {
+        processing_time_ms: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Merges duplicate places into a primary place
+   * Empty fields of the primary are filled from the duplicates in the given
+   * order, tags are combined, ratings are averaged by their counts and reviews
+   * move to the primary; the duplicates are deleted and their IDs redirect to
+   * the primary. A duplicate is only deleted once its redirect is written and
+   * its reviews and favorites have moved, so an interrupted merge can lose
+   * no data
+   *
+   * @param primaryId - ID of the place to keep
+   * @param duplicateIds - IDs of the places to merge into it
+   * @returns Consolidated place and the merged IDs
+   * @throws InvalidParameterException if the request is invalid
+   * @throws PlaceNotFoundException if a place does not exist
+   */
+  async merge(primaryId: string, duplicateIds: string[]): Promise<PlaceMergeResult> {
+    const uniqueIds = [...new Set(duplicateIds)];
+
+    if (uniqueIds.length === 0) {
+      throw new InvalidParameterException('duplicate_ids', 'Invalid merge: at least one duplicate ID is required');
+    }
+    if (uniqueIds.includes(primaryId)) {
+      throw new InvalidParameterException('duplicate_ids', `Invalid merge: ${primaryId} cannot be merged into itself`);
+    }
+
+    await this.findExisting(primaryId);
+    const duplicates: Place[] = [];
+    for (const id of uniqueIds) {
+      duplicates.push(await this.findExisting(id));
+    }
+
+    await this.placesService.modify(primaryId, primary => {
+      const places = [primary, ...duplicates];
+      const firstOf = <T>(pick: (place: Place) => T | undefined): T | undefined =>
+        places.map(pick).find(value => value !== undefined && value !== '');
+
+      const tags = [...new Set(places.flatMap(place => place.tags ?? []))];
+      const reviewCount = places.reduce((sum, place) => sum + (place.review_count ?? 0), 0);
+
+      return {
+        ...primary,
+        ...RatingUtil.combine(places),
+        review_count: reviewCount > 0 ? reviewCount : undefined,
+        description: firstOf(place => place.description) ?? '',
+        opening_hours: firstOf(place => place.opening_hours),
+        image_url: firstOf(place => place.image_url) ?? '',
+        tags: tags.length > 0 ? tags : undefined,
+        location: {
+          ...primary.location,
+          address: firstOf(place => place.location.address) ?? '',
+        },
+      };
+    });
+
+    for (const duplicate of duplicates) {
+      await this.placeRepository.saveRedirect(duplicate.id, primaryId);
+      await this.reviewsService.transfer(duplicate.id, primaryId);
+      await this.favoritesService.transfer(duplicate.id, primaryId);
+      await this.placeRepository.delete(duplicate.id);
+      this.placeIndexService.remove(duplicate.id);
+    }
+
+    this.logger.log(`Merged ${uniqueIds.join(', ')} into ${primaryId}`);
+
+    return {
+      place: await this.placesService.findById(primaryId) as Place,
+      merged_ids: uniqueIds,
+    };
+  }
+
+  /**
+   * Links nearby places with similar names
+   *
+   * @param places - Candidate places
+   * @param maxDistanceM - Maximum distance in meters
+   * @param minSimilarity - Minimum name similarity
+   * @param categories - Categories every place in a pair must have one of (optional)
+   * @returns Matching pairs, each listed once
+   */
+  private findPairs(
+    places: Place[],
+    maxDistanceM: number,
+    minSimilarity: number,
+    categories?: Set<string>,
+  ): DuplicatePair[] {
+    const pairs: DuplicatePair[] = [];
+
+    for (const place of places) {
+      const neighbors = this.placeIndexService.findWithinRadius(place.location, maxDistanceM / 1000);
+
+      for (const neighbor of neighbors) {
+        if (neighbor.id <= place.id || (categories && !categories.has(neighbor.category))) {
+          continue;
+        }
+
+        const distanceM = DistanceUtil.exactDistance(place.location, neighbor.location) * 1000;
+        const similarity = SimilarityUtil.nameSimilarity(place.name, neighbor.name);
+
+        if (distanceM <= maxDistanceM && similarity >= minSimilarity) {
+          pairs.push({
+            ids: [place.id, neighbor.id],
+            distance_m: Math.round(distanceM * 10) / 10,
+            name_similarity: similarity,
+          });
+        }
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Groups pairs sharing a place into clusters (union-find)
+   *
+   * @param places - Candidate places
+   * @param pairs - Matching pairs
+   * @returns Clusters ordered by their most similar pair, then closest pair
+   */
+  private cluster(places: Place[], pairs: DuplicatePair[]): DuplicateCluster[] {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.has(root) && parent.get(root) !== root) {
+        root = parent.get(root) as string;
+      }
+      parent.set(id, root);
+      return root;
+    };
+
+    for (const { ids: [a, b] } of pairs) {
+      const [rootA, rootB] = [find(a), find(b)];
+      if (rootA !== rootB) {
+        parent.set(rootB, rootA);
+      }
+    }
+
+    const byId = new Map(places.map(place => [place.id, place]));
+    const groups = new Map<string, { ids: Set<string>; pairs: DuplicatePair[] }>();
+
+    for (const pair of pairs) {
+      const root = find(pair.ids[0]);
+      const group = groups.get(root) ?? { ids: new Set<string>(), pairs: [] };
+      pair.ids.forEach(id => group.ids.add(id));
+      group.pairs.push(pair);
+      groups.set(root, group);
+    }
+
+    const best = (cluster: DuplicateCluster): DuplicatePair =>
+      cluster.pairs.reduce((a, b) =>
+        b.name_similarity > a.name_similarity ||
+        (b.name_similarity === a.name_similarity && b.distance_m < a.distance_m) ? b : a,
+      );
+
+    return [...groups.values()]
+      .map(group => {
+        const clusterPlaces = [...group.ids]
+          .map(id => RatingUtil.present(byId.get(id) as Place))
+          .sort((a, b) => this.completeness(b) - this.completeness(a) || (a.id < b.id ? -1 : 1));
+
+        return {
+          primary_id: clusterPlaces[0].id,
+          places: clusterPlaces,
+          pairs: group.pairs,
+        };
+      })
+      .sort((a, b) =>
+        best(b).name_similarity - best(a).name_similarity ||
+        best(a).distance_m - best(b).distance_m ||
+        (a.primary_id < b.primary_id ? -1 : 1),
+      );
+  }
+
+  /**
+   * Rates how complete a place record is, to suggest which duplicate to keep
+   *
+   * @param place - Place to rate
+   * @returns Higher for records with more information
+   */
+  private completeness(place: Place): number {
+    return (
+      (place.opening_hours ? 2 : 0) +
+      (place.description ? 1 : 0) +
+      (place.image_url ? 1 : 0) +
+      Math.min(place.description.length, 500) / 1000
+    );
+  }
+
+  /**
+   * Loads a stored place
+   *
+   * @param id - Place ID
+   * @returns Stored place
+   * @throws PlaceNotFoundException if the place does not exist
+   */
+  private async findExisting(id: string): Promise<Place> {
+    const place = await this.placeRepository.findById(id);
+    if (!place) {
+      throw new PlaceNotFoundException(id);
+    }
+    return place;
+  }
+}
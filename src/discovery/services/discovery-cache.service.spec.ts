@@ -0,0 +1,82 @@
+import { ConfigService } from '@nestjs/config';
+import { InMemoryPlaceRepository } from '../repositories/in-memory-place.repository';
+import { DiscoveryCacheKey, DiscoveryCacheService, DiscoveryCandidates } from './discovery-cache.service';
+import { MockDataService } from './mock-data.service';
+import { PlaceIndexService } from './place-index.service';
+
+describe('DiscoveryCacheService', () => {
+  const mockPlaces = new MockDataService().getAllPlaces();
+  const candidates: DiscoveryCandidates = { places: mockPlaces.slice(0, 2) };
+  const key = (changes: Partial<DiscoveryCacheKey> = {}): DiscoveryCacheKey => ({
+    center: { lat: 40.713, lng: -74.006 },
+    radius: 5,
+    filters: { category: 'cafe' },
+    ...changes,
+  });
+
+  let placeIndexService: PlaceIndexService;
+  let compute: jest.Mock<DiscoveryCandidates, []>;
+
+  const createService = (cache: Record<string, number> = {}): DiscoveryCacheService =>
+    new DiscoveryCacheService(placeIndexService, new ConfigService({ discovery: { cache } }));
+
+  beforeEach(async () => {
+    placeIndexService = new PlaceIndexService(new InMemoryPlaceRepository(mockPlaces), new ConfigService());
+    await placeIndexService.rebuild();
+    compute = jest.fn(() => candidates);
+  });
+
+  it('snaps search centers to the configured precision', () => {
+    expect(createService().snap({ lat: 40.71284, lng: -74.00596 })).toEqual({ lat: 40.713, lng: -74.006 });
+    expect(createService({ precision: 2 }).snap({ lat: 40.71284, lng: -74.00596 })).toEqual({ lat: 40.71, lng: -74.01 });
+  });
+
+  it('reports how far a snapped center can be from the requested one', () => {
+    expect(createService().snapMarginKm).toBe(0.079);
+    expect(createService({ precision: 2 }).snapMarginKm).toBe(0.787);
+    expect(createService({ ttl: 0 }).snapMarginKm).toBe(0);
+  });
+
+  it('serves repeated queries from the cache and counts hits and misses', () => {
+    const service = createService();
+
+    expect(service.getOrCompute(key(), compute)).toBe(candidates);
+    expect(service.getOrCompute(key({ filters: { category: 'cafe', q: undefined } }), compute)).toBe(candidates);
+    service.getOrCompute(key({ filters: { category: 'bar' } }), compute);
+    service.getOrCompute(key({ radius: 2 }), compute);
+
+    expect(compute).toHaveBeenCalledTimes(3);
+    expect(service.getStatistics()).toMatchObject({ enabled: true, hits: 1, misses: 3, hitRate: 0.25, entries: 3 });
+  });
+
+  it('shares candidates between queries differing only in paging, ordering or open state', () => {
+    const service = createService();
+
+    service.getOrCompute(key(), compute);
+    service.getOrCompute(key({ filters: { category: 'cafe', limit: 5, cursor: 'abc', sort: 'rating', open_now: true } }), compute);
+
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops cached candidates when places change', () => {
+    const service = createService();
+    service.getOrCompute(key(), compute);
+
+    placeIndexService.remove(mockPlaces[0].id);
+    service.getOrCompute(key(), compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(service.getStatistics()).toMatchObject({ misses: 2, entries: 1, invalidations: 1 });
+  });
+
+  it('computes every query and keeps exact centers when disabled', () => {
+    const service = createService({ ttl: 0 });
+
+    service.getOrCompute(key(), compute);
+    service.getOrCompute(key(), compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(service.snap({ lat: 40.71284, lng: -74.00596 })).toEqual({ lat: 40.71284, lng: -74.00596 });
+    expect(service.getStatistics()).toMatchObject({ enabled: false, hits: 0, misses: 0 });
+  });
+});
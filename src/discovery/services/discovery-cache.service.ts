@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LruCache } from '../../common/cache/lru-cache';
+import { Coordinates, Place, PlaceFilters } from '../../common/interfaces/location.interface';
+import { DistanceUtil } from '../../common/utils/distance.util';
+import { PlaceIndexService } from './place-index.service';
+
+/**
+ * Places around a snapped center that pass the text, category, tag and rating
+ * filters, as stored in the cache
+ * Distances are measured from the snapped center; each request re-measures
+ * them from its own point and drops places outside its radius
+ */
+export interface DiscoveryCandidates {
+  /** Matching places within the radius plus the snap margin */
+  places: Place[];
+  /** Text relevance by place ID, when a text query was given */
+  textScores?: Map<string, number>;
+}
+
+/**
+ * Discovery query identifying cached candidates
+ */
+export interface DiscoveryCacheKey {
+  /** Search center, snapped to the cache grid */
+  center: Coordinates;
+  /** Effective radius in kilometers */
+  radius: number;
+  /** Query parameters; only those selecting candidates are part of the key */
+  filters: PlaceFilters;
+}
+
+/**
+ * Cache effectiveness counters reported by GET /discover/stats
+ */
+export interface DiscoveryCacheStatistics {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  entries: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  invalidations: number;
+}
+
+/**
+ * Query cache for GET /discover
+ * Candidate places are keyed on the search center rounded to
+ * `discovery.cache.precision` decimals along with the filters selecting them,
+ * so nearby users asking the same question share one spatial lookup. Entries
+ * are bounded by TTL and LRU limits and dropped whenever the place index changes
+ */
+@Injectable()
+export class DiscoveryCacheService {
+  /** Query fields that select candidates; paging, ordering and open state are applied per request */
+  private static readonly CANDIDATE_FIELDS = new Set(['q', 'category', 'categories', 'exclude', 'tags', 'min_rating']);
+
+  /** Furthest a snapped center can be from the requested one, in kilometers */
+  readonly snapMarginKm: number;
+
+  private readonly cache: LruCache<DiscoveryCandidates>;
+  private readonly precision: number;
+  private revision: number;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(
+    private readonly placeIndexService: PlaceIndexService,
+    private readonly configService: ConfigService,
+  ) {
+    this.cache = new LruCache<DiscoveryCandidates>(
+      this.configService.get<number>('discovery.cache.maxEntries', 1000),
+      this.configService.get<number>('discovery.cache.ttl', 30) * 1000,
+    );
+    this.precision = this.configService.get<number>('discovery.cache.precision', 3);
+    // Half a grid cell along both axes, measured at the equator where it is widest
+    const halfCell = 0.5 / 10 ** this.precision;
+    this.snapMarginKm = this.cache.enabled
+      ? Math.ceil(DistanceUtil.exactDistance({ lat: 0, lng: 0 }, { lat: halfCell, lng: halfCell }) * 1000) / 1000
+      : 0;
+    this.revision = this.placeIndexService.revision;
+  }
+
+  /**
+   * Rounds a search center to the cache grid
+   * Candidates are looked up from the rounded point, widened by snapMarginKm,
+   * so one entry serves every center in the cell; without caching the point
+   * is kept as is
+   *
+   * @param center - Requested center
+   * @returns Center the search should use
+   */
+  snap(center: Coordinates): Coordinates {
+    if (!this.cache.enabled) {
+      return center;
+    }
+
+    const factor = 10 ** this.precision;
+    return {
+      lat: Math.round(center.lat * factor) / factor,
+      lng: Math.round(center.lng * factor) / factor,
+    };
+  }
+
+  /**
+   * Serves candidates from the cache, computing and storing them on a miss
+   *
+   * @param key - Query identifying the candidates
+   * @param compute - Looks the candidates up on a miss
+   * @returns Cached or freshly computed candidates
+   */
+  getOrCompute(key: DiscoveryCacheKey, compute: () => DiscoveryCandidates): DiscoveryCandidates {
+    if (!this.cache.enabled) {
+      return compute();
+    }
+
+    this.dropIfStale();
+    const cacheKey = this.keyOf(key);
+    const cached = this.cache.get(cacheKey);
+
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+
+    this.misses++;
+    const candidates = compute();
+    this.cache.set(cacheKey, candidates);
+    return candidates;
+  }
+
+  /**
+   * Reports cache effectiveness
+   *
+   * @returns Hit and miss counts, fill level and limits
+   */
+  getStatistics(): DiscoveryCacheStatistics {
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.cache.enabled,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 10000) / 10000 : 0,
+      entries: this.cache.size,
+      maxEntries: this.cache.maxEntries,
+      ttlSeconds: this.cache.ttlMs / 1000,
+      invalidations: this.invalidations,
+    };
+  }
+
+  /**
+   * Empties the cache if places changed since it was filled
+   */
+  private dropIfStale(): void {
+    const revision = this.placeIndexService.revision;
+    if (revision === this.revision) {
+      return;
+    }
+
+    this.revision = revision;
+    if (this.cache.size > 0) {
+      this.cache.clear();
+      this.invalidations++;
+    }
+  }
+
+  /**
+   * Serializes a query into a cache key
+   * Only the filters selecting candidates are kept, sorted by name and
+   * without unset ones, so equivalent queries share a key
+   *
+   * @param key - Query identifying the candidates
+   * @returns Cache key
+   */
+  private keyOf(key: DiscoveryCacheKey): string {
+    const filters = Object.entries(key.filters)
+      .filter(([name, value]) => value !== undefined && DiscoveryCacheService.CANDIDATE_FIELDS.has(name))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return JSON.stringify([key.center.lat, key.center.lng, key.radius, filters]);
+  }
+}
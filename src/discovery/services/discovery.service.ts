@@ -4,10 +4,37 @@ import {
   Place, 
   DiscoveryQuery, 
   DiscoveryResponse, 
-  Coordinates 
+  Coordinates,
+  BoundingBox,
+  BoundingBoxQuery,
+  PlaceFilters,
+  PolygonQuery,
+  AlongRouteQuery,
+  CategoryNode,
+  CategorySummary,
+  PlaceSort,
+  NearestQuery,
+  NearestResponse,
 } from '../../common/interfaces/location.interface';
+import { GeoJsonPolygon, GeoJsonPosition } from '../../common/interfaces/geojson.interface';
+import {
+  InvalidCoordinatesException,
+  InvalidGeometryException,
+  InvalidParameterException,
+  NoPlacesFoundException,
+  RadiusOutOfRangeException,
+} from '../../common/exceptions/domain.exceptions';
 import { DistanceUtil } from '../../common/utils/distance.util';
-import { MockDataService } from './mock-data.service';
+import { CursorUtil, PageCursor } from '../../common/utils/cursor.util';
+import { OpeningHoursUtil } from '../../common/utils/opening-hours.util';
+import { PolylineUtil } from '../../common/utils/polyline.util';
+import { RatingUtil } from '../../common/utils/rating.util';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+import { TextIndex } from '../../common/indexes/text-index';
+import { PlaceRepository } from '../repositories/place.repository';
+import { DiscoveryCacheService, DiscoveryCacheStatistics, DiscoveryCandidates } from './discovery-cache.service';
+import { PlaceIndexService } from './place-index.service';
+import { RankingService } from './ranking.service';
 
 /**
  * Discovery service responsible for location-based place discovery
@@ -15,13 +42,20 @@ import { MockDataService } from './mock-data.service';
  */
 @Injectable()
 export class DiscoveryService {
+  private static readonly DEFAULT_CORRIDOR_KM = 1;
+  private static readonly MAX_CORRIDOR_KM = 10;
+  private static readonly MAX_ROUTE_POINTS = 10000;
+
   private readonly logger = new Logger(DiscoveryService.name);
   private readonly defaultRadius: number;
   private readonly maxRadius: number;
   private readonly maxResults: number;
 
   constructor(
-    private readonly mockDataService: MockDataService,
+    private readonly placeRepository: PlaceRepository,
+    private readonly placeIndexService: PlaceIndexService,
+    private readonly rankingService: RankingService,
+    private readonly discoveryCacheService: DiscoveryCacheService,
     private readonly configService: ConfigService,
   ) {
     // Load configuration values
@@ -40,7 +74,7 @@ export class DiscoveryService {
     const startTime = Date.now();
     
     try {
-      this.logger.log(`Starting discovery query: ${JSON.stringify(query)}`);
+      this.logger.log({ message: 'Starting discovery query', query });
       
       // Validate query parameters
       this.validateQuery(query);
@@ -49,36 +83,35 @@ export class DiscoveryService {
       const radius = query.radius || this.defaultRadius;
       const limit = Math.min(query.limit || 10, this.maxResults);
       
-      // Get base data from mock service
-      const allPlaces = query.category 
-        ? this.mockDataService.getPlacesByCategory(query.category)
-        : this.mockDataService.getAllPlaces();
-      
-      // Filter places within radius and calculate distances
-      const centerPoint: Coordinates = {
-        lat: query.latitude,
-        lng: query.longitude,
-      };
-      
-      const placesWithDistance = this.calculateDistances(allPlaces, centerPoint);
-      const placesInRadius = this.filterByRadius(placesWithDistance, radius);
+      // Look up candidates around the snapped center through the spatial index,
+      // unless a query from the same area was answered recently; the margin
+      // covers every center that snaps to the same point
+      const centerPoint: Coordinates = { lat: query.latitude, lng: query.longitude };
+      const snappedPoint = this.discoveryCacheService.snap(centerPoint);
+      const candidates = this.discoveryCacheService.getOrCompute(
+        { center: snappedPoint, radius, filters: query },
+        () => this.selectCandidates(
+          this.placeIndexService.findWithinRadius(snappedPoint, radius + this.discoveryCacheService.snapMarginKm),
+          query,
+        ),
+      );
       
-      // Sort by distance (closest first)
-      const sortedPlaces = this.sortByDistance(placesInRadius);
-      
-      // Apply limit
-      const limitedResults = sortedPlaces.slice(0, limit);
+      // Measure from the requested point so distances and the radius edge are exact
+      const page = this.pagePlaces(
+        { ...candidates, places: this.measureFrom(centerPoint, candidates.places, radius) },
+        query,
+        limit,
+        radius,
+      );
       
       // Build response
       const response: DiscoveryResponse = {
-        results: limitedResults,
-        total: limitedResults.length,
+        ...page,
         query: {
           latitude: query.latitude,
           longitude: query.longitude,
           radius,
-          category: query.category,
-          limit,
+          ...this.describeFilters(query, limit),
         },
         metadata: {
           processing_time_ms: Date.now() - startTime,
@@ -86,7 +119,7 @@ export class DiscoveryService {
         },
       };
       
-      this.logger.log(`Discovery completed: ${limitedResults.length} results in ${response.metadata.processing_time_ms}ms`);
+      this.logger.log(`Discovery completed: ${page.results.length} results in ${response.metadata.processing_time_ms}ms`);
       
       return response;
       
@@ -97,12 +130,171 @@ export class DiscoveryService {
   }
 
   /**
-   * Gets available categories for filtering
+   * Discovers places inside a bounding box, such as a map viewport
+   * Distances are measured from the center of the box
    * 
-   * @returns Array of available categories
+   * @param query - Bounding box and filters
+   * @returns Promise resolving to discovery response
+   */
+  async discoverInBoundingBox(
+    query: BoundingBoxQuery,
+  ): Promise<DiscoveryResponse<BoundingBoxQuery>> {
+    const startTime = Date.now();
+    
+    try {
+      this.logger.log({ message: 'Starting bounding box query', query });
+      
+      this.validateBoundingBox(query);
+      this.validateFilters(query);
+      
+      const limit = Math.min(query.limit || 10, this.maxResults);
+      const bbox: BoundingBox = {
+        minLat: query.minLat,
+        minLng: query.minLng,
+        maxLat: query.maxLat,
+        maxLng: query.maxLng,
+      };
+      const center = DistanceUtil.boundingBoxCenter(bbox);
+      
+      const placesInBox = this.placeIndexService.findWithinBoundingBox(bbox, center);
+      const page = this.buildPage(placesInBox, query, limit, this.areaScale(center, bbox));
+      
+      this.logger.log(`Bounding box discovery completed: ${page.results.length} results`);
+      
+      return {
+        ...page,
+        query: { ...bbox, ...this.describeFilters(query, limit) },
+        metadata: {
+          processing_time_ms: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        },
+      };
+      
+    } catch (error) {
+      this.logger.error(`Bounding box discovery failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Discovers places inside a polygon, such as a neighborhood outline
+   * Distances are measured from the center of the polygon's bounding box
+   * 
+   * @param query - Polygon and filters
+   * @returns Promise resolving to discovery response
    */
-  getAvailableCategories(): string[] {
-    return this.mockDataService.getAvailableCategories();
+  async discoverWithinPolygon(
+    query: PolygonQuery,
+  ): Promise<DiscoveryResponse<PolygonQuery>> {
+    const startTime = Date.now();
+    
+    try {
+      this.logger.log(`Starting polygon query with ${query.polygon?.coordinates?.[0]?.length ?? 0} vertices`);
+      
+      this.validatePolygon(query.polygon);
+      this.validateFilters(query);
+      
+      const limit = Math.min(query.limit || 10, this.maxResults);
+      const bbox = DistanceUtil.polygonBoundingBox(query.polygon.coordinates);
+      const center = DistanceUtil.boundingBoxCenter(bbox);
+      
+      const placesInPolygon = this.placeIndexService.findWithinPolygon(query.polygon, center);
+      const page = this.buildPage(placesInPolygon, query, limit, this.areaScale(center, bbox));
+      
+      this.logger.log(`Polygon discovery completed: ${page.results.length} results`);
+      
+      return {
+        ...page,
+        query: { polygon: query.polygon, ...this.describeFilters(query, limit) },
+        metadata: {
+          processing_time_ms: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        },
+      };
+      
+    } catch (error) {
+      this.logger.error(`Polygon discovery failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Discovers places within a corridor along a route
+   * Results are ordered by where along the route they are reached, and
+   * distance_km is the detour distance from the route
+   * 
+   * @param query - Route, corridor width and filters
+   * @returns Promise resolving to discovery response
+   */
+  async discoverAlongRoute(
+    query: AlongRouteQuery,
+  ): Promise<DiscoveryResponse<AlongRouteQuery>> {
+    const startTime = Date.now();
+    
+    try {
+      const route = this.resolveRoute(query);
+      this.logger.log(`Starting along-route query with ${route.length} points`);
+      
+      const corridorKm = query.corridor_km ?? DiscoveryService.DEFAULT_CORRIDOR_KM;
+      if (corridorKm < 0.05 || corridorKm > DiscoveryService.MAX_CORRIDOR_KM) {
+        throw new InvalidParameterException('corridor_km', `Invalid corridor_km: ${corridorKm}. Must be between 0.05 and ${DiscoveryService.MAX_CORRIDOR_KM} km.`);
+      }
+      this.validateFilters(query);
+      
+      const limit = Math.min(query.limit || 10, this.maxResults);
+      const placesAlongRoute = this.placeIndexService.findAlongRoute(route, corridorKm);
+      const page = this.buildPage(
+        placesAlongRoute,
+        query,
+        limit,
+        corridorKm,
+        place => place.route_position_km ?? 0,
+      );
+      
+      this.logger.log(`Along-route discovery completed: ${page.results.length} results`);
+      
+      return {
+        ...page,
+        query: {
+          polyline: query.polyline,
+          precision: query.polyline ? query.precision ?? 5 : undefined,
+          coordinates: query.coordinates,
+          corridor_km: corridorKm,
+          ...this.describeFilters(query, limit),
+        },
+        metadata: {
+          processing_time_ms: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        },
+      };
+      
+    } catch (error) {
+      this.logger.error(`Along-route discovery failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the category taxonomy for filtering
+   * Every category is listed, whether or not places use it yet
+   * 
+   * @returns Top-level categories with nested children and place counts
+   */
+  async getCategoryTree(): Promise<CategorySummary[]> {
+    const counts = new Map<string, number>();
+    for (const place of await this.placeRepository.findAll()) {
+      for (const id of [place.category, ...TaxonomyUtil.ancestors(place.category)]) {
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+    }
+    
+    const summarize = (node: CategoryNode): CategorySummary => ({
+      ...node,
+      place_count: counts.get(node.id) ?? 0,
+      children: node.children.map(summarize),
+    });
+    
+    return TaxonomyUtil.tree().map(summarize);
   }
 
   /**
@@ -110,21 +302,49 @@ export class DiscoveryService {
    * 
    * @returns Object with service statistics
    */
-  getServiceStatistics(): {
+  async getServiceStatistics(): Promise<{
     dataStats: any;
     config: {
       defaultRadius: number;
       maxRadius: number;
       maxResults: number;
     };
-  } {
+    cacheStats: DiscoveryCacheStatistics;
+  }> {
     return {
-      dataStats: this.mockDataService.getDataStatistics(),
+      dataStats: await this.getDataStatistics(),
       config: {
         defaultRadius: this.defaultRadius,
         maxRadius: this.maxRadius,
         maxResults: this.maxResults,
       },
+      cacheStats: this.discoveryCacheService.getStatistics(),
+    };
+  }
+
+  /**
+   * Computes statistics about the stored places
+   * 
+   * @returns Object with data statistics
+   */
+  private async getDataStatistics(): Promise<{
+    totalPlaces: number;
+    categoriesCount: number;
+    openPlaces: number;
+    closedPlaces: number;
+  }> {
+    const places = await this.placeRepository.findAll();
+    const categories = await this.placeRepository.findCategories();
+    const now = new Date();
+    const openPlaces = places.filter(
+      place => OpeningHoursUtil.isPlaceOpenAt(place, now),
+    ).length;
+    
+    return {
+      totalPlaces: places.length,
+      categoriesCount: categories.length,
+      openPlaces,
+      closedPlaces: places.length - openPlaces,
     };
   }
 
@@ -132,83 +352,526 @@ export class DiscoveryService {
    * Validates discovery query parameters
    * 
    * @param query - Query to validate
-   * @throws Error if validation fails
+   * @throws DomainException if validation fails
    */
   private validateQuery(query: DiscoveryQuery): void {
-    if (!DistanceUtil.isValidLatitude(query.latitude)) {
-      throw new Error(`Invalid latitude: ${query.latitude}. Must be between -90 and 90.`);
-    }
+    this.validateCoordinates(query.latitude, query.longitude);
     
-    if (!DistanceUtil.isValidLongitude(query.longitude)) {
-      throw new Error(`Invalid longitude: ${query.longitude}. Must be between -180 and 180.`);
+    if (query.radius && (query.radius < 0.1 || query.radius > this.maxRadius)) {
+      throw new RadiusOutOfRangeException(query.radius, this.maxRadius);
     }
     
-    if (query.radius && (query.radius < 0.1 || query.radius > this.maxRadius)) {
-      throw new Error(`Invalid radius: ${query.radius}. Must be between 0.1 and ${this.maxRadius} km.`);
+    this.validateFilters(query);
+  }
+
+  /**
+   * Validates the coordinates of a search center
+   * 
+   * @param latitude - Latitude to validate
+   * @param longitude - Longitude to validate
+   * @throws InvalidCoordinatesException if either is out of range
+   */
+  private validateCoordinates(latitude: number, longitude: number): void {
+    if (!DistanceUtil.isValidLatitude(latitude)) {
+      throw new InvalidCoordinatesException(`Invalid latitude: ${latitude}. Must be between -90 and 90.`);
     }
     
+    if (!DistanceUtil.isValidLongitude(longitude)) {
+      throw new InvalidCoordinatesException(`Invalid longitude: ${longitude}. Must be between -180 and 180.`);
+    }
+  }
+
+  /**
+   * Validates filter and paging parameters
+   * 
+   * @param query - Filters to validate
+   * @throws DomainException if validation fails
+   */
+  private validateFilters(query: PlaceFilters): void {
     if (query.limit && (query.limit < 1 || query.limit > this.maxResults)) {
-      throw new Error(`Invalid limit: ${query.limit}. Must be between 1 and ${this.maxResults}.`);
+      throw new InvalidParameterException('limit', `Invalid limit: ${query.limit}. Must be between 1 and ${this.maxResults}.`);
+    }
+    
+    // Excluding a sub-category of an included category is fine; excluding the category itself or a parent is not
+    const { include, exclude } = this.resolveCategories(query);
+    const contradictory = include?.filter(category =>
+      [category, ...TaxonomyUtil.ancestors(category)].some(id => exclude?.includes(id)),
+    ) ?? [];
+    if (contradictory.length > 0) {
+      throw new InvalidParameterException('exclude', `Invalid exclude: ${contradictory.join(', ')} is both included and excluded.`);
+    }
+    
+    if (query.min_rating !== undefined && (query.min_rating < 1 || query.min_rating > 5)) {
+      throw new InvalidParameterException('min_rating', `Invalid min_rating: ${query.min_rating}. Must be between 1 and 5.`);
+    }
+    
+    if (query.q !== undefined && TextIndex.tokenize(query.q).length === 0) {
+      throw new InvalidParameterException('q', `Invalid q: "${query.q}". Must contain at least one letter or digit.`);
+    }
+    
+    if (query.open_at && isNaN(new Date(query.open_at).getTime())) {
+      throw new InvalidParameterException('open_at', `Invalid open_at: ${query.open_at}. Must be an ISO 8601 date-time.`);
+    }
+  }
+
+  /**
+   * Validates a bounding box
+   * 
+   * @param bbox - Bounding box to validate
+   * @throws DomainException if validation fails
+   */
+  private validateBoundingBox(bbox: BoundingBox): void {
+    if (
+      !DistanceUtil.isValidCoordinates({ lat: bbox.minLat, lng: bbox.minLng }) ||
+      !DistanceUtil.isValidCoordinates({ lat: bbox.maxLat, lng: bbox.maxLng })
+    ) {
+      throw new InvalidGeometryException('Invalid bounding box: corners must be valid coordinates.');
+    }
+    
+    if (bbox.minLat > bbox.maxLat) {
+      throw new InvalidGeometryException(`Invalid bounding box: minLat ${bbox.minLat} is greater than maxLat ${bbox.maxLat}.`);
+    }
+  }
+
+  /**
+   * Validates a GeoJSON polygon
+   * Longitudes up to ±360 are accepted for rings drawn across the antimeridian
+   * 
+   * @param polygon - Polygon to validate
+   * @throws DomainException if validation fails
+   */
+  private validatePolygon(polygon: GeoJsonPolygon): void {
+    if (!polygon || polygon.type !== 'Polygon' || !Array.isArray(polygon.coordinates)) {
+      throw new InvalidGeometryException('Invalid polygon: expected a GeoJSON Polygon geometry.');
+    }
+    
+    if (polygon.coordinates.length === 0) {
+      throw new InvalidGeometryException('Invalid polygon: at least one ring is required.');
+    }
+    
+    polygon.coordinates.forEach((ring, index) => {
+      if (!Array.isArray(ring) || ring.length < 4) {
+        throw new InvalidGeometryException(`Invalid polygon: ring ${index} must have at least 4 positions.`);
+      }
+      
+      for (const position of ring) {
+        if (
+          !Array.isArray(position) ||
+          position.length < 2 ||
+          typeof position[0] !== 'number' ||
+          typeof position[1] !== 'number' ||
+          !DistanceUtil.isValidLatitude(position[1]) ||
+          Math.abs(position[0]) > 360
+        ) {
+          throw new InvalidGeometryException(`Invalid polygon: ring ${index} has an invalid position ${JSON.stringify(position)}.`);
+        }
+      }
+      
+      const [first, last] = [ring[0], ring[ring.length - 1]];
+      if (first[0] !== last[0] || first[1] !== last[1]) {
+        throw new InvalidGeometryException(`Invalid polygon: ring ${index} is not closed.`);
+      }
+    });
+  }
+
+  /**
+   * Turns the route of an along-route query into points
+   * 
+   * @param query - Along-route query
+   * @returns Route points
+   * @throws InvalidGeometryException if the route is missing, malformed or out of bounds
+   */
+  private resolveRoute(query: AlongRouteQuery): Coordinates[] {
+    if (!query.polyline === !query.coordinates) {
+      throw new InvalidGeometryException('Invalid route: provide either polyline or coordinates.');
+    }
+    
+    let route: Coordinates[];
+    if (query.polyline) {
+      const precision = query.precision ?? 5;
+      if (precision !== 5 && precision !== 6) {
+        throw new InvalidParameterException('precision', `Invalid precision: ${precision}. Must be 5 or 6.`);
+      }
+      route = PolylineUtil.decode(query.polyline, precision);
+    } else {
+      route = (query.coordinates as GeoJsonPosition[]).map(position => {
+        if (!Array.isArray(position) || position.length < 2) {
+          throw new InvalidGeometryException(`Invalid route: position ${JSON.stringify(position)} must be [lng, lat].`);
+        }
+        return { lat: position[1], lng: position[0] };
+      });
     }
+    
+    if (route.length < 2 || route.length > DiscoveryService.MAX_ROUTE_POINTS) {
+      throw new InvalidGeometryException(`Invalid route: must have between 2 and ${DiscoveryService.MAX_ROUTE_POINTS} points.`);
+    }
+    
+    const invalid = route.find(point => !DistanceUtil.isValidCoordinates(point));
+    if (invalid) {
+      throw new InvalidGeometryException(`Invalid route: point ${invalid.lat}, ${invalid.lng} is out of range.`);
+    }
+    
+    return route;
+  }
+
+  /**
+   * Filters, orders and pages places found by a spatial lookup
+   * 
+   * @param places - Places with distance_km populated
+   * @param filters - Filter, ordering and paging parameters
+   * @param limit - Page size
+   * @param scaleKm - Distance the search spans, for distance decay in relevance ranking
+   * @param orderBy - Default sort value used when no sort is requested
+   * @returns Page of results with total and next cursor
+   * @throws InvalidParameterException if the cursor is malformed
+   */
+  private buildPage(
+    places: Place[],
+    filters: PlaceFilters,
+    limit: number,
+    scaleKm: number,
+    orderBy?: (place: Place) => number,
+  ): Pick<DiscoveryResponse, 'results' | 'total' | 'next_cursor'> {
+    return this.pagePlaces(this.selectCandidates(places, filters), filters, limit, scaleKm, orderBy);
+  }
+
+  /**
+   * Keeps places matching the text, category, tag and rating filters, which
+   * do not depend on the search center or the time of the request
+   * 
+   * @param places - Places found by a spatial lookup
+   * @param filters - Filter parameters
+   * @returns Matching places, with text relevance when a text query was given
+   */
+  private selectCandidates(places: Place[], filters: PlaceFilters): DiscoveryCandidates {
+    // Keep text matches only
+    const textScores = filters.q ? this.placeIndexService.searchText(filters.q) : undefined;
+    const matchedPlaces = textScores
+      ? places.filter(place => textScores.has(place.id))
+      : places;
+    const categoryPlaces = this.filterByTags(this.filterByCategory(matchedPlaces, filters), filters.tags);
+    
+    return { places: this.filterByRating(categoryPlaces, filters.min_rating), textScores };
+  }
+
+  /**
+   * Applies open filters to candidates, then orders and pages them
+   * 
+   * @param candidates - Places selected by selectCandidates, with distance_km populated
+   * @param filters - Filter, ordering and paging parameters
+   * @param limit - Page size
+   * @param scaleKm - Distance the search spans, for distance decay in relevance ranking
+   * @param orderBy - Default sort value used when no sort is requested
+   * @returns Page of results with total and next cursor
+   * @throws InvalidParameterException if the cursor is malformed
+   */
+  private pagePlaces(
+    { places, textScores }: DiscoveryCandidates,
+    filters: PlaceFilters,
+    limit: number,
+    scaleKm: number,
+    orderBy?: (place: Place) => number,
+  ): Pick<DiscoveryResponse, 'results' | 'total' | 'next_cursor'> {
+    const cursor = filters.cursor ? CursorUtil.decode(filters.cursor) : null;
+    const evaluatedAt = filters.open_at ? new Date(filters.open_at) : new Date();
+    
+    // Resolve open state at the requested time and apply open filters
+    const filteredPlaces = this.filterByOpenState(
+      this.withOpenState(places, evaluatedAt),
+      filters,
+    );
+    
+    // Score relevance when ranking by it or when the breakdown is requested
+    const sort = filters.sort ?? (orderBy ? undefined : filters.q ? 'relevance' : 'distance');
+    const scoredPlaces = sort === 'relevance' || filters.debug
+      ? this.rankingService.score(filteredPlaces, { scaleKm, textScores }, filters.debug)
+      : filteredPlaces;
+    
+    const sortValue = sort ? this.sortValue(sort) : orderBy as (place: Place) => number;
+    const sortedPlaces = this.sortPlaces(scoredPlaces, sortValue);
+    
+    // Resume after the cursor position and apply limit
+    const start = cursor ? this.findPageStart(sortedPlaces, cursor, sortValue) : 0;
+    const results = sortedPlaces.slice(start, start + limit);
+    const lastResult = results[results.length - 1];
+    const hasMore = start + limit < sortedPlaces.length;
+    
+    return {
+      results,
+      total: sortedPlaces.length,
+      next_cursor: hasMore && lastResult
+        ? CursorUtil.encode({ value: sortValue(lastResult), id: lastResult.id })
+        : null,
+    };
   }
 
   /**
-   * Calculates distances for all places from a center point
+   * Measures places from a point and keeps those within a radius
    * 
-   * @param places - Array of places
-   * @param centerPoint - Center point for distance calculation
-   * @returns Places with calculated distances
+   * @param center - Point to measure from
+   * @param places - Places to measure
+   * @param radius - Radius in kilometers
+   * @returns Places within the radius with distance_km measured from the point
    */
-  private calculateDistances(places: Place[], centerPoint: Coordinates): Place[] {
+  private measureFrom(center: Coordinates, places: Place[], radius: number): Place[] {
+    return places
+      .map(place => ({ ...place, distance_km: DistanceUtil.calculateDistance(center, place.location) }))
+      .filter(place => place.distance_km <= radius);
+  }
+
+  /**
+   * Echoes the filters a page was built with
+   * 
+   * @param filters - Requested filters
+   * @param limit - Effective page size
+   * @returns Filters for the response query block
+   */
+  private describeFilters(filters: PlaceFilters, limit: number): PlaceFilters {
+    const { include, exclude } = this.resolveCategories(filters);
+    
+    return {
+      category: filters.category,
+      categories: include,
+      exclude,
+      tags: filters.tags?.length ? filters.tags : undefined,
+      min_rating: filters.min_rating,
+      q: filters.q,
+      limit,
+      cursor: filters.cursor,
+      open_now: filters.open_now,
+      open_at: filters.open_at,
+      sort: filters.sort,
+      debug: filters.debug,
+    };
+  }
+
+  /**
+   * Gets the distance scale for ranking text matches inside an area
+   * 
+   * @param center - Center of the area
+   * @param bbox - Bounding box of the area
+   * @returns Distance from the center to a corner in kilometers, at least 0.1
+   */
+  private areaScale(center: Coordinates, bbox: BoundingBox): number {
+    return Math.max(
+      DistanceUtil.calculateDistance(center, { lat: bbox.maxLat, lng: bbox.maxLng }),
+      0.1,
+    );
+  }
+
+  /**
+   * Filters places by the included and excluded categories
+   * A category matches places of that category or any of its sub-categories
+   * 
+   * @param places - Places to filter
+   * @param filters - Filters holding category, categories and exclude
+   * @returns Places of an included category (any, when none are given) that are not excluded
+   */
+  private filterByCategory(places: Place[], filters: PlaceFilters): Place[] {
+    const { include, exclude } = this.resolveCategories(filters);
+    const included = include && TaxonomyUtil.expand(include);
+    const excluded = TaxonomyUtil.expand(exclude ?? []);
+    
+    if (!included && excluded.size === 0) {
+      return places;
+    }
+    
+    return places.filter(place => {
+      const category = place.category.toLowerCase();
+      return (!included || included.has(category)) && !excluded.has(category);
+    });
+  }
+
+  /**
+   * Keeps places carrying every requested tag
+   * 
+   * @param places - Places to filter
+   * @param tags - Lowercase tags (optional)
+   * @returns Places with all the tags
+   */
+  private filterByTags(places: Place[], tags?: string[]): Place[] {
+    if (!tags || tags.length === 0) {
+      return places;
+    }
+    
+    return places.filter(place => tags.every(tag => place.tags?.includes(tag)));
+  }
+
+  /**
+   * Keeps places rated at least a minimum; unrated places are left out
+   * Ratings are compared as shown to clients, rounded to two decimals
+   * 
+   * @param places - Places to filter
+   * @param minRating - Minimum average rating (optional)
+   * @returns Places rated at least minRating
+   */
+  private filterByRating(places: Place[], minRating?: number): Place[] {
+    if (minRating === undefined) {
+      return places;
+    }
+    
+    return places.filter(place => place.rating !== undefined && RatingUtil.round(place.rating) >= minRating);
+  }
+
+  /**
+   * Combines the category parameters into the sets that are applied
+   * 
+   * @param filters - Filters holding category, categories and exclude
+   * @returns Lowercase categories to keep (undefined for all) and to drop
+   */
+  private resolveCategories(filters: PlaceFilters): { include?: string[]; exclude?: string[] } {
+    const include = [
+      ...(filters.category ? [filters.category] : []),
+      ...(filters.categories ?? []),
+    ].map(category => category.toLowerCase());
+    const exclude = (filters.exclude ?? []).map(category => category.toLowerCase());
+    
+    return {
+      include: include.length > 0 ? [...new Set(include)] : undefined,
+      exclude: exclude.length > 0 ? [...new Set(exclude)] : undefined,
+    };
+  }
+
+  /**
+   * Gets the sort value of an ordering; places are sorted by ascending value
+   * 
+   * @param sort - Requested ordering
+   * @returns Sort value of a place
+   */
+  private sortValue(sort: PlaceSort): (place: Place) => number {
+    switch (sort) {
+      case 'relevance':
+        return (place: Place): number => -(place.relevance ?? 0);
+      case 'rating':
+        // Unrated places come last
+        return (place: Place): number => -(place.rating ?? -1);
+      default:
+        return (place: Place): number => place.distance_km;
+    }
+  }
+
+  /**
+   * Sets each place's open_now from its opening hours at a given instant
+   * and rounds its rating for the response
+   * 
+   * @param places - Places to evaluate
+   * @param at - Instant to evaluate opening hours at
+   * @returns Places with resolved open state
+   */
+  private withOpenState(places: Place[], at: Date): Place[] {
     return places.map(place => ({
-      ...place,
-      distance_km: DistanceUtil.calculateDistance(centerPoint, place.location),
+      ...RatingUtil.present(place),
+      open_now: OpeningHoursUtil.isPlaceOpenAt(place, at),
     }));
   }
 
   /**
-   * Filters places by radius
+   * Filters places by the open_now and open_at query parameters
    * 
-   * @param places - Places with distances
-   * @param radius - Radius in kilometers
-   * @returns Places within radius
+   * @param places - Places with resolved open state
+   * @param query - Filters with open_now and open_at
+   * @returns Places matching the open filters
+   */
+  private filterByOpenState(places: Place[], query: PlaceFilters): Place[] {
+    let filtered = places;
+    
+    if (query.open_at) {
+      filtered = filtered.filter(place => place.open_now);
+    }
+    
+    if (query.open_now !== undefined) {
+      filtered = filtered.filter(place => place.open_now === query.open_now);
+    }
+    
+    return filtered;
+  }
+
+  /**
+   * Finds the index of the first place after a cursor position
+   * 
+   * @param places - Places sorted by sort value, then ID
+   * @param cursor - Position of the last place of the previous page
+   * @param sortValue - Sort value of a place
+   * @returns Index of the first place of the next page
    */
-  private filterByRadius(places: Place[], radius: number): Place[] {
-    return places.filter(place => place.distance_km <= radius);
+  private findPageStart(
+    places: Place[],
+    cursor: PageCursor,
+    sortValue: (place: Place) => number,
+  ): number {
+    const index = places.findIndex(place =>
+      CursorUtil.isAfter(sortValue(place), place.id, cursor),
+    );
+    return index === -1 ? places.length : index;
   }
 
   /**
-   * Sorts places by distance (closest first)
+   * Sorts places by ascending sort value, breaking ties by ID
    * 
    * @param places - Places to sort
+   * @param sortValue - Sort value of a place
    * @returns Sorted places
    */
-  private sortByDistance(places: Place[]): Place[] {
-    return places.sort((a, b) => a.distance_km - b.distance_km);
+  private sortPlaces(places: Place[], sortValue: (place: Place) => number): Place[] {
+    return places.sort(
+      (a, b) => sortValue(a) - sortValue(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+    );
   }
 
   /**
-   * Finds the nearest place to a given location
+   * Finds the k nearest places to a location through the spatial index,
+   * visiting cells outwards from the location instead of loading the radius
    * 
-   * @param latitude - Latitude of the search center
-   * @param longitude - Longitude of the search center
-   * @param category - Optional category filter
-   * @returns Nearest place or null if none found
+   * @param query - Reference point, category, k and maximum distance
+   * @returns Promise resolving to the nearest places, closest first
+   * @throws NoPlacesFoundException if no place lies within the maximum distance
    */
-  async findNearestPlace(
-    latitude: number,
-    longitude: number,
-    category?: string,
-  ): Promise<Place | null> {
-    const query: DiscoveryQuery = {
-      latitude,
-      longitude,
-      radius: this.maxRadius,
-      category,
-      limit: 1,
-    };
+  async findNearestPlaces(query: NearestQuery): Promise<NearestResponse> {
+    const startTime = Date.now();
+    
+    this.validateCoordinates(query.latitude, query.longitude);
+    
+    const k = query.k ?? 1;
+    const maxDistanceKm = query.max_distance_km ?? this.maxRadius;
+    if (!Number.isInteger(k) || k < 1 || k > this.maxResults) {
+      throw new InvalidParameterException('k', `Invalid k: ${k}. Must be an integer between 1 and ${this.maxResults}.`);
+    }
+    if (maxDistanceKm < 0.1 || maxDistanceKm > this.maxRadius) {
+      throw new InvalidParameterException(
+        'max_distance_km',
+        `Invalid max_distance_km: ${maxDistanceKm}. Must be between 0.1 and ${this.maxRadius} km.`,
+      );
+    }
     
-    const response = await this.discoverPlaces(query);
-    return response.results.length > 0 ? response.results[0] : null;
+    const category = query.category?.toLowerCase();
+    const matching = category ? TaxonomyUtil.expand([category]) : undefined;
+    const places = this.placeIndexService.findNearest(
+      { lat: query.latitude, lng: query.longitude },
+      k,
+      maxDistanceKm,
+      matching && ((place: Place): boolean => matching.has(place.category.toLowerCase())),
+    );
+    
+    if (places.length === 0) {
+      throw new NoPlacesFoundException(query.latitude, query.longitude, maxDistanceKm);
+    }
+    
+    const results = this.withOpenState(places, new Date());
+    return {
+      place: results[0],
+      results,
+      total: results.length,
+      query: {
+        latitude: query.latitude,
+        longitude: query.longitude,
+        ...(category ? { category } : {}),
+        k,
+        max_distance_km: maxDistanceKm,
+      },
+      metadata: {
+        processing_time_ms: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      },
+    };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+import { ConfigService } from '@nestjs/config';
+import { InMemoryFavoriteRepository } from '../repositories/in-memory-favorite.repository';
+import { InMemoryPlaceRepository } from '../repositories/in-memory-place.repository';
+import { FavoritesService } from './favorites.service';
+import { MockDataService } from './mock-data.service';
+import { PlaceIndexService } from './place-index.service';
+import { PlacesService } from './places.service';
+
+describe('FavoritesService', () => {
+  const mockPlaces = new MockDataService().getAllPlaces();
+
+  let placesService: PlacesService;
+  let service: FavoritesService;
+
+  beforeEach(async () => {
+    const repository = new InMemoryPlaceRepository(mockPlaces, { cafe_old: 'cafe_002' });
+    const placeIndexService = new PlaceIndexService(repository, new ConfigService());
+    await placeIndexService.rebuild();
+    placesService = new PlacesService(repository, placeIndexService);
+    service = new FavoritesService(
+      new InMemoryFavoriteRepository([
+        { user_id: 'user_1', place_id: 'rest_001', created_at: '2024-01-01T00:00:00.000Z' },
+      ]),
+      placesService,
+    );
+  });
+
+  it('lists saved places, most recently saved first', async () => {
+    await service.add('user_1', 'cafe_002');
+    await service.add('user_2', 'bank_010');
+
+    expect(await service.findByUser('user_1')).toEqual({ place_ids: ['cafe_002', 'rest_001'], total: 2 });
+    expect((await service.findByUser('user_3')).total).toBe(0);
+  });
+
+  it('saves places idempotently and resolves merged IDs', async () => {
+    expect(await service.add('user_1', 'cafe_old')).toBe('cafe_002');
+    await service.add('user_1', 'cafe_002');
+    await service.add('user_1', 'rest_001');
+
+    expect((await service.findByUser('user_1')).place_ids).toEqual(['cafe_002', 'rest_001']);
+    await expect(service.add('user_1', 'missing')).rejects.toThrow('not found');
+  });
+
+  it('removes saved places', async () => {
+    await service.remove('user_1', 'rest_001');
+
+    expect((await service.findByUser('user_1')).total).toBe(0);
+    await expect(service.remove('user_1', 'rest_001')).rejects.toThrow('not found');
+  });
+
+  it('removes saved places by a merged ID', async () => {
+    await service.add('user_1', 'cafe_002');
+    await service.remove('user_1', 'cafe_old');
+
+    expect((await service.findByUser('user_1')).place_ids).toEqual(['rest_001']);
+  });
+
+  it('leaves deleted places out of the saved places', async () => {
+    await service.add('user_1', 'cafe_002');
+    await placesService.delete('cafe_002');
+
+    expect(await service.findByUser('user_1')).toEqual({ place_ids: ['rest_001'], total: 1 });
+  });
+
+  it('flags the places a user saved', async () => {
+    const flagged = await service.markFavorites('user_1', mockPlaces.slice(0, 2));
+
+    expect(flagged.map(place => [place.id, place.is_favorite])).toEqual([
+      ['rest_001', true],
+      ['cafe_002', false],
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FavoriteNotFoundException, PlaceNotFoundException } from '../../common/exceptions/domain.exceptions';
+import { Favorite, FavoritesResponse, Place } from '../../common/interfaces/location.interface';
+import { FavoriteRepository } from '../repositories/favorite.repository';
+import { PlacesService } from './places.service';
+
+/**
+ * Saved places service
+ * Keeps the places each user saved and flags them in discovery results
+ */
+@Injectable()
+export class FavoritesService {
+  private readonly logger = new Logger(FavoritesService.name);
+
+  constructor(
+    private readonly favoriteRepository: FavoriteRepository,
+    private readonly placesService: PlacesService,
+  ) {}
+
+  /**
+   * Lists the places a user saved, most recently saved first
+   * Places deleted since they were saved are left out
+   *
+   * @param userId - User ID
+   * @returns Saved place IDs
+   */
+  async findByUser(userId: string): Promise<FavoritesResponse> {
+    const favorites: Favorite[] = [];
+    for (const favorite of await this.favoriteRepository.findByUser(userId)) {
+      if (await this.placesService.findById(favorite.place_id)) {
+        favorites.push(favorite);
+      }
+    }
+    favorites.sort(
+      (a, b) => Date.parse(b.created_at) - Date.parse(a.created_at) || a.place_id.localeCompare(b.place_id),
+    );
+
+    return {
+      place_ids: favorites.map(favorite => favorite.place_id),
+      total: favorites.length,
+    };
+  }
+
+  /**
+   * Saves a place for a user; saving a place twice has no effect
+   *
+   * @param userId - User ID
+   * @param placeId - Place ID; IDs retired by a merge resolve to the merged place
+   * @returns ID of the saved place
+   * @throws PlaceNotFoundException if the place does not exist
+   */
+  async add(userId: string, placeId: string): Promise<string> {
+    const place = await this.placesService.findById(placeId);
+    if (!place) {
+      throw new PlaceNotFoundException(placeId);
+    }
+
+    await this.favoriteRepository.save({
+      user_id: userId,
+      place_id: place.id,
+      created_at: new Date().toISOString(),
+    });
+    this.logger.log(`User ${userId} saved place ${place.id}`);
+
+    return place.id;
+  }
+
+  /**
+   * Removes a saved place
+   *
+   * @param userId - User ID
+   * @param placeId - Place ID; IDs retired by a merge resolve to the merged place
+   * @throws FavoriteNotFoundException if the user had not saved the place
+   */
+  async remove(userId: string, placeId: string): Promise<void> {
+    const place = await this.placesService.findById(placeId);
+    const removed = await this.favoriteRepository.delete(userId, place?.id ?? placeId);
+    if (!removed) {
+      throw new FavoriteNotFoundException(placeId);
+    }
+  }
+
+  /**
+   * Flags the places a user saved
+   *
+   * @param userId - User ID
+   * @param places - Places to flag
+   * @returns Places with is_favorite set
+   */
+  async markFavorites(userId: string, places: Place[]): Promise<Place[]> {
+    const saved = new Set((await this.favoriteRepository.findByUser(userId)).map(favorite => favorite.place_id));
+    return places.map(place => ({ ...place, is_favorite: saved.has(place.id) }));
+  }
+
+  /**
+   * Moves favorites of a retired place to the place it was merged into
+   *
+   * @param fromPlaceId - ID of the retired place
+   * @param toPlaceId - ID of the place it was merged into
+   */
+  async transfer(fromPlaceId: string, toPlaceId: string): Promise<void> {
+    await this.favoriteRepository.reassign(fromPlaceId, toPlaceId);
+  }
+}
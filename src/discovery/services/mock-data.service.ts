@@ -1,5 +1,57 @@
 import { Injectable } from '@nestjs/common';
-import { Place, PlaceCategory } from '../../common/interfaces/location.interface';
+import {
+  HolidayHours,
+  OpeningHours,
+  Place,
+  PlaceCategory,
+  Weekday,
+} from '../../common/interfaces/location.interface';
+import { OpeningHoursUtil } from '../../common/utils/opening-hours.util';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+
+/**
+ * Timezone of every mock place
+ */
+const MOCK_TIMEZONE = 'America/New_York';
+
+/**
+ * Builds a weekly schedule for the mock places
+ * 
+ * @param ranges - Opening range per weekday; omitted days are closed
+ * @param holidays - Date-specific overrides
+ * @returns Opening hours in the mock timezone
+ */
+const schedule = (
+  ranges: Partial<Record<Weekday, [string, string]>>,
+  holidays: HolidayHours[] = [],
+): OpeningHours => ({
+  timezone: MOCK_TIMEZONE,
+  weekly: Object.fromEntries(
+    Object.entries(ranges).map(([day, [open, close]]) => [day, [{ open, close }]]),
+  ),
+  holidays,
+});
+
+/**
+ * Builds a schedule with the same opening range every day
+ * 
+ * @param open - Daily opening time
+ * @param close - Daily closing time
+ * @param holidays - Date-specific overrides
+ * @returns Opening hours in the mock timezone
+ */
+const daily = (open: string, close: string, holidays?: HolidayHours[]): OpeningHours =>
+  schedule(
+    Object.fromEntries(
+      OpeningHoursUtil.WEEKDAYS.map(day => [day, [open, close]]),
+    ) as Record<Weekday, [string, string]>,
+    holidays,
+  );
+
+/**
+ * Schedule of places that never close
+ */
+const ALWAYS_OPEN = daily('00:00', '24:00');
 
 /**
  * Mock data service providing realistic location data for testing
@@ -18,7 +70,12 @@ export class MockDataService {
       description: 'Authentic Italian pasta, great ambiance and fresh ingredients.',
       distance_km: 0, // Will be calculated dynamically
       open_now: true,
+      opening_hours: daily('11:30', '22:30', [{ date: '2026-12-25', name: 'Christmas Day', ranges: [] }]),
       image_url: 'https://cdn.onspotx.ai/spots/alfredo.jpg',
+      rating: 4.5,
+      rating_count: 820,
+      popularity: 1450,
+      tags: ['pasta', 'date night', 'outdoor seating'],
       location: {
         lat: 40.7130,
         lng: -74.0050,
@@ -32,7 +89,20 @@ export class MockDataService {
       description: 'Artisanal coffee roasters with specialty single-origin beans.',
       distance_km: 0,
       open_now: true,
+      opening_hours: schedule({
+        mon: ['07:00', '19:00'],
+        tue: ['07:00', '19:00'],
+        wed: ['07:00', '19:00'],
+        thu: ['07:00', '19:00'],
+        fri: ['07:00', '19:00'],
+        sat: ['08:00', '18:00'],
+        sun: ['08:00', '18:00'],
+      }),
       image_url: 'https://cdn.onspotx.ai/spots/blue-bottle.jpg',
+      rating: 4.7,
+      rating_count: 1260,
+      popularity: 3100,
+      tags: ['wifi', 'specialty coffee'],
       location: {
         lat: 40.7140,
         lng: -74.0070,
@@ -46,7 +116,19 @@ export class MockDataService {
       description: 'Upscale cocktail bar with stunning city views.',
       distance_km: 0,
       open_now: false,
+      opening_hours: schedule({
+        tue: ['17:00', '02:00'],
+        wed: ['17:00', '02:00'],
+        thu: ['17:00', '02:00'],
+        fri: ['17:00', '02:00'],
+        sat: ['17:00', '02:00'],
+        sun: ['17:00', '02:00'],
+      }),
       image_url: 'https://cdn.onspotx.ai/spots/rooftop-lounge.jpg',
+      rating: 4.2,
+      rating_count: 540,
+      popularity: 900,
+      tags: ['rooftop', 'cocktails', 'views'],
       location: {
         lat: 40.7120,
         lng: -74.0040,
@@ -56,11 +138,16 @@ export class MockDataService {
     {
       id: 'shop_004',
       name: 'Central Park Bookstore',
-      category: PlaceCategory.SHOP,
+      category: 'bookstore',
       description: 'Independent bookstore with rare finds and cozy reading nooks.',
       distance_km: 0,
       open_now: true,
+      opening_hours: daily('10:00', '21:00'),
       image_url: 'https://cdn.onspotx.ai/spots/bookstore.jpg',
+      rating: 4.8,
+      rating_count: 210,
+      popularity: 380,
+      tags: ['books', 'rare finds'],
       location: {
         lat: 40.7150,
         lng: -74.0030,
@@ -74,7 +161,12 @@ export class MockDataService {
       description: 'Luxury hotel with world-class amenities and service.',
       distance_km: 0,
       open_now: true,
+      opening_hours: ALWAYS_OPEN,
       image_url: 'https://cdn.onspotx.ai/spots/plaza-hotel.jpg',
+      rating: 4.6,
+      rating_count: 3400,
+      popularity: 5200,
+      tags: ['luxury', 'historic'],
       location: {
         lat: 40.7160,
         lng: -74.0080,
@@ -84,11 +176,16 @@ export class MockDataService {
     {
       id: 'attr_006',
       name: 'Brooklyn Bridge',
-      category: PlaceCategory.ATTRACTION,
+      category: 'landmark',
       description: 'Historic suspension bridge offering breathtaking views.',
       distance_km: 0,
       open_now: true,
+      opening_hours: ALWAYS_OPEN,
       image_url: 'https://cdn.onspotx.ai/spots/brooklyn-bridge.jpg',
+      rating: 4.8,
+      rating_count: 15800,
+      popularity: 42000,
+      tags: ['views', 'historic', 'free'],
       location: {
         lat: 40.7061,
         lng: -73.9969,
@@ -102,7 +199,12 @@ export class MockDataService {
       description: 'Iconic urban park perfect for walking, jogging, and relaxation.',
       distance_km: 0,
       open_now: true,
+      opening_hours: daily('06:00', '01:00'),
       image_url: 'https://cdn.onspotx.ai/spots/central-park.jpg',
+      rating: 4.9,
+      rating_count: 25400,
+      popularity: 88000,
+      tags: ['outdoor', 'free', 'dog friendly'],
       location: {
         lat: 40.7829,
         lng: -73.9654,
@@ -116,7 +218,12 @@ export class MockDataService {
       description: 'Leading medical center with comprehensive healthcare services.',
       distance_km: 0,
       open_now: true,
+      opening_hours: ALWAYS_OPEN,
       image_url: 'https://cdn.onspotx.ai/spots/mount-sinai.jpg',
+      rating: 3.9,
+      rating_count: 640,
+      popularity: 2100,
+      tags: ['emergency', '24 hours'],
       location: {
         lat: 40.7903,
         lng: -73.9503,
@@ -130,7 +237,12 @@ export class MockDataService {
       description: 'Full-service gas station with convenience store.',
       distance_km: 0,
       open_now: true,
+      opening_hours: ALWAYS_OPEN,
       image_url: 'https://cdn.onspotx.ai/spots/shell-station.jpg',
+      rating: 3.4,
+      rating_count: 85,
+      popularity: 1200,
+      tags: ['24 hours', 'convenience store'],
       location: {
         lat: 40.7100,
         lng: -74.0100,
@@ -144,7 +256,19 @@ export class MockDataService {
       description: 'Full-service bank with ATM and financial advisory services.',
       distance_km: 0,
       open_now: true,
+      opening_hours: schedule({
+        mon: ['09:00', '17:00'],
+        tue: ['09:00', '17:00'],
+        wed: ['09:00', '17:00'],
+        thu: ['09:00', '17:00'],
+        fri: ['09:00', '17:00'],
+        sat: ['09:00', '14:00'],
+      }),
       image_url: 'https://cdn.onspotx.ai/spots/chase-bank.jpg',
+      rating: 3.1,
+      rating_count: 42,
+      popularity: 650,
+      tags: ['atm'],
       location: {
         lat: 40.7110,
         lng: -74.0020,
@@ -158,7 +282,20 @@ export class MockDataService {
       description: 'Premium fitness club with state-of-the-art equipment.',
       distance_km: 0,
       open_now: true,
+      opening_hours: schedule({
+        mon: ['05:00', '23:00'],
+        tue: ['05:00', '23:00'],
+        wed: ['05:00', '23:00'],
+        thu: ['05:00', '23:00'],
+        fri: ['05:00', '23:00'],
+        sat: ['07:00', '21:00'],
+        sun: ['07:00', '21:00'],
+      }),
       image_url: 'https://cdn.onspotx.ai/spots/equinox.jpg',
+      rating: 4.3,
+      rating_count: 310,
+      popularity: 1900,
+      tags: ['classes', 'pool'],
       location: {
         lat: 40.7170,
         lng: -74.0010,
@@ -172,7 +309,12 @@ export class MockDataService {
       description: 'Full-service pharmacy with prescription and over-the-counter medications.',
       distance_km: 0,
       open_now: true,
+      opening_hours: ALWAYS_OPEN,
       image_url: 'https://cdn.onspotx.ai/spots/cvs-pharmacy.jpg',
+      rating: 3.6,
+      rating_count: 120,
+      popularity: 1700,
+      tags: ['prescriptions', '24 hours'],
       location: {
         lat: 40.7080,
         lng: -74.0060,
@@ -191,15 +333,14 @@ export class MockDataService {
   }
 
   /**
-   * Filters places by category
+   * Filters places by category, including sub-categories
    * 
-   * @param category - Category to filter by
-   * @returns Array of places matching the category
+   * @param categories - Category, or set of categories, to filter by
+   * @returns Array of places matching any of the categories
    */
-  getPlacesByCategory(category: string): Place[] {
-    return this.mockPlaces.filter(
-      place => place.category.toLowerCase() === category.toLowerCase(),
-    );
+  getPlacesByCategory(categories: string | Iterable<string>): Place[] {
+    const wanted = this.toCategorySet(categories);
+    return this.mockPlaces.filter(place => wanted.has(place.category.toLowerCase()));
   }
 
   /**
@@ -220,22 +361,29 @@ export class MockDataService {
    * @returns Filtered array of places
    */
   queryPlaces(filters?: {
-    category?: string;
+    category?: string | Iterable<string>;
+    exclude?: Iterable<string>;
     openNow?: boolean;
     limit?: number;
   }): Place[] {
     let results = [...this.mockPlaces];
 
-    // Apply category filter
+    // Apply category filters
     if (filters?.category) {
-      results = results.filter(
-        place => place.category.toLowerCase() === filters.category!.toLowerCase(),
-      );
+      const wanted = this.toCategorySet(filters.category);
+      results = results.filter(place => wanted.has(place.category.toLowerCase()));
+    }
+    if (filters?.exclude) {
+      const excluded = this.toCategorySet(filters.exclude);
+      results = results.filter(place => !excluded.has(place.category.toLowerCase()));
     }
 
     // Apply open now filter
     if (filters?.openNow !== undefined) {
-      results = results.filter(place => place.open_now === filters.openNow);
+      const now = new Date();
+      results = results.filter(
+        place => OpeningHoursUtil.isPlaceOpenAt(place, now) === filters.openNow,
+      );
     }
 
     // Apply limit
@@ -267,11 +415,26 @@ export class MockDataService {
     openPlaces: number;
     closedPlaces: number;
   } {
+    const now = new Date();
+    const openPlaces = this.mockPlaces.filter(
+      place => OpeningHoursUtil.isPlaceOpenAt(place, now),
+    ).length;
+    
     return {
       totalPlaces: this.mockPlaces.length,
       categoriesCount: this.getAvailableCategories().length,
-      openPlaces: this.mockPlaces.filter(place => place.open_now).length,
-      closedPlaces: this.mockPlaces.filter(place => !place.open_now).length,
+      openPlaces,
+      closedPlaces: this.mockPlaces.length - openPlaces,
     };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Expands one or more categories into a lowercase set with their sub-categories
+   * 
+   * @param categories - Category or categories
+   * @returns Set of lowercase categories
+   */
+  private toCategorySet(categories: string | Iterable<string>): Set<string> {
+    return TaxonomyUtil.expand(typeof categories === 'string' ? [categories] : categories);
+  }
+}
@@ -0,0 +1,187 @@
+import { ConfigService } from '@nestjs/config';
+import { InMemoryPlaceRepository } from '../repositories/in-memory-place.repository';
+import { MockDataService } from './mock-data.service';
+import { PlaceImportService } from './place-import.service';
+import { PlaceIndexService } from './place-index.service';
+import { PlacesService } from './places.service';
+
+const CSV = [
+  'id,name,category,description,lat,lng,address,image_url,open_now',
+  'imp_001,"Joe\'s Pizza, Carmine St",restaurant,"Classic ""NY"" slice",40.7306,-74.0021,7 Carmine St,https://example.com/joe.jpg,true',
+  'imp_002,Moon Port,spaceport,,40.73,-74.0,1 Main St,https://example.com/moon.jpg,',
+  'imp_001,Joe\'s Again,cafe,,40.73,-74.0,1 Main St,https://example.com/joe.jpg,',
+  'rest_001,Trattoria Alfredo,restaurant,Now with patio,40.7130,-74.0050,123 Main St,https://example.com/t.jpg,',
+  ',Nameless Cafe,cafe,,91,-74.0,1 Main St,not-a-url,maybe',
+].join('\n');
+
+describe('PlaceImportService', () => {
+  let repository: InMemoryPlaceRepository;
+  let placeIndexService: PlaceIndexService;
+  let service: PlaceImportService;
+
+  beforeEach(async () => {
+    repository = new InMemoryPlaceRepository(new MockDataService().getAllPlaces());
+    placeIndexService = new PlaceIndexService(repository, new ConfigService());
+    await placeIndexService.rebuild();
+    service = new PlaceImportService(new PlacesService(repository, placeIndexService));
+  });
+
+  it('reports invalid and duplicate rows without writing in dry-run mode', async () => {
+    const report = await service.import(CSV, { format: 'csv', dry_run: true });
+
+    expect(report).toMatchObject({ total: 5, created: 1, updated: 0, skipped: 1, failed: 3 });
+    expect(report.errors).toEqual([
+      { row: 2, id: 'imp_002', errors: [expect.stringContaining('category: Category must be one of')] },
+      { row: 3, id: 'imp_001', errors: ['Duplicate id imp_001; already used on row 1'] },
+      {
+        row: 5,
+        errors: [
+          'open_now: open_now must be a boolean',
+          'image_url: image_url must be a valid URL',
+          'location.lat: Latitude must be between -90 and 90',
+        ],
+      },
+    ]);
+    expect(await repository.count()).toBe(12);
+  });
+
+  it('creates new places and updates existing ones on request', async () => {
+    const report = await service.import(CSV, { format: 'csv', on_conflict: 'update' });
+
+    expect(report).toMatchObject({ created: 1, updated: 1, skipped: 0, failed: 3 });
+    expect(await repository.findById('imp_001')).toMatchObject({
+      name: 'Joe\'s Pizza, Carmine St',
+      description: 'Classic "NY" slice',
+      location: { lat: 40.7306, lng: -74.0021, address: '7 Carmine St' },
+    });
+    expect((await repository.findById('rest_001'))?.description).toBe('Now with patio');
+    expect(placeIndexService.searchNames('joe').has('imp_001')).toBe(true);
+  });
+
+  it('writes all accepted rows to the store at once', async () => {
+    const save = jest.spyOn(repository, 'save');
+    const saveMany = jest.spyOn(repository, 'saveMany');
+    const revision = placeIndexService.revision;
+
+    const report = await service.import(CSV, { format: 'csv', on_conflict: 'update' });
+
+    expect(report).toMatchObject({ created: 1, updated: 1 });
+    expect(save).not.toHaveBeenCalled();
+    expect(saveMany).toHaveBeenCalledTimes(1);
+    expect(saveMany.mock.calls[0][0].map(place => place.id)).toEqual(['imp_001', 'rest_001']);
+    expect(placeIndexService.revision).toBe(revision + 1);
+  });
+
+  it('reports rows using the ID of a merged place as conflicts', async () => {
+    await repository.saveRedirect('rest_old', 'rest_001');
+    const csv = [
+      'id,name,category,description,lat,lng,address,image_url',
+      'rest_old,Old Trattoria,restaurant,,40.7130,-74.0050,123 Main St,https://example.com/t.jpg',
+    ].join('\n');
+
+    for (const onConflict of ['skip', 'update'] as const) {
+      const report = await service.import(csv, { format: 'csv', on_conflict: onConflict });
+
+      expect(report).toMatchObject({ created: 0, updated: 0, skipped: 0, failed: 1 });
+      expect(report.errors).toEqual([
+        { row: 1, id: 'rest_old', errors: ['Place ID rest_old was merged into rest_001'] },
+      ]);
+    }
+    expect((await repository.findById('rest_001'))?.name).toBe('Trattoria Alfredo');
+    expect(await repository.findById('rest_old')).toBeNull();
+  });
+
+  it('reads semicolon-separated tags and sub-categories from CSV', async () => {
+    const csv = [
+      'id,name,category,description,lat,lng,address,image_url,tags',
+      'imp_010,Joe\'s Pizza,pizzeria,,40.7306,-74.0021,7 Carmine St,https://example.com/joe.jpg,Slices; late night;;slices',
+    ].join('\n');
+
+    const report = await service.import(csv, { format: 'csv' });
+
+    expect(report).toMatchObject({ created: 1, failed: 0 });
+    expect(await repository.findById('imp_010')).toMatchObject({
+      category: 'pizzeria',
+      tags: ['slices', 'late night'],
+    });
+  });
+
+  it('imports GeoJSON Point features and rejects other geometries', async () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          id: 'imp_101',
+          geometry: { type: 'Point', coordinates: [-73.99, 40.73] },
+          properties: {
+            name: 'Washington Square Park',
+            category: 'park',
+            description: '',
+            address: 'Washington Square, New York, NY',
+            image_url: 'https://example.com/wsp.jpg',
+            distance_km: 1.2,
+          },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'LineString', coordinates: [[-73.99, 40.73], [-73.98, 40.74]] },
+          properties: {},
+        },
+      ],
+    });
+
+    const report = await service.import(geojson, { format: 'geojson' });
+
+    expect(report).toMatchObject({ total: 2, created: 1, failed: 1 });
+    expect(report.errors[0]).toEqual({ row: 2, errors: ['geometry must be a Point with [lng, lat] coordinates'] });
+    expect(await repository.findById('imp_101')).toMatchObject({ category: 'park', location: { lat: 40.73 } });
+  });
+
+  it('reports rows with a non-string category as row errors', async () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{
+        type: 'Feature',
+        id: 'imp_102',
+        geometry: { type: 'Point', coordinates: [-73.99, 40.73] },
+        properties: { name: 'Numbered', category: 5, description: '', address: '1 Main St', image_url: 'https://example.com/n.jpg' },
+      }],
+    });
+
+    const report = await service.import(geojson, { format: 'geojson' });
+
+    expect(report).toMatchObject({ created: 0, failed: 1 });
+    expect(report.errors[0]).toMatchObject({ row: 1, id: 'imp_102' });
+    expect(report.errors[0].errors).toContain('category: Category must be a string');
+  });
+
+  it('keeps stored fields missing from the file and review ratings on update', async () => {
+    const csv = [
+      'id,name,category,lat,lng,address,image_url,rating,rating_count',
+      'rest_001,Trattoria Alfredo,restaurant,40.7130,-74.0050,123 Main St,https://example.com/t.jpg,1,5',
+      'imp_020,New Diner,restaurant,40.7130,-74.0050,1 Main St,https://example.com/d.jpg,4.2,10',
+    ].join('\n');
+    const before = await repository.findById('rest_001');
+
+    const report = await service.import(csv, { format: 'csv', on_conflict: 'update' });
+
+    expect(report).toMatchObject({ created: 1, updated: 1, failed: 0 });
+    expect(await repository.findById('rest_001')).toMatchObject({
+      description: before?.description,
+      rating: before?.rating,
+      rating_count: before?.rating_count,
+      image_url: 'https://example.com/t.jpg',
+    });
+    expect(await repository.findById('imp_020')).toMatchObject({ description: '', rating: 4.2, rating_count: 10 });
+  });
+
+  it('rejects files that cannot be read as a whole', async () => {
+    await expect(service.import('id,name,colour\n1,a,red', { format: 'csv' })).rejects.toThrow(
+      'Invalid CSV: unknown column(s) colour',
+    );
+    await expect(service.import('{"type":"Feature"}', { format: 'geojson' })).rejects.toThrow(
+      'Invalid GeoJSON',
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { InvalidImportFileException } from '../../common/exceptions/domain.exceptions';
+import {
+  Place,
+  PlaceImportFormat,
+  PlaceImportOptions,
+  PlaceImportReport,
+  PlaceImportRowError,
+} from '../../common/interfaces/location.interface';
+import { GeoJsonFeature } from '../../common/interfaces/geojson.interface';
+import { CsvUtil } from '../../common/utils/csv.util';
+import { GeoJsonUtil } from '../../common/utils/geojson.util';
+import { CreatePlaceDto } from '../dto/create-place.dto';
+import { PlacesService } from './places.service';
+
+/**
+ * Row of an import file turned into create-place fields
+ */
+interface ImportRow {
+  /** 1-based position in the file */
+  row: number;
+  /** Place fields to validate, or null if the row could not be read */
+  fields: Record<string, unknown> | null;
+  /** Problems found while reading the row */
+  errors: string[];
+}
+
+/**
+ * Bulk place import service
+ * Reads CSV or GeoJSON files, validates every row against CreatePlaceDto and
+ * writes the valid rows through PlacesService so the index stays in sync
+ */
+@Injectable()
+export class PlaceImportService {
+  /** Maximum number of rows in one file */
+  static readonly MAX_ROWS = 10000;
+  /** Columns understood in CSV files */
+  static readonly CSV_COLUMNS = [
+    'id',
+    'name',
+    'category',
+    'description',
+    'lat',
+    'lng',
+    'address',
+    'image_url',
+    'open_now',
+    'opening_hours',
+    'tags',
+    'rating',
+    'rating_count',
+    'popularity',
+  ];
+  /** Feature properties computed at query time or from reviews and ignored on import */
+  private static readonly COMPUTED_PROPERTIES = [
+    'distance_km',
+    'relevance',
+    'score_breakdown',
+    'route_position_km',
+    'review_count',
+    'is_favorite',
+  ];
+
+  private readonly logger = new Logger(PlaceImportService.name);
+
+  constructor(private readonly placesService: PlacesService) {}
+
+  /**
+   * Infers the file format from a file name or media type
+   *
+   * @param filename - File name (optional)
+   * @param mimeType - Media type (optional)
+   * @returns Detected format, or undefined if unknown
+   */
+  static detectFormat(filename?: string, mimeType?: string): PlaceImportFormat | undefined {
+    const extension = filename?.toLowerCase().split('.').pop();
+
+    if (extension === 'csv' || mimeType === 'text/csv') {
+      return 'csv';
+    }
+    if (
+      extension === 'geojson' ||
+      extension === 'json' ||
+      mimeType === 'application/geo+json' ||
+      mimeType === 'application/json'
+    ) {
+      return 'geojson';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Imports places from a CSV or GeoJSON file
+   * Rows are validated independently; invalid rows and rows using the ID of a
+   * merged place are reported and skipped while the valid ones are written
+   * together in one store write (unless dry_run is set)
+   *
+   * @param content - File content
+   * @param options - Format, dry-run and conflict handling
+   * @returns Import report with per-row errors
+   * @throws InvalidImportFileException if the file as a whole cannot be read
+   */
+  async import(content: string, options: PlaceImportOptions): Promise<PlaceImportReport> {
+    const startTime = Date.now();
+    const dryRun = options.dry_run ?? false;
+    const onConflict = options.on_conflict ?? 'skip';
+    const rows = options.format === 'csv' ? this.readCsv(content) : this.readGeoJson(content);
+
+    if (rows.length > PlaceImportService.MAX_ROWS) {
+      throw new InvalidImportFileException(`Invalid file: ${rows.length} rows exceed the limit of ${PlaceImportService.MAX_ROWS}.`);
+    }
+
+    const report: PlaceImportReport = {
+      format: options.format,
+      dry_run: dryRun,
+      total: rows.length,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      metadata: { processing_time_ms: 0, timestamp: '' },
+    };
+    const seen = new Map<string, number>();
+    const accepted: CreatePlaceDto[] = [];
+
+    for (const { row, fields, errors } of rows) {
+      if (!fields) {
+        this.reject(report, { row, errors });
+        continue;
+      }
+
+      const id = typeof fields.id === 'string' ? fields.id : undefined;
+      const existing = id !== undefined ? await this.placesService.findById(id) : null;
+      const stored = existing?.id === id ? existing : null;
+      let dto: CreatePlaceDto;
+
+      try {
+        dto = plainToInstance(CreatePlaceDto, this.withDefaults(fields, stored));
+        errors.push(...this.flattenErrors(await validate(dto, { whitelist: true })));
+      } catch (error) {
+        errors.push(`Invalid row: ${error.message}`);
+        this.reject(report, id !== undefined ? { row, id, errors } : { row, errors });
+        continue;
+      }
+
+      const firstRow = dto.id !== undefined ? seen.get(dto.id) : undefined;
+      if (firstRow !== undefined) {
+        errors.push(`Duplicate id ${dto.id}; already used on row ${firstRow}`);
+      }
+
+      if (errors.length > 0) {
+        this.reject(report, id !== undefined ? { row, id, errors } : { row, errors });
+        continue;
+      }
+
+      if (dto.id !== undefined) {
+        seen.set(dto.id, row);
+      }
+
+      if (existing && existing.id !== dto.id) {
+        this.reject(report, { row, id: dto.id, errors: [`Place ID ${dto.id} was merged into ${existing.id}`] });
+      } else if (existing && onConflict === 'skip') {
+        report.skipped++;
+      } else {
+        accepted.push(dto);
+        if (existing) {
+          report.updated++;
+        } else {
+          report.created++;
+        }
+      }
+    }
+
+    if (!dryRun && accepted.length > 0) {
+      await this.placesService.saveMany(accepted);
+    }
+
+    report.metadata = {
+      processing_time_ms: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    };
+    this.logger.log(
+      `${dryRun ? 'Dry-run import' : 'Import'} of ${report.total} ${options.format} rows: ` +
+      `${report.created} created, ${report.updated} updated, ${report.skipped} skipped, ${report.failed} failed`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Reads the rows of a CSV file
+   *
+   * @param content - CSV text with a header row
+   * @returns Rows with create-place fields
+   * @throws InvalidImportFileException if the CSV is malformed or has unknown columns
+   */
+  private readCsv(content: string): ImportRow[] {
+    const { header, records } = CsvUtil.parseRecords(content);
+    const unknown = header.filter(column => !PlaceImportService.CSV_COLUMNS.includes(column));
+
+    if (unknown.length > 0) {
+      throw new InvalidImportFileException(
+        `Invalid CSV: unknown column(s) ${unknown.join(', ')}. ` +
+        `Expected: ${PlaceImportService.CSV_COLUMNS.join(', ')}.`,
+      );
+    }
+
+    return records.map((record, index) => {
+      const errors: string[] = [];
+      const { lat, lng, address, open_now, opening_hours, tags, ...rest } = record;
+      const fields: Record<string, unknown> = {
+        ...rest,
+        location: { lat, lng, address },
+      };
+
+      if (open_now !== undefined) {
+        fields.open_now = open_now === 'true' ? true : open_now === 'false' ? false : open_now;
+      }
+      if (tags !== undefined) {
+        fields.tags = tags.split(';').map(tag => tag.trim()).filter(tag => tag !== '');
+      }
+      if (opening_hours !== undefined) {
+        try {
+          fields.opening_hours = JSON.parse(opening_hours);
+        } catch {
+          errors.push('opening_hours must be a JSON object');
+        }
+      }
+
+      return { row: index + 1, fields, errors };
+    });
+  }
+
+  /**
+   * Reads the features of a GeoJSON FeatureCollection
+   *
+   * @param content - GeoJSON text
+   * @returns Rows with create-place fields
+   * @throws InvalidImportFileException if the content is not a FeatureCollection
+   */
+  private readGeoJson(content: string): ImportRow[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new InvalidImportFileException(`Invalid GeoJSON: ${error.message}`);
+    }
+
+    if (!GeoJsonUtil.isFeatureCollection(parsed)) {
+      throw new InvalidImportFileException('Invalid GeoJSON: expected a FeatureCollection');
+    }
+
+    return parsed.features.map((feature: GeoJsonFeature, index) => {
+      const row = index + 1;
+      const coordinates = feature?.geometry?.coordinates;
+
+      if (
+        feature?.geometry?.type !== 'Point' ||
+        !Array.isArray(coordinates) ||
+        typeof coordinates[0] !== 'number' ||
+        typeof coordinates[1] !== 'number'
+      ) {
+        return { row, fields: null, errors: ['geometry must be a Point with [lng, lat] coordinates'] };
+      }
+
+      const { location, ...properties } = GeoJsonUtil.featureToPlace({
+        ...feature,
+        properties: feature.properties ?? {},
+      });
+      const fields: Record<string, unknown> = { ...properties, location };
+      PlaceImportService.COMPUTED_PROPERTIES.forEach(property => delete fields[property]);
+      if (feature.id === undefined && feature.properties?.id === undefined) {
+        delete fields.id;
+      }
+
+      return { row, fields, errors: [] };
+    });
+  }
+
+  /**
+   * Completes a row's fields before validation
+   * New places get an empty description when the file has none. Rows for a
+   * stored place keep its description when the file has none, and never carry
+   * rating or rating_count, which are kept up to date from reviews
+   *
+   * @param fields - Fields read from the row
+   * @param stored - Stored place with the row's ID, or null for a new place
+   * @returns Fields to validate
+   */
+  private withDefaults(fields: Record<string, unknown>, stored: Place | null): Record<string, unknown> {
+    if (!stored) {
+      return { description: '', ...fields };
+    }
+
+    const completed: Record<string, unknown> = { description: stored.description, ...fields };
+    delete completed.rating;
+    delete completed.rating_count;
+    return completed;
+  }
+
+  /**
+   * Flattens nested validation errors into messages
+   *
+   * @param errors - class-validator errors
+   * @param path - Property path of the parent
+   * @returns One message per failed constraint
+   */
+  private flattenErrors(errors: ValidationError[], path: string = ''): string[] {
+    return errors.flatMap(error => {
+      const property = path ? `${path}.${error.property}` : error.property;
+      const messages = Object.values(error.constraints ?? {}).map(message => `${property}: ${message}`);
+      return [...messages, ...this.flattenErrors(error.children ?? [], property)];
+    });
+  }
+
+  /**
+   * Records a rejected row in the report
+   *
+   * @param report - Report to update
+   * @param error - Row error
+   */
+  private reject(report: PlaceImportReport, error: PlaceImportRowError): void {
+    report.failed++;
+    report.errors.push(error);
+  }
+}
@@ -0,0 +1,374 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BoundingBox, Coordinates, Place } from '../../common/interfaces/location.interface';
+import { GeoJsonPolygon } from '../../common/interfaces/geojson.interface';
+import { SpatialIndex, SpatialMatch } from '../../common/indexes/spatial-index';
+import { TextIndex } from '../../common/indexes/text-index';
+import { DistanceUtil } from '../../common/utils/distance.util';
+import { PlaceRepository } from '../repositories/place.repository';
+
+/**
+ * Keeps in-memory spatial and full-text indexes of every stored place
+ * The indexes are built from the place repository when the module starts so
+ * location queries only touch the geohash cells that can hold a match and
+ * text queries only the postings of their terms
+ */
+@Injectable()
+export class PlaceIndexService implements OnModuleInit {
+  /** Candidate sets up to this size are measured directly instead of walking cells */
+  private static readonly DIRECT_LOOKUP_LIMIT = 2000;
+
+  private readonly logger = new Logger(PlaceIndexService.name);
+  private readonly index: SpatialIndex<Place>;
+  private readonly textIndex = new TextIndex();
+  /** Name index expanding one-letter words to prefixes, so typeahead completes from the first letter */
+  private readonly nameIndex = new TextIndex(1);
+  private ready = false;
+  private changes = 0;
+
+  constructor(
+    private readonly placeRepository: PlaceRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.index = new SpatialIndex<Place>(
+      this.configService.get<number>('discovery.indexPrecision', 5),
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.rebuild();
+  }
+
+  /**
+   * Rebuilds the indexes from the place repository
+   */
+  async rebuild(): Promise<void> {
+    const startTime = Date.now();
+    const places = await this.placeRepository.findAll();
+
+    this.index.clear();
+    this.index.load(places);
+    this.textIndex.clear();
+    this.nameIndex.clear();
+    places.forEach(place => this.indexText(place));
+    this.ready = true;
+    this.changes++;
+
+    this.logger.log(
+      `Indexed ${this.index.size} places in ${this.index.cellCount} cells (${Date.now() - startTime}ms)`,
+    );
+  }
+
+  /**
+   * Whether the initial index build has completed
+   *
+   * @returns True once places are loaded
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Number of indexed places
+   *
+   * @returns Index size
+   */
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Revision of the indexed data, bumped by every rebuild, upsert and removal
+   * Lets derived data such as cached query results detect place changes
+   *
+   * @returns Revision counter
+   */
+  get revision(): number {
+    return this.changes;
+  }
+
+  /**
+   * Adds or replaces a place in the index
+   *
+   * @param place - Place to index
+   */
+  upsert(place: Place): void {
+    this.index.insert(place);
+    this.indexText(place);
+    this.changes++;
+  }
+
+  /**
+   * Adds or replaces several places in the index as one change
+   *
+   * @param places - Places to index
+   */
+  upsertMany(places: Place[]): void {
+    places.forEach(place => {
+      this.index.insert(place);
+      this.indexText(place);
+    });
+    this.changes++;
+  }
+
+  /**
+   * Removes a place from the index
+   *
+   * @param id - Place ID
+   */
+  remove(id: string): void {
+    this.index.remove(id);
+    this.textIndex.remove(id);
+    this.nameIndex.remove(id);
+    this.changes++;
+  }
+
+  /**
+   * Finds places within a radius of a point
+   *
+   * @param center - Center point
+   * @param radiusKm - Radius in kilometers
+   * @returns Places with distance_km populated, unordered
+   */
+  findWithinRadius(center: Coordinates, radiusKm: number): Place[] {
+    return this.toPlaces(this.index.withinRadius(center, radiusKm));
+  }
+
+  /**
+   * Finds places inside a bounding box
+   *
+   * @param bbox - Bounding box, possibly crossing the antimeridian
+   * @param reference - Point distances are measured from
+   * @returns Places with distance_km populated, unordered
+   */
+  findWithinBoundingBox(bbox: BoundingBox, reference: Coordinates): Place[] {
+    return this.withDistances(this.index.withinBoundingBox(bbox), reference);
+  }
+
+  /**
+   * Finds places inside a polygon
+   *
+   * @param polygon - GeoJSON polygon, holes excluded
+   * @param reference - Point distances are measured from
+   * @returns Places with distance_km populated, unordered
+   */
+  findWithinPolygon(polygon: GeoJsonPolygon, reference: Coordinates): Place[] {
+    const candidates = this.index.withinBoundingBox(
+      DistanceUtil.polygonBoundingBox(polygon.coordinates),
+    );
+
+    return this.withDistances(
+      candidates.filter(place =>
+        DistanceUtil.isPointInPolygon(place.location, polygon.coordinates),
+      ),
+      reference,
+    );
+  }
+
+  /**
+   * Finds places within a corridor around a route
+   * Each segment is covered by radius lookups no longer than the corridor is
+   * wide, so long straight legs do not pull in a huge bounding box
+   *
+   * @param route - Route points, at least two
+   * @param corridorKm - Maximum distance from the route in kilometers
+   * @returns Places with distance_km (from the route) and route_position_km populated, unordered
+   */
+  findAlongRoute(route: Coordinates[], corridorKm: number): Place[] {
+    const best = new Map<string, { place: Place; distanceKm: number; positionKm: number }>();
+    let travelledKm = 0;
+
+    for (let i = 0; i < route.length - 1; i++) {
+      const start = route[i];
+      const end = route[i + 1];
+      const segmentKm = DistanceUtil.exactDistance(start, end);
+      const pieces = Math.max(1, Math.ceil(segmentKm / Math.max(corridorKm, 0.5)));
+      const deltaLng = DistanceUtil.normalizeLongitude(end.lng - start.lng);
+
+      for (let piece = 0; piece < pieces; piece++) {
+        const middle = (piece + 0.5) / pieces;
+        const center: Coordinates = {
+          lat: start.lat + (end.lat - start.lat) * middle,
+          lng: DistanceUtil.normalizeLongitude(start.lng + deltaLng * middle),
+        };
+
+        for (const { item } of this.index.withinRadius(center, segmentKm / pieces / 2 + corridorKm)) {
+          const { distanceKm, fraction } = DistanceUtil.pointToSegmentDistance(item.location, start, end);
+          if (distanceKm > corridorKm) {
+            continue;
+          }
+
+          const positionKm = travelledKm + fraction * segmentKm;
+          const current = best.get(item.id);
+          if (
+            !current ||
+            distanceKm < current.distanceKm ||
+            (distanceKm === current.distanceKm && positionKm < current.positionKm)
+          ) {
+            best.set(item.id, { place: item, distanceKm, positionKm });
+          }
+        }
+      }
+
+      travelledKm += segmentKm;
+    }
+
+    return Array.from(best.values(), ({ place, distanceKm, positionKm }) => ({
+      ...place,
+      distance_km: distanceKm,
+      route_position_km: Math.round(positionKm * 100) / 100,
+    }));
+  }
+
+  /**
+   * Finds the k nearest places to a point
+   *
+   * @param center - Reference point
+   * @param k - Maximum number of places
+   * @param maxDistanceKm - Maximum distance in kilometers
+   * @param filter - Optional predicate places must satisfy
+   * @returns Places ordered by distance with distance_km populated
+   */
+  findNearest(
+    center: Coordinates,
+    k: number,
+    maxDistanceKm?: number,
+    filter?: (place: Place) => boolean,
+  ): Place[] {
+    return this.toPlaces(this.index.nearest(center, k, maxDistanceKm, filter));
+  }
+
+  /**
+   * Searches place names, descriptions, addresses and tags
+   *
+   * @param query - Free-text query
+   * @returns Text relevance by place ID for places matching every query term
+   */
+  searchText(query: string): Map<string, number> {
+    return this.textIndex.search(query);
+  }
+
+  /**
+   * Searches place names only, treating every query word as a prefix
+   *
+   * @param prefix - Typed prefix
+   * @returns Name relevance by place ID for places matching every word
+   */
+  searchNames(prefix: string): Map<string, number> {
+    return this.nameIndex.search(prefix);
+  }
+
+  /**
+   * Finds the k nearest places out of a set of candidate IDs
+   * Small candidate sets are measured directly; large ones are found by
+   * walking cells outwards from the center and skipping non-candidates. The
+   * filter is only applied to candidates in distance order until k pass it
+   *
+   * @param center - Reference point
+   * @param ids - Candidate place IDs
+   * @param k - Maximum number of places
+   * @param maxDistanceKm - Maximum distance in kilometers
+   * @param filter - Optional predicate places must satisfy
+   * @returns Places ordered by distance with distance_km populated
+   */
+  findNearestAmong(
+    center: Coordinates,
+    ids: ReadonlyMap<string, unknown> | ReadonlySet<string>,
+    k: number,
+    maxDistanceKm: number,
+    filter?: (place: Place) => boolean,
+  ): Place[] {
+    if (ids.size > PlaceIndexService.DIRECT_LOOKUP_LIMIT) {
+      // Places outside the radius are skipped before the filter runs, as it may be costly
+      return this.findNearest(
+        center,
+        k,
+        maxDistanceKm,
+        place =>
+          ids.has(place.id) &&
+          (!filter || (DistanceUtil.calculateDistance(center, place.location) <= maxDistanceKm && filter(place))),
+      );
+    }
+
+    const matches: SpatialMatch<Place>[] = [];
+    for (const id of ids.keys()) {
+      const place = this.index.get(id);
+      if (!place) {
+        continue;
+      }
+      const distanceKm = DistanceUtil.calculateDistance(center, place.location);
+      if (distanceKm <= maxDistanceKm) {
+        matches.push({ item: place, distanceKm });
+      }
+    }
+
+    const sorted = SpatialIndex.sortMatches(matches);
+    return this.toPlaces(
+      filter ? this.firstPassing(sorted, k, match => filter(match.item)) : sorted.slice(0, k),
+    );
+  }
+
+  /**
+   * Takes items in order until k of them pass a predicate
+   *
+   * @param items - Ordered items
+   * @param k - Maximum number of items
+   * @param predicate - Test items must pass
+   * @returns Up to k passing items, in order
+   */
+  private firstPassing<T>(items: T[], k: number, predicate: (item: T) => boolean): T[] {
+    const passing: T[] = [];
+    for (const item of items) {
+      if (passing.length >= k) {
+        break;
+      }
+      if (predicate(item)) {
+        passing.push(item);
+      }
+    }
+    return passing;
+  }
+
+  /**
+   * Adds a place's searchable text to the text and name indexes
+   * Name matches weigh most, then tags, then description or address matches
+   *
+   * @param place - Place to index
+   */
+  private indexText(place: Place): void {
+    this.textIndex.insert(place.id, [
+      { text: place.name, weight: 3 },
+      { text: place.description, weight: 1 },
+      { text: place.location.address || '', weight: 1 },
+      { text: (place.tags ?? []).join(' '), weight: 2 },
+    ]);
+    this.nameIndex.insert(place.id, [{ text: place.name, weight: 1 }]);
+  }
+
+  /**
+   * Copies places with their distance from a reference point
+   *
+   * @param places - Indexed places
+   * @param reference - Point distances are measured from
+   * @returns Places with distance_km populated
+   */
+  private withDistances(places: Place[], reference: Coordinates): Place[] {
+    return places.map(place => ({
+      ...place,
+      distance_km: DistanceUtil.calculateDistance(reference, place.location),
+    }));
+  }
+
+  /**
+   * Copies matched places with their computed distance
+   *
+   * @param matches - Spatial matches
+   * @returns Places with distance_km populated
+   */
+  private toPlaces(matches: SpatialMatch<Place>[]): Place[] {
+    return matches.map(({ item, distanceKm }) => ({
+      ...item,
+      distance_km: distanceKm,
+    }));
+  }
+}
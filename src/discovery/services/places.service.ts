@@ -0,0 +1,276 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { PlaceAlreadyExistsException } from '../../common/exceptions/domain.exceptions';
+import { Place } from '../../common/interfaces/location.interface';
+import { OpeningHoursUtil } from '../../common/utils/opening-hours.util';
+import { RatingUtil } from '../../common/utils/rating.util';
+import { PlaceRepository } from '../repositories/place.repository';
+import { CreatePlaceDto } from '../dto/create-place.dto';
+import { UpdatePlaceDto } from '../dto/update-place.dto';
+import { PlaceIndexService } from './place-index.service';
+
+/**
+ * Place management service
+ * Applies create/update/delete operations to the place store and keeps the
+ * spatial index in sync so changes are visible to discovery immediately
+ */
+@Injectable()
+export class PlacesService {
+  /** Longest chain of redirects followed when resolving a retired ID */
+  private static readonly MAX_REDIRECTS = 10;
+  /** Fields derived from reviews, which updates leave untouched */
+  private static readonly AGGREGATE_FIELDS = ['rating', 'rating_count'];
+
+  private readonly logger = new Logger(PlacesService.name);
+  /** Last pending write per place ID, so writes of a place run one at a time */
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly placeRepository: PlaceRepository,
+    private readonly placeIndexService: PlaceIndexService,
+  ) {}
+
+  /**
+   * Gets a place by ID
+   * IDs retired by a merge resolve to the place they were merged into
+   *
+   * @param id - Place ID
+   * @returns Place if found, null otherwise
+   */
+  async findById(id: string): Promise<Place | null> {
+    const place = await this.resolve(id);
+    return place ? this.withOpenState(place) : null;
+  }
+
+  /**
+   * Creates a new place
+   *
+   * @param dto - Place fields
+   * @returns Created place
+   * @throws PlaceAlreadyExistsException if a place with the requested ID already exists
+   */
+  async create(dto: CreatePlaceDto): Promise<Place> {
+    const id = dto.id || uuidv4();
+
+    if (await this.placeRepository.findById(id)) {
+      throw new PlaceAlreadyExistsException(id);
+    }
+
+    const place = await this.placeRepository.save(this.toPlace(id, dto));
+
+    this.placeIndexService.upsert(place);
+    this.logger.log(`Created place ${place.id}`);
+
+    return this.withOpenState(place);
+  }
+
+  /**
+   * Partially updates a place
+   *
+   * @param id - Place ID
+   * @param dto - Fields to change
+   * @returns Updated place, or null if it does not exist
+   */
+  async update(id: string, dto: UpdatePlaceDto): Promise<Place | null> {
+    const existing = await this.resolve(id);
+    if (!existing) {
+      return null;
+    }
+
+    const place = await this.modify(existing.id, stored => this.applyChanges(stored, dto));
+    if (place) {
+      this.logger.log(`Updated place ${place.id}`);
+    }
+
+    return place;
+  }
+
+  /**
+   * Rewrites a stored place from its current state
+   * Writes of the same place are queued behind each other, so a change is
+   * always applied to the latest stored place and concurrent changes, such
+   * as review aggregates, are never overwritten with an older copy
+   *
+   * @param id - Place ID
+   * @param change - Builds the place to store from the stored one
+   * @returns Stored place, or null if it does not exist
+   */
+  async modify(id: string, change: (place: Place) => Place): Promise<Place | null> {
+    const place = await this.serialize([id], async () => {
+      const stored = await this.placeRepository.findById(id);
+      if (!stored) {
+        return null;
+      }
+
+      const saved = await this.placeRepository.save({ ...change(stored), id });
+      this.placeIndexService.upsert(saved);
+      return saved;
+    });
+
+    return place ? this.withOpenState(place) : null;
+  }
+
+  /**
+   * Creates or updates several places with one store write and one index update
+   * Places whose ID is stored are updated as by `update`, the others created;
+   * retired IDs are not resolved, so callers reject them beforehand
+   *
+   * @param dtos - Place fields, with distinct IDs
+   * @returns Stored places, in the given order
+   */
+  async saveMany(dtos: CreatePlaceDto[]): Promise<Place[]> {
+    const ids = dtos.flatMap(dto => (dto.id ? [dto.id] : []));
+
+    const stored = await this.serialize(ids, async () => {
+      const places: Place[] = [];
+
+      for (const dto of dtos) {
+        const existing = dto.id ? await this.placeRepository.findById(dto.id) : null;
+        places.push(existing ? this.applyChanges(existing, dto) : this.toPlace(dto.id || uuidv4(), dto));
+      }
+
+      const saved = await this.placeRepository.saveMany(places);
+      this.placeIndexService.upsertMany(saved);
+      return saved;
+    });
+    this.logger.log(`Saved ${stored.length} places`);
+
+    return stored.map(place => this.withOpenState(place));
+  }
+
+  /**
+   * Deletes a place
+   *
+   * @param id - Place ID
+   * @returns True if the place existed
+   */
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.placeRepository.delete(id);
+
+    if (deleted) {
+      this.placeIndexService.remove(id);
+      this.logger.log(`Deleted place ${id}`);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Runs a write after the pending writes of the given places
+   * A failed write is reported to its caller and does not block later ones
+   *
+   * @param ids - IDs of the places the write touches
+   * @param write - Write to run
+   * @returns Result of the write
+   */
+  private async serialize<T>(ids: string[], write: () => Promise<T>): Promise<T> {
+    const previous = Promise.all(ids.map(id => this.writes.get(id)));
+    const result = previous.then(write);
+    const settled = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    ids.forEach(id => this.writes.set(id, settled));
+
+    try {
+      return await result;
+    } finally {
+      ids.filter(id => this.writes.get(id) === settled).forEach(id => this.writes.delete(id));
+    }
+  }
+
+  /**
+   * Loads a place, following redirects left by merges
+   *
+   * @param id - Place ID or retired place ID
+   * @returns Stored place, or null if neither the place nor a redirect target exists
+   */
+  private async resolve(id: string): Promise<Place | null> {
+    let currentId = id;
+
+    for (let hops = 0; hops <= PlacesService.MAX_REDIRECTS; hops++) {
+      const place = await this.placeRepository.findById(currentId);
+      if (place) {
+        return place;
+      }
+
+      const targetId = await this.placeRepository.findRedirect(currentId);
+      if (!targetId) {
+        return null;
+      }
+      currentId = targetId;
+    }
+
+    this.logger.warn(`Redirect chain from ${id} exceeds ${PlacesService.MAX_REDIRECTS} hops`);
+    return null;
+  }
+
+  /**
+   * Builds a new place from create fields
+   *
+   * @param id - Place ID
+   * @param dto - Place fields
+   * @returns Place to store
+   */
+  private toPlace(id: string, dto: CreatePlaceDto): Place {
+    return {
+      id,
+      name: dto.name,
+      category: dto.category,
+      description: dto.description,
+      distance_km: 0,
+      open_now: dto.open_now ?? true,
+      opening_hours: dto.opening_hours,
+      image_url: dto.image_url,
+      rating: dto.rating,
+      rating_count: dto.rating_count,
+      popularity: dto.popularity,
+      tags: dto.tags,
+      location: {
+        lat: dto.location.lat,
+        lng: dto.location.lng,
+        address: dto.location.address,
+      },
+    };
+  }
+
+  /**
+   * Applies the set fields of an update to a stored place
+   * The stored rating and rating count are kept: reviews maintain them
+   *
+   * @param existing - Stored place
+   * @param dto - Fields to change
+   * @returns Place to store, keeping the stored ID
+   */
+  private applyChanges(existing: Place, dto: UpdatePlaceDto): Place {
+    const changes = Object.fromEntries(
+      Object.entries(dto).filter(
+        ([key, value]) => value !== undefined && !PlacesService.AGGREGATE_FIELDS.includes(key),
+      ),
+    );
+
+    return {
+      ...existing,
+      ...changes,
+      id: existing.id,
+      location: dto.location
+        ? {
+            lat: dto.location.lat,
+            lng: dto.location.lng,
+            address: dto.location.address,
+          }
+        : existing.location,
+    };
+  }
+
+  /**
+   * Copies a place with open_now computed from its opening hours and its
+   * rating rounded for the response
+   *
+   * @param place - Stored place
+   * @returns Place with current open state
+   */
+  private withOpenState(place: Place): Place {
+    return { ...RatingUtil.present(place), open_now: OpeningHoursUtil.isPlaceOpenAt(place, new Date()) };
+  }
+}
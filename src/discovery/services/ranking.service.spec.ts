@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { Place } from '../../common/interfaces/location.interface';
+import { PlaceScorer } from '../scoring/place-scorer';
+import { placeScorersProvider } from '../scoring/place-scorers.provider';
+import { RankingService } from './ranking.service';
+
+describe('RankingService', () => {
+  const place = (id: string, changes: Partial<Place>): Place => ({
+    id,
+    name: id,
+    category: 'cafe',
+    description: '',
+    distance_km: 0,
+    open_now: true,
+    image_url: '',
+    location: { lat: 0, lng: 0, address: '' },
+    ...changes,
+  });
+  const createService = (weights: Record<string, number> = {}): RankingService => {
+    const factory = (placeScorersProvider as { useFactory: (config: ConfigService) => PlaceScorer[] }).useFactory;
+    return new RankingService(factory(new ConfigService({ ranking: { weights } })));
+  };
+
+  it('ranks an open, well-rated place above a closer closed one', () => {
+    const [bar, cafe] = createService().score(
+      [
+        place('bar', { distance_km: 0.1, open_now: false, rating: 3.8, rating_count: 40, popularity: 150 }),
+        place('cafe', { distance_km: 0.3, open_now: true, rating: 4.7, rating_count: 900, popularity: 2000 }),
+      ],
+      { scaleKm: 5 },
+    );
+
+    expect(cafe.relevance).toBeGreaterThan(bar.relevance as number);
+    expect(bar.score_breakdown).toBeUndefined();
+  });
+
+  it('explains scores in debug mode and leaves out signals that do not apply', () => {
+    const [scored] = createService().score([place('cafe', { distance_km: 1.25, rating: 5 })], { scaleKm: 5 }, true);
+    const breakdown = scored.score_breakdown ?? {};
+
+    expect(Object.keys(breakdown)).toEqual(['distance', 'open_now', 'rating', 'popularity']);
+    expect(breakdown.distance.score).toBe(0.5);
+    // A single 5-star rating barely moves the neutral prior
+    expect(breakdown.rating.score).toBeCloseTo(0.5833, 4);
+    const weights = Object.values(breakdown).reduce((total, component) => total + component.weight, 0);
+    const contributions = Object.values(breakdown).reduce((total, component) => total + component.contribution, 0);
+    expect(weights).toBeCloseTo(1, 3);
+    expect(scored.relevance).toBeCloseTo(contributions, 3);
+  });
+
+  it('weighs text matches relative to the best match and honors configured weights', () => {
+    const textScores = new Map([['strong', 4], ['weak', 1]]);
+    const [strong, weak] = createService({ distance: 0, openNow: 0, rating: 0, popularity: 0 }).score(
+      [place('strong', {}), place('weak', {})],
+      { scaleKm: 5, textScores },
+      true,
+    );
+
+    expect(strong.relevance).toBe(1);
+    expect(weak.relevance).toBe(0.25);
+    expect(Object.keys(strong.score_breakdown ?? {})).toEqual(['text']);
+  });
+});
@@ -0,0 +1,67 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Place, ScoreBreakdown } from '../../common/interfaces/location.interface';
+import { PLACE_SCORERS, PlaceScorer, ScoringContext } from '../scoring/place-scorer';
+
+/**
+ * Relevance ranking service
+ * Combines the PLACE_SCORERS signals into a weighted relevance between 0 and 1;
+ * weights are rescaled over the signals that apply to the search, so text
+ * match only counts for text searches
+ */
+@Injectable()
+export class RankingService {
+  constructor(@Inject(PLACE_SCORERS) private readonly scorers: PlaceScorer[]) {}
+
+  /**
+   * Scores places for relevance ranking
+   *
+   * @param places - Places with distance_km and open_now resolved
+   * @param context - Search scale and text scores
+   * @param debug - Whether to attach each place's score breakdown
+   * @returns Places with relevance (and score_breakdown in debug mode) populated
+   */
+  score(places: Place[], context: ScoringContext, debug: boolean = false): Place[] {
+    const fullContext: ScoringContext = {
+      ...context,
+      maxTextScore: context.textScores
+        ? Math.max(0, ...places.map(place => context.textScores?.get(place.id) ?? 0))
+        : undefined,
+    };
+    const scorers = this.scorers.filter(
+      scorer => scorer.weight > 0 && (scorer.appliesTo?.(fullContext) ?? true),
+    );
+    const totalWeight = scorers.reduce((total, scorer) => total + scorer.weight, 0);
+
+    return places.map(place => {
+      const breakdown: ScoreBreakdown = {};
+      let relevance = 0;
+
+      for (const scorer of scorers) {
+        const weight = scorer.weight / totalWeight;
+        const score = Math.min(Math.max(scorer.score(place, fullContext), 0), 1);
+        relevance += score * weight;
+        breakdown[scorer.name] = {
+          score: this.round(score),
+          weight: this.round(weight),
+          contribution: this.round(score * weight),
+        };
+      }
+
+      return {
+        ...place,
+        relevance: this.round(relevance),
+        ...(debug ? { score_breakdown: breakdown } : {}),
+      };
+    });
+  }
+
+  /**
+   * Rounds a score for output
+   *
+   * @param value - Score
+   * @returns Score rounded to 4 decimals
+   */
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
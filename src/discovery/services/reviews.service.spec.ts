@@ -0,0 +1,121 @@
+import { ConfigService } from '@nestjs/config';
+import { Place } from '../../common/interfaces/location.interface';
+import { InMemoryPlaceRepository } from '../repositories/in-memory-place.repository';
+import { InMemoryReviewRepository } from '../repositories/in-memory-review.repository';
+import { MockDataService } from './mock-data.service';
+import { PlaceIndexService } from './place-index.service';
+import { PlacesService } from './places.service';
+import { ReviewsService } from './reviews.service';
+
+describe('ReviewsService', () => {
+  const mockPlaces = new MockDataService().getAllPlaces();
+  const unrated: Place = { ...mockPlaces[1], id: 'cafe_new', rating: undefined, rating_count: undefined };
+
+  let repository: InMemoryPlaceRepository;
+  let placeIndexService: PlaceIndexService;
+  let placesService: PlacesService;
+  let service: ReviewsService;
+
+  beforeEach(async () => {
+    repository = new InMemoryPlaceRepository([...mockPlaces, unrated], { cafe_old: 'cafe_new' });
+    placeIndexService = new PlaceIndexService(repository, new ConfigService());
+    await placeIndexService.rebuild();
+    placesService = new PlacesService(repository, placeIndexService);
+    service = new ReviewsService(new InMemoryReviewRepository(), placesService);
+  });
+
+  it('averages review ratings into the place', async () => {
+    await service.create('cafe_new', { rating: 5, text: 'Great flat white' });
+    await service.create('cafe_new', { rating: 2, text: 'Slow service', author: 'Sam' });
+
+    const place = await repository.findById('cafe_new');
+    expect(place?.rating).toBe(3.5);
+    expect(place?.rating_count).toBe(2);
+    expect(place?.review_count).toBe(2);
+    const [indexed] = placeIndexService.findWithinRadius(unrated.location, 0.01)
+      .filter(candidate => candidate.id === 'cafe_new');
+    expect(indexed.rating).toBe(3.5);
+  });
+
+  it('keeps the weight of ratings from other sources', async () => {
+    await service.create('rest_001', { rating: 1, text: 'Burnt pizza' });
+
+    const place = await repository.findById('rest_001');
+    expect(place?.rating_count).toBe(821);
+    expect(place?.rating).toBeCloseTo((4.5 * 820 + 1) / 821, 10);
+    expect(place?.review_count).toBe(1);
+    expect((await service.findByPlace('rest_001')).rating).toBe(4.5);
+  });
+
+  it('keeps the average exact over many reviews and rounds it in responses', async () => {
+    const ratings = Array.from({ length: 60 }, (_, i) => [5, 4, 4, 3, 5, 2, 4][i % 7]);
+    for (const rating of ratings) {
+      await service.create('cafe_new', { rating, text: 'Visited' });
+    }
+
+    const average = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+    expect((await repository.findById('cafe_new'))?.rating).toBeCloseTo(average, 10);
+    expect((await service.findByPlace('cafe_new')).rating).toBe(Math.round(average * 100) / 100);
+  });
+
+  it('applies concurrent reviews of a place one at a time', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => service.create('cafe_new', { rating: i < 10 ? 5 : 3, text: 'Busy' })),
+    );
+
+    const place = await repository.findById('cafe_new');
+    expect(place?.rating_count).toBe(20);
+    expect(place?.review_count).toBe(20);
+    expect(place?.rating).toBe(4);
+  });
+
+  it('keeps review aggregates when a place edit overlaps a review', async () => {
+    const findById = repository.findById.bind(repository);
+    let reviewed = false;
+    jest.spyOn(repository, 'findById').mockImplementation(async (id: string) => {
+      const place = await findById(id);
+      if (!reviewed) {
+        // The review is stored after the edit has read the place
+        reviewed = true;
+        await service.create('cafe_new', { rating: 4, text: 'Busy' });
+      }
+      return place;
+    });
+
+    await placesService.update('cafe_new', { description: 'Renovated' });
+
+    const place = await findById('cafe_new');
+    expect(place?.rating).toBe(4);
+    expect(place?.review_count).toBe(1);
+    expect(place?.description).toBe('Renovated');
+  });
+
+  it('lists reviews newest first with cursor paging', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-15T10:00:00Z') });
+    try {
+      for (const text of ['First', 'Second', 'Third']) {
+        await service.create('cafe_new', { rating: 4, text });
+        jest.advanceTimersByTime(60000);
+      }
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const first = await service.findByPlace('cafe_new', 2);
+    expect(first.results.map(review => review.text)).toEqual(['Third', 'Second']);
+    expect(first.total).toBe(3);
+    expect(first.rating_count).toBe(3);
+
+    const second = await service.findByPlace('cafe_new', 2, first.next_cursor as string);
+    expect(second.results.map(review => review.text)).toEqual(['First']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('follows merge redirects and rejects unknown places', async () => {
+    const review = await service.create('cafe_old', { rating: 4, text: 'Nice' });
+
+    expect(review.place_id).toBe('cafe_new');
+    await expect(service.create('missing', { rating: 4, text: 'Nice' })).rejects.toThrow('not found');
+    await expect(service.findByPlace('missing')).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { PlaceNotFoundException } from '../../common/exceptions/domain.exceptions';
+import { Place, Review, ReviewsResponse } from '../../common/interfaces/location.interface';
+import { CursorUtil } from '../../common/utils/cursor.util';
+import { RatingUtil } from '../../common/utils/rating.util';
+import { ReviewRepository } from '../repositories/review.repository';
+import { CreateReviewDto } from '../dto/review.dto';
+import { PlacesService } from './places.service';
+
+/**
+ * Place review service
+ * Stores reviews and keeps each place's average rating, rating count and
+ * review count up to date, so discovery can filter and rank on them
+ * without reading reviews
+ */
+@Injectable()
+export class ReviewsService {
+  private readonly logger = new Logger(ReviewsService.name);
+
+  constructor(
+    private readonly reviewRepository: ReviewRepository,
+    private readonly placesService: PlacesService,
+  ) {}
+
+  /**
+   * Adds a review to a place and updates the place's aggregates
+   *
+   * @param placeId - Place ID; IDs retired by a merge resolve to the merged place
+   * @param dto - Rating, text and author
+   * @returns Created review
+   * @throws PlaceNotFoundException if the place does not exist
+   */
+  async create(placeId: string, dto: CreateReviewDto): Promise<Review> {
+    const place = await this.findPlace(placeId);
+
+    const review = await this.reviewRepository.save({
+      id: uuidv4(),
+      place_id: place.id,
+      rating: dto.rating,
+      text: dto.text,
+      author: dto.author,
+      created_at: new Date().toISOString(),
+    });
+
+    await this.addRatings(place.id, [review]);
+    this.logger.log(`Added review ${review.id} to place ${place.id}`);
+
+    return review;
+  }
+
+  /**
+   * Lists the reviews of a place, newest first
+   *
+   * @param placeId - Place ID; IDs retired by a merge resolve to the merged place
+   * @param limit - Page size
+   * @param cursor - Opaque cursor from a previous page (optional)
+   * @returns Page of reviews with the place's aggregates
+   * @throws PlaceNotFoundException if the place does not exist or the cursor is malformed
+   */
+  async findByPlace(placeId: string, limit: number = 10, cursor?: string): Promise<ReviewsResponse> {
+    const place = await this.findPlace(placeId);
+    const position = cursor ? CursorUtil.decode(cursor) : null;
+
+    const sortValue = (review: Review): number => -Date.parse(review.created_at);
+    const reviews = (await this.reviewRepository.findByPlace(place.id)).sort(
+      (a, b) => sortValue(a) - sortValue(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+    );
+
+    const start = position
+      ? reviews.findIndex(review => CursorUtil.isAfter(sortValue(review), review.id, position))
+      : 0;
+    const results = start === -1 ? [] : reviews.slice(start, start + limit);
+    const lastResult = results[results.length - 1];
+    const hasMore = start !== -1 && start + limit < reviews.length;
+
+    return {
+      place_id: place.id,
+      rating: place.rating,
+      rating_count: place.rating_count,
+      results,
+      total: reviews.length,
+      next_cursor: hasMore && lastResult
+        ? CursorUtil.encode({ value: sortValue(lastResult), id: lastResult.id })
+        : null,
+    };
+  }
+
+  /**
+   * Moves the reviews of a retired place to the place it was merged into
+   * The target's aggregates are left as they are: the merge combines them
+   * with the retired place's, which already count these reviews
+   *
+   * @param fromPlaceId - ID of the retired place
+   * @param toPlaceId - ID of the place it was merged into
+   */
+  async transfer(fromPlaceId: string, toPlaceId: string): Promise<void> {
+    const moved = await this.reviewRepository.reassign(fromPlaceId, toPlaceId);
+
+    if (moved.length > 0) {
+      this.logger.log(`Moved ${moved.length} reviews from ${fromPlaceId} to ${toPlaceId}`);
+    }
+  }
+
+  /**
+   * Loads a place, following redirects left by merges
+   *
+   * @param placeId - Place ID
+   * @returns Place
+   * @throws PlaceNotFoundException if the place does not exist
+   */
+  private async findPlace(placeId: string): Promise<Place> {
+    const place = await this.placesService.findById(placeId);
+    if (!place) {
+      throw new PlaceNotFoundException(placeId);
+    }
+    return place;
+  }
+
+  /**
+   * Folds review ratings into a place's average rating and counts
+   * Ratings the place already had from other sources keep their weight. The
+   * average is stored unrounded so the rating total it stands for stays exact.
+   * The place is rewritten through PlacesService, which queues the writes of a
+   * place so concurrent reviews and edits cannot overwrite each other
+   *
+   * @param placeId - Place ID
+   * @param reviews - New reviews of the place
+   */
+  private async addRatings(placeId: string, reviews: Review[]): Promise<void> {
+    await this.placesService.modify(placeId, place => {
+      const count = RatingUtil.countOf(place);
+      const total = (place.rating ?? 0) * count + reviews.reduce((sum, review) => sum + review.rating, 0);
+      const ratingCount = count + reviews.length;
+
+      return {
+        ...place,
+        rating: total / ratingCount,
+        rating_count: ratingCount,
+        review_count: (place.review_count ?? 0) + reviews.length,
+      };
+    });
+  }
+}
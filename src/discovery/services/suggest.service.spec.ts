@@ -0,0 +1,250 @@
+import { ConfigService } from '@nestjs/config';
+import { Place, PlaceCategory, SuggestQuery, Suggestion } from '../../common/interfaces/location.interface';
+import { TextIndex } from '../../common/indexes/text-index';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+import { InMemoryPlaceRepository } from '../repositories/in-memory-place.repository';
+import { MockDataService } from './mock-data.service';
+import { PlaceIndexService } from './place-index.service';
+import { SuggestService } from './suggest.service';
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const ADJECTIVES = [
+  'Golden', 'Blue', 'Little', 'Royal', 'Urban', 'Hidden', 'Silver', 'Green', 'Happy', 'Old',
+  'Grand', 'Lucky', 'Red', 'Wild', 'Quiet', 'Bright', 'Cozy', 'Rustic', 'Modern', 'Sunny',
+];
+const NOUNS = [
+  'Dragon', 'Bottle', 'Oak', 'Harbor', 'Garden', 'Lantern', 'Anchor', 'Maple', 'Tiger', 'Bridge',
+  'Corner', 'River', 'Falcon', 'Meadow', 'Tower', 'Pepper', 'Olive', 'Cedar', 'Comet', 'Brook',
+];
+const SUFFIXES = ['Cafe', 'Bistro', 'Market', 'Lounge', 'Kitchen', 'Studio', 'Bakery', 'Tavern'];
+const CATEGORIES = Object.values(PlaceCategory);
+
+const generatePlaces = (count: number, seed: number): Place[] => {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const places: Place[] = new Array(count);
+
+  for (let i = 0; i < count; i++) {
+    places[i] = {
+      id: `s${i}`,
+      name: `${pick(ADJECTIVES)} ${pick(NOUNS)} ${pick(SUFFIXES)} ${i % 500}`,
+      category: pick(CATEGORIES),
+      description: '',
+      distance_km: 0,
+      open_now: true,
+      image_url: 'https://example.com/place.jpg',
+      location: {
+        lat: 40.5 + random() * 0.5,
+        lng: -74.3 + random() * 0.6,
+        address: '',
+      },
+    };
+  }
+
+  return places;
+};
+
+const createIndex = async (places: Place[]): Promise<PlaceIndexService> => {
+  const placeIndexService = new PlaceIndexService(
+    new InMemoryPlaceRepository(places),
+    new ConfigService(),
+  );
+  await placeIndexService.rebuild();
+  return placeIndexService;
+};
+
+const createService = async (places: Place[]): Promise<SuggestService> =>
+  new SuggestService(await createIndex(places), new ConfigService());
+
+const startsEveryWord = (text: string, prefix: string): boolean => {
+  const terms = TextIndex.tokenize(text);
+  return TextIndex.tokenize(prefix).every(prefixTerm =>
+    terms.some(term => term.startsWith(prefixTerm)),
+  );
+};
+
+describe('SuggestService', () => {
+  describe('with the sample places', () => {
+    let service: SuggestService;
+
+    beforeAll(async () => {
+      service = await createService(new MockDataService().getAllPlaces());
+    });
+
+    it('completes multi-word place names', () => {
+      const { suggestions } = service.suggest({
+        prefix: 'blue bo',
+        latitude: 40.7128,
+        longitude: -74.0060,
+      });
+
+      expect(suggestions[0]).toMatchObject({
+        type: 'place',
+        text: 'Blue Bottle Coffee',
+        place_id: 'cafe_002',
+        category: 'cafe',
+      });
+    });
+
+    it('suggests categories with a place in the radius', () => {
+      const { suggestions } = service.suggest({
+        prefix: 'ba',
+        latitude: 40.7128,
+        longitude: -74.0060,
+        radius: 10,
+        limit: 10,
+      });
+      const categories = suggestions
+        .filter(suggestion => suggestion.type === 'category')
+        .map(suggestion => [suggestion.text, suggestion.category])
+        .sort();
+
+      expect(categories).toEqual([['Bank', 'bank'], ['Bar', 'bar']]);
+      expect(suggestions.map(suggestion => suggestion.text)).toContain('Chase Bank');
+    });
+
+    it('ranks leading matches above later-word matches at similar distance', () => {
+      const { suggestions } = service.suggest({
+        prefix: 'park',
+        latitude: 40.7829,
+        longitude: -73.9654,
+        limit: 10,
+      });
+
+      expect(suggestions[0]).toMatchObject({ type: 'category', text: 'Park', category: 'park' });
+      expect(suggestions.map(suggestion => suggestion.text)).toContain('Central Park');
+    });
+
+    it('matches categories by display name', () => {
+      const { suggestions } = service.suggest({
+        prefix: 'caf',
+        latitude: 40.7128,
+        longitude: -74.0060,
+      });
+
+      expect(suggestions).toContainEqual(
+        expect.objectContaining({ type: 'category', text: 'Café', category: 'cafe' }),
+      );
+    });
+
+    it('completes place names from the first letter', () => {
+      const query = { latitude: 40.7829, longitude: -73.9654, limit: 10 };
+
+      expect(service.suggest({ ...query, prefix: 'c' }).suggestions.map(suggestion => suggestion.text))
+        .toContain('Central Park');
+      expect(service.suggest({ ...query, prefix: 'central p' }).suggestions[0]).toMatchObject({
+        type: 'place',
+        text: 'Central Park',
+      });
+    });
+
+    it('rejects prefixes without letters or digits', () => {
+      expect(() =>
+        service.suggest({ prefix: '--', latitude: 40.7128, longitude: -74.0060 }),
+      ).toThrow('Invalid prefix');
+    });
+  });
+
+  it('keeps leading matches that many closer later-word matches would crowd out', async () => {
+    const template = generatePlaces(1, 1)[0];
+    const place = (id: string, name: string, lat: number): Place => ({
+      ...template,
+      id,
+      name,
+      location: { lat, lng: -74, address: '' },
+    });
+    const service = await createService([
+      place('leading', 'Golden Gate Deli', 40.7045),
+      ...Array.from({ length: 30 }, (_, i) => place(`word_${i}`, `Old Golden ${i}`, 40.7027)),
+    ]);
+
+    const { suggestions } = service.suggest({ prefix: 'golden', latitude: 40.7, longitude: -74, limit: 5 });
+
+    expect(suggestions[0]).toMatchObject({ place_id: 'leading', text: 'Golden Gate Deli' });
+    expect(suggestions).toHaveLength(5);
+  });
+
+  describe('with 100k synthetic places', () => {
+    const places = generatePlaces(100_000, 11);
+    const random = createRandom(5);
+    const prefixes = [
+      ...ADJECTIVES.map(word => word.slice(0, 2)),
+      ...NOUNS.map(word => word.slice(0, 3)),
+      ...SUFFIXES.map(word => word.toLowerCase()),
+      'golden dr', 'blue bottle ca', 'royal t', 'cozy ma', 'olive', 'hospital', 'ph', 'b', 'm', 'red c',
+    ];
+    let placeIndexService: PlaceIndexService;
+    let service: SuggestService;
+
+    beforeAll(async () => {
+      placeIndexService = await createIndex(places);
+      service = new SuggestService(placeIndexService, new ConfigService());
+    });
+
+    const randomQuery = (): Required<SuggestQuery> => ({
+      prefix: prefixes[Math.floor(random() * prefixes.length)],
+      latitude: 40.5 + random() * 0.5,
+      longitude: -74.3 + random() * 0.6,
+      radius: 1 + random() * 9,
+      limit: 5,
+    });
+
+    it('returns valid, ranked suggestions', () => {
+      let answered = 0;
+
+      for (let i = 0; i < 100; i++) {
+        const query = randomQuery();
+        const { suggestions } = service.suggest(query);
+
+        answered += suggestions.length > 0 ? 1 : 0;
+        expect(suggestions.length).toBeLessThanOrEqual(query.limit);
+        suggestions.forEach((suggestion: Suggestion, index) => {
+          expect(startsEveryWord(suggestion.text, query.prefix)).toBe(true);
+          expect(suggestion.distance_km).toBeLessThanOrEqual(query.radius + 0.01);
+          if (index > 0) {
+            expect(suggestion.score).toBeLessThanOrEqual(suggestions[index - 1].score);
+          }
+        });
+      }
+
+      expect(answered).toBeGreaterThan(80);
+    });
+
+    it('rates only the matching names within the radius, once each', () => {
+      const tokenize = jest.spyOn(TextIndex, 'tokenize');
+      let totalExamined = 0;
+      let totalMatches = 0;
+
+      for (let i = 0; i < 100; i++) {
+        const query = randomQuery();
+        const center = { lat: query.latitude, lng: query.longitude };
+        const matches = placeIndexService.searchNames(query.prefix);
+        const matchesInRadius = placeIndexService.findNearestAmong(center, matches, matches.size, query.radius).length;
+        tokenize.mockClear();
+
+        service.suggest(query);
+
+        // Every other tokenize call rates a category name or reads the prefix
+        const examined = tokenize.mock.calls.length - TaxonomyUtil.ids().length - 3;
+        expect(examined).toBeLessThanOrEqual(matchesInRadius);
+        totalExamined += examined;
+        totalMatches += matches.size;
+      }
+
+      tokenize.mockRestore();
+      expect(totalExamined).toBeLessThan(totalMatches / 5);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  InvalidCoordinatesException,
+  InvalidParameterException,
+  RadiusOutOfRangeException,
+} from '../../common/exceptions/domain.exceptions';
+import {
+  Coordinates,
+  Place,
+  SuggestQuery,
+  SuggestResponse,
+  Suggestion,
+} from '../../common/interfaces/location.interface';
+import { TextIndex } from '../../common/indexes/text-index';
+import { DistanceUtil } from '../../common/utils/distance.util';
+import { TaxonomyUtil } from '../../common/utils/taxonomy.util';
+import { PlaceIndexService } from './place-index.service';
+
+/**
+ * Autocomplete service suggesting place names and categories near the user
+ * Suggestions are ranked by how well the prefix matches and by proximity
+ */
+@Injectable()
+export class SuggestService {
+  /** Match quality when the text starts with the prefix */
+  private static readonly LEADING_MATCH = 1;
+  /** Match quality when a later word starts with the prefix */
+  private static readonly WORD_MATCH = 0.7;
+  /** Distance in kilometers at which proximity halves the score */
+  private static readonly PROXIMITY_SCALE_KM = 1;
+  /** Nearest matching places considered per requested suggestion and match tier */
+  private static readonly CANDIDATES_PER_SUGGESTION = 4;
+
+  private readonly logger = new Logger(SuggestService.name);
+  private readonly defaultRadius: number;
+  private readonly maxRadius: number;
+
+  constructor(
+    private readonly placeIndexService: PlaceIndexService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultRadius = this.configService.get<number>('discovery.defaultRadius', 5.0);
+    this.maxRadius = this.configService.get<number>('discovery.maxRadius', 50.0);
+  }
+
+  /**
+   * Suggests place names and categories for a typed prefix
+   *
+   * @param query - Suggest query parameters
+   * @returns Suggest response with the best suggestions first
+   */
+  suggest(query: SuggestQuery): SuggestResponse {
+    const startTime = Date.now();
+    this.validateQuery(query);
+
+    const radius = query.radius || this.defaultRadius;
+    const limit = query.limit || 5;
+    const center: Coordinates = { lat: query.latitude, lng: query.longitude };
+    const prefixTerms = TextIndex.tokenize(query.prefix);
+
+    const suggestions = [
+      ...this.suggestPlaces(center, query.prefix, prefixTerms, radius, limit),
+      ...this.suggestCategories(center, prefixTerms, radius),
+    ]
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.distance_km - b.distance_km ||
+          (a.text < b.text ? -1 : a.text > b.text ? 1 : 0),
+      )
+      .slice(0, limit);
+
+    const processingTime = Date.now() - startTime;
+    this.logger.debug(`Suggest "${query.prefix}": ${suggestions.length} suggestions in ${processingTime}ms`);
+
+    return {
+      suggestions,
+      query: {
+        prefix: query.prefix,
+        latitude: query.latitude,
+        longitude: query.longitude,
+        radius,
+        limit,
+      },
+      metadata: {
+        processing_time_ms: processingTime,
+        timestamp: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Suggests names of the nearest places matching the prefix
+   * The nearest candidates are fetched separately for leading and later-word
+   * matches, so close later-word matches cannot crowd out leading ones; a
+   * name's match quality is only computed for places visited by the nearest
+   * search. Places sharing a name (e.g. chain branches) yield one suggestion
+   *
+   * @param center - User location
+   * @param prefix - Typed prefix
+   * @param prefixTerms - Normalized prefix words
+   * @param radius - Search radius in kilometers
+   * @param limit - Maximum number of suggestions
+   * @returns Place suggestions
+   */
+  private suggestPlaces(
+    center: Coordinates,
+    prefix: string,
+    prefixTerms: string[],
+    radius: number,
+    limit: number,
+  ): Suggestion[] {
+    const matches = this.placeIndexService.searchNames(prefix);
+    const qualities = new Map<string, number>();
+    const qualityOf = (place: Place): number => {
+      let quality = qualities.get(place.id);
+      if (quality === undefined) {
+        quality = this.matchQuality(place.name, prefixTerms);
+        qualities.set(place.id, quality);
+      }
+      return quality;
+    };
+    const byName = new Map<string, Suggestion>();
+
+    for (const quality of [SuggestService.LEADING_MATCH, SuggestService.WORD_MATCH]) {
+      const candidates = this.placeIndexService.findNearestAmong(
+        center,
+        matches,
+        limit * SuggestService.CANDIDATES_PER_SUGGESTION,
+        radius,
+        place => qualityOf(place) === quality,
+      );
+
+      for (const place of candidates) {
+        const key = place.name.toLowerCase();
+        const suggestion: Suggestion = {
+          type: 'place',
+          text: place.name,
+          category: place.category,
+          place_id: place.id,
+          distance_km: Math.round(place.distance_km * 100) / 100,
+          score: this.score(quality, place.distance_km),
+        };
+        const existing = byName.get(key);
+
+        if (!existing || suggestion.score > existing.score) {
+          byName.set(key, suggestion);
+        }
+      }
+    }
+
+    return Array.from(byName.values());
+  }
+
+  /**
+   * Suggests categories whose display name matches the prefix and that have a
+   * place (of the category or one of its sub-categories) within the radius
+   *
+   * @param center - User location
+   * @param prefixTerms - Normalized prefix words
+   * @param radius - Search radius in kilometers
+   * @returns Category suggestions
+   */
+  private suggestCategories(
+    center: Coordinates,
+    prefixTerms: string[],
+    radius: number,
+  ): Suggestion[] {
+    const suggestions: Suggestion[] = [];
+
+    for (const category of TaxonomyUtil.ids()) {
+      const name = TaxonomyUtil.find(category)?.name ?? category;
+      const quality = this.matchQuality(name, prefixTerms);
+      if (quality === 0) {
+        continue;
+      }
+
+      const matching = TaxonomyUtil.expand([category]);
+      const [nearest] = this.placeIndexService.findNearest(
+        center,
+        1,
+        radius,
+        place => matching.has(place.category),
+      );
+      if (!nearest) {
+        continue;
+      }
+
+      suggestions.push({
+        type: 'category',
+        text: name,
+        category,
+        distance_km: Math.round(nearest.distance_km * 100) / 100,
+        score: this.score(quality, nearest.distance_km),
+      });
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Rates how well a text matches the prefix words
+   * Every prefix word must start a word of the text, in any order
+   *
+   * @param text - Candidate text
+   * @param prefixTerms - Normalized prefix words
+   * @returns LEADING_MATCH, WORD_MATCH, or 0 if the text does not match
+   */
+  private matchQuality(text: string, prefixTerms: string[]): number {
+    const terms = TextIndex.tokenize(text);
+    const matches = prefixTerms.every(prefixTerm =>
+      terms.some(term => term.startsWith(prefixTerm)),
+    );
+
+    if (!matches) {
+      return 0;
+    }
+
+    return terms.join(' ').startsWith(prefixTerms.join(' '))
+      ? SuggestService.LEADING_MATCH
+      : SuggestService.WORD_MATCH;
+  }
+
+  /**
+   * Combines match quality with proximity
+   *
+   * @param quality - Prefix match quality
+   * @param distanceKm - Distance in kilometers
+   * @returns Score rounded to four decimals
+   */
+  private score(quality: number, distanceKm: number): number {
+    const proximity = 1 / (1 + distanceKm / SuggestService.PROXIMITY_SCALE_KM);
+    return Math.round(quality * proximity * 10000) / 10000;
+  }
+
+  /**
+   * Validates suggest query parameters
+   *
+   * @param query - Query to validate
+   * @throws DomainException if validation fails
+   */
+  private validateQuery(query: SuggestQuery): void {
+    if (!DistanceUtil.isValidCoordinates({ lat: query.latitude, lng: query.longitude })) {
+      throw new InvalidCoordinatesException(`Invalid coordinates: ${query.latitude}, ${query.longitude}.`);
+    }
+
+    if (query.radius && (query.radius < 0.1 || query.radius > this.maxRadius)) {
+      throw new RadiusOutOfRangeException(query.radius, this.maxRadius);
+    }
+
+    if (TextIndex.tokenize(query.prefix).length === 0) {
+      throw new InvalidParameterException('prefix', `Invalid prefix: "${query.prefix}". Must contain at least one letter or digit.`);
+    }
+  }
+}
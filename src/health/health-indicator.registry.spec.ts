@@ -0,0 +1,51 @@
+import { ConfigService } from '@nestjs/config';
+import { HealthCheck, HealthIndicator } from './health-indicator';
+import { HealthIndicatorRegistry } from './health-indicator.registry';
+
+describe('HealthIndicatorRegistry', () => {
+  const indicator = (name: string, check: () => Promise<HealthCheck>): HealthIndicator =>
+    new (class extends HealthIndicator {
+      check(): Promise<HealthCheck> {
+        return check();
+      }
+    })(name);
+  let registry: HealthIndicatorRegistry;
+
+  beforeEach(() => {
+    registry = new HealthIndicatorRegistry(new ConfigService({ health: { checkTimeout: 50 } }));
+  });
+
+  it('reports ok with the result and latency of every indicator', async () => {
+    registry.register(indicator('store', async () => ({ status: 'up', details: { places: 3 } })));
+    registry.register(indicator('cache', async () => ({ status: 'up' })));
+
+    const report = await registry.checkAll();
+
+    expect(report.status).toBe('ok');
+    expect(Object.keys(report.checks)).toEqual(['store', 'cache']);
+    expect(report.checks.store).toMatchObject({ status: 'up', details: { places: 3 } });
+    expect(report.checks.store.latency_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports degraded when an indicator is down, throws or times out', async () => {
+    registry.register(indicator('index', async () => ({ status: 'down' })));
+    registry.register(indicator('store', async () => {
+      throw new Error('Database is locked');
+    }));
+    registry.register(indicator('redis', () => new Promise<HealthCheck>(() => undefined)));
+
+    const report = await registry.checkAll();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks.index.status).toBe('down');
+    expect(report.checks.store).toMatchObject({ status: 'down', error: 'Database is locked' });
+    expect(report.checks.redis).toMatchObject({ status: 'down', error: 'Timed out after 50ms' });
+  });
+
+  it('replaces indicators registered under the same name', async () => {
+    registry.register(indicator('store', async () => ({ status: 'down' })));
+    registry.register(indicator('store', async () => ({ status: 'up' })));
+
+    expect((await registry.checkAll()).status).toBe('ok');
+  });
+});
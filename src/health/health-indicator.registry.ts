@@ -0,0 +1,71 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HealthCheck, HealthIndicator, HealthIndicatorResult, HealthReport } from './health-indicator';
+
+/**
+ * Registry of the health indicators of the application
+ * Runs every registered indicator in parallel, timing each one and bounding
+ * it by `health.checkTimeout`, to tell whether the API can serve traffic
+ */
+@Injectable()
+export class HealthIndicatorRegistry {
+  private readonly logger = new Logger(HealthIndicatorRegistry.name);
+  private readonly indicators = new Map<string, HealthIndicator>();
+  private readonly timeoutMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.timeoutMs = this.configService.get<number>('health.checkTimeout', 2000);
+  }
+
+  /**
+   * Adds an indicator, replacing any with the same name
+   *
+   * @param indicator - Health indicator
+   */
+  register(indicator: HealthIndicator): void {
+    this.indicators.set(indicator.name, indicator);
+  }
+
+  /**
+   * Runs every indicator
+   *
+   * @returns Status of each dependency and the overall status
+   */
+  async checkAll(): Promise<HealthReport> {
+    const results = await Promise.all(
+      [...this.indicators.values()].map(async indicator => [indicator.name, await this.run(indicator)] as const),
+    );
+    const checks = Object.fromEntries(results);
+
+    return {
+      status: results.every(([, result]) => result.status === 'up') ? 'ok' : 'degraded',
+      timestamp: new Date().toISOString(),
+      checks,
+    };
+  }
+
+  /**
+   * Runs one indicator, reporting it down when it throws or times out
+   *
+   * @param indicator - Health indicator
+   * @returns Indicator result with latency
+   */
+  private async run(indicator: HealthIndicator): Promise<HealthIndicatorResult> {
+    const startTime = process.hrtime.bigint();
+    const latency = (): number => Math.round(Number(process.hrtime.bigint() - startTime) / 1e4) / 100;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+      });
+      const check: HealthCheck = await Promise.race([indicator.check(), timeout]);
+      return { ...check, latency_ms: latency() };
+    } catch (error) {
+      this.logger.warn(`Health check ${indicator.name} failed: ${error.message}`);
+      return { status: 'down', latency_ms: latency(), error: error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Status of one dependency as reported by its indicator
+ */
+export interface HealthCheck {
+  status: 'up' | 'down';
+  /** Dependency-specific facts, e.g. the number of stored places */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Result of running one indicator
+ */
+export interface HealthIndicatorResult extends HealthCheck {
+  /** Time the check took in milliseconds */
+  latency_ms: number;
+  /** Why the check failed, when it threw or timed out */
+  error?: string;
+}
+
+/**
+ * Outcome of running every registered indicator
+ */
+export interface HealthReport {
+  /** ok when every dependency is up, degraded otherwise */
+  status: 'ok' | 'degraded';
+  timestamp: string;
+  checks: Record<string, HealthIndicatorResult>;
+}
+
+/**
+ * Dependency whose status decides whether the API is ready for traffic
+ * Feature modules provide indicators and add them to HealthIndicatorRegistry
+ * when they start; a check that throws or times out reports the dependency down
+ */
+export abstract class HealthIndicator {
+  /**
+   * @param name - Dependency name used as key in health reports
+   */
+  constructor(readonly name: string) {}
+
+  /**
+   * Checks the dependency
+   *
+   * @returns Status and details of the dependency
+   */
+  abstract check(): Promise<HealthCheck>;
+}
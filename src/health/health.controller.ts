@@ -1,5 +1,32 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, HttpStatus, Res, UseInterceptors } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Response } from 'express';
+import { MetricsInterceptor } from '../metrics/metrics.interceptor';
+import { HealthReport } from './health-indicator';
+import { HealthIndicatorRegistry } from './health-indicator.registry';
+
+/**
+ * Swagger schema of health indicator reports
+ */
+const HEALTH_REPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['ok', 'degraded'], example: 'ok' },
+    timestamp: { type: 'string', example: '2024-01-15T10:30:00.000Z' },
+    checks: {
+      type: 'object',
+      example: {
+        placeStore: { status: 'up', details: { places: 20 }, latency_ms: 0.41 },
+        placeIndex: { status: 'up', details: { places: 20, revision: 1 }, latency_ms: 0.02 },
+        discoveryCache: {
+          status: 'up',
+          details: { enabled: true, entries: 12, maxEntries: 1000, hitRate: 0.62 },
+          latency_ms: 0.03,
+        },
+      },
+    },
+  },
+};
 
 /**
  * Health check controller for monitoring application status
@@ -7,7 +34,10 @@ import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
  */
 @ApiTags('health')
 @Controller('health')
+@UseInterceptors(MetricsInterceptor)
 export class HealthController {
+  constructor(private readonly registry: HealthIndicatorRegistry) {}
+
   /**
    * Basic health check endpoint
    * 
@@ -70,6 +100,66 @@ export class HealthController {
     };
   }
 
+  /**
+   * Liveness probe
+   * Answers as long as the process serves requests, whatever its dependencies
+   * say, so orchestrators only restart processes that are stuck
+   *
+   * @returns Liveness status
+   */
+  @Get('live')
+  @ApiOperation({
+    summary: 'Liveness probe',
+    description: 'Returns 200 while the process is able to serve requests',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Process is alive',
+    schema: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', example: 'ok' },
+        timestamp: { type: 'string', example: '2024-01-15T10:30:00.000Z' },
+        uptime: { type: 'number', example: 12345.678 },
+      },
+    },
+  })
+  getLiveness(): { status: string; timestamp: string; uptime: number } {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+    };
+  }
+
+  /**
+   * Readiness probe
+   * Runs every registered health indicator; any dependency down, including
+   * place indexes that are not built yet, makes the API unready
+   *
+   * @param response - HTTP response, to answer 503 when degraded
+   * @returns Status of each dependency
+   */
+  @Get('ready')
+  @ApiOperation({
+    summary: 'Readiness probe',
+    description: `
+      Checks the place store, the place indexes and the discovery cache.
+      Returns 503 until the places are indexed and whenever a dependency is down.
+    `,
+  })
+  @ApiResponse({ status: 200, description: 'Every dependency is up', schema: HEALTH_REPORT_SCHEMA })
+  @ApiResponse({ status: 503, description: 'A dependency is down', schema: HEALTH_REPORT_SCHEMA })
+  async getReadiness(@Res({ passthrough: true }) response: Response): Promise<HealthReport> {
+    const report = await this.registry.checkAll();
+
+    if (report.status !== 'ok') {
+      response.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+
+    return report;
+  }
+
   /**
    * Detailed health check with service dependencies
    * 
@@ -78,7 +168,7 @@ export class HealthController {
   @Get('detailed')
   @ApiOperation({
     summary: 'Detailed health check',
-    description: 'Returns detailed health information including service dependencies',
+    description: 'Returns the status and latency of each dependency together with system information',
   })
   @ApiResponse({
     status: 200,
@@ -86,16 +176,7 @@ export class HealthController {
     schema: {
       type: 'object',
       properties: {
-        status: { type: 'string', example: 'ok' },
-        timestamp: { type: 'string', example: '2024-01-15T10:30:00.000Z' },
-        services: {
-          type: 'object',
-          properties: {
-            api: { type: 'string', example: 'healthy' },
-            discovery: { type: 'string', example: 'healthy' },
-            mockData: { type: 'string', example: 'healthy' },
-          },
-        },
+        ...HEALTH_REPORT_SCHEMA.properties,
         system: {
           type: 'object',
           properties: {
@@ -107,24 +188,15 @@ export class HealthController {
       },
     },
   })
-  getDetailedHealth(): {
-    status: string;
-    timestamp: string;
-    services: Record<string, string>;
+  async getDetailedHealth(): Promise<HealthReport & {
     system: {
       platform: string;
       nodeVersion: string;
       uptime: number;
     };
-  } {
+  }> {
     return {
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      services: {
-        api: 'healthy',
-        discovery: 'healthy',
-        mockData: 'healthy',
-      },
+      ...(await this.registry.checkAll()),
       system: {
         platform: process.platform,
         nodeVersion: process.version,
@@ -132,4 +204,4 @@ export class HealthController {
       },
     };
   }
-} 
\ No newline at end of file
+}
@@ -1,13 +1,17 @@
 import { Module } from '@nestjs/common';
+import { MetricsModule } from '../metrics/metrics.module';
 import { HealthController } from './health.controller';
+import { HealthIndicatorRegistry } from './health-indicator.registry';
 
 /**
  * Health module containing health check functionality
- * Provides endpoints for monitoring application health and status
+ * Provides endpoints for monitoring application health and status, and the
+ * registry feature modules add their dependency health indicators to
  */
 @Module({
+  imports: [MetricsModule],
   controllers: [HealthController],
-  providers: [],
-  exports: [],
+  providers: [HealthIndicatorRegistry],
+  exports: [HealthIndicatorRegistry],
 })
 export class HealthModule {} 
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { ConfigService } from '@nestjs/config';
+import { AppLogger } from './app-logger.service';
+import { requestContext } from './request-context';
+
+describe('AppLogger', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const createLogger = (logging: Record<string, unknown> = {}): AppLogger =>
+    new AppLogger(new ConfigService({ logging: { format: 'json', ...logging } }));
+  const lines = (spy: jest.SpyInstance): Record<string, unknown>[] =>
+    spy.mock.calls.map(([line]) => JSON.parse(line as string));
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes JSON lines with context, request ID and structured fields', () => {
+    requestContext.run({ requestId: 'req-1' }, () => {
+      createLogger().log({ message: 'Starting discovery query', query: { radius: 2 } }, 'DiscoveryService');
+    });
+
+    expect(lines(stdout)).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        context: 'DiscoveryService',
+        request_id: 'req-1',
+        message: 'Starting discovery query',
+        query: { radius: 2 },
+      }),
+    ]);
+  });
+
+  it('writes errors and their stack to stderr', () => {
+    const error = new Error('Boom');
+    createLogger().error('Discovery failed: Boom', error.stack, 'DiscoveryService');
+
+    const [entry] = lines(stderr);
+    expect(entry).toMatchObject({ level: 'error', context: 'DiscoveryService', message: 'Discovery failed: Boom' });
+    expect(entry.stack).toBe(error.stack);
+    expect(entry).not.toHaveProperty('request_id');
+  });
+
+  it('skips levels below LOG_LEVEL', () => {
+    const logger = createLogger({ level: 'warn' });
+    logger.log('hidden');
+    logger.debug('hidden');
+    logger.warn('shown');
+
+    expect(lines(stdout).map(entry => entry.message)).toEqual(['shown']);
+    expect(logger.isLevelEnabled('error')).toBe(true);
+    expect(logger.isLevelEnabled('log')).toBe(false);
+  });
+
+  it('rounds coordinates by default and removes them on request', () => {
+    const query = { latitude: 40.712776, longitude: -74.005974, minLat: 40.70001, polyline: '_p~iF~ps|U', radius: 2.345 };
+
+    createLogger().log({ message: 'query', query });
+    createLogger({ redactCoordinates: 'remove' }).log({ message: 'query', query });
+    createLogger({ redactCoordinates: 'none' }).log({ message: 'query', query });
+
+    const [rounded, removed, raw] = lines(stdout).map(entry => entry.query);
+    expect(rounded).toEqual({ latitude: 40.71, longitude: -74.01, minLat: 40.7, polyline: '[redacted]', radius: 2.345 });
+    expect(removed).toEqual({
+      latitude: '[redacted]',
+      longitude: '[redacted]',
+      minLat: '[redacted]',
+      polyline: '[redacted]',
+      radius: 2.345,
+    });
+    expect(raw).toEqual(query);
+  });
+
+  it('redacts GeoJSON coordinates at the configured precision', () => {
+    const polygon = { type: 'Polygon', coordinates: [[[-74.00597, 40.71277], [-73.98765, 40.75432]]] };
+
+    createLogger({ coordinatePrecision: 1 }).log({ message: 'polygon', polygon });
+
+    expect(lines(stdout)[0].polygon).toEqual({ type: 'Polygon', coordinates: [[[-74, 40.7], [-74, 40.8]]] });
+  });
+});
@@ -0,0 +1,168 @@
+import { ConsoleLogger, Injectable, LoggerService, LogLevel } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CoordinateRedaction, redactCoordinates } from './coordinate-redaction';
+import { requestContext } from './request-context';
+
+/**
+ * Log levels from most to least verbose
+ */
+const LEVELS: LogLevel[] = ['verbose', 'debug', 'log', 'warn', 'error', 'fatal'];
+
+/**
+ * Entry keys the text format prints outside the extra fields
+ */
+const ENTRY_KEYS = new Set(['timestamp', 'level', 'context', 'request_id', 'message', 'stack']);
+
+/**
+ * One structured log entry
+ */
+interface LogEntry {
+  timestamp: string;
+  level: string;
+  context?: string;
+  request_id?: string;
+  message: string;
+  stack?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Application logger honoring `logging.level` and `logging.format`
+ * The json format writes one object per line for log shippers; the text
+ * format keeps Nest's console output. Both tag lines with the current
+ * request ID and redact coordinates as `logging.redactCoordinates` says.
+ * Messages may be objects with a `message` and extra structured fields.
+ */
+@Injectable()
+export class AppLogger implements LoggerService {
+  private readonly console = new ConsoleLogger();
+  private readonly enabledLevels: Set<LogLevel>;
+  private readonly format: string;
+  private readonly redaction: CoordinateRedaction;
+  private readonly precision: number;
+
+  constructor(configService: ConfigService) {
+    const level = configService.get<string>('logging.level', 'info');
+    const threshold = LEVELS.indexOf((level === 'info' ? 'log' : level) as LogLevel);
+    this.enabledLevels = new Set(LEVELS.slice(threshold >= 0 ? threshold : LEVELS.indexOf('log')));
+    this.format = configService.get<string>('logging.format', 'json');
+    this.redaction = configService.get<CoordinateRedaction>('logging.redactCoordinates', 'round');
+    this.precision = configService.get<number>('logging.coordinatePrecision', 2);
+  }
+
+  log(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('log', message, optionalParams);
+  }
+
+  error(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('error', message, optionalParams);
+  }
+
+  warn(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('warn', message, optionalParams);
+  }
+
+  debug(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('debug', message, optionalParams);
+  }
+
+  verbose(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('verbose', message, optionalParams);
+  }
+
+  fatal(message: unknown, ...optionalParams: unknown[]): void {
+    this.write('fatal', message, optionalParams);
+  }
+
+  /**
+   * Tells whether a level is logged
+   *
+   * @param level - Log level
+   * @returns True if messages of the level are written
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return this.enabledLevels.has(level);
+  }
+
+  /**
+   * Builds the entry for a message
+   * Nest loggers pass the context last and, for errors, the stack before it
+   *
+   * @param level - Log level
+   * @param message - String, Error or object with a `message` and extra fields
+   * @param optionalParams - Stack and/or context
+   * @returns Log entry with coordinates redacted
+   */
+  private buildEntry(level: LogLevel, message: unknown, optionalParams: unknown[]): LogEntry {
+    const params = optionalParams.filter(param => param !== undefined);
+    const last = params[params.length - 1];
+    const context = typeof last === 'string' && !this.isStack(last) ? (params.pop() as string) : undefined;
+    const stack = params.find((param): param is string => typeof param === 'string');
+    const requestId = requestContext.getStore()?.requestId;
+
+    let text: string;
+    let fields: Record<string, unknown> = {};
+    if (message instanceof Error) {
+      text = message.message;
+      fields.stack = message.stack;
+    } else if (message !== null && typeof message === 'object') {
+      const { message: objectMessage, ...rest } = message as Record<string, unknown>;
+      text = String(objectMessage ?? '');
+      fields = rest;
+    } else {
+      text = String(message);
+    }
+
+    return {
+      timestamp: new Date().toISOString(),
+      level: level === 'log' ? 'info' : level,
+      ...(context ? { context } : {}),
+      ...(requestId ? { request_id: requestId } : {}),
+      message: text,
+      ...(redactCoordinates(fields, this.redaction, this.precision) as Record<string, unknown>),
+      ...(stack ? { stack } : {}),
+    };
+  }
+
+  /**
+   * Writes a message in the configured format
+   *
+   * @param level - Log level
+   * @param message - Message
+   * @param optionalParams - Stack and/or context
+   */
+  private write(level: LogLevel, message: unknown, optionalParams: unknown[]): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry = this.buildEntry(level, message, optionalParams);
+
+    if (this.format === 'json') {
+      const stream = level === 'error' || level === 'fatal' ? process.stderr : process.stdout;
+      stream.write(`${JSON.stringify(entry)}\n`);
+      return;
+    }
+
+    const { context, request_id, stack } = entry;
+    const fields = Object.fromEntries(Object.entries(entry).filter(([key]) => !ENTRY_KEYS.has(key)));
+    const line = [
+      request_id ? `[${request_id}]` : '',
+      entry.message,
+      Object.keys(fields).length > 0 ? JSON.stringify(fields) : '',
+    ].filter(part => part !== '').join(' ');
+    const params = [...(stack ? [stack] : []), ...(context ? [context] : [])];
+
+    this.console[level](line, ...params);
+  }
+
+  /**
+   * Tells whether a parameter is a stack trace rather than a context
+   *
+   * @param value - Logger parameter
+   * @returns True for stack traces
+   */
+  private isStack(value: unknown): boolean {
+    return typeof value === 'string' && /\n\s+at /.test(value);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * How coordinates are written to logs
+ * - none: as received
+ * - round: rounded to a configured number of decimals
+ * - remove: replaced with REDACTED
+ */
+export type CoordinateRedaction = 'none' | 'round' | 'remove';
+
+/** Placeholder for removed coordinates */
+export const REDACTED = '[redacted]';
+
+/**
+ * Log fields holding coordinates: points, bounding box edges, GeoJSON
+ * coordinates and encoded polylines
+ */
+const COORDINATE_FIELDS = new Set([
+  'latitude',
+  'longitude',
+  'lat',
+  'lng',
+  'minLat',
+  'minLng',
+  'maxLat',
+  'maxLng',
+  'coordinates',
+  'polyline',
+]);
+
+/**
+ * Redacts the coordinates of a log field value
+ * Objects and arrays are walked; values under coordinate fields are rounded
+ * or removed, anything else is kept
+ *
+ * @param value - Log field value
+ * @param mode - Redaction mode
+ * @param precision - Decimals kept in round mode
+ * @returns Value with coordinates redacted
+ */
+export function redactCoordinates(value: unknown, mode: CoordinateRedaction, precision: number): unknown {
+  if (mode === 'none') {
+    return value;
+  }
+
+  return redactValue(value, false, mode, precision);
+}
+
+/**
+ * Redacts a value, treating it as a coordinate inside coordinate fields
+ *
+ * @param value - Value to redact
+ * @param isCoordinate - Whether the value sits under a coordinate field
+ * @param mode - Redaction mode
+ * @param precision - Decimals kept in round mode
+ * @returns Redacted value
+ */
+function redactValue(
+  value: unknown,
+  isCoordinate: boolean,
+  mode: Exclude<CoordinateRedaction, 'none'>,
+  precision: number,
+): unknown {
+  if (Array.isArray(value)) {
+    return isCoordinate && mode === 'remove'
+      ? REDACTED
+      : value.map(item => redactValue(item, isCoordinate, mode, precision));
+  }
+
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        redactValue(field, isCoordinate || COORDINATE_FIELDS.has(key), mode, precision),
+      ]),
+    );
+  }
+
+  if (!isCoordinate || value === undefined || value === null) {
+    return value;
+  }
+
+  // Encoded polylines cannot be rounded
+  if (mode === 'remove' || typeof value !== 'number') {
+    return REDACTED;
+  }
+
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+}
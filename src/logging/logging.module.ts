@@ -0,0 +1,17 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { AppLogger } from './app-logger.service';
+import { RequestLoggingMiddleware } from './request-logging.middleware';
+
+/**
+ * Logging module providing the application logger
+ * Applies request correlation and access logging to every route
+ */
+@Module({
+  providers: [AppLogger],
+  exports: [AppLogger],
+})
+export class LoggingModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(RequestLoggingMiddleware).forRoutes('*');
+  }
+}
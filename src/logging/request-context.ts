@@ -0,0 +1,15 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request state carried through the async calls of one request
+ */
+export interface RequestContext {
+  /** Correlation ID from X-Request-Id, or generated for the request */
+  requestId: string;
+}
+
+/**
+ * Request context storage; RequestLoggingMiddleware runs each request inside it
+ * so log lines written while handling the request carry its ID
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
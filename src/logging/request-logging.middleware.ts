@@ -0,0 +1,61 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { requestContext } from './request-context';
+
+/**
+ * Request correlation and access logging middleware
+ * Takes the request ID from X-Request-Id (or generates one), echoes it in the
+ * response, runs the request inside its context and logs one line per
+ * request with route, status and latency once the response is sent
+ */
+@Injectable()
+export class RequestLoggingMiddleware implements NestMiddleware {
+  /** Response header carrying the request ID */
+  static readonly HEADER = 'X-Request-Id';
+
+  /** Accepted client request IDs; anything else is replaced to keep log lines clean */
+  private static readonly VALID_ID = /^[\w.:-]{1,128}$/;
+
+  private readonly logger = new Logger('HTTP');
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const startTime = process.hrtime.bigint();
+    const requestId = RequestLoggingMiddleware.requestIdOf(request);
+    response.setHeader(RequestLoggingMiddleware.HEADER, requestId);
+
+    response.on('finish', () => {
+      const status = response.statusCode;
+      const entry = {
+        message: `${request.method} ${request.route?.path ?? request.path} ${status}`,
+        request_id: requestId,
+        method: request.method,
+        // Route pattern rather than URL, so query coordinates stay out of logs
+        route: request.route?.path ?? 'unmatched',
+        status,
+        latency_ms: Math.round(Number(process.hrtime.bigint() - startTime) / 1e4) / 100,
+      };
+
+      if (status >= 500) {
+        this.logger.error(entry);
+      } else if (status >= 400) {
+        this.logger.warn(entry);
+      } else {
+        this.logger.log(entry);
+      }
+    });
+
+    requestContext.run({ requestId }, next);
+  }
+
+  /**
+   * Gets the request ID sent by the client, or generates one
+   *
+   * @param request - HTTP request
+   * @returns Request ID
+   */
+  private static requestIdOf(request: Request): string {
+    const header = request.header(RequestLoggingMiddleware.HEADER);
+    return header && RequestLoggingMiddleware.VALID_ID.test(header) ? header : uuidv4();
+  }
+}
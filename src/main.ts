@@ -6,6 +6,7 @@ import helmet from 'helmet';
 import * as compression from 'compression';
 
 import { AppModule } from './app.module';
+import { AppLogger } from './logging/app-logger.service';
 
 /**
  * Bootstrap function to initialize and start the NestJS application
@@ -15,8 +16,10 @@ async function bootstrap(): Promise<void> {
   const logger = new Logger('Bootstrap');
   
   try {
-    // Create NestJS application instance
-    const app = await NestFactory.create(AppModule);
+    // Create NestJS application instance; startup logs are buffered until the
+    // configured logger takes over
+    const app = await NestFactory.create(AppModule, { bufferLogs: true });
+    app.useLogger(app.get(AppLogger));
     
     // Get configuration service
     const configService = app.get(ConfigService);
@@ -40,8 +43,8 @@ async function bootstrap(): Promise<void> {
       credentials: true,
     });
     
-    // Global API prefix
-    app.setGlobalPrefix('api/v1');
+    // Global API prefix; Prometheus scrapes /metrics at the root
+    app.setGlobalPrefix('api/v1', { exclude: ['metrics'] });
     
     // Global validation pipe with comprehensive settings
     app.useGlobalPipes(
@@ -76,7 +79,12 @@ async function bootstrap(): Promise<void> {
         `)
         .setVersion('1.0.0')
         .addTag('discovery', 'Location discovery endpoints')
-        .addTag('health', 'Health check endpoints')
+        .addTag('places', 'Place management endpoints')
+        .addTag('auth', 'API key management endpoints')
+        .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key')
+        .addTag('users', 'User account and saved place endpoints')
+        .addBearerAuth()
+        .addTag('health', 'Health check and metrics endpoints')
         .setContact(
           'OnSpotX Team',
           'https://github.com/onspotx',
@@ -103,6 +111,7 @@ async function bootstrap(): Promise<void> {
     
     logger.log(`🚀 Application is running on: http://localhost:${port}`);
     logger.log(`🌍 Environment: ${environment}`);
+    logger.log(`📈 Prometheus metrics available at: http://localhost:${port}/metrics`);
     logger.log(`📊 Global prefix: api/v1`);
     
   } catch (error) {
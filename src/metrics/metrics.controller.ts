@@ -0,0 +1,36 @@
+import { Controller, Get, Header, Res } from '@nestjs/common';
+import { ApiOperation, ApiProduces, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Metrics controller exposing Prometheus metrics
+ * Served at /metrics, outside the API prefix, where Prometheus scrapes by default
+ */
+@ApiTags('health')
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  /**
+   * Renders the metrics in the Prometheus text format
+   *
+   * @param response - HTTP response, to set the exposition content type
+   * @returns Exposition text
+   */
+  @Get()
+  @Header('Cache-Control', 'no-store')
+  @ApiOperation({
+    summary: 'Prometheus metrics',
+    description: `
+      Request counts and latency histograms per route, discovery result counts,
+      per-category query counts, rate limit rejections and process metrics.
+    `,
+  })
+  @ApiProduces('text/plain')
+  @ApiResponse({ status: 200, description: 'Metrics in the Prometheus text format' })
+  async getMetrics(@Res({ passthrough: true }) response: Response): Promise<string> {
+    response.type(this.metricsService.contentType);
+    return this.metricsService.render();
+  }
+}
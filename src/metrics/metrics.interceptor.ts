@@ -0,0 +1,94 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Records request counts and latencies of a controller's routes, plus result
+ * counts and category filters of the discovery responses they return
+ *
+ * Listed on the controller, it wraps the method interceptors, so it sees the
+ * final status (e.g. 304 from ETagInterceptor) and body. Requests rejected by
+ * guards never reach it; rate limit rejections are counted by the throttler guard
+ */
+@Injectable()
+export class MetricsInterceptor implements NestInterceptor {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const route = MetricsInterceptor.routeOf(request);
+    const startTime = process.hrtime.bigint();
+    const record = (status: number): void => {
+      const durationSeconds = Number(process.hrtime.bigint() - startTime) / 1e9;
+      this.metricsService.recordRequest(request.method, route, status, durationSeconds);
+    };
+
+    return next.handle().pipe(
+      tap({
+        next: body => {
+          record(response.statusCode);
+          this.recordDiscovery(route, body);
+        },
+        error: error => {
+          record(error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR);
+        },
+      }),
+    );
+  }
+
+  /**
+   * Gets the route pattern of a request, keeping metric labels bounded
+   *
+   * @param request - Incoming request
+   * @returns Matched route pattern, e.g. `/api/v1/discover/places/:id`
+   */
+  static routeOf(request: Request): string {
+    return request.route?.path ?? 'unmatched';
+  }
+
+  /**
+   * Records result counts and categories of discovery responses
+   * Place lists carry a `total`; bodies with a lone `place` count it, and
+   * GeoJSON bodies count their features
+   *
+   * @param route - Route pattern
+   * @param body - Response body, in JSON or GeoJSON form
+   */
+  private recordDiscovery(route: string, body: unknown): void {
+    if (typeof body !== 'object' || body === null) {
+      return;
+    }
+
+    const { total, place, type, features, query } = body as {
+      total?: unknown;
+      place?: unknown;
+      type?: unknown;
+      features?: unknown;
+      query?: { categories?: string[] };
+    };
+    let count: number | undefined;
+
+    if (typeof total === 'number') {
+      count = total;
+    } else if ('place' in body) {
+      count = place ? 1 : 0;
+    } else if (type === 'FeatureCollection' && Array.isArray(features)) {
+      count = features.length;
+    }
+
+    if (count !== undefined) {
+      this.metricsService.recordDiscovery(route, count, query?.categories);
+    }
+  }
+}
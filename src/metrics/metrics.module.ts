@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { MetricsController } from './metrics.controller';
+import { MetricsInterceptor } from './metrics.interceptor';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Metrics module exposing Prometheus metrics
+ * Provides the /metrics endpoint and the interceptor feature modules use to
+ * record their requests
+ */
+@Module({
+  controllers: [MetricsController],
+  providers: [MetricsInterceptor, MetricsService],
+  exports: [MetricsInterceptor, MetricsService],
+})
+export class MetricsModule {}
@@ -0,0 +1,44 @@
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  it('renders request counters and latency histograms per route', async () => {
+    service.recordRequest('GET', '/api/v1/discover', 200, 0.012);
+    service.recordRequest('GET', '/api/v1/discover', 200, 0.3);
+    service.recordRequest('GET', '/api/v1/discover', 400, 0.001);
+
+    const metrics = await service.render();
+
+    expect(metrics).toContain('http_requests_total{method="GET",route="/api/v1/discover",status="200"} 2');
+    expect(metrics).toContain('http_requests_total{method="GET",route="/api/v1/discover",status="400"} 1');
+    expect(metrics).toContain(
+      'http_request_duration_seconds_bucket{le="0.025",method="GET",route="/api/v1/discover",status="200"} 1',
+    );
+    expect(service.contentType).toContain('text/plain');
+  });
+
+  it('renders result counts, category queries and rate limit rejections', async () => {
+    service.recordDiscovery('/api/v1/discover', 0, ['cafe', 'bar']);
+    service.recordDiscovery('/api/v1/discover', 12, ['cafe']);
+    service.recordThrottled('/api/v1/discover', 'short');
+
+    const metrics = await service.render();
+
+    expect(metrics).toContain('discovery_results_bucket{le="0",route="/api/v1/discover"} 1');
+    expect(metrics).toContain('discovery_results_count{route="/api/v1/discover"} 2');
+    expect(metrics).toContain('discovery_category_queries_total{category="cafe"} 2');
+    expect(metrics).toContain('discovery_category_queries_total{category="bar"} 1');
+    expect(metrics).toContain('throttler_rejections_total{route="/api/v1/discover",throttler="short"} 1');
+  });
+
+  it('keeps each instance in its own registry', async () => {
+    service.recordThrottled('/api/v1/discover', 'short');
+
+    expect(await new MetricsService().render()).not.toContain('throttler_rejections_total{');
+  });
+});
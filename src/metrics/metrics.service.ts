@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+
+/**
+ * Prometheus metrics of the API
+ * Each instance owns its registry, so several application instances (as in
+ * the e2e suite) never share or re-register collectors
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new Registry();
+
+  private readonly requests = new Counter({
+    name: 'http_requests_total',
+    help: 'HTTP requests handled, by method, route and status code',
+    labelNames: ['method', 'route', 'status'],
+    registers: [this.registry],
+  });
+
+  private readonly requestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency in seconds, by method, route and status code',
+    labelNames: ['method', 'route', 'status'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [this.registry],
+  });
+
+  private readonly discoveryResults = new Histogram({
+    name: 'discovery_results',
+    help: 'Places matching a discovery query, by route',
+    labelNames: ['route'],
+    buckets: [0, 1, 5, 10, 25, 50, 100, 250, 500],
+    registers: [this.registry],
+  });
+
+  private readonly categoryQueries = new Counter({
+    name: 'discovery_category_queries_total',
+    help: 'Discovery queries filtered by a category, by category',
+    labelNames: ['category'],
+    registers: [this.registry],
+  });
+
+  private readonly throttlerRejections = new Counter({
+    name: 'throttler_rejections_total',
+    help: 'Requests rejected by rate limiting, by route and throttler bucket',
+    labelNames: ['route', 'throttler'],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Content type of the exposition format
+   */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Renders every metric in the Prometheus text format
+   *
+   * @returns Exposition text
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  /**
+   * Records a handled request
+   *
+   * @param method - HTTP method
+   * @param route - Route pattern, e.g. `/api/v1/discover/places/:id`
+   * @param status - Response status code
+   * @param durationSeconds - Handling time in seconds
+   */
+  recordRequest(method: string, route: string, status: number, durationSeconds: number): void {
+    const labels = { method, route, status: String(status) };
+    this.requests.inc(labels);
+    this.requestDuration.observe(labels, durationSeconds);
+  }
+
+  /**
+   * Records the outcome of a discovery query
+   *
+   * @param route - Route pattern
+   * @param total - Number of matching places
+   * @param categories - Categories the query was filtered by
+   */
+  recordDiscovery(route: string, total: number, categories: string[] = []): void {
+    this.discoveryResults.observe({ route }, total);
+    categories.forEach(category => this.categoryQueries.inc({ category }));
+  }
+
+  /**
+   * Records a request rejected by rate limiting
+   *
+   * @param route - Route pattern
+   * @param throttler - Name of the exhausted throttler bucket
+   */
+  recordThrottled(route: string, throttler: string): void {
+    this.throttlerRejections.inc({ route, throttler });
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+
+import { ApiKeyGuard } from '../../auth/guards/api-key.guard';
+import { ApiKeyThrottlerGuard } from '../../auth/guards/api-key-throttler.guard';
+import { ApiProblemResponses } from '../../common/decorators/api-problem-responses.decorator';
+import { AccountAlreadyExistsException } from '../../common/exceptions/domain.exceptions';
+import { VALIDATION_FAILED } from '../../common/exceptions/problem-details.dto';
+import { UsersService } from '../services/users.service';
+import { AuthTokenDto, LoginDto, SignupDto } from '../dto/user.dto';
+
+/**
+ * Accounts controller for app user signup and login
+ */
+@ApiTags('users')
+@ApiSecurity('api-key')
+@Controller('auth')
+@UseGuards(ApiKeyGuard, ApiKeyThrottlerGuard)
+export class AccountsController {
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * Creates an account
+   *
+   * @param dto - Email, password and name
+   * @returns Access token for the new account
+   */
+  @Post('signup')
+  @ApiOperation({
+    summary: 'Sign up',
+    description: 'Creates an account and returns an access token for it, like POST /auth/login.',
+  })
+  @ApiResponse({ status: 201, description: 'Account created', type: AuthTokenDto })
+  @ApiProblemResponses(VALIDATION_FAILED, AccountAlreadyExistsException)
+  async signup(@Body() dto: SignupDto): Promise<AuthTokenDto> {
+    return this.usersService.signup(dto);
+  }
+
+  /**
+   * Logs in with email and password
+   *
+   * @param dto - Email and password
+   * @returns Access token
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log in',
+    description: 'Returns a JWT to send as `Authorization: Bearer <token>` to /me endpoints and GET /discover.',
+  })
+  @ApiResponse({ status: 200, description: 'Logged in', type: AuthTokenDto })
+  @ApiUnauthorizedResponse({ description: 'Wrong email or password' })
+  async login(@Body() dto: LoginDto): Promise<AuthTokenDto> {
+    const token = await this.usersService.login(dto);
+
+    if (!token) {
+      throw new UnauthorizedException('Wrong email or password');
+    }
+
+    return token;
+  }
+}
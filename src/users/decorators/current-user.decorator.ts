@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedUser } from '../../common/interfaces/user.interface';
+import { UserRequest } from '../guards/user.guard';
+
+/**
+ * Injects the user UserGuard authenticated the request as
+ * Undefined on anonymous requests to @OptionalUser() routes
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthenticatedUser | undefined =>
+    context.switchToHttp().getRequest<UserRequest>().user,
+);
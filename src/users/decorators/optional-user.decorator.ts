@@ -0,0 +1,14 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+
+/**
+ * Metadata key marking routes that also serve anonymous requests
+ */
+export const OPTIONAL_USER = 'users:optional';
+
+/**
+ * Lets a route guarded by UserGuard through without a bearer token
+ * A valid token still authenticates the request; an invalid one is rejected
+ *
+ * @returns Decorator setting the OPTIONAL_USER metadata
+ */
+export const OptionalUser = (): CustomDecorator => SetMetadata(OPTIONAL_USER, true);
@@ -0,0 +1,85 @@
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { Transform, TransformFnParams } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AuthToken, UserProfile } from '../../common/interfaces/user.interface';
+
+/**
+ * Lowercases and trims an email address
+ */
+const toEmail = ({ value }: TransformFnParams): unknown =>
+  typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+/**
+ * Data Transfer Object for creating an account
+ */
+export class SignupDto {
+  @ApiProperty({ description: 'Email address', example: 'maria@example.com' })
+  @IsEmail({}, { message: 'email must be a valid email address' })
+  @MaxLength(254, { message: 'email cannot exceed 254 characters' })
+  @Transform(toEmail)
+  email: string;
+
+  @ApiProperty({ description: 'Password', example: 'correct horse battery staple', minLength: 8, maxLength: 128 })
+  @IsString({ message: 'password must be a string' })
+  @MinLength(8, { message: 'password must be at least 8 characters' })
+  @MaxLength(128, { message: 'password cannot exceed 128 characters' })
+  password: string;
+
+  @ApiPropertyOptional({ description: 'Display name', example: 'Maria' })
+  @IsOptional()
+  @IsString({ message: 'name must be a string' })
+  @IsNotEmpty({ message: 'name must not be empty' })
+  @MaxLength(100, { message: 'name cannot exceed 100 characters' })
+  name?: string;
+}
+
+/**
+ * Data Transfer Object for logging in
+ */
+export class LoginDto {
+  @ApiProperty({ description: 'Email address', example: 'maria@example.com' })
+  @IsString({ message: 'email must be a string' })
+  @IsNotEmpty({ message: 'email must not be empty' })
+  @Transform(toEmail)
+  email: string;
+
+  @ApiProperty({ description: 'Password', example: 'correct horse battery staple' })
+  @IsString({ message: 'password must be a string' })
+  @IsNotEmpty({ message: 'password must not be empty' })
+  @MaxLength(128, { message: 'password cannot exceed 128 characters' })
+  password: string;
+}
+
+/**
+ * Data Transfer Object for a user profile
+ */
+export class UserProfileDto implements UserProfile {
+  @ApiProperty({ description: 'Unique identifier for the user', example: '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed' })
+  id: string;
+
+  @ApiProperty({ description: 'Email address', example: 'maria@example.com' })
+  email: string;
+
+  @ApiPropertyOptional({ description: 'Display name', example: 'Maria' })
+  name?: string;
+
+  @ApiProperty({ description: 'Creation time (ISO 8601)', example: '2024-01-15T10:30:00.000Z' })
+  created_at: string;
+}
+
+/**
+ * Data Transfer Object for an issued access token
+ */
+export class AuthTokenDto implements AuthToken {
+  @ApiProperty({ description: 'Signed JWT to send as `Authorization: Bearer <token>`', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  access_token: string;
+
+  @ApiProperty({ description: 'Token type', example: 'Bearer', enum: ['Bearer'] })
+  token_type: 'Bearer';
+
+  @ApiProperty({ description: 'Seconds until the token expires', example: 3600 })
+  expires_in: number;
+
+  @ApiProperty({ description: 'Account the token belongs to', type: UserProfileDto })
+  user: UserProfileDto;
+}
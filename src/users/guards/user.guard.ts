@@ -0,0 +1,56 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthenticatedUser } from '../../common/interfaces/user.interface';
+import { OPTIONAL_USER } from '../decorators/optional-user.decorator';
+import { UsersService } from '../services/users.service';
+
+/**
+ * Request authenticated by UserGuard
+ */
+export interface UserRequest extends Request {
+  /** User the bearer token was issued to; unset for anonymous requests */
+  user?: AuthenticatedUser;
+}
+
+/**
+ * Authenticates requests by the JWT in their `Authorization: Bearer` header
+ * Requests without a token are rejected unless the route is marked
+ * @OptionalUser(); invalid or expired tokens are always rejected
+ */
+@Injectable()
+export class UserGuard implements CanActivate {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<UserRequest>();
+    const optional = this.reflector.getAllAndOverride<boolean>(OPTIONAL_USER, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+
+    if (!token || scheme.toLowerCase() !== 'bearer') {
+      if (optional && !request.headers.authorization) {
+        return true;
+      }
+      throw new UnauthorizedException('A bearer token is required in the Authorization header');
+    }
+
+    const user = await this.usersService.authenticate(token);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    request.user = user;
+    return true;
+  }
+}
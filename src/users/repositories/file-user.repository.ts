@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { User } from '../../common/interfaces/user.interface';
+import { FileUtil } from '../../common/utils/file.util';
+import { InMemoryUserRepository } from './in-memory-user.repository';
+
+/**
+ * User repository backed by a JSON file
+ * The file is read once, served from memory and rewritten after every change
+ */
+export class FileUserRepository extends InMemoryUserRepository {
+  private static readonly logger = new Logger(FileUserRepository.name);
+
+  constructor(
+    private readonly filePath: string,
+    users: User[],
+  ) {
+    super(users);
+  }
+
+  /**
+   * Loads a file-backed repository
+   *
+   * @param filePath - Path to the JSON file
+   * @returns Repository populated with the stored accounts
+   */
+  static async fromFile(filePath: string): Promise<FileUserRepository> {
+    const users = existsSync(filePath)
+      ? JSON.parse(await readFile(filePath, 'utf8'))
+      : [];
+
+    this.logger.log(`Loaded ${users.length} users from ${filePath}`);
+
+    return new FileUserRepository(filePath, users);
+  }
+
+  async save(user: User): Promise<User> {
+    const stored = await super.save(user);
+    await FileUtil.writeJsonAtomically(this.filePath, [...this.users.values()]);
+    return stored;
+  }
+}
@@ -0,0 +1,35 @@
+import { AccountAlreadyExistsException } from '../../common/exceptions/domain.exceptions';
+import { User } from '../../common/interfaces/user.interface';
+import { UserRepository } from './user.repository';
+
+/**
+ * User repository keeping all accounts in process memory
+ * Accounts created at runtime are lost on restart
+ */
+export class InMemoryUserRepository extends UserRepository {
+  protected readonly users = new Map<string, User>();
+
+  constructor(seed: User[] = []) {
+    super();
+    seed.forEach(user => this.users.set(user.id, { ...user }));
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.users.get(id) || null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return [...this.users.values()].find(user => user.email === email) || null;
+  }
+
+  async save(user: User): Promise<User> {
+    const owner = [...this.users.values()].find(existing => existing.email === user.email);
+    if (owner && owner.id !== user.id) {
+      throw new AccountAlreadyExistsException(user.email);
+    }
+
+    const stored = { ...user };
+    this.users.set(stored.id, stored);
+    return stored;
+  }
+}
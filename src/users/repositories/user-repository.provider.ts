@@ -0,0 +1,21 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserRepository } from './user.repository';
+import { InMemoryUserRepository } from './in-memory-user.repository';
+import { FileUserRepository } from './file-user.repository';
+
+/**
+ * Provides a file-backed UserRepository when `users.storeFile` is set,
+ * an in-memory one otherwise
+ */
+export const userRepositoryProvider: Provider = {
+  provide: UserRepository,
+  inject: [ConfigService],
+  useFactory: async (configService: ConfigService): Promise<UserRepository> => {
+    const storeFile = configService.get<string>('users.storeFile');
+
+    return storeFile
+      ? FileUserRepository.fromFile(storeFile)
+      : new InMemoryUserRepository();
+  },
+};
@@ -0,0 +1,33 @@
+import { User } from '../../common/interfaces/user.interface';
+
+/**
+ * Storage abstraction for user accounts
+ */
+export abstract class UserRepository {
+  /**
+   * Gets a user by ID
+   *
+   * @param id - User ID
+   * @returns User if found, null otherwise
+   */
+  abstract findById(id: string): Promise<User | null>;
+
+  /**
+   * Gets a user by email address
+   *
+   * @param email - Lowercase email address
+   * @returns User if found, null otherwise
+   */
+  abstract findByEmail(email: string): Promise<User | null>;
+
+  /**
+   * Creates or replaces a user
+   * The email check and the write happen together, so concurrent signups
+   * cannot register the same address twice
+   *
+   * @param user - User to store
+   * @returns Stored user
+   * @throws AccountAlreadyExistsException if another user has the email address
+   */
+  abstract save(user: User): Promise<User>;
+}
@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { AccountAlreadyExistsException } from '../../common/exceptions/domain.exceptions';
+import { InMemoryUserRepository } from '../repositories/in-memory-user.repository';
+import { UsersService } from './users.service';
+
+describe('UsersService', () => {
+  let repository: InMemoryUserRepository;
+  let service: UsersService;
+
+  beforeEach(() => {
+    repository = new InMemoryUserRepository();
+    service = new UsersService(
+      repository,
+      new JwtService({ secret: 'test-secret' }),
+      new ConfigService({ users: { jwtExpiresIn: 600 } }),
+    );
+  });
+
+  it('signs up users and issues tokens that authenticate them', async () => {
+    const { access_token, token_type, expires_in, user } = await service.signup({
+      email: 'ana@example.com',
+      password: 'correct horse',
+      name: 'Ana',
+    });
+
+    expect(token_type).toBe('Bearer');
+    expect(expires_in).toBe(600);
+    expect(user).toEqual({ id: user.id, email: 'ana@example.com', name: 'Ana', created_at: user.created_at });
+    expect(await service.authenticate(access_token)).toEqual({ id: user.id, email: 'ana@example.com' });
+  });
+
+  it('stores a salted hash of the password, never the password itself', async () => {
+    await service.signup({ email: 'ana@example.com', password: 'correct horse' });
+    await service.signup({ email: 'ben@example.com', password: 'correct horse' });
+    const [ana, ben] = await Promise.all([
+      repository.findByEmail('ana@example.com'),
+      repository.findByEmail('ben@example.com'),
+    ]);
+
+    expect(ana?.password_hash).not.toContain('correct horse');
+    expect(ana?.password_hash).not.toBe(ben?.password_hash);
+  });
+
+  it('rejects a second account for the same email', async () => {
+    await service.signup({ email: 'ana@example.com', password: 'correct horse' });
+
+    await expect(service.signup({ email: 'ana@example.com', password: 'another one' }))
+      .rejects.toThrow('already exists');
+  });
+
+  it('creates one account when signups for an email race', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => service.signup({ email: 'ana@example.com', password: 'correct horse' })),
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .forEach(result => expect(result.reason).toBeInstanceOf(AccountAlreadyExistsException));
+  });
+
+  it('logs in with the right password only', async () => {
+    await service.signup({ email: 'ana@example.com', password: 'correct horse' });
+
+    expect((await service.login({ email: 'ana@example.com', password: 'correct horse' }))?.user.email)
+      .toBe('ana@example.com');
+    expect(await service.login({ email: 'ana@example.com', password: 'wrong horse' })).toBeNull();
+    expect(await service.login({ email: 'nobody@example.com', password: 'correct horse' })).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const { user } = await service.signup({ email: 'ana@example.com', password: 'correct horse' });
+    const forged = await new JwtService({ secret: 'other-secret' }).signAsync({ sub: user.id, email: user.email });
+
+    expect(await service.authenticate(forged)).toBeNull();
+    expect(await service.authenticate('not-a-token')).toBeNull();
+  });
+});
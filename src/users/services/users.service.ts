@@ -0,0 +1,178 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { AccountAlreadyExistsException } from '../../common/exceptions/domain.exceptions';
+import {
+  AuthenticatedUser,
+  AuthToken,
+  User,
+  UserProfile,
+} from '../../common/interfaces/user.interface';
+import { UserRepository } from '../repositories/user.repository';
+import { LoginDto, SignupDto } from '../dto/user.dto';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+/**
+ * Claims of the access tokens issued by UsersService
+ */
+interface AccessTokenPayload {
+  /** User ID */
+  sub: string;
+  /** Email address */
+  email: string;
+}
+
+/**
+ * User account service
+ * Passwords are stored as salted scrypt hashes; signup and login return a
+ * signed JWT that UserGuard verifies on later requests
+ */
+@Injectable()
+export class UsersService implements OnModuleInit {
+  /** Length of the derived scrypt key in bytes */
+  private static readonly KEY_LENGTH = 64;
+
+  private readonly logger = new Logger(UsersService.name);
+  private readonly expiresIn: number;
+
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {
+    this.expiresIn = this.configService.get<number>('users.jwtExpiresIn', 3600);
+  }
+
+  onModuleInit(): void {
+    if (!this.configService.get<string>('users.jwtSecret')) {
+      this.logger.warn('JWT_SECRET is not set; issued tokens stop working when the process restarts');
+    }
+  }
+
+  /**
+   * Creates an account and logs it in
+   *
+   * @param dto - Email, password and name
+   * @returns Access token for the new account
+   * @throws AccountAlreadyExistsException if the email address is already registered
+   */
+  async signup(dto: SignupDto): Promise<AuthToken> {
+    // Fails fast before hashing; the repository rejects signups that race past it
+    if (await this.userRepository.findByEmail(dto.email)) {
+      throw new AccountAlreadyExistsException(dto.email);
+    }
+
+    const user = await this.userRepository.save({
+      id: uuidv4(),
+      email: dto.email,
+      name: dto.name,
+      password_hash: await this.hashPassword(dto.password),
+      created_at: new Date().toISOString(),
+    });
+
+    this.logger.log(`Created user ${user.id}`);
+
+    return this.issueToken(user);
+  }
+
+  /**
+   * Logs in with email and password
+   *
+   * @param dto - Email and password
+   * @returns Access token, or null if the credentials are wrong
+   */
+  async login(dto: LoginDto): Promise<AuthToken | null> {
+    const user = await this.userRepository.findByEmail(dto.email);
+
+    if (!user || !(await this.verifyPassword(dto.password, user.password_hash))) {
+      return null;
+    }
+
+    return this.issueToken(user);
+  }
+
+  /**
+   * Resolves the user an access token was issued to
+   *
+   * @param token - Bearer token
+   * @returns Authenticated user, or null if the token is invalid, expired or its account is gone
+   */
+  async authenticate(token: string): Promise<AuthenticatedUser | null> {
+    let payload: AccessTokenPayload;
+
+    try {
+      payload = await this.jwtService.verifyAsync<AccessTokenPayload>(token);
+    } catch {
+      return null;
+    }
+
+    const user = await this.userRepository.findById(payload.sub);
+    return user ? { id: user.id, email: user.email } : null;
+  }
+
+  /**
+   * Signs an access token for a user
+   *
+   * @param user - Stored user
+   * @returns Access token with the user's profile
+   */
+  private async issueToken(user: User): Promise<AuthToken> {
+    const payload: AccessTokenPayload = { sub: user.id, email: user.email };
+
+    return {
+      access_token: await this.jwtService.signAsync(payload, { expiresIn: this.expiresIn }),
+      token_type: 'Bearer',
+      expires_in: this.expiresIn,
+      user: this.toProfile(user),
+    };
+  }
+
+  /**
+   * Hashes a password with a random salt
+   *
+   * @param password - Plain password
+   * @returns `scrypt$<salt>$<hash>` with hex-encoded salt and hash
+   */
+  private async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, UsersService.KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  /**
+   * Checks a password against a stored hash in constant time
+   *
+   * @param password - Plain password
+   * @param passwordHash - Hash produced by hashPassword
+   * @returns True if the password matches
+   */
+  private async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, salt, hash] = passwordHash.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Strips the password hash from a stored user
+   *
+   * @param user - Stored user
+   * @returns Profile as exposed by the API
+   */
+  private toProfile(user: User): UserProfile {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      created_at: user.created_at,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModule, JwtModuleOptions } from '@nestjs/jwt';
+import { randomBytes } from 'crypto';
+import { AuthModule } from '../auth/auth.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { AccountsController } from './controllers/accounts.controller';
+import { UserGuard } from './guards/user.guard';
+import { UsersService } from './services/users.service';
+import { userRepositoryProvider } from './repositories/user-repository.provider';
+
+/**
+ * Users module containing app user accounts
+ * Provides signup and login issuing JWTs and the guard that authenticates
+ * requests by them
+ */
+@Module({
+  imports: [
+    AuthModule,
+    MetricsModule,
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): JwtModuleOptions => ({
+        secret: configService.get<string>('users.jwtSecret') || randomBytes(32).toString('hex'),
+      }),
+    }),
+  ],
+  controllers: [AccountsController],
+  providers: [UserGuard, UsersService, userRepositoryProvider],
+  exports: [UserGuard, UsersService],
+})
+export class UsersModule {}
@@ -2,10 +2,17 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from './../src/app.module';
+import { HealthCheck, HealthIndicator } from './../src/health/health-indicator';
+import { HealthIndicatorRegistry } from './../src/health/health-indicator.registry';
 
 describe('OnSpotX Discovery API (e2e)', () => {
+  const adminKey = 'e2e-admin-key';
   let app: INestApplication;
 
+  beforeAll(() => {
+    process.env.ADMIN_API_KEY = adminKey;
+  });
+
   beforeEach(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
@@ -14,7 +21,7 @@ describe('OnSpotX Discovery API (e2e)', () => {
     app = moduleFixture.createNestApplication();
     
     // Apply the same configuration as in main.ts
-    app.setGlobalPrefix('api/v1');
+    app.setGlobalPrefix('api/v1', { exclude: ['metrics'] });
     app.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
@@ -49,6 +56,169 @@ describe('OnSpotX Discovery API (e2e)', () => {
     });
   });
 
+  describe('/api/v1/health probes', () => {
+    it('should report the process alive', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/health/live')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('status', 'ok');
+          expect(res.body).toHaveProperty('uptime');
+        });
+    });
+
+    it('should report ready with the status and latency of each dependency', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/health/ready')
+        .expect(200);
+
+      expect(res.body.status).toBe('ok');
+      expect(Object.keys(res.body.checks).sort()).toEqual(['discoveryCache', 'placeIndex', 'placeStore']);
+      expect(res.body.checks.placeStore.status).toBe('up');
+      expect(res.body.checks.placeStore.details.places).toBeGreaterThan(0);
+      expect(res.body.checks.placeIndex).toMatchObject({
+        status: 'up',
+        details: { places: res.body.checks.placeStore.details.places },
+      });
+      expect(res.body.checks.placeStore.latency_ms).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should answer 503 on readiness and report it in detailed health when a dependency is down', async () => {
+      app.get(HealthIndicatorRegistry).register(
+        new (class extends HealthIndicator {
+          async check(): Promise<HealthCheck> {
+            throw new Error('Connection refused');
+          }
+        })('placeStore'),
+      );
+
+      const ready = await request(app.getHttpServer())
+        .get('/api/v1/health/ready')
+        .expect(503);
+      expect(ready.body.status).toBe('degraded');
+      expect(ready.body.checks.placeStore).toMatchObject({ status: 'down', error: 'Connection refused' });
+      expect(ready.body.checks.placeIndex.status).toBe('up');
+
+      const detailed = await request(app.getHttpServer())
+        .get('/api/v1/health/detailed')
+        .expect(200);
+      expect(detailed.body.status).toBe('degraded');
+      expect(detailed.body.system).toHaveProperty('nodeVersion');
+    });
+  });
+
+  describe('request IDs', () => {
+    it('should generate a request ID and echo it in the response', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/health')
+        .expect(200);
+
+      expect(res.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should echo a valid client request ID, including on errors', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/discover/places/missing')
+        .set('X-Request-Id', 'client-trace.42')
+        .expect(404)
+        .expect('X-Request-Id', 'client-trace.42');
+    });
+
+    it('should replace malformed client request IDs', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/health')
+        .set('X-Request-Id', 'bad id\twith spaces')
+        .expect(200);
+
+      expect(res.headers['x-request-id']).not.toBe('bad id\twith spaces');
+      expect(res.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe('error responses', () => {
+    it('should answer domain errors as problem details', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover/places/rest_999')
+        .set('X-Request-Id', 'client-trace.43')
+        .expect(404)
+        .expect('Content-Type', /application\/problem\+json/);
+
+      expect(res.body).toEqual({
+        type: 'urn:onspotx:problem:place-not-found',
+        title: 'Place not found',
+        status: 404,
+        detail: 'Place with ID rest_999 not found',
+        code: 'PLACE_NOT_FOUND',
+        place_id: 'rest_999',
+        instance: '/api/v1/discover/places/rest_999',
+        request_id: 'client-trace.43',
+      });
+    });
+
+    it('should answer invalid geometry with its code', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover/bbox')
+        .query({ minLat: 40.80, minLng: -73.97, maxLat: 40.77, maxLng: -73.94 })
+        .expect(400);
+
+      expect(res.body).toMatchObject({ code: 'INVALID_GEOMETRY', type: 'urn:onspotx:problem:invalid-geometry' });
+    });
+
+    it('should list failed constraints of rejected requests', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, colour: 'red' })
+        .expect(400)
+        .expect('Content-Type', /application\/problem\+json/);
+
+      expect(res.body.code).toBe('VALIDATION_FAILED');
+      expect(res.body.errors).toEqual(['property colour should not exist']);
+    });
+
+    it('should answer guard rejections as problem details', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/api-keys')
+        .expect(401);
+
+      expect(res.body).toMatchObject({ code: 'UNAUTHORIZED', status: 401, instance: '/api/v1/api-keys' });
+    });
+  });
+
+  describe('/metrics (GET)', () => {
+    it('should expose request, discovery and process metrics in the Prometheus format', async () => {
+      const server = app.getHttpServer();
+
+      await request(server).get('/api/v1/health').expect(200);
+      await request(server)
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, categories: 'cafe,bar' })
+        .expect(200);
+      await request(server)
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, category: 'cafe', format: 'geojson' })
+        .expect(200);
+      await request(server)
+        .get('/api/v1/discover')
+        .query({ latitude: 100, longitude: -74.0060 })
+        .expect(400);
+
+      await request(server)
+        .get('/metrics')
+        .expect(200)
+        .expect('Content-Type', /text\/plain/)
+        .expect((res) => {
+          expect(res.text).toContain('http_requests_total{method="GET",route="/api/v1/health",status="200"} 1');
+          expect(res.text).toContain('http_requests_total{method="GET",route="/api/v1/discover",status="200"} 2');
+          expect(res.text).toContain('http_requests_total{method="GET",route="/api/v1/discover",status="400"} 1');
+          expect(res.text).toContain('http_request_duration_seconds_count{method="GET",route="/api/v1/discover",status="200"} 2');
+          expect(res.text).toContain('discovery_results_count{route="/api/v1/discover"} 2');
+          expect(res.text).toContain('discovery_category_queries_total{category="cafe"} 2');
+          expect(res.text).toContain('discovery_category_queries_total{category="bar"} 1');
+          expect(res.text).toContain('process_cpu_seconds_total');
+        });
+    });
+  });
+
   describe('/api/v1/discover (GET)', () => {
     it('should discover places with valid coordinates', () => {
       return request(app.getHttpServer())
@@ -89,6 +259,254 @@ describe('OnSpotX Discovery API (e2e)', () => {
         });
     });
 
+    it('should filter by several categories and echo them', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({
+          latitude: 40.7128,
+          longitude: -74.0060,
+          radius: 50,
+          limit: 50,
+          categories: 'cafe,BAR',
+        })
+        .expect(200)
+        .expect((res) => {
+          const categories = res.body.results.map((place: { category: string }) => place.category);
+          expect(categories.length).toBeGreaterThan(0);
+          expect(new Set(categories)).toEqual(new Set(['cafe', 'bar']));
+          expect(res.body.query.categories).toEqual(['cafe', 'bar']);
+        });
+    });
+
+    it('should drop excluded categories', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query('latitude=40.7128&longitude=-74.0060&radius=50&limit=50&exclude=hotel&exclude=park')
+        .expect(200);
+
+      const categories = res.body.results.map((place: { category: string }) => place.category);
+      expect(categories.length).toBeGreaterThan(0);
+      expect(categories).not.toContain('hotel');
+      expect(categories).not.toContain('park');
+      expect(res.body.query.exclude).toEqual(['hotel', 'park']);
+      expect(res.body.query.categories).toBeUndefined();
+    });
+
+    it('should return 400 for an unknown or contradictory category list', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, categories: 'cafe,spaceport' })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, categories: 'cafe,bar', exclude: 'bar' })
+        .expect(400);
+    });
+
+    it('should match sub-categories and allow excluding them', async () => {
+      const query = { latitude: 40.7128, longitude: -74.0060, radius: 50, limit: 50 };
+      const shops = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, category: 'shop' })
+        .expect(200);
+
+      expect(shops.body.results.map((place: { id: string; category: string }) => [place.id, place.category]))
+        .toEqual([['shop_004', 'bookstore']]);
+
+      const attractions = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, categories: 'attraction,park', exclude: 'landmark' })
+        .expect(200);
+
+      expect(attractions.body.results.map((place: { id: string }) => place.id)).toEqual(['park_007']);
+
+      await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, category: 'pizzeria', exclude: 'restaurant' })
+        .expect(400);
+    });
+
+    it('should filter by tags and echo them', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 50, tags: '24 Hours' })
+        .expect(200)
+        .expect((res) => {
+          const ids = res.body.results.map((place: { id: string }) => place.id).sort();
+          expect(ids).toEqual(['gas_009', 'hosp_008', 'pharm_012']);
+          expect(res.body.results[0].tags).toContain('24 hours');
+          expect(res.body.query.tags).toEqual(['24 hours']);
+        });
+    });
+
+    it('should filter by min_rating and echo it', async () => {
+      const query = { latitude: 40.7128, longitude: -74.0060, radius: 50, limit: 50 };
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, min_rating: 4.7 })
+        .expect(200);
+
+      const ids = res.body.results.map((place: { id: string }) => place.id).sort();
+      expect(ids).toEqual(['attr_006', 'cafe_002', 'park_007', 'shop_004']);
+      expect(res.body.query.min_rating).toBe(4.7);
+
+      await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, min_rating: 6 })
+        .expect(400);
+    });
+
+    it('should sort by rating and by relevance with a score breakdown', async () => {
+      const query = { latitude: 40.7128, longitude: -74.0060, radius: 50, limit: 50 };
+      const byRating = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, sort: 'rating' })
+        .expect(200);
+
+      const ratings = byRating.body.results.map((place: { rating: number }) => place.rating);
+      expect(ratings).toEqual([...ratings].sort((a: number, b: number) => b - a));
+      expect(byRating.body.query.sort).toBe('rating');
+
+      const byRelevance = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, sort: 'relevance', debug: true, open_at: '2024-01-16T08:00:00Z' })
+        .expect(200);
+
+      const [first] = byRelevance.body.results;
+      const relevance = byRelevance.body.results.map((place: { relevance: number }) => place.relevance);
+      expect(relevance).toEqual([...relevance].sort((a: number, b: number) => b - a));
+      expect(Object.keys(first.score_breakdown)).toEqual(['distance', 'open_now', 'rating', 'popularity']);
+      // Only the 24/7 places are open at 03:00, and they rank first
+      expect(first.open_now).toBe(true);
+    });
+
+    it('should return 400 for an unknown sort', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, sort: 'popularity' })
+        .expect(400);
+    });
+
+    it('should page through every place in the radius with cursors', async () => {
+      const server = app.getHttpServer();
+      const query = { latitude: 40.7128, longitude: -74.0060, radius: 10, limit: 3 };
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let total = 0;
+
+      do {
+        const res = await request(server)
+          .get('/api/v1/discover')
+          .query(cursor ? { ...query, cursor } : query)
+          .expect(200);
+
+        expect(res.body.results.length).toBeLessThanOrEqual(3);
+        seen.push(...res.body.results.map((place: { id: string }) => place.id));
+        total = res.body.total;
+        cursor = res.body.next_cursor ?? undefined;
+      } while (cursor);
+
+      expect(total).toBeGreaterThan(3);
+      expect(seen).toHaveLength(total);
+      expect(new Set(seen).size).toBe(total);
+    });
+
+    it('should return 400 for a malformed cursor', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, cursor: 'not-a-cursor' })
+        .expect(400);
+    });
+
+    it('should only return places open at open_at', () => {
+      // Tuesday 03:00 in New York: only the 24/7 places are open
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 50, open_at: '2024-01-16T08:00:00Z' })
+        .expect(200)
+        .expect((res) => {
+          const ids = res.body.results.map((place: { id: string }) => place.id).sort();
+          expect(ids).toEqual(['attr_006', 'gas_009', 'hosp_008', 'hotel_005', 'pharm_012']);
+          expect(res.body.query.open_at).toBe('2024-01-16T08:00:00Z');
+        });
+    });
+
+    it('should treat overnight ranges as open past midnight', () => {
+      // Wednesday 01:30 in New York: the bar's Tuesday 17:00-02:00 range applies
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 50, open_at: '2024-01-17T06:30:00Z', category: 'bar' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results.map((place: { id: string }) => place.id)).toEqual(['bar_003']);
+          expect(res.body.results[0].open_now).toBe(true);
+        });
+    });
+
+    it('should filter by computed open_now', async () => {
+      const query = { latitude: 40.7128, longitude: -74.0060, radius: 50, limit: 50 };
+      const open = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, open_now: true })
+        .expect(200);
+      const closed = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, open_now: false })
+        .expect(200);
+
+      expect(open.body.results.every((place: { open_now: boolean }) => place.open_now)).toBe(true);
+      expect(closed.body.results.every((place: { open_now: boolean }) => !place.open_now)).toBe(true);
+      expect(open.body.total + closed.body.total).toBe(12);
+    });
+
+    it('should return 400 for an invalid open_at', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, open_at: 'tomorrow' })
+        .expect(400);
+    });
+
+    it('should search place text with q', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 50, q: 'Pasta' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results.map((place: { id: string }) => place.id)).toEqual(['rest_001']);
+          expect(res.body.results[0].relevance).toBeGreaterThan(0);
+          expect(res.body.query.q).toBe('Pasta');
+        });
+    });
+
+    it('should order text matches by relevance and page through them', async () => {
+      const query = { latitude: 40.7128, longitude: -74.0060, radius: 50, q: 'full serv', limit: 2 };
+      const first = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query(query)
+        .expect(200);
+
+      expect(first.body.total).toBe(3);
+      expect(first.body.results[0].relevance).toBeGreaterThanOrEqual(first.body.results[1].relevance);
+
+      const second = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ ...query, cursor: first.body.next_cursor })
+        .expect(200);
+
+      expect(second.body.results).toHaveLength(1);
+      expect(second.body.next_cursor).toBeNull();
+      const ids = [...first.body.results, ...second.body.results].map((place: { id: string }) => place.id);
+      expect(ids.sort()).toEqual(['bank_010', 'gas_009', 'pharm_012']);
+    });
+
+    it('should return 400 for a q without searchable terms', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, q: '!!' })
+        .expect(400);
+    });
+
     it('should return 400 for invalid coordinates', () => {
       return request(app.getHttpServer())
         .get('/api/v1/discover')
@@ -108,53 +526,1032 @@ describe('OnSpotX Discovery API (e2e)', () => {
         })
         .expect(400);
     });
-  });
 
-  describe('/api/v1/discover/categories (GET)', () => {
-    it('should return available categories', () => {
+    it('should return a FeatureCollection for Accept: application/geo+json', () => {
       return request(app.getHttpServer())
-        .get('/api/v1/discover/categories')
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, category: 'cafe' })
+        .set('Accept', 'application/geo+json')
         .expect(200)
+        .expect('Content-Type', /application\/geo\+json/)
         .expect((res) => {
-          expect(res.body).toHaveProperty('categories');
-          expect(res.body).toHaveProperty('total');
-          expect(Array.isArray(res.body.categories)).toBe(true);
-          expect(res.body.categories.length).toBeGreaterThan(0);
+          expect(res.body.type).toBe('FeatureCollection');
+          expect(res.body.features[0]).toMatchObject({
+            type: 'Feature',
+            id: 'cafe_002',
+            geometry: { type: 'Point', coordinates: [-74.0070, 40.7140] },
+            properties: { name: 'Blue Bottle Coffee', category: 'cafe' },
+          });
+          expect(res.body.features[0].properties).toHaveProperty('distance_km');
+          expect(res.body.query).toMatchObject({ category: 'cafe' });
+          expect(res.body).toHaveProperty('metadata.processing_time_ms');
+          expect(res.body).toHaveProperty('total', 1);
+          expect(res.body).not.toHaveProperty('results');
         });
     });
+
+    it('should return a FeatureCollection for format=geojson and reject unknown formats', async () => {
+      const geojson = await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, format: 'geojson' })
+        .expect(200);
+      expect(geojson.body.type).toBe('FeatureCollection');
+
+      await request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, format: 'kml' })
+        .expect(400);
+    });
   });
 
-  describe('/api/v1/discover/stats (GET)', () => {
-    it('should return service statistics', () => {
+  describe('/api/v1/discover caching', () => {
+    const query = { latitude: 40.7128, longitude: -74.0060, radius: 1 };
+
+    it('should answer If-None-Match with 304 while results are unchanged', async () => {
+      const server = app.getHttpServer();
+
+      const first = await request(server).get('/api/v1/discover').query(query).expect(200);
+      const etag = first.headers.etag;
+      expect(etag).toMatch(/^W\/".+"$/);
+      expect(first.headers.vary).toMatch(/Authorization/);
+      expect(first.headers.vary).toMatch(/Accept/);
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query(query)
+        .set('If-None-Match', etag)
+        .expect(304)
+        .expect((res) => {
+          expect(res.text).toBeFalsy();
+        });
+
+      // Other representations and queries get their own tags
+      const geoJson = await request(server)
+        .get('/api/v1/discover')
+        .query({ ...query, format: 'geojson' })
+        .set('If-None-Match', etag)
+        .expect(200);
+      expect(geoJson.headers.etag).not.toBe(etag);
+    });
+
+    it('should drop cached results when places change', async () => {
+      const server = app.getHttpServer();
+
+      const before = await request(server).get('/api/v1/discover').query(query).expect(200);
+
+      await request(server)
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send({
+          id: 'cafe_cached',
+          name: 'Cache Buster Coffee',
+          category: 'cafe',
+          description: 'Opened after the first search.',
+          image_url: 'https://cdn.onspotx.ai/spots/e2e.jpg',
+          location: { lat: 40.7129, lng: -74.0061, address: '2 Test Plaza, New York, NY 10007' },
+        })
+        .expect(201);
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query(query)
+        .set('If-None-Match', before.headers.etag)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.total).toBe(before.body.total + 1);
+          expect(res.body.results.map((place: { id: string }) => place.id)).toContain('cafe_cached');
+        });
+    });
+
+    it('should measure distances from the requested point, not the cache grid', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send({
+          id: 'cafe_edge',
+          name: 'Radius Edge Coffee',
+          category: 'cafe',
+          description: 'Sits just inside the radius of the requested point.',
+          image_url: 'https://cdn.onspotx.ai/spots/e2e.jpg',
+          location: { lat: 10, lng: 10, address: '1 Edge Road' },
+        })
+        .expect(201);
+
+      // 0.95 km from the requested point, but 1.00 km from the point it snaps to (10.009, 10)
+      const edgeQuery = { latitude: 10.00851, longitude: 10, radius: 0.95 };
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const res = await request(server).get('/api/v1/discover').query(edgeQuery).expect(200);
+        expect(res.body.results).toEqual([expect.objectContaining({ id: 'cafe_edge', distance_km: 0.95 })]);
+      }
+
+      const nearby = await request(server)
+        .get('/api/v1/discover')
+        .query({ ...edgeQuery, latitude: 10.0088 })
+        .expect(200);
+      expect(nearby.body.results).toEqual([]);
+    });
+  });
+
+  describe('/api/v1/discover/bbox (GET)', () => {
+    it('should return the places inside the box', () => {
       return request(app.getHttpServer())
-        .get('/api/v1/discover/stats')
+        .get('/api/v1/discover/bbox')
+        .query({ minLat: 40.77, minLng: -73.97, maxLat: 40.80, maxLng: -73.94 })
         .expect(200)
         .expect((res) => {
-          expect(res.body).toHaveProperty('dataStats');
-          expect(res.body).toHaveProperty('config');
-          expect(res.body.dataStats).toHaveProperty('totalPlaces');
-          expect(res.body.config).toHaveProperty('defaultRadius');
+          const ids = res.body.results.map((place: { id: string }) => place.id);
+          expect(ids).toEqual(['hosp_008', 'park_007']);
+          expect(res.body.total).toBe(2);
+          expect(res.body.query).toMatchObject({ minLat: 40.77, maxLng: -73.94, limit: 10 });
         });
     });
+
+    it('should return 400 when minLat exceeds maxLat', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/bbox')
+        .query({ minLat: 40.80, minLng: -73.97, maxLat: 40.77, maxLng: -73.94 })
+        .expect(400);
+    });
   });
 
-  describe('/api/v1/discover/nearest (GET)', () => {
-    it('should find nearest place', () => {
+  describe('/api/v1/discover/within (POST)', () => {
+    const polygon = {
+      type: 'Polygon',
+      coordinates: [
+        [[-74.012, 40.705], [-74.000, 40.705], [-74.000, 40.7155], [-74.012, 40.7155], [-74.012, 40.705]],
+        [[-74.0055, 40.7125], [-74.0045, 40.7125], [-74.0045, 40.7135], [-74.0055, 40.7135], [-74.0055, 40.7125]],
+      ],
+    };
+
+    it('should return the places inside the polygon, excluding holes', () => {
       return request(app.getHttpServer())
-        .get('/api/v1/discover/nearest')
-        .query({
-          latitude: 40.7128,
-          longitude: -74.0060,
-        })
+        .post('/api/v1/discover/within')
+        .send({ polygon, limit: 50 })
         .expect(200)
         .expect((res) => {
-          expect(res.body).toHaveProperty('place');
-          if (res.body.place) {
-            expect(res.body.place).toHaveProperty('id');
-            expect(res.body.place).toHaveProperty('name');
-            expect(res.body.place).toHaveProperty('distance_km');
-          }
+          const ids = res.body.results.map((place: { id: string }) => place.id).sort();
+          expect(ids).toEqual(['bank_010', 'bar_003', 'cafe_002', 'gas_009', 'pharm_012', 'shop_004']);
+          expect(res.body.query.polygon).toEqual(polygon);
+        });
+    });
+
+    it('should apply filters inside the polygon', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/within')
+        .send({ polygon, category: 'cafe' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results.map((place: { id: string }) => place.id)).toEqual(['cafe_002']);
+        });
+    });
+
+    it('should return a FeatureCollection with format=geojson in the body', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/within')
+        .send({ polygon, category: 'cafe', format: 'geojson' })
+        .expect(200)
+        .expect('Content-Type', /application\/geo\+json/)
+        .expect((res) => {
+          expect(res.body.features.map((feature: { id: string }) => feature.id)).toEqual(['cafe_002']);
+          expect(res.body.query.polygon).toEqual(polygon);
         });
     });
+
+    it('should return 400 for a ring that is not closed', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/within')
+        .send({ polygon: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 1]]] } })
+        .expect(400);
+    });
+  });
+
+  describe('/api/v1/discover/along-route (POST)', () => {
+    const coordinates = [[-74.006, 40.700], [-74.006, 40.720]];
+
+    it('should return places in the corridor ordered along the route', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/along-route')
+        .send({ coordinates, corridor_km: 0.3, limit: 50 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results.map((place: { id: string }) => place.id)).toEqual([
+            'pharm_012', 'bar_003', 'rest_001', 'cafe_002', 'shop_004', 'hotel_005',
+          ]);
+          res.body.results.forEach((place: { distance_km: number }) => {
+            expect(place.distance_km).toBeLessThanOrEqual(0.3);
+          });
+          expect(res.body.results[0].route_position_km).toBeCloseTo(0.89, 1);
+          expect(res.body.query).toMatchObject({ coordinates, corridor_km: 0.3 });
+        });
+    });
+
+    it('should accept an encoded polyline and apply filters', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/along-route')
+        .send({ polyline: '_flwFnhubM_|B?', corridor_km: 0.3, category: 'cafe' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results.map((place: { id: string }) => place.id)).toEqual(['cafe_002']);
+        });
+    });
+
+    it('should return 400 for a malformed polyline', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/along-route')
+        .send({ polyline: '_flwFnhu' })
+        .expect(400);
+    });
+
+    it('should return 400 without a route', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/along-route')
+        .send({ corridor_km: 1 })
+        .expect(400);
+    });
+  });
+
+  describe('/api/v1/discover/suggest (GET)', () => {
+    it('should suggest place names and categories near the user', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/suggest')
+        .query({ prefix: 'ba', latitude: 40.7128, longitude: -74.0060, radius: 10, limit: 10 })
+        .expect(200)
+        .expect((res) => {
+          const texts = res.body.suggestions.map((suggestion: { text: string }) => suggestion.text);
+          expect(texts).toEqual(expect.arrayContaining(['Bar', 'Bank', 'Chase Bank']));
+          expect(res.body.suggestions).toContainEqual(
+            expect.objectContaining({ type: 'category', text: 'Bar', category: 'bar' }),
+          );
+          expect(res.body.query).toMatchObject({ prefix: 'ba', radius: 10, limit: 10 });
+        });
+    });
+
+    it('should return 400 without a prefix', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/suggest')
+        .query({ latitude: 40.7128, longitude: -74.0060 })
+        .expect(400);
+    });
+  });
+
+  describe('/api/v1/discover/categories (GET)', () => {
+    it('should return available categories', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/categories')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('categories');
+          expect(res.body).toHaveProperty('total');
+          expect(Array.isArray(res.body.categories)).toBe(true);
+          expect(res.body.categories.length).toBeGreaterThan(0);
+        });
+    });
+
+    it('should return the category tree with place counts', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/categories')
+        .expect(200)
+        .expect((res) => {
+          const shop = res.body.categories.find((node: { id: string }) => node.id === 'shop');
+          const restaurant = res.body.categories.find((node: { id: string }) => node.id === 'restaurant');
+          const italian = restaurant.children.find((node: { id: string }) => node.id === 'italian');
+
+          expect(shop).toMatchObject({ name: 'Shop', icon: 'storefront', parent: null, place_count: 1 });
+          expect(shop.children).toEqual(
+            expect.arrayContaining([expect.objectContaining({ id: 'bookstore', parent: 'shop', place_count: 1 })]),
+          );
+          expect(italian.children).toEqual([expect.objectContaining({ id: 'pizzeria', place_count: 0 })]);
+          expect(res.body.total).toBeGreaterThan(res.body.categories.length);
+        });
+    });
+  });
+
+  describe('/api/v1/discover/stats (GET)', () => {
+    it('should return service statistics', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/stats')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('dataStats');
+          expect(res.body).toHaveProperty('config');
+          expect(res.body.dataStats).toHaveProperty('totalPlaces');
+          expect(res.body.config).toHaveProperty('defaultRadius');
+          expect(res.body.cacheStats).toMatchObject({ enabled: true, hits: 0, misses: 0 });
+        });
+    });
+
+    it('should count discovery cache hits and misses', async () => {
+      const server = app.getHttpServer();
+
+      await request(server).get('/api/v1/discover').query({ latitude: 40.71281, longitude: -74.00601 }).expect(200);
+      await request(server).get('/api/v1/discover').query({ latitude: 40.71279, longitude: -74.00599 }).expect(200);
+      await request(server).get('/api/v1/discover').query({ latitude: 40.7128, longitude: -74.0060, category: 'bar' }).expect(200);
+
+      await request(server)
+        .get('/api/v1/discover/stats')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.cacheStats).toMatchObject({ hits: 1, misses: 2, entries: 2 });
+        });
+    });
+  });
+
+  describe('/api/v1/discover/nearest (GET)', () => {
+    it('should find nearest place', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/nearest')
+        .query({
+          latitude: 40.7128,
+          longitude: -74.0060,
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('place');
+          if (res.body.place) {
+            expect(res.body.place).toHaveProperty('id');
+            expect(res.body.place).toHaveProperty('name');
+            expect(res.body.place).toHaveProperty('distance_km');
+          }
+        });
+    });
+
+    it.each(['/api/v1/discover/nearest', '/api/v1/discover', '/api/v1/discover/duplicates'])(
+      'should return 400 for a repeated category parameter on %s',
+      (path) => {
+        return request(app.getHttpServer())
+          .get(`${path}?latitude=40.7128&longitude=-74.0060&category=cafe&category=bar`)
+          .expect(400)
+          .expect((res) => {
+            expect(JSON.stringify(res.body)).toContain('Category must be a string');
+          });
+      },
+    );
+
+    it('should return the nearest place as a FeatureCollection', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/nearest')
+        .query({ latitude: 40.7128, longitude: -74.0060, format: 'geojson' })
+        .expect(200)
+        .expect('Content-Type', /application\/geo\+json/)
+        .expect((res) => {
+          expect(res.body.type).toBe('FeatureCollection');
+          expect(res.body.features).toHaveLength(1);
+          expect(res.body.features[0].properties).toHaveProperty('distance_km');
+        });
+    });
+
+    it('should return the k nearest places closest first', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover/nearest')
+        .query({ latitude: 40.7128, longitude: -74.0060, k: 3 })
+        .expect(200);
+
+      const ids = res.body.results.map((place: { id: string }) => place.id);
+      expect(ids).toEqual(['rest_001', 'cafe_002', 'bar_003']);
+      expect(res.body.place.id).toBe('rest_001');
+      expect(res.body.total).toBe(3);
+      expect(res.body.query).toEqual({ latitude: 40.7128, longitude: -74.0060, k: 3, max_distance_km: 50 });
+    });
+
+    it('should match sub-categories of the category filter', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover/nearest')
+        .query({ latitude: 40.7128, longitude: -74.0060, category: 'shop' })
+        .expect(200);
+
+      expect(res.body.place).toMatchObject({ id: 'shop_004', category: 'bookstore' });
+    });
+
+    it('should return 404 when no place lies within max_distance_km', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/discover/nearest')
+        .query({ latitude: 0, longitude: 0, max_distance_km: 5 })
+        .expect(404);
+
+      expect(res.body).toMatchObject({ code: 'NO_PLACES_FOUND', max_distance_km: 5 });
+    });
+
+    it('should reject invalid coordinates, k and max_distance_km', async () => {
+      const server = app.getHttpServer();
+
+      await request(server).get('/api/v1/discover/nearest').query({ latitude: 'north', longitude: -74.0060 }).expect(400);
+      await request(server).get('/api/v1/discover/nearest').query({ latitude: 40.7128, longitude: -74.0060, k: 0 }).expect(400);
+      await request(server).get('/api/v1/discover/nearest').query({ latitude: 40.7128, longitude: -74.0060, k: 1.5 }).expect(400);
+      await request(server)
+        .get('/api/v1/discover/nearest')
+        .query({ latitude: 40.7128, longitude: -74.0060, max_distance_km: 80 })
+        .expect(400);
+    });
+  });
+
+  describe('/api/v1/discover/places (CRUD)', () => {
+    const newPlace = {
+      id: 'cafe_e2e',
+      name: 'E2E Espresso Bar',
+      category: 'cafe',
+      description: 'Tiny espresso counter used by the e2e suite.',
+      image_url: 'https://cdn.onspotx.ai/spots/e2e.jpg',
+      location: {
+        lat: 40.7129,
+        lng: -74.0061,
+        address: '1 Test Plaza, New York, NY 10007',
+      },
+    };
+
+    it('should create, read, update and delete a place', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send(newPlace)
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ ...newPlace, open_now: true });
+        });
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 1 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results[0].id).toBe('cafe_e2e');
+        });
+
+      await request(server)
+        .patch('/api/v1/discover/places/cafe_e2e')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'Renamed Espresso Bar', open_now: false })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.name).toBe('Renamed Espresso Bar');
+          expect(res.body.open_now).toBe(false);
+          expect(res.body.location).toEqual(newPlace.location);
+        });
+
+      await request(server)
+        .patch('/api/v1/discover/places/cafe_e2e')
+        .set('X-API-Key', adminKey)
+        .send({ rating: 5, rating_count: 1000 })
+        .expect(400)
+        .expect((res) => {
+          expect(JSON.stringify(res.body)).toContain('property rating should not exist');
+        });
+
+      await request(server)
+        .get('/api/v1/discover/places/cafe_e2e')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.name).toBe('Renamed Espresso Bar');
+        });
+
+      await request(server)
+        .delete('/api/v1/discover/places/cafe_e2e')
+        .set('X-API-Key', adminKey)
+        .expect(204);
+
+      await request(server)
+        .get('/api/v1/discover/places/cafe_e2e')
+        .expect(404);
+    });
+
+    it('should store sub-categories and normalized tags', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send({ ...newPlace, id: 'pizza_e2e', category: 'pizzeria', tags: ['Slices', ' late night', 'slices'] })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ category: 'pizzeria', tags: ['slices', 'late night'] });
+        });
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 1, category: 'restaurant', tags: 'late night' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results.map((place: { id: string }) => place.id)).toEqual(['pizza_e2e']);
+        });
+
+      await request(server)
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send({ ...newPlace, id: 'bad_tags_e2e', tags: ['ok', 'no/slashes'] })
+        .expect(400);
+
+      await request(server)
+        .delete('/api/v1/discover/places/pizza_e2e')
+        .set('X-API-Key', adminKey)
+        .expect(204);
+    });
+
+    it('should return 404 for an unknown place', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover/places/does_not_exist')
+        .expect(404);
+    });
+
+    it('should return 409 when the ID is already taken', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send({ ...newPlace, id: 'rest_001' })
+        .expect(409);
+    });
+
+    it('should return 400 for invalid place fields', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send({ ...newPlace, category: 'spaceport', location: { lat: 100, lng: 0, address: 'x' } })
+        .expect(400);
+    });
+  });
+
+  describe('/api/v1/api-keys', () => {
+    it('should issue keys whose plan sets the discovery rate limits', async () => {
+      const server = app.getHttpServer();
+      const query = { latitude: 40.7128, longitude: -74.0060 };
+
+      const created = await request(server)
+        .post('/api/v1/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'CityGuide iOS', tier: 'partner' })
+        .expect(201);
+      expect(created.body).toMatchObject({ name: 'CityGuide iOS', tier: 'partner', admin: false });
+      expect(created.body.key_hash).toBeUndefined();
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query(query)
+        .set('X-API-Key', created.body.key)
+        .expect(200)
+        .expect('X-RateLimit-Limit-short', '50')
+        .expect('X-RateLimit-Limit-medium', '1000');
+
+      // Anonymous requests keep the global limits
+      await request(server)
+        .get('/api/v1/discover')
+        .query(query)
+        .expect(200)
+        .expect('X-RateLimit-Limit-short', '10');
+
+      await request(server)
+        .get('/api/v1/api-keys')
+        .set('X-API-Key', adminKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.map((apiKey: { id: string }) => apiKey.id)).toEqual([created.body.id]);
+        });
+
+      await request(server)
+        .delete(`/api/v1/api-keys/${created.body.id}`)
+        .set('X-API-Key', adminKey)
+        .expect(204);
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query(query)
+        .set('X-API-Key', created.body.key)
+        .expect(401);
+    });
+
+    it('should only let admin keys manage keys', async () => {
+      const server = app.getHttpServer();
+
+      await request(server).get('/api/v1/api-keys').expect(401);
+      await request(server).get('/api/v1/api-keys').set('X-API-Key', 'wrong').expect(401);
+
+      const created = await request(server)
+        .post('/api/v1/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'Partner' })
+        .expect(201);
+
+      await request(server)
+        .get('/api/v1/api-keys')
+        .set('X-API-Key', created.body.key)
+        .expect(403);
+    });
+
+    it('should return 400 for an unknown tier and 404 for an unknown key', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'Partner', tier: 'platinum' })
+        .expect(400);
+
+      await request(server)
+        .patch('/api/v1/api-keys/missing')
+        .set('X-API-Key', adminKey)
+        .send({ tier: 'free' })
+        .expect(404);
+    });
+  });
+
+  describe('rate limiting', () => {
+    beforeAll(() => {
+      process.env.RATE_LIMIT_TTL = '30';
+      process.env.RATE_LIMIT_MAX = '3';
+    });
+
+    afterAll(() => {
+      delete process.env.RATE_LIMIT_TTL;
+      delete process.env.RATE_LIMIT_MAX;
+    });
+
+    it('should apply RATE_LIMIT_TTL and RATE_LIMIT_MAX to the medium bucket', async () => {
+      const server = app.getHttpServer();
+      const query = { latitude: 40.7128, longitude: -74.0060 };
+
+      for (let remaining = 2; remaining >= 0; remaining--) {
+        await request(server)
+          .get('/api/v1/discover')
+          .query(query)
+          .expect(200)
+          .expect('X-RateLimit-Limit-medium', '3')
+          .expect('X-RateLimit-Remaining-medium', String(remaining));
+      }
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query(query)
+        .expect(429);
+
+      await request(server)
+        .get('/metrics')
+        .expect(200)
+        .expect((res) => {
+          expect(res.text).toContain('throttler_rejections_total{route="/api/v1/discover",throttler="medium"} 1');
+        });
+    });
+  });
+
+  describe('API key enforcement', () => {
+    type Server = ReturnType<INestApplication['getHttpServer']>;
+    const catalogueChanges: [string, (server: Server) => request.Test][] = [
+      ['create a place', (server): request.Test => request(server).post('/api/v1/discover/places').send({})],
+      ['update a place', (server): request.Test => request(server).patch('/api/v1/discover/places/rest_001').send({ name: 'Renamed' })],
+      ['delete a place', (server): request.Test => request(server).delete('/api/v1/discover/places/rest_001')],
+      ['import places', (server): request.Test => request(server).post('/api/v1/discover/places/import').attach('file', Buffer.from('id\n'), 'places.csv')],
+      ['merge duplicates', (server): request.Test => request(server).post('/api/v1/discover/duplicates/merge').send({ primary_id: 'rest_001', duplicate_ids: ['cafe_002'] })],
+    ];
+
+    it.each(catalogueChanges)('should require an admin key to %s', async (_name, send) => {
+      const server = app.getHttpServer();
+      const partner = await request(server)
+        .post('/api/v1/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'Partner', tier: 'partner' })
+        .expect(201);
+
+      await send(server).expect(401);
+      await send(server).set('X-API-Key', partner.body.key).expect(403);
+      await request(server).get('/api/v1/discover/places/rest_001').expect(200);
+      await request(server).get('/api/v1/discover/places/cafe_002').expect(200);
+    });
+
+    describe('with API_KEY_REQUIRED', () => {
+      beforeAll(() => {
+        process.env.API_KEY_REQUIRED = 'true';
+      });
+
+      afterAll(() => {
+        delete process.env.API_KEY_REQUIRED;
+      });
+
+      it.each([
+        '/api/v1/discover/places/rest_001',
+        '/api/v1/discover/places/rest_001/reviews',
+        '/api/v1/discover/duplicates',
+      ])('should reject GET %s without a key', async (path) => {
+        await request(app.getHttpServer()).get(path).expect(401);
+        await request(app.getHttpServer()).get(path).set('X-API-Key', adminKey).expect(200);
+      });
+
+      it('should reject reviews, accounts and favorites without a key', async () => {
+        const server = app.getHttpServer();
+
+        await request(server)
+          .post('/api/v1/discover/places/rest_001/reviews')
+          .send({ rating: 5, text: 'Great pasta.' })
+          .expect(401);
+        await request(server)
+          .post('/api/v1/auth/signup')
+          .send({ email: 'nokey@example.com', password: 'correct horse battery', name: 'No Key' })
+          .expect(401);
+        await request(server).get('/api/v1/me/favorites').expect(401);
+      });
+    });
+  });
+
+  describe('/api/v1/discover/places/:id/reviews', () => {
+    it('should add reviews and fold their ratings into the place', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/discover/places')
+        .set('X-API-Key', adminKey)
+        .send({
+          id: 'cafe_reviews',
+          name: 'Review Roasters',
+          category: 'cafe',
+          description: 'Unrated cafe used by the e2e suite.',
+          image_url: 'https://cdn.onspotx.ai/spots/e2e.jpg',
+          location: { lat: 40.7129, lng: -74.0061, address: '1 Test Plaza, New York, NY 10007' },
+        })
+        .expect(201);
+
+      await request(server)
+        .post('/api/v1/discover/places/cafe_reviews/reviews')
+        .send({ rating: 5, text: '  Best cortado in town ', author: 'Maria' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ place_id: 'cafe_reviews', rating: 5, text: 'Best cortado in town' });
+          expect(res.body.id).toBeDefined();
+        });
+      await request(server)
+        .post('/api/v1/discover/places/cafe_reviews/reviews')
+        .send({ rating: 4, text: 'Good, but busy' })
+        .expect(201);
+
+      await request(server)
+        .get('/api/v1/discover/places/cafe_reviews/reviews')
+        .query({ limit: 1 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ place_id: 'cafe_reviews', rating: 4.5, rating_count: 2, total: 2 });
+          expect(res.body.results.map((review: { text: string }) => review.text)).toEqual(['Good, but busy']);
+          expect(res.body.next_cursor).toEqual(expect.any(String));
+        });
+
+      await request(server)
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 1, min_rating: 4.5 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results[0]).toMatchObject({ id: 'cafe_reviews', rating: 4.5, review_count: 2 });
+        });
+    });
+
+    it('should return 400 for invalid reviews', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/discover/places/rest_001/reviews')
+        .send({ rating: 4.5, text: 'Half stars' })
+        .expect(400);
+      await request(server)
+        .post('/api/v1/discover/places/rest_001/reviews')
+        .send({ rating: 4, text: '   ' })
+        .expect(400);
+      await request(server)
+        .get('/api/v1/discover/places/rest_001/reviews')
+        .query({ cursor: 'not-a-cursor' })
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown place', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/discover/places/does_not_exist/reviews')
+        .send({ rating: 4, text: 'Nice' })
+        .expect(404);
+      await request(server)
+        .get('/api/v1/discover/places/does_not_exist/reviews')
+        .expect(404);
+    });
+  });
+
+  describe('/api/v1/auth and /api/v1/me/favorites', () => {
+    it('should sign up, log in and manage saved places', async () => {
+      const server = app.getHttpServer();
+
+      await request(server)
+        .post('/api/v1/auth/signup')
+        .send({ email: ' Ana@Example.com ', password: 'correct horse', name: 'Ana' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ token_type: 'Bearer', user: { email: 'ana@example.com', name: 'Ana' } });
+          expect(res.body.user).not.toHaveProperty('password_hash');
+        });
+
+      const login = await request(server)
+        .post('/api/v1/auth/login')
+        .send({ email: 'ana@example.com', password: 'correct horse' })
+        .expect(200);
+      const bearer = `Bearer ${login.body.access_token}`;
+
+      await request(server)
+        .put('/api/v1/me/favorites/cafe_002')
+        .set('Authorization', bearer)
+        .expect(204);
+      await request(server)
+        .put('/api/v1/me/favorites/cafe_002')
+        .set('Authorization', bearer)
+        .expect(204);
+
+      await request(server)
+        .get('/api/v1/me/favorites')
+        .set('Authorization', bearer)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual({ place_ids: ['cafe_002'], total: 1 });
+        });
+
+      await request(server)
+        .get('/api/v1/discover')
+        .set('Authorization', bearer)
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 5 })
+        .expect(200)
+        .expect((res) => {
+          const flags = res.body.results.map((place: { id: string; is_favorite: boolean }) => [place.id, place.is_favorite]);
+          expect(flags).toContainEqual(['cafe_002', true]);
+          expect(flags).toContainEqual(['rest_001', false]);
+        });
+
+      await request(server)
+        .delete('/api/v1/me/favorites/cafe_002')
+        .set('Authorization', bearer)
+        .expect(204);
+      await request(server)
+        .delete('/api/v1/me/favorites/cafe_002')
+        .set('Authorization', bearer)
+        .expect(404);
+    });
+
+    it('should leave is_favorite out of anonymous discovery', () => {
+      return request(app.getHttpServer())
+        .get('/api/v1/discover')
+        .query({ latitude: 40.7128, longitude: -74.0060, radius: 5 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results[0]).not.toHaveProperty('is_favorite');
+        });
+    });
+
+    it('should reject missing or invalid tokens and wrong passwords', async () => {
+      const server = app.getHttpServer();
+
+      await request(server).get('/api/v1/me/favorites').expect(401);
+      await request(server)
+        .get('/api/v1/me/favorites')
+        .set('Authorization', 'Bearer not-a-token')
+        .expect(401);
+      await request(server)
+        .get('/api/v1/discover')
+        .set('Authorization', 'Bearer not-a-token')
+        .query({ latitude: 40.7128, longitude: -74.0060 })
+        .expect(401);
+
+      await request(server)
+        .post('/api/v1/auth/signup')
+        .send({ email: 'ben@example.com', password: 'correct horse' })
+        .expect(201);
+      await request(server)
+        .post('/api/v1/auth/signup')
+        .send({ email: 'ben@example.com', password: 'another one' })
+        .expect(409);
+      await request(server)
+        .post('/api/v1/auth/login')
+        .send({ email: 'ben@example.com', password: 'wrong horse' })
+        .expect(401);
+      await request(server)
+        .post('/api/v1/auth/signup')
+        .send({ email: 'not-an-email', password: 'short' })
+        .expect(400);
+    });
+
+    it('should return 404 when saving an unknown place', async () => {
+      const server = app.getHttpServer();
+      const signup = await request(server)
+        .post('/api/v1/auth/signup')
+        .send({ email: 'cy@example.com', password: 'correct horse' })
+        .expect(201);
+
+      await request(server)
+        .put('/api/v1/me/favorites/does_not_exist')
+        .set('Authorization', `Bearer ${signup.body.access_token}`)
+        .expect(404);
+    });
+  });
+
+  describe('/api/v1/discover/duplicates', () => {
+    const duplicate = {
+      id: 'src2_cafe',
+      name: 'Blue Botle Coffee',
+      category: 'cafe',
+      description: '',
+      image_url: 'https://cdn.onspotx.ai/spots/bluebottle.jpg',
+      location: { lat: 40.71412, lng: -74.0070, address: '1 Main St, New York, NY' },
+    };
+
+    it('should list duplicate clusters and merge them, keeping a redirect', async () => {
+      const server = app.getHttpServer();
+
+      await request(server).post('/api/v1/discover/places').set('X-API-Key', adminKey).send(duplicate).expect(201);
+
+      const review = await request(server).get('/api/v1/discover/duplicates').expect(200);
+      expect(review.body.total).toBe(1);
+      expect(review.body.clusters[0]).toMatchObject({
+        primary_id: 'cafe_002',
+        pairs: [{ ids: ['cafe_002', 'src2_cafe'] }],
+      });
+
+      await request(server)
+        .post('/api/v1/discover/duplicates/merge')
+        .set('X-API-Key', adminKey)
+        .send({ primary_id: 'cafe_002', duplicate_ids: ['src2_cafe'] })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ place: { id: 'cafe_002' }, merged_ids: ['src2_cafe'] });
+        });
+
+      await request(server)
+        .get('/api/v1/discover/places/src2_cafe')
+        .expect(200)
+        .expect('Content-Location', 'cafe_002')
+        .expect((res) => {
+          expect(res.body.id).toBe('cafe_002');
+        });
+    });
+
+    it('should return 404 when merging an unknown place', () => {
+      return request(app.getHttpServer())
+        .post('/api/v1/discover/duplicates/merge')
+        .set('X-API-Key', adminKey)
+        .send({ primary_id: 'cafe_002', duplicate_ids: ['missing'] })
+        .expect(404);
+    });
+  });
+
+  describe('/api/v1/discover/places/import (POST)', () => {
+    const csv = [
+      'id,name,category,lat,lng,address,image_url',
+      'imp_001,Joe\'s Pizza,restaurant,40.7306,-74.0021,7 Carmine St,https://example.com/joe.jpg',
+      'imp_002,Moon Port,spaceport,40.73,-74.0,1 Main St,https://example.com/moon.jpg',
+      'rest_001,Trattoria Alfredo,restaurant,40.7130,-74.0050,123 Main St,https://example.com/t.jpg',
+    ].join('\n');
+
+    it('should report what a dry run would change without writing', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/discover/places/import')
+        .set('X-API-Key', adminKey)
+        .query({ dry_run: true })
+        .attach('file', Buffer.from(csv), 'places.csv')
+        .expect(200);
+
+      expect(res.body).toMatchObject({
+        format: 'csv',
+        dry_run: true,
+        total: 3,
+        created: 1,
+        skipped: 1,
+        failed: 1,
+        errors: [{ row: 2, id: 'imp_002' }],
+      });
+
+      await request(app.getHttpServer())
+        .get('/api/v1/discover/places/imp_001')
+        .expect(404);
+    });
+
+    it('should import valid rows into the store', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/discover/places/import')
+        .set('X-API-Key', adminKey)
+        .attach('file', Buffer.from(csv), 'places.csv')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ dry_run: false, created: 1, failed: 1 });
+        });
+
+      await request(app.getHttpServer())
+        .get('/api/v1/discover/places/imp_001')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.name).toBe('Joe\'s Pizza');
+        });
+    });
+
+    it('should return 400 without a file or for an unreadable file', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/discover/places/import')
+        .set('X-API-Key', adminKey)
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/discover/places/import')
+        .set('X-API-Key', adminKey)
+        .attach('file', Buffer.from('{"type":"Feature"'), 'places.geojson')
+        .expect(400);
+    });
   });
-}); 
\ No newline at end of file
+});